@@ -0,0 +1,53 @@
+// Service worker: shows Web Push messages sent by the 'send-push' edge function and opens their route when tapped.
+// Payloads are JSON: { title, body?, url, tag }.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let message;
+  try {
+    message = event.data.json();
+  } catch {
+    return;
+  }
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // A visible window already shows the update in the app
+      if (windows.some((client) => client.visibilityState === 'visible')) return;
+
+      return self.registration.showNotification(message.title, {
+        body: message.body,
+        tag: message.tag,
+        renotify: true,
+        icon: '/logo.png',
+        badge: '/logo.png',
+        data: { url: message.url },
+      });
+    }),
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const client = windows.find((window) => new URL(window.url).origin === self.location.origin);
+      if (!client) return self.clients.openWindow(url);
+
+      // The app navigates itself (see usePushNavigation), keeping its state instead of reloading
+      client.postMessage({ type: 'push-navigate', url });
+      return client.focus();
+    }),
+  );
+});
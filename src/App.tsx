@@ -2,11 +2,14 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { lazy, Suspense } from 'react';
 import { ChatProvider } from "./providers/ChatContext";
+import { EncryptionProvider } from "./providers/EncryptionContext";
 import { NotificationProvider } from "./providers/NotificationContext";
+import { PresenceProvider } from "./providers/PresenceContext";
 import { useAuth } from "./providers/SupabaseAuthContext";
 import { Toaster } from "@/components/ui/Toaster";
 import { AppSkeleton } from "./components/skeletons/AppSkeleton";
 import ErrorBoundary from "@/components/ErrorBoundary";
+import { usePushNavigation } from "@/hooks/use-push-navigation";
 
 // Lazy load components
 const Home = lazy(() => import("./features/posts/pages/Home"));
@@ -19,6 +22,7 @@ const ChatConversation = lazy(() => import("./features/chat/pages/ChatConversati
 const SupabaseAuth = lazy(() => import("./features/auth/pages/SupabaseAuth"));
 const NotFound = lazy(() => import("./pages/error/NotFound"));
 const PostDetail = lazy(() => import("./features/posts/pages/PostDetail"));
+const Hashtag = lazy(() => import("./features/hashtags/pages/Hashtag"));
 const queryClient = new QueryClient();
 
 const AuthRequiredWrapper = ({ children }: { children: React.ReactNode; }) => {
@@ -40,14 +44,22 @@ const AuthRequiredWrapper = ({ children }: { children: React.ReactNode; }) => {
   return <>{children}</>;
 };
 
+const PushNavigation = () => {
+  usePushNavigation();
+  return null;
+};
+
 const App = () => {
   console.log('App: Rendering App component');
   return (
     <ErrorBoundary>
       <QueryClientProvider client={queryClient}>
+        <EncryptionProvider>
         <ChatProvider>
+          <PresenceProvider>
           <NotificationProvider>
               <BrowserRouter>
+                <PushNavigation />
                 <Suspense fallback={<AppSkeleton />}>
                   <Routes>
                     <Route path="/auth" element={<SupabaseAuth />} />
@@ -56,6 +68,7 @@ const App = () => {
                     <Route path="/profile" element={<AuthRequiredWrapper><Profile /></AuthRequiredWrapper>} />
                     <Route path="/post/:id" element={<AuthRequiredWrapper><PostDetail /></AuthRequiredWrapper>} />
                     <Route path="/search" element={<AuthRequiredWrapper><SearchResults /></AuthRequiredWrapper>} />
+                    <Route path="/tag/:name" element={<AuthRequiredWrapper><Hashtag /></AuthRequiredWrapper>} />
                     <Route path="/notifications" element={<AuthRequiredWrapper><Notifications /></AuthRequiredWrapper>} />
                     <Route path="/chats" element={<AuthRequiredWrapper><Chats /></AuthRequiredWrapper>} />
                     <Route path="/chats/:chatId" element={<AuthRequiredWrapper><ChatConversation /></AuthRequiredWrapper>} />
@@ -65,8 +78,10 @@ const App = () => {
                 </Suspense>
               </BrowserRouter>
           </NotificationProvider>
+          </PresenceProvider>
           <Toaster />
         </ChatProvider>
+        </EncryptionProvider>
       </QueryClientProvider>
     </ErrorBoundary>
   );
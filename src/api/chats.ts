@@ -0,0 +1,380 @@
+import { supabase } from "../lib/supabase";
+import { ChatRole, Message } from "../types";
+import type { UploadedChatAttachment } from "./storage";
+
+/**
+ * Participant fields selected with every chat (members list, roles and profiles).
+ */
+export const CHAT_PARTICIPANTS_SELECT = `
+  chat_participants (
+    id, user_id, role, joined_at, last_read_at, last_delivered_at,
+    profiles (display_name, username, verified, avatar_url, last_seen_at)
+  )
+`;
+
+/**
+ * Attachment fields selected with every message. Embeds come back unordered; sort by position before display.
+ */
+export const MESSAGE_ATTACHMENTS_SELECT = `
+  attachments:message_attachments (
+    id, message_id, chat_id, user_id, storage_path, attachment_type, file_name, mime_type, size_bytes,
+    width, height, duration_seconds, blurhash, position, created_at
+  )
+`;
+
+/**
+ * Message fields selected wherever messages are shown: the row, its sender's profile and its attachments.
+ */
+export const MESSAGE_SELECT = `
+  id, created_at, chat_id, sender_id, content, is_read, message_type, metadata,
+  edited_at, deleted_at, reply_to_id, is_encrypted,
+  sender:profiles (display_name, username, verified, avatar_url),
+  ${MESSAGE_ATTACHMENTS_SELECT},
+  reply_to:messages!reply_to_id (
+    id, content, sender_id, message_type, deleted_at, is_encrypted,
+    sender:profiles (display_name),
+    attachments:message_attachments (attachment_type, file_name)
+  ),
+  reactions:message_reactions (message_id, user_id, emoji, chat_id, created_at)
+`;
+
+// Messages per page of chat history
+export const MESSAGE_PAGE_SIZE = 30;
+
+/**
+ * Keyset cursor for chat history. Pages are loaded newest first in (created_at, id) order,
+ * so a cursor points at the oldest message loaded so far.
+ */
+export interface MessageCursor {
+  created_at: string;
+  id: string;
+}
+
+/**
+ * A page of chat history in chronological order, with the cursor for the next (older) page, or null at the start of the chat.
+ */
+export interface MessagePage {
+  messages: Message[];
+  olderCursor: MessageCursor | null;
+}
+
+/**
+ * Fetches a page of a chat's history: the newest messages first, then older pages by cursor.
+ * @param chatId The chat to load.
+ * @param cursor The olderCursor of the previous page, or null for the latest messages.
+ * @param limit The maximum number of messages to return.
+ */
+export async function fetchChatMessagesPage(chatId: string, cursor: MessageCursor | null = null, limit: number = MESSAGE_PAGE_SIZE): Promise<MessagePage> {
+  let query = supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (cursor) {
+    // Quoted since timestamps contain ':' and '+'
+    query = query.or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt."${cursor.id}")`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows = data as unknown as Message[];
+  const messages = rows.slice(0, limit).reverse();
+  const oldest = messages[0];
+  return {
+    messages,
+    olderCursor: rows.length > limit && oldest ? { created_at: oldest.created_at, id: oldest.id } : null,
+  };
+}
+
+/**
+ * Fetches a single message with its sender and attachments, e.g. to complete a realtime row.
+ * @param messageId The message to load.
+ * @returns The message, or null when it no longer exists or can't be read.
+ */
+export async function fetchChatMessage(messageId: string): Promise<Message | null> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as unknown as Message | null;
+}
+
+/**
+ * Sends a message with optional attachments. The message and its attachment rows are stored in one transaction.
+ * @param chatId The chat to send to.
+ * @param content The message text; may be empty when there are attachments.
+ * @param attachments Files already uploaded with uploadChatAttachment, in display order.
+ * @param replyToId The message being replied to, if any; it must be in the same chat.
+ * @param isEncrypted Whether content is an encrypted envelope; required in encrypted chats, which take no attachments.
+ * @returns The message ID.
+ */
+export async function sendChatMessage(
+  chatId: string,
+  content: string,
+  attachments: UploadedChatAttachment[] = [],
+  replyToId: string | null = null,
+  isEncrypted: boolean = false
+): Promise<string> {
+  const { data, error } = await supabase.rpc('send_chat_message', {
+    _chat_id: chatId,
+    _content: content,
+    _attachments: attachments,
+    _reply_to_id: replyToId,
+    _is_encrypted: isEncrypted,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as string;
+}
+
+/**
+ * Whether a chat is end-to-end encrypted, and who is in it, read fresh before sending so a message never goes out
+ * in plaintext after the other person turned encryption on.
+ * @param chatId The chat to check.
+ */
+export async function fetchChatEncryption(chatId: string): Promise<{ isEncrypted: boolean; memberIds: string[] }> {
+  const { data, error } = await supabase
+    .from('chats')
+    .select('is_encrypted, chat_participants (user_id)')
+    .eq('id', chatId)
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return {
+    isEncrypted: data.is_encrypted,
+    memberIds: (data.chat_participants as { user_id: string }[]).map(({ user_id }) => user_id),
+  };
+}
+
+/**
+ * Turns end-to-end encryption on or off for a direct chat, announcing it with a system message.
+ * Turning it on requires both people to have published a device key.
+ * @param chatId The ID of the direct chat.
+ * @param enabled The new setting.
+ */
+export async function setChatEncryption(chatId: string, enabled: boolean): Promise<void> {
+  const { error } = await supabase.rpc('set_chat_encryption', { _chat_id: chatId, _enabled: enabled });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Changes the text of one of the current user's messages. Only allowed within MESSAGE_EDIT_WINDOW_MINUTES of sending.
+ * Messages and edits must match the chat's current encryption setting.
+ * @param messageId The message to edit.
+ * @param content The new text, or its envelope in encrypted chats.
+ * @param isEncrypted Whether content is an envelope.
+ */
+export async function editChatMessage(messageId: string, content: string, isEncrypted: boolean = false): Promise<void> {
+  const { error } = await supabase.rpc('edit_chat_message', { _message_id: messageId, _content: content, _is_encrypted: isEncrypted });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Deletes one of the current user's messages for everyone, leaving a tombstone in the conversation.
+ * @param messageId The message to delete.
+ * @returns Storage paths of the message's attachments, which the caller should remove from the bucket.
+ */
+export async function deleteChatMessageForEveryone(messageId: string): Promise<string[]> {
+  const { data, error } = await supabase.rpc('delete_chat_message', { _message_id: messageId });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data as string[] | null) ?? [];
+}
+
+/**
+ * Hides a message for the current user only; everyone else still sees it.
+ * @param messageId The message to hide.
+ */
+export async function deleteChatMessageForMe(messageId: string): Promise<void> {
+  const { error } = await supabase
+    .from('hidden_messages')
+    .insert({ message_id: messageId });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Adds the current user's reaction to a message. Reacting twice with the same emoji is a no-op.
+ * @param message The message to react to.
+ * @param emoji The reaction.
+ */
+export async function addMessageReaction(message: { id: string; chat_id: string }, emoji: string): Promise<void> {
+  const { error } = await supabase
+    .from('message_reactions')
+    .upsert({ message_id: message.id, chat_id: message.chat_id, emoji }, { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Removes the current user's reaction from a message.
+ * @param messageId The message the reaction is on.
+ * @param userId The current user's ID.
+ * @param emoji The reaction to remove.
+ */
+export async function removeMessageReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+  const { error } = await supabase
+    .from('message_reactions')
+    .delete()
+    .eq('message_id', messageId)
+    .eq('user_id', userId)
+    .eq('emoji', emoji);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Returns the 1:1 chat between the current user and another user, creating it on first contact.
+ * @param otherUserId The profile ID of the person to chat with.
+ * @returns The chat ID.
+ */
+export async function createDirectChat(otherUserId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_direct_chat', { other_user: otherUserId });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as string;
+}
+
+/**
+ * Creates a group chat owned by the current user.
+ * @param name The group name (1-100 characters).
+ * @param memberIds Profile IDs of the other members; at least one is required.
+ * @returns The chat ID.
+ */
+export async function createGroupChat(name: string, memberIds: string[]): Promise<string> {
+  const { data, error } = await supabase.rpc('create_group_chat', { _name: name, _member_ids: memberIds });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as string;
+}
+
+/**
+ * Renames a group chat. Owners and admins only.
+ * @param chatId The ID of the group chat.
+ * @param name The new name (1-100 characters).
+ */
+export async function renameGroupChat(chatId: string, name: string): Promise<void> {
+  const { error } = await supabase.rpc('rename_group_chat', { _chat_id: chatId, _name: name });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Adds people to a group chat. Owners and admins only; people already in the chat are skipped.
+ * @param chatId The ID of the group chat.
+ * @param userIds Profile IDs of the people to add.
+ */
+export async function addChatMembers(chatId: string, userIds: string[]): Promise<void> {
+  const { error } = await supabase.rpc('add_chat_members', { _chat_id: chatId, _user_ids: userIds });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Removes someone from a group chat. Owners can remove anyone; admins only plain members.
+ * @param chatId The ID of the group chat.
+ * @param userId The profile ID of the member to remove.
+ */
+export async function removeChatMember(chatId: string, userId: string): Promise<void> {
+  const { error } = await supabase.rpc('remove_chat_member', { _chat_id: chatId, _user_id: userId });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Promotes a member to admin or demotes an admin. Owner only.
+ * @param chatId The ID of the group chat.
+ * @param userId The profile ID of the member.
+ * @param role The new role.
+ */
+export async function setChatMemberRole(chatId: string, userId: string, role: Exclude<ChatRole, 'owner'>): Promise<void> {
+  const { error } = await supabase.rpc('set_chat_member_role', { _chat_id: chatId, _user_id: userId, _role: role });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Leaves a group chat. If the owner leaves, ownership passes to the longest-serving admin (or member).
+ * @param chatId The ID of the group chat.
+ */
+export async function leaveChat(chatId: string): Promise<void> {
+  const { error } = await supabase.rpc('leave_chat', { _chat_id: chatId });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Marks a chat as read (and delivered) for the current user, using the server's clock.
+ * @param chatId The ID of the chat.
+ * @returns The current user's last_read_at after the update.
+ */
+export async function markChatRead(chatId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('mark_chat_read', { _chat_id: chatId });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as string | null;
+}
+
+/**
+ * Marks every chat with new messages from others as delivered to the current user.
+ */
+export async function markChatsDelivered(): Promise<void> {
+  const { error } = await supabase.rpc('mark_chats_delivered');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
@@ -0,0 +1,113 @@
+import { supabase } from "../lib/supabase";
+import { Comment, CommentLike, Profile } from "../types";
+
+export type ThreadComment = Comment & {
+  profiles: Pick<Profile, 'id' | 'username' | 'display_name' | 'avatar_url'> & { verified?: boolean };
+  comment_likes: Pick<CommentLike, 'id' | 'user_id'>[];
+};
+
+const COMMENT_SELECT = `
+  *,
+  profiles(id, username, display_name, verified, avatar_url),
+  comment_likes(id, user_id)
+`;
+
+/**
+ * Fetches every comment on a ping (top-level comments and replies) in chronological order.
+ * The thread structure is rebuilt on the client with buildCommentTree.
+ * @param pingId The ID of the ping whose comments to fetch.
+ */
+export async function fetchComments(pingId: string): Promise<ThreadComment[]> {
+  const { data, error } = await supabase
+    .from('comments')
+    .select(COMMENT_SELECT)
+    .eq('ping_id', pingId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as unknown as ThreadComment[];
+}
+
+/**
+ * Fetches a single comment by ID with its author and likes.
+ * @param commentId The ID of the comment to fetch.
+ */
+export async function getComment(commentId: string): Promise<ThreadComment> {
+  const { data, error } = await supabase
+    .from('comments')
+    .select(COMMENT_SELECT)
+    .eq('id', commentId)
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as unknown as ThreadComment;
+}
+
+/**
+ * Creates a comment on a ping, or a reply when parent_comment_id is given.
+ * @param ping_id The ID of the ping being commented on.
+ * @param content The text content of the comment.
+ * @param parent_comment_id Optional ID of the comment being replied to.
+ */
+export async function createComment({
+  ping_id,
+  content,
+  parent_comment_id,
+}: {
+  ping_id: string;
+  content: string;
+  parent_comment_id?: string | null;
+}): Promise<ThreadComment> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated.');
+  }
+
+  const { data, error } = await supabase
+    .from('comments')
+    .insert({ ping_id, user_id: user.id, content, parent_comment_id: parent_comment_id ?? null })
+    .select(COMMENT_SELECT)
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as unknown as ThreadComment;
+}
+
+/**
+ * Toggles a like for a comment.
+ * @param comment_id The ID of the comment to like/unlike.
+ * @param is_liked Current like status.
+ */
+export async function toggleCommentLike(comment_id: string, is_liked: boolean) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated.');
+  }
+
+  if (is_liked) {
+    // Unlike: delete the like
+    const { error } = await supabase
+      .from('comment_likes')
+      .delete()
+      .eq('comment_id', comment_id)
+      .eq('user_id', user.id);
+
+    if (error) throw new Error(error.message);
+  } else {
+    // Like: insert a new like
+    const { error } = await supabase
+      .from('comment_likes')
+      .insert({ comment_id, user_id: user.id });
+
+    if (error) throw new Error(error.message);
+  }
+}
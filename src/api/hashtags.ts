@@ -0,0 +1,25 @@
+import { supabase } from "../lib/supabase";
+
+/**
+ * A hashtag with how many pings used it in the last 24 hours and the last 7 days.
+ */
+export interface TrendingHashtag {
+  name: string;
+  count_24h: number;
+  count_7d: number;
+}
+
+/**
+ * Fetches the hashtags trending right now (see get_trending_hashtags): ranked by use in the
+ * last 24 hours, then the last 7 days.
+ * @param limit The maximum number of hashtags to return.
+ */
+export async function fetchTrendingHashtags(limit: number = 5): Promise<TrendingHashtag[]> {
+  const { data, error } = await supabase.rpc('get_trending_hashtags', { _limit: limit });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as TrendingHashtag[];
+}
@@ -0,0 +1,59 @@
+import { supabase } from "../lib/supabase";
+import { DeviceKey } from "../types";
+
+/**
+ * Publishes this device's public key on the current user's profile.
+ * @param publicKey The device's ECDH public key as a JWK.
+ * @returns The device key ID, which identifies this device in encrypted messages.
+ */
+export async function publishDeviceKey(publicKey: JsonWebKey): Promise<string> {
+  const { data, error } = await supabase
+    .from('device_keys')
+    .insert({ public_key: publicKey })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data.id as string;
+}
+
+/**
+ * Fetches the published device keys of some users, e.g. everyone in a chat.
+ * @param userIds The users whose devices to look up.
+ */
+export async function fetchDeviceKeys(userIds: string[]): Promise<DeviceKey[]> {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('device_keys')
+    .select('id, user_id, public_key, created_at')
+    .in('user_id', userIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as DeviceKey[];
+}
+
+/**
+ * Fetches one device key by ID, e.g. the sending device of an encrypted message.
+ * @param deviceKeyId The device key ID.
+ * @returns The key, or null when there is no such device.
+ */
+export async function fetchDeviceKey(deviceKeyId: string): Promise<DeviceKey | null> {
+  const { data, error } = await supabase
+    .from('device_keys')
+    .select('id, user_id, public_key, created_at')
+    .eq('id', deviceKeyId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as DeviceKey | null;
+}
@@ -0,0 +1,57 @@
+import { supabase } from "../lib/supabase";
+import { LinkPreview } from "../types";
+
+const LINK_PREVIEW_SELECT = 'url, title, description, image_url, site_name';
+
+// Normalized URL -> preview lookup. Shared by every card on the page so each URL is requested once per session.
+const previewCache = new Map<string, Promise<LinkPreview | null>>();
+
+// Mirrors normalizeUrl in supabase/functions/_shared/unfurl.ts so cache keys match the table's
+function normalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetches the preview for a URL. Cached previews are read straight from 'link_previews';
+ * unknown URLs go through the 'unfurl' edge function, which fetches the page once and stores the result.
+ * @param url A link found in a ping.
+ * @returns The preview, or null for invalid URLs.
+ */
+export function getLinkPreview(url: string): Promise<LinkPreview | null> {
+  const normalized = normalizeUrl(url);
+  if (!normalized) return Promise.resolve(null);
+
+  let lookup = previewCache.get(normalized);
+  if (!lookup) {
+    lookup = (async () => {
+      const { data: cached, error } = await supabase
+        .from('link_previews')
+        .select(LINK_PREVIEW_SELECT)
+        .eq('url', normalized)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+      if (cached) return cached as LinkPreview;
+
+      const { data, error: unfurlError } = await supabase.functions.invoke<LinkPreview>('unfurl', { body: { url: normalized } });
+      if (unfurlError) {
+        throw new Error(unfurlError.message);
+      }
+      return data ?? null;
+    })();
+    // Let failed lookups be retried later instead of caching the error
+    lookup.catch(() => previewCache.delete(normalized));
+    previewCache.set(normalized, lookup);
+  }
+
+  return lookup;
+}
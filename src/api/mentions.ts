@@ -0,0 +1,62 @@
+import { supabase } from "../lib/supabase";
+import { Profile } from "../types";
+
+/**
+ * A profile offered by @username autocomplete.
+ */
+export type MentionCandidate = Pick<Profile, 'id' | 'username' | 'display_name' | 'avatar_url'>;
+
+// Lowercase username -> whether a profile with that username exists. Shared by every ParsedText on the page.
+const knownUsernames = new Map<string, boolean>();
+const pendingLookups = new Map<string, Promise<void>>();
+
+/**
+ * Checks which of the given usernames belong to real profiles. Answers are cached for the session,
+ * and usernames already being looked up aren't requested twice.
+ * @param usernames Lowercase usernames without '@'.
+ * @returns The subset of usernames that exist.
+ */
+export async function resolveUsernames(usernames: string[]): Promise<Set<string>> {
+  const unknown = usernames.filter((name) => !knownUsernames.has(name) && !pendingLookups.has(name));
+
+  if (unknown.length > 0) {
+    const lookup = (async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('username')
+        .or(unknown.map((name) => `username.ilike.${name}`).join(','));
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const found = new Set((data as Pick<Profile, 'username'>[]).map((profile) => profile.username.toLowerCase()));
+      unknown.forEach((name) => knownUsernames.set(name, found.has(name)));
+    })().finally(() => unknown.forEach((name) => pendingLookups.delete(name)));
+
+    unknown.forEach((name) => pendingLookups.set(name, lookup));
+  }
+
+  await Promise.all(usernames.map((name) => pendingLookups.get(name)));
+  return new Set(usernames.filter((name) => knownUsernames.get(name)));
+}
+
+/**
+ * Finds profiles whose username starts with the given text, for @username autocomplete.
+ * @param prefix What has been typed after the '@'.
+ * @param limit The maximum number of suggestions.
+ */
+export async function searchMentionCandidates(prefix: string, limit: number = 5): Promise<MentionCandidate[]> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, username, display_name, avatar_url')
+    .ilike('username', `${prefix.replace(/[%_\\]/g, '\\$&')}%`)
+    .order('username')
+    .limit(limit);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as MentionCandidate[];
+}
@@ -0,0 +1,126 @@
+import { supabase } from "../lib/supabase";
+import { Notification, NotificationPreferences } from "../types";
+
+/**
+ * Notification fields selected wherever notifications are shown: the row, its actor and the ping or comment it is about.
+ */
+export const NOTIFICATION_SELECT = `
+  id, created_at, user_id, type, actor_id, ping_id, comment_id, chat_id, is_read,
+  actor:profiles!actor_id (id, display_name, username, verified, avatar_url),
+  ping:pings (id, content),
+  comment:comments (id, content)
+`;
+
+// Notifications loaded at once; older ones stay in the database but aren't shown
+export const NOTIFICATION_LIMIT = 100;
+
+/**
+ * Fetches the current user's latest notifications, newest first.
+ * @param limit The maximum number of notifications to return.
+ */
+export async function fetchNotifications(limit: number = NOTIFICATION_LIMIT): Promise<Notification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(NOTIFICATION_SELECT)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as unknown as Notification[];
+}
+
+/**
+ * Fetches a single notification with its actor and target, e.g. to complete a realtime row.
+ * @param notificationId The notification to load.
+ * @returns The notification, or null when it no longer exists.
+ */
+export async function fetchNotification(notificationId: string): Promise<Notification | null> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(NOTIFICATION_SELECT)
+    .eq('id', notificationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as unknown as Notification | null;
+}
+
+/**
+ * Marks the current user's notifications as read.
+ * @param notificationIds The notifications to mark, or null for all of them.
+ */
+export async function markNotificationsRead(notificationIds: string[] | null = null): Promise<void> {
+  const { error } = await supabase.rpc('mark_notifications_read', { _notification_ids: notificationIds });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+// What a user without a preferences row gets
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = { disabled_types: [], only_following: false, email_digest: 'off' };
+
+/**
+ * Fetches the current user's notification preferences.
+ */
+export async function fetchNotificationPreferences(): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('disabled_types, only_following, email_digest')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data as NotificationPreferences | null) ?? DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+/**
+ * Saves the current user's notification preferences. They apply to notifications created from now on,
+ * and to the next email digest.
+ * @param preferences The complete preferences.
+ */
+export async function updateNotificationPreferences(preferences: NotificationPreferences): Promise<void> {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ ...preferences, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Fetches the IDs of the pings whose threads the current user muted.
+ */
+export async function fetchMutedPingIds(): Promise<string[]> {
+  const { data, error } = await supabase.from('muted_pings').select('ping_id');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data.map(({ ping_id }) => ping_id as string);
+}
+
+/**
+ * Mutes or unmutes a ping's thread: while muted, likes, reposts, comments and mentions on it don't notify.
+ * @param pingId The ping whose thread to mute.
+ * @param muted Whether the thread should be muted.
+ */
+export async function setPingMuted(pingId: string, muted: boolean): Promise<void> {
+  const { error } = muted
+    ? await supabase.from('muted_pings').upsert({ ping_id: pingId }, { onConflict: 'user_id,ping_id', ignoreDuplicates: true })
+    : await supabase.from('muted_pings').delete().eq('ping_id', pingId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
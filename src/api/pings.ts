@@ -1,38 +1,247 @@
 import { supabase } from "../lib/supabase";
-import { Profile, Ping } from "../types"; // Import Profile and Ping types
+import { Profile, Ping, PingInteraction, PingMedia, PingRevision } from "../types"; // Import Profile and Ping types
+import { removePingMedia, type UploadedMedia } from "./storage";
+import { logger } from "@/lib/logger";
 
 
 /**
- * Fetches the user feed, including pings from followed users and popular pings.
- * Also fetches the current user's like/repost status and counts for each ping.
- * @param from The starting row index for pagination.
- * @param to The ending row index for pagination.
+ * Feed modes: pings from followed users, every ping newest first, or ranked by engagement and recency.
  */
-export async function fetchFeedPings(from: number = 0, to: number = 50): Promise<Array<Ping & {
+export type FeedMode = 'following' | 'latest' | 'for_you';
+
+/**
+ * Keyset cursor for feed pagination. Pings are ordered by (created_at, id) descending,
+ * so a cursor points at the last ping of the previous page. In 'for_you' mode the order is
+ * (rank_score, id) descending over the last 7 days, and the cursor carries the score as well.
+ */
+export interface FeedCursor {
+  created_at: string;
+  id: string;
+  score?: number;
+}
+
+/**
+ * A single page of feed results along with the cursor for the next page (null when exhausted).
+ */
+export interface FeedPage<T> {
+  items: T[];
+  nextCursor: FeedCursor | null;
+}
+
+/**
+ * The ping embedded in a quote ping.
+ */
+export type QuotedPing = Pick<Ping, 'id' | 'content' | 'image_url' | 'created_at'> & {
+  profiles: Pick<Profile, 'id' | 'username' | 'display_name'> & { verified?: boolean };
+  ping_media?: PingMediaItem[];
+};
+
+/**
+ * The attachment fields the feed renders.
+ */
+export type PingMediaItem = Pick<PingMedia, 'id' | 'url' | 'media_type' | 'mime_type' | 'width' | 'height' | 'position' | 'blurhash' | 'alt_text'>;
+
+export type FeedPing = Ping & {
   profiles: Profile;
   likes: { id: string, user_id: string }[];
   comments: { id: string, user_id: string }[];
-}>> {
-  const { data, error } = await supabase
+  ping_interactions: Pick<PingInteraction, 'user_id' | 'interaction_type'>[];
+  ping_media: PingMediaItem[];
+  quoted_ping?: QuotedPing | null;
+  rank_score?: number;
+  /** Set in the Following feed when the ping is shown because a followed user reposted it. */
+  reposted_by?: Pick<Profile, 'id' | 'username' | 'display_name'> | null;
+  /** When the entry entered the Following feed (repost time for reposts); drives its cursor. */
+  feed_at?: string;
+};
+
+/**
+ * The ping_media columns embedded wherever a ping's attachments are rendered.
+ */
+export const PING_MEDIA_SELECT = 'ping_media(id, url, media_type, mime_type, width, height, position, blurhash, alt_text)';
+
+const FEED_SELECT = `
+  *,
+  profiles(id, username, display_name, verified, is_admin, avatar_url, avatar_blurhash),
+  likes(id, user_id),
+  comments(id, user_id),
+  ping_interactions(user_id, interaction_type),
+  ${PING_MEDIA_SELECT},
+  quoted_ping:pings!quoted_ping_id(
+    id, content, image_url, created_at,
+    profiles(id, username, display_name, verified),
+    ${PING_MEDIA_SELECT}
+  )
+`;
+
+/**
+ * Builds the PostgREST `or` filter that selects rows strictly after the given cursor
+ * in (created_at DESC, id DESC) order. Values are quoted since timestamps contain ':' and '+'.
+ * @param cursor The cursor returned with the previous page.
+ */
+function feedCursorFilter(cursor: FeedCursor): string {
+  return `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt."${cursor.id}")`;
+}
+
+/**
+ * Trims a result fetched with `limit + 1` rows down to a page and derives the next cursor.
+ * @param rows The rows returned by the query (at most limit + 1).
+ * @param limit The requested page size.
+ */
+function toFeedPage<T extends { id: string | number; created_at: string; rank_score?: number; feed_at?: string }>(rows: T[], limit: number): FeedPage<T> {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last
+      ? { created_at: last.feed_at ?? last.created_at, id: String(last.id), score: last.rank_score }
+      : null,
+  };
+}
+
+/**
+ * Loads a page of the Following feed: get_following_feed returns the ordered entries (own and followed
+ * users' pings plus their reposts), then the pings and reposter profiles are fetched and stitched back in order.
+ * @param cursor The cursor of the previous page, or null for the first page.
+ * @param limit The maximum number of pings to return.
+ */
+async function fetchFollowingFeed(cursor: FeedCursor | null, limit: number): Promise<FeedPage<FeedPing>> {
+  const { data: entries, error } = await supabase.rpc('get_following_feed', {
+    _after_at: cursor?.created_at ?? null,
+    _after_id: cursor?.id ?? null,
+    _limit: limit + 1,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const feedEntries = entries as { ping_id: string; reposted_by: string | null; feed_at: string }[];
+  if (feedEntries.length === 0) {
+    return { items: [], nextCursor: null };
+  }
+
+  const reposterIds = [...new Set(feedEntries.map((entry) => entry.reposted_by).filter(Boolean))];
+  const [pingsResult, repostersResult] = await Promise.all([
+    supabase.from('pings').select(FEED_SELECT).in('id', feedEntries.map((entry) => entry.ping_id)),
+    reposterIds.length > 0
+      ? supabase.from('profiles').select('id, username, display_name').in('id', reposterIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (pingsResult.error) {
+    throw new Error(pingsResult.error.message);
+  }
+  if (repostersResult.error) {
+    throw new Error(repostersResult.error.message);
+  }
+
+  const pingsById = new Map((pingsResult.data as unknown as FeedPing[]).map((ping) => [String(ping.id), ping]));
+  const repostersById = new Map((repostersResult.data as FeedPing['reposted_by'][]).map((profile) => [profile.id, profile]));
+
+  const rows = feedEntries
+    .filter((entry) => pingsById.has(entry.ping_id))
+    .map((entry) => ({
+      ...pingsById.get(entry.ping_id),
+      reposted_by: entry.reposted_by ? repostersById.get(entry.reposted_by) ?? null : null,
+      feed_at: entry.feed_at,
+    }));
+
+  return toFeedPage(rows, limit);
+}
+
+/**
+ * Fetches pings tagged with a hashtag, newest first, using the same keyset cursor as the Latest feed.
+ * @param tag The hashtag, with or without the leading '#' (matched case-insensitively).
+ * @param cursor The cursor of the previous page, or null for the first page.
+ * @param limit The maximum number of pings to return.
+ */
+export async function fetchHashtagPings(tag: string, cursor: FeedCursor | null = null, limit: number = 20): Promise<FeedPage<FeedPing>> {
+  let query = supabase
+    .from('pings')
+    .select(`${FEED_SELECT}, hashtags!inner(name)`)
+    .eq('hashtags.name', tag.replace(/^#/, '').toLowerCase())
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (cursor) {
+    query = query.or(feedCursorFilter(cursor));
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return toFeedPage(data as unknown as FeedPing[], limit);
+}
+
+/**
+ * Fetches the user feed in the given mode: pings from and reposted by followed users, the global timeline,
+ * or the ranked "For You" feed (scored by likes, comments, reposts, views and recency, see get_ranked_feed).
+ * @param mode Which feed to load.
+ * @param cursor The cursor of the previous page, or null for the first page.
+ * @param limit The maximum number of pings to return.
+ */
+export async function fetchFeedPings(mode: FeedMode = 'latest', cursor: FeedCursor | null = null, limit: number = 20): Promise<FeedPage<FeedPing>> {
+  if (mode === 'for_you') {
+    const { data, error } = await supabase
+      .rpc('get_ranked_feed', {
+        _after_score: cursor?.score ?? null,
+        _after_id: cursor?.id ?? null,
+        _limit: limit + 1,
+      })
+      .select(`${FEED_SELECT}, rank_score`)
+      .order('rank_score', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return toFeedPage(data as unknown as FeedPing[], limit);
+  }
+
+  if (mode === 'following') {
+    return fetchFollowingFeed(cursor, limit);
+  }
+
+  let query = supabase
     .from('pings')
-    .select(`
-      *,
-      profiles(id, username, display_name, verified, is_admin),
-      likes(id, user_id),
-      comments(id, user_id)
-    `)
-    .range(from, to)
-    .order('created_at', { ascending: false });
+    .select(FEED_SELECT)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (cursor) {
+    query = query.or(feedCursorFilter(cursor));
+  }
+
+  const { data, error } = await query;
 
   if (error) {
     throw new Error(error.message);
   }
 
-  return data as Array<Ping & {
-    profiles: Profile;
-    likes: { id: string, user_id: string }[];
-    comments: { id: string, user_id: string }[];
-  }>;
+  return toFeedPage(data as unknown as FeedPing[], limit);
+}
+
+/**
+ * Derives the counts and the current user's like/repost status that PingCard displays.
+ * @param ping A ping loaded with FEED_SELECT.
+ * @param userId The current user's ID, if signed in.
+ */
+export function summarizeInteractions(ping: Pick<FeedPing, 'likes' | 'comments' | 'ping_interactions'>, userId?: string) {
+  const reposts = (ping.ping_interactions ?? []).filter((interaction) => interaction.interaction_type === 'REPOST');
+  return {
+    like_count: ping.likes?.length ?? 0,
+    comment_count: ping.comments?.length ?? 0,
+    repost_count: reposts.length,
+    is_liked: !!userId && (ping.likes ?? []).some((like) => like.user_id === userId),
+    is_reposted: !!userId && reposts.some((repost) => repost.user_id === userId),
+  };
 }
 
 /**
@@ -65,56 +274,134 @@ export async function toggleLike(ping_id: string, is_liked: boolean) {
   }
 }
 
+/**
+ * Toggles a repost for a ping by writing a REPOST row to 'ping_interactions'.
+ * @param ping_id The ID of the ping to repost/undo.
+ * @param is_reposted Current repost status.
+ */
+export async function toggleRepost(ping_id: string, is_reposted: boolean) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated.');
+  }
+
+  if (is_reposted) {
+    // Undo repost: delete the interaction
+    const { error } = await supabase
+      .from('ping_interactions')
+      .delete()
+      .eq('ping_id', ping_id)
+      .eq('user_id', user.id)
+      .eq('interaction_type', 'REPOST');
+
+    if (error) throw new Error(error.message);
+  } else {
+    // Repost: insert a new interaction
+    const { error } = await supabase
+      .from('ping_interactions')
+      .insert({ ping_id, user_id: user.id, interaction_type: 'REPOST' });
+
+    if (error) throw new Error(error.message);
+  }
+}
+
 /**
  * Creates a new ping post.
  * @param user_id The ID of the user creating the ping.
  * @param content The text content of the ping.
- * @param image_url Optional URL for an attached image.
+ * @param image_url Optional URL for an attached image (legacy single-image pings).
+ * @param quoted_ping_id Optional ID of the ping being quoted.
+ * @param media Optional attachments already uploaded with uploadPingMedia, in display order.
  */
 export async function createPing({
   user_id,
   content,
   image_url,
+  quoted_ping_id,
+  media = [],
 }: {
   user_id: string;
   content: string;
   image_url?: string;
+  quoted_ping_id?: string;
+  media?: UploadedMedia[];
 }) {
   const { data, error } = await supabase.from('pings').insert({
     user_id,
     content,
     image_url,
-  }).select(`
-    *,
-    profiles(id, username, display_name, verified, is_admin),
-    likes(id, user_id),
-    comments(id, user_id)
-  `);
+    quoted_ping_id,
+  }).select('id').single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (media.length > 0) {
+    const { error: mediaError } = await supabase.from('ping_media').insert(
+      media.map((item, position) => ({ ...item, ping_id: data.id, user_id, position }))
+    );
+
+    if (mediaError) {
+      // Don't leave a ping behind without the attachments the user picked, nor the uploads without a ping
+      await supabase.from('pings').delete().eq('id', data.id);
+      await removePingMedia(media.map(({ storage_path }) => storage_path)).catch((removeError) =>
+        logger.error('Error removing uploads of a ping that was not created', removeError, { showToast: false })
+      );
+      throw new Error(mediaError.message);
+    }
+  }
+
+  return getPing(data.id);
+}
+
+/**
+ * Edits the content of a ping. The previous version is archived to 'ping_revisions' and
+ * edited_at is set by the on_ping_content_edited trigger; RLS limits edits to the author.
+ * @param ping_id The ID of the ping to edit.
+ * @param content The new text content.
+ */
+export async function updatePing(ping_id: string, content: string): Promise<FeedPing> {
+  const { data, error } = await supabase
+    .from('pings')
+    .update({ content })
+    .eq('id', ping_id)
+    .select(FEED_SELECT)
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as unknown as FeedPing;
+}
+
+/**
+ * Fetches the prior versions of a ping, newest first.
+ * @param ping_id The ID of the ping whose edit history to fetch.
+ */
+export async function fetchPingRevisions(ping_id: string): Promise<PingRevision[]> {
+  const { data, error } = await supabase
+    .from('ping_revisions')
+    .select('*')
+    .eq('ping_id', ping_id)
+    .order('replaced_at', { ascending: false });
 
   if (error) {
     throw new Error(error.message);
   }
 
-  return data;
+  return data as PingRevision[];
 }
 
 /**
  * Fetches a single ping by ID with all relations.
  * @param pingId The ID of the ping to fetch.
  */
-export async function getPing(pingId: string): Promise<Ping & {
-  profiles: Profile;
-  likes: { id: string, user_id: string }[];
-  comments: { id: string, user_id: string }[];
-}> {
+export async function getPing(pingId: string): Promise<FeedPing> {
   const { data, error } = await supabase
     .from('pings')
-    .select(`
-      *,
-      profiles(id, username, display_name, verified, is_admin),
-      likes(id, user_id),
-      comments(id, user_id)
-    `)
+    .select(FEED_SELECT)
     .eq('id', pingId)
     .single();
 
@@ -122,9 +409,26 @@ export async function getPing(pingId: string): Promise<Ping & {
     throw new Error(error.message);
   }
 
-  return data as Ping & {
-    profiles: Profile;
-    likes: { id: string, user_id: string }[];
-    comments: { id: string, user_id: string }[];
-  };
+  return data as unknown as FeedPing;
+}
+
+/**
+ * Fetches several pings by ID with all relations, in the order of the given IDs.
+ * IDs that no longer exist (or aren't visible) are skipped.
+ * @param pingIds The IDs of the pings to fetch.
+ */
+export async function getPingsByIds(pingIds: string[]): Promise<FeedPing[]> {
+  if (pingIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('pings')
+    .select(FEED_SELECT)
+    .in('id', pingIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const pingsById = new Map((data as unknown as FeedPing[]).map((ping) => [String(ping.id), ping]));
+  return pingIds.flatMap((id) => pingsById.get(id) ?? []);
 }
@@ -0,0 +1,35 @@
+import { supabase } from "../lib/supabase";
+
+/**
+ * Saves this device's push subscription for the current user, taking it over from whoever used the browser before.
+ * @param subscription The browser's subscription from PushManager.
+ */
+export async function savePushSubscription(subscription: PushSubscription): Promise<void> {
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    throw new Error('The push subscription has no keys');
+  }
+
+  const { error } = await supabase.rpc('save_push_subscription', {
+    _endpoint: endpoint,
+    _p256dh: keys.p256dh,
+    _auth: keys.auth,
+    _user_agent: navigator.userAgent,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Removes a device's push subscription, so it stops receiving the current user's pushes.
+ * @param endpoint The subscription's endpoint.
+ */
+export async function deletePushSubscription(endpoint: string): Promise<void> {
+  const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', endpoint);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
@@ -0,0 +1,155 @@
+import { supabase } from "../lib/supabase";
+import { Profile } from "../types";
+import { getPingsByIds, type FeedPing } from "./pings";
+
+export type SearchType = 'pings' | 'users' | 'hashtags';
+
+/**
+ * A profile as shown in the People tab of search.
+ */
+export type SearchUser = Pick<Profile, 'id' | 'username' | 'display_name' | 'bio' | 'avatar_url' | 'avatar_blurhash'> & { verified?: boolean };
+
+/**
+ * A hashtag found in matching pings, with the number of those pings that use it.
+ */
+export interface SearchHashtag {
+  tag: string;
+  usage_count: number;
+}
+
+/**
+ * One search hit. `snippet` marks matched words with SNIPPET_HIGHLIGHT_START/END; render it with splitSnippet.
+ */
+export interface SearchResult<T> {
+  item: T;
+  rank: number;
+  snippet: string;
+}
+
+/**
+ * A page of search results; pass `nextOffset` back to load the next page (null when there are no more).
+ */
+export interface SearchPage<T> {
+  items: SearchResult<T>[];
+  nextOffset: number | null;
+}
+
+// Delimiters the search RPC wraps around matched words (see ts_headline in the full_text_search migration)
+export const SNIPPET_HIGHLIGHT_START = '\u0002';
+export const SNIPPET_HIGHLIGHT_END = '\u0003';
+
+type SearchRow = { result_id: string; rank: number; snippet: string };
+
+/**
+ * Calls the search RPC for one page of IDs, fetching one extra row to detect the next page.
+ */
+async function runSearch(query: string, type: SearchType, offset: number, limit: number) {
+  const { data, error } = await supabase.rpc('search', {
+    _query: query,
+    _type: type,
+    _limit: limit + 1,
+    _offset: offset,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows = data as SearchRow[];
+  return {
+    rows: rows.slice(0, limit),
+    nextOffset: rows.length > limit ? offset + limit : null,
+  };
+}
+
+/**
+ * Searches ping content, best matches first.
+ * @param query The text typed by the user; every word is matched as a prefix.
+ * @param offset How many results to skip (the nextOffset of the previous page).
+ * @param limit The maximum number of results to return.
+ */
+export async function searchPings(query: string, offset: number = 0, limit: number = 20): Promise<SearchPage<FeedPing>> {
+  const { rows, nextOffset } = await runSearch(query, 'pings', offset, limit);
+  const pings = await getPingsByIds(rows.map((row) => row.result_id));
+  const rowsById = new Map(rows.map((row) => [row.result_id, row]));
+
+  return {
+    items: pings.map((ping) => {
+      const row = rowsById.get(String(ping.id))!;
+      return { item: ping, rank: row.rank, snippet: row.snippet };
+    }),
+    nextOffset,
+  };
+}
+
+/**
+ * Searches usernames, display names and bios; an exact username match comes first.
+ * @param query The text typed by the user; a leading @ is ignored.
+ * @param offset How many results to skip (the nextOffset of the previous page).
+ * @param limit The maximum number of results to return.
+ */
+export async function searchUsers(query: string, offset: number = 0, limit: number = 20): Promise<SearchPage<SearchUser>> {
+  const { rows, nextOffset } = await runSearch(query, 'users', offset, limit);
+  if (rows.length === 0) {
+    return { items: [], nextOffset };
+  }
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, username, display_name, bio, avatar_url, avatar_blurhash, verified')
+    .in('id', rows.map((row) => row.result_id));
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const profilesById = new Map((data as SearchUser[]).map((profile) => [profile.id, profile]));
+  return {
+    items: rows.flatMap((row) => {
+      const profile = profilesById.get(row.result_id);
+      return profile ? [{ item: profile, rank: row.rank, snippet: row.snippet }] : [];
+    }),
+    nextOffset,
+  };
+}
+
+/**
+ * Searches hashtags used in pings, most used first.
+ * @param query The text typed by the user; a leading # is ignored.
+ * @param offset How many results to skip (the nextOffset of the previous page).
+ * @param limit The maximum number of results to return.
+ */
+export async function searchHashtags(query: string, offset: number = 0, limit: number = 20): Promise<SearchPage<SearchHashtag>> {
+  const { rows, nextOffset } = await runSearch(query, 'hashtags', offset, limit);
+  return {
+    items: rows.map((row) => ({
+      item: { tag: row.result_id, usage_count: row.rank },
+      rank: row.rank,
+      snippet: row.snippet,
+    })),
+    nextOffset,
+  };
+}
+
+/**
+ * Splits a search snippet into plain and highlighted segments, so it can be rendered without HTML.
+ * @param snippet The snippet returned with a search result.
+ */
+export function splitSnippet(snippet: string): { text: string; highlighted: boolean }[] {
+  const segments: { text: string; highlighted: boolean }[] = [];
+  const pattern = new RegExp(`${SNIPPET_HIGHLIGHT_START}([^${SNIPPET_HIGHLIGHT_END}]*)${SNIPPET_HIGHLIGHT_END}`, 'g');
+  let lastIndex = 0;
+
+  for (const match of snippet.matchAll(pattern)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: snippet.slice(lastIndex, match.index), highlighted: false });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < snippet.length) {
+    segments.push({ text: snippet.slice(lastIndex), highlighted: false });
+  }
+
+  return segments;
+}
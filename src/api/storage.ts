@@ -1,18 +1,29 @@
 import { supabase } from "../lib/supabase";
+import { AttachmentType, MessageAttachment, PingMedia } from "../types";
+import { getMediaKind, MAX_VIDEO_DURATION_SECONDS, readMediaMetadata, validateMediaSelection } from "../lib/media";
+import { getAttachmentType } from "../lib/attachments";
+import { IMAGE_PRESETS, processImage } from "../lib/imageProcessing";
+import { logger } from "../lib/logger";
 
 /**
- * Uploads a media file (e.g., image) to Supabase Storage.
+ * A file uploaded to the 'media' bucket, ready to be attached to a ping with createPing.
+ */
+export type UploadedMedia = Pick<PingMedia, 'storage_path' | 'url' | 'media_type' | 'mime_type' | 'width' | 'height' | 'duration_seconds' | 'blurhash' | 'alt_text'>;
+
+/**
+ * Uploads a file to the 'media' bucket under the current user's folder.
  * @param file The file object to upload.
- * @returns The public URL of the uploaded file.
+ * @returns The storage path and public URL of the uploaded file.
  */
-export async function uploadMedia(file: File): Promise<string> {
+async function uploadToMediaBucket(file: File): Promise<{ path: string; url: string }> {
   const fileExt = file.name.split('.').pop();
-  const filePath = `${(await supabase.auth.getUser()).data.user?.id}/${Date.now()}.${fileExt}`;
+  const filePath = `${(await supabase.auth.getUser()).data.user?.id}/${Date.now()}-${crypto.randomUUID()}.${fileExt}`;
 
   const { data, error } = await supabase.storage
     .from('media') // Assuming a storage bucket named 'media'
     .upload(filePath, file, {
       cacheControl: '3600',
+      contentType: file.type,
       upsert: false,
     });
 
@@ -25,5 +36,218 @@ export async function uploadMedia(file: File): Promise<string> {
     .from('media')
     .getPublicUrl(data.path);
 
-  return publicUrlData.publicUrl;
-}
\ No newline at end of file
+  return { path: data.path, url: publicUrlData.publicUrl };
+}
+
+/**
+ * Prepares one attachment: images go through processImage, videos are only measured.
+ */
+async function prepareAttachment(file: File): Promise<{ file: File; metadata: Omit<UploadedMedia, 'storage_path' | 'url' | 'alt_text'> }> {
+  if (getMediaKind(file) === 'image') {
+    const processed = await processImage(file, IMAGE_PRESETS.ping);
+    return {
+      file: processed.file,
+      metadata: {
+        media_type: 'image',
+        mime_type: processed.file.type,
+        width: processed.width,
+        height: processed.height,
+        duration_seconds: null,
+        blurhash: processed.blurhash,
+      },
+    };
+  }
+
+  return { file, metadata: { ...(await readMediaMetadata(file)), blurhash: null } };
+}
+
+/**
+ * Validates and uploads the attachments of a ping (up to 4 images or one short video).
+ * Images are resized and re-encoded first; the dimensions, mime type and placeholder
+ * of each upload are returned so they can be stored in 'ping_media'.
+ * @param files The files selected in the composer, in display order.
+ * @param altTexts Optional descriptions for the files, by index; blank entries are stored as NULL.
+ */
+export async function uploadPingMedia(files: File[], altTexts: string[] = []): Promise<UploadedMedia[]> {
+  const selectionError = validateMediaSelection(files);
+  if (selectionError) {
+    throw new Error(selectionError);
+  }
+
+  const prepared = await Promise.all(files.map(prepareAttachment));
+  const longVideo = prepared.find(({ metadata }) => metadata.media_type === 'video' && (metadata.duration_seconds ?? 0) > MAX_VIDEO_DURATION_SECONDS);
+  if (longVideo) {
+    throw new Error(`Videos can be at most ${MAX_VIDEO_DURATION_SECONDS} seconds long.`);
+  }
+
+  const uploads = await Promise.allSettled(prepared.map(async ({ file, metadata }, index) => {
+    const { path, url } = await uploadToMediaBucket(file);
+    return { ...metadata, storage_path: path, url, alt_text: altTexts[index]?.trim() || null };
+  }));
+
+  const failed = uploads.find((upload): upload is PromiseRejectedResult => upload.status === 'rejected');
+  if (failed) {
+    // The caller gets no paths when one upload fails, so the others can only be removed here
+    const uploaded = uploads.flatMap((upload) => (upload.status === 'fulfilled' ? [upload.value.storage_path] : []));
+    await removePingMedia(uploaded).catch((removeError) =>
+      logger.error('Error removing uploads of a ping whose other uploads failed', removeError, { showToast: false })
+    );
+    throw failed.reason;
+  }
+
+  return uploads.map((upload) => (upload as PromiseFulfilledResult<UploadedMedia>).value);
+}
+
+/**
+ * Removes ping attachments that were uploaded but never attached, e.g. after creating the ping failed.
+ * @param storagePaths Paths inside the 'media' bucket.
+ */
+export async function removePingMedia(storagePaths: string[]): Promise<void> {
+  if (storagePaths.length === 0) return;
+
+  const { error } = await supabase.storage.from('media').remove(storagePaths);
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+const CHAT_ATTACHMENTS_BUCKET = 'chat-attachments';
+// Signed URLs for chat attachments are valid for an hour and reused until 5 minutes before they expire
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+const SIGNED_URL_REUSE_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * A file uploaded to the 'chat-attachments' bucket, ready to be sent with sendChatMessage.
+ */
+export type UploadedChatAttachment = Pick<
+  MessageAttachment,
+  'storage_path' | 'attachment_type' | 'file_name' | 'mime_type' | 'size_bytes' | 'width' | 'height' | 'duration_seconds' | 'blurhash'
+>;
+
+/**
+ * PUTs a file to a signed upload URL with XMLHttpRequest, which (unlike fetch) reports upload progress.
+ */
+function putWithProgress(signedUrl: string, file: File, onProgress?: (fraction: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', signedUrl);
+    xhr.setRequestHeader('x-upsert', 'false');
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(1);
+        resolve();
+      } else {
+        reject(new Error(`Storage upload failed: ${xhr.status} ${xhr.responseText}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Storage upload failed: network error'));
+
+    const body = new FormData();
+    body.append('cacheControl', '3600');
+    body.append('', file);
+    xhr.send(body);
+  });
+}
+
+/**
+ * Uploads a chat attachment into the current user's folder of the chat in the private 'chat-attachments' bucket.
+ * Images are resized and stripped of EXIF metadata first; images the browser can't decode are sent as plain files.
+ * @param chatId The chat the file is sent to; storage only accepts uploads from its members.
+ * @param file The picked file or recorded voice note.
+ * @param options type 'voice' (with its duration) for recorded voice notes; onProgress receives 0-1.
+ */
+export async function uploadChatAttachment(
+  chatId: string,
+  file: File,
+  options: { type?: AttachmentType; durationSeconds?: number; onProgress?: (fraction: number) => void } = {}
+): Promise<UploadedChatAttachment> {
+  const userId = (await supabase.auth.getUser()).data.user?.id;
+  if (!userId) {
+    throw new Error('Authentication required to upload attachments.');
+  }
+
+  let upload = file;
+  let attachmentType = options.type ?? getAttachmentType(file);
+  let image: { width: number; height: number; blurhash: string } | null = null;
+  if (attachmentType === 'image') {
+    try {
+      const processed = await processImage(file, IMAGE_PRESETS.ping);
+      upload = processed.file;
+      image = processed;
+    } catch {
+      attachmentType = 'file';
+    }
+  }
+
+  const fileExt = upload.name.includes('.') ? upload.name.split('.').pop() : 'bin';
+  const filePath = `${chatId}/${userId}/${Date.now()}-${crypto.randomUUID()}.${fileExt}`;
+
+  const { data, error } = await supabase.storage.from(CHAT_ATTACHMENTS_BUCKET).createSignedUploadUrl(filePath);
+  if (error) {
+    throw new Error(`Storage upload failed: ${error.message}`);
+  }
+  await putWithProgress(data.signedUrl, upload, options.onProgress);
+
+  return {
+    storage_path: filePath,
+    attachment_type: attachmentType,
+    // Keep the name the sender picked, even when the upload was re-encoded
+    file_name: file.name,
+    mime_type: upload.type || 'application/octet-stream',
+    size_bytes: upload.size,
+    width: image?.width ?? null,
+    height: image?.height ?? null,
+    duration_seconds: options.durationSeconds ?? null,
+    blurhash: image?.blurhash ?? null,
+  };
+}
+
+/**
+ * Removes chat attachments that were uploaded but never sent, e.g. after sending the message failed.
+ * @param storagePaths Paths inside the 'chat-attachments' bucket.
+ */
+export async function removeChatAttachments(storagePaths: string[]): Promise<void> {
+  if (storagePaths.length === 0) return;
+
+  const { error } = await supabase.storage.from(CHAT_ATTACHMENTS_BUCKET).remove(storagePaths);
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+const signedUrlCache = new Map<string, Promise<{ url: string; expiresAt: number }>>();
+
+/**
+ * Returns a short-lived signed URL for a chat attachment. Storage only signs files of chats the user belongs to.
+ * URLs are cached per path so re-renders and repeated messages don't request new ones.
+ * @param storagePath The attachment's storage_path.
+ * @param downloadName When set, the URL makes the browser download the file under this name instead of opening it.
+ */
+export async function getChatAttachmentUrl(storagePath: string, downloadName?: string): Promise<string> {
+  const cacheKey = downloadName ? `${storagePath}#download` : storagePath;
+  const cached = signedUrlCache.get(cacheKey);
+  if (cached) {
+    const { url, expiresAt } = await cached;
+    if (expiresAt - Date.now() > SIGNED_URL_REUSE_MARGIN_MS) return url;
+  }
+
+  const request = supabase.storage
+    .from(CHAT_ATTACHMENTS_BUCKET)
+    .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS, downloadName ? { download: downloadName } : undefined)
+    .then(({ data, error }) => {
+      if (error) {
+        throw new Error(error.message);
+      }
+      return { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000 };
+    });
+
+  signedUrlCache.set(cacheKey, request);
+  // Failed requests aren't cached, so the next render can retry
+  request.catch(() => {
+    if (signedUrlCache.get(cacheKey) === request) signedUrlCache.delete(cacheKey);
+  });
+  return (await request).url;
+}
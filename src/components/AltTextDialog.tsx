@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import { MAX_ALT_TEXT_LENGTH } from '@/lib/media';
+
+interface AltTextDialogProps {
+  previewUrl: string | null;
+  altText: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (altText: string) => void;
+}
+
+// Lets the author describe an attached image for screen readers before posting
+const AltTextDialog = ({ previewUrl, altText, open, onOpenChange, onSave }: AltTextDialogProps) => {
+  const [draft, setDraft] = useState(altText);
+
+  // Start from the saved description each time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(altText);
+  }, [open, altText]);
+
+  const handleSave = () => {
+    onSave(draft.trim());
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg rounded-3xl">
+        <DialogHeader>
+          <DialogTitle>Describe this image</DialogTitle>
+        </DialogHeader>
+        {previewUrl && <img src={previewUrl} alt="" className="rounded-2xl max-h-48 w-full object-contain bg-muted" />}
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value.slice(0, MAX_ALT_TEXT_LENGTH))}
+          placeholder="What's in the image? Descriptions help people who use screen readers."
+          className="min-h-[100px] rounded-2xl resize-none"
+          autoFocus
+        />
+        <p className="text-xs text-muted-foreground text-right">
+          {draft.length}/{MAX_ALT_TEXT_LENGTH}
+        </p>
+        <Button onClick={handleSave} className="w-full h-12 rounded-2xl font-semibold">
+          Save
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AltTextDialog;
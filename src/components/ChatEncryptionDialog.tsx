@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Lock, LockOpen, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { setChatEncryption } from '@/api/chats';
+import { logger } from '@/lib/logger';
+import type { VerificationStatus } from '@/hooks/use-key-verification';
+
+interface ChatEncryptionDialogProps {
+  chatId: string;
+  isEncrypted: boolean;
+  otherName: string;
+  safetyNumber: string | null;
+  status: VerificationStatus;
+  onVerifiedChange: (verified: boolean) => void;
+  onReload: () => void;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Encryption settings of a direct chat: turning it on or off, and comparing the safety number.
+// The setting change shows up through the chat's realtime subscription, so nothing is patched locally.
+const ChatEncryptionDialog = ({
+  chatId,
+  isEncrypted,
+  otherName,
+  safetyNumber,
+  status,
+  onVerifiedChange,
+  onReload,
+  open,
+  onOpenChange,
+}: ChatEncryptionDialogProps) => {
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (open) onReload();
+  }, [open, onReload]);
+
+  const handleToggle = async () => {
+    setBusy(true);
+    try {
+      await setChatEncryption(chatId, !isEncrypted);
+    } catch (error) {
+      logger.error('Error changing chat encryption', error, {
+        userMessage: error instanceof Error ? error.message : 'Could not change encryption for this chat.',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {isEncrypted ? <Lock className="h-5 w-5 text-primary" /> : <LockOpen className="h-5 w-5" />}
+            {isEncrypted ? 'End-to-end encrypted' : 'Not encrypted'}
+          </DialogTitle>
+          <p className="text-sm text-muted-foreground">
+            {isEncrypted
+              ? `Messages are encrypted on your device and can only be read on yours and ${otherName}'s. Attachments can't be sent while encryption is on.`
+              : `Turn on encryption so that only you and ${otherName} can read new messages, not even iPing.`}
+          </p>
+        </DialogHeader>
+
+        {isEncrypted && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-muted-foreground">Safety number</h3>
+            {safetyNumber ? (
+              <p className="grid grid-cols-4 gap-x-4 gap-y-1 rounded-2xl bg-muted p-4 font-mono text-sm text-center tracking-wider">
+                {safetyNumber.split(' ').map((group, index) => (
+                  <span key={index}>{group}</span>
+                ))}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">Loading…</p>
+            )}
+            {status === 'changed' && (
+              <p className="flex items-start gap-2 text-sm text-destructive">
+                <ShieldAlert className="h-4 w-4 shrink-0 mt-0.5" />
+                {`${otherName}'s safety number changed since you verified it. This happens when they sign in on a new device. Compare it again.`}
+              </p>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Compare this number with the one {otherName} sees, in person or over a call. If they match, nobody is listening in.
+            </p>
+            {status === 'verified' ? (
+              <Button variant="outline" onClick={() => onVerifiedChange(false)} className="w-full rounded-2xl">
+                <ShieldCheck className="h-4 w-4 mr-2 text-primary" />
+                Verified · Clear verification
+              </Button>
+            ) : (
+              <Button onClick={() => onVerifiedChange(true)} disabled={!safetyNumber} className="w-full rounded-2xl">
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Mark as verified
+              </Button>
+            )}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={handleToggle}
+          disabled={busy}
+          className={`w-full h-12 rounded-2xl ${isEncrypted ? 'text-destructive' : ''}`}
+        >
+          {isEncrypted ? <LockOpen className="h-4 w-4 mr-2" /> : <Lock className="h-4 w-4 mr-2" />}
+          {isEncrypted ? 'Turn off encryption' : 'Turn on encryption'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChatEncryptionDialog;
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { Input } from '@/components/ui/Input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/Avatar';
+import { useDebounce } from '@/hooks/use-debounce';
+import { searchUsers, type SearchUser } from '@/api/search';
+import { logger } from '@/lib/logger';
+
+interface ChatMemberPickerProps {
+  selected: SearchUser[];
+  onChange: (selected: SearchUser[]) => void;
+  // People who can't be picked, e.g. the current user and existing members
+  excludeIds?: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Search-as-you-type list of people with the picked ones shown as removable chips
+const ChatMemberPicker = ({ selected, onChange, excludeIds = [] }: ChatMemberPickerProps) => {
+  const [query, setQuery] = useState('');
+  const debouncedQuery = useDebounce(query, 300).trim();
+  const [results, setResults] = useState<SearchUser[]>([]);
+
+  useEffect(() => {
+    if (!debouncedQuery) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    searchUsers(debouncedQuery, 0, MAX_SUGGESTIONS)
+      .then((page) => {
+        if (!cancelled) setResults(page.items.map(({ item }) => item));
+      })
+      .catch((error) => logger.error('Error searching people for chat', error, { showToast: false }));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  const isSelected = (person: SearchUser) => selected.some(({ id }) => id === person.id);
+
+  const toggle = (person: SearchUser) => {
+    onChange(isSelected(person) ? selected.filter(({ id }) => id !== person.id) : [...selected, person]);
+  };
+
+  const suggestions = results.filter(({ id }) => !excludeIds.includes(id));
+
+  return (
+    <div className="space-y-3">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((person) => (
+            <button
+              key={person.id}
+              type="button"
+              onClick={() => toggle(person)}
+              className="flex items-center gap-1 rounded-full bg-primary/10 text-primary px-3 py-1 text-sm font-medium hover:bg-primary/20 transition-apple"
+            >
+              {person.display_name}
+              <X className="h-3.5 w-3.5" />
+            </button>
+          ))}
+        </div>
+      )}
+      <Input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search people"
+        className="rounded-2xl"
+      />
+      {suggestions.length > 0 && (
+        <ul className="max-h-56 overflow-y-auto space-y-1">
+          {suggestions.map((person) => (
+            <li key={person.id}>
+              <button
+                type="button"
+                onClick={() => toggle(person)}
+                className="w-full flex items-center gap-3 rounded-2xl px-2 py-2 text-left hover:bg-primary/5 transition-apple"
+              >
+                <Avatar className="w-9 h-9">
+                  {person.avatar_url ? (
+                    <AvatarImage src={person.avatar_url} alt={person.display_name} blurhash={person.avatar_blurhash} />
+                  ) : (
+                    <AvatarFallback className="bg-gradient-to-br from-primary to-primary/50 text-white font-semibold text-sm">
+                      {person.display_name?.[0]?.toUpperCase()}
+                    </AvatarFallback>
+                  )}
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold truncate">{person.display_name}</p>
+                  <p className="text-xs text-muted-foreground truncate">@{person.username}</p>
+                </div>
+                {isSelected(person) && <Check className="h-4 w-4 text-primary" />}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ChatMemberPicker;
@@ -0,0 +1,101 @@
+import { Link, useNavigate } from 'react-router-dom';
+import { Check, CornerDownRight, Heart, MessageCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { ParsedText } from '@/lib/textParser';
+import { countReplies, type CommentNode } from '@/lib/commentTree';
+import type { ThreadComment } from '@/api/comments';
+
+// Replies nested deeper than this are collapsed behind a "Continue thread" link
+export const MAX_THREAD_DEPTH = 4;
+
+interface CommentThreadProps {
+  node: CommentNode<ThreadComment>;
+  pingId: string;
+  currentUserId?: string;
+  depth?: number;
+  onReply: (comment: ThreadComment) => void;
+  onToggleLike: (comment: ThreadComment) => void;
+}
+
+const CommentThread = ({ node, pingId, currentUserId, depth = 0, onReply, onToggleLike }: CommentThreadProps) => {
+  const navigate = useNavigate();
+  const isLiked = node.comment_likes?.some(like => like.user_id === currentUserId) || false;
+
+  return (
+    <div className={depth > 0 ? 'pl-4 border-l-2 border-border/40' : ''}>
+      <div className="flex gap-3 py-2">
+        <button
+          onClick={() => navigate(`/profile/${node.profiles?.username}`)}
+          className="w-8 h-8 shrink-0 rounded-full bg-gradient-to-br from-secondary to-muted flex items-center justify-center text-foreground font-semibold text-xs hover:scale-105 transition-apple"
+        >
+          {node.profiles?.display_name?.charAt(0).toUpperCase() || 'U'}
+        </button>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-1.5 flex-wrap">
+            <button
+              onClick={() => navigate(`/profile/${node.profiles?.username}`)}
+              className="font-semibold text-sm hover:text-primary transition-apple"
+            >
+              {node.profiles?.display_name || 'Unknown User'}
+            </button>
+            {node.profiles?.verified && (
+              <div className="flex items-center justify-center w-3.5 h-3.5 bg-primary rounded-full">
+                <Check className="h-2.5 w-2.5 text-white stroke-2" />
+              </div>
+            )}
+            <span className="text-xs text-muted-foreground">
+              @{node.profiles?.username} · {formatDistanceToNow(new Date(node.created_at), { addSuffix: true })}
+            </span>
+          </div>
+          <p className="text-sm text-foreground/90 break-words">
+            <ParsedText text={node.content} />
+          </p>
+          <div className="flex items-center gap-4 mt-1">
+            <button
+              onClick={() => onToggleLike(node)}
+              className={`flex items-center gap-1 text-xs transition-apple ${
+                isLiked ? 'text-destructive' : 'text-muted-foreground hover:text-destructive'
+              }`}
+            >
+              <Heart className={`h-3.5 w-3.5 ${isLiked ? 'fill-destructive' : ''}`} />
+              {node.comment_likes?.length || 0}
+            </button>
+            <button
+              onClick={() => onReply(node)}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-apple"
+            >
+              <MessageCircle className="h-3.5 w-3.5" />
+              Reply
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {node.replies.length > 0 && (
+        depth + 1 < MAX_THREAD_DEPTH ? (
+          node.replies.map(reply => (
+            <CommentThread
+              key={reply.id}
+              node={reply}
+              pingId={pingId}
+              currentUserId={currentUserId}
+              depth={depth + 1}
+              onReply={onReply}
+              onToggleLike={onToggleLike}
+            />
+          ))
+        ) : (
+          <Link
+            to={`/post/${pingId}?thread=${node.id}`}
+            className="flex items-center gap-1.5 pl-4 py-1 text-xs font-medium text-primary hover:underline"
+          >
+            <CornerDownRight className="h-3.5 w-3.5" />
+            Continue thread ({countReplies(node)} more {countReplies(node) === 1 ? 'reply' : 'replies'})
+          </Link>
+        )
+      )}
+    </div>
+  );
+};
+
+export default CommentThread;
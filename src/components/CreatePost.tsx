@@ -1,10 +1,16 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useAuth } from '@/providers/SupabaseAuthContext';
 import { logger } from '@/lib/logger';
-import { uploadMedia } from '@/api/storage';
+import { uploadPingMedia } from '@/api/storage';
+import { getMediaKind, validateMediaSelection } from '@/lib/media';
+import AltTextDialog from '@/components/AltTextDialog';
+import MentionSuggestions from '@/components/MentionSuggestions';
+import LinkPreviewCard from '@/components/LinkPreviewCard';
 import { createPing } from '@/api/pings';
 import { Image as ImageIcon, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useDebounce } from '@/hooks/use-debounce';
+import { extractFirstUrl } from '@/lib/links';
 
 interface CreatePingProps {
   onPostCreated?: () => void;
@@ -14,50 +20,64 @@ const CreatePing: React.FC<CreatePingProps> = ({ onPostCreated }) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [content, setContent] = useState('');
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const contentInputRef = useRef<HTMLTextAreaElement>(null);
+  // Preview of the first link in the draft, looked up once typing pauses
+  const linkUrl = extractFirstUrl(useDebounce(content, 600));
+  const [mediaFiles, setMediaFiles] = useState<File[]>([]);
+  const [mediaPreviews, setMediaPreviews] = useState<string[]>([]);
+  const [mediaAltTexts, setMediaAltTexts] = useState<string[]>([]);
+  const [altTextIndex, setAltTextIndex] = useState<number | null>(null);
   const [isPinging, setIsPinging] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0] || null;
-    setImageFile(file);
-    if (file) {
-      setImagePreview(URL.createObjectURL(file));
-    } else {
-      setImagePreview(null);
+    const picked = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (picked.length === 0) return;
+
+    const selectionError = validateMediaSelection([...mediaFiles, ...picked]);
+    if (selectionError) {
+      toast({ title: 'Cannot attach media', description: selectionError, variant: 'destructive' });
+      return;
     }
+
+    setMediaFiles((prev) => [...prev, ...picked]);
+    setMediaPreviews((prev) => [...prev, ...picked.map((file) => URL.createObjectURL(file))]);
+    setMediaAltTexts((prev) => [...prev, ...picked.map(() => '')]);
   };
 
-  const removeImage = () => {
-    setImageFile(null);
-    setImagePreview(null);
+  const removeMedia = (index: number) => {
+    URL.revokeObjectURL(mediaPreviews[index]);
+    setMediaFiles((prev) => prev.filter((_, i) => i !== index));
+    setMediaPreviews((prev) => prev.filter((_, i) => i !== index));
+    setMediaAltTexts((prev) => prev.filter((_, i) => i !== index));
   };
 
+  const missingAltText = mediaFiles.some((file, index) => getMediaKind(file) === 'image' && !mediaAltTexts[index]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if ((!content.trim() && !imageFile) || !user || isPinging || uploading) return;
+    if ((!content.trim() && mediaFiles.length === 0) || !user || isPinging || uploading) return;
 
     setIsPinging(true);
-    let imageUrl: string | undefined;
 
     try {
-      if (imageFile) {
-        setUploading(true);
-        imageUrl = await uploadMedia(imageFile);
-        setUploading(false);
-      }
+      setUploading(mediaFiles.length > 0);
+      const media = await uploadPingMedia(mediaFiles, mediaAltTexts);
+      setUploading(false);
 
       await createPing({
         user_id: user.id,
         content: content.trim(),
-        image_url: imageUrl,
+        media,
       });
 
       setContent('');
-      setImageFile(null);
-      setImagePreview(null);
+      mediaPreviews.forEach((preview) => URL.revokeObjectURL(preview));
+      setMediaFiles([]);
+      setMediaPreviews([]);
+      setMediaAltTexts([]);
       setIsFocused(false); // Reset focus
       logger.info('Ping created successfully!');
       toast({ title: 'Posted!', description: 'Your ping has been sent.' });
@@ -85,29 +105,67 @@ const CreatePing: React.FC<CreatePingProps> = ({ onPostCreated }) => {
       )}
       <div className={`w-full max-w-2xl mx-auto bg-white rounded-lg shadow-md p-4 mb-4 transition-all duration-300 ${isFocused ? 'relative z-50 scale-105' : ''}`}>
         <form onSubmit={handleSubmit}>
-          <textarea
-            id="content-input"
-            name="content-input"
-            className="w-full p-2 border-2 border-gray-200 rounded-lg resize-none focus:outline-none focus:border-blue-500 transition-colors"
-            placeholder="What's on your mind? Add an image for extra flair!"
-            rows={imagePreview ? 4 : 2}
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            onFocus={() => setIsFocused(true)}
-          />
+          <div className="relative">
+            <textarea
+              ref={contentInputRef}
+              id="content-input"
+              name="content-input"
+              className="w-full p-2 border-2 border-gray-200 rounded-lg resize-none focus:outline-none focus:border-blue-500 transition-colors"
+              placeholder="What's on your mind? Add an image for extra flair!"
+              rows={mediaPreviews.length > 0 ? 4 : 2}
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              onFocus={() => setIsFocused(true)}
+            />
+            <MentionSuggestions textareaRef={contentInputRef} value={content} onChange={setContent} />
+          </div>
           
-          {imagePreview && (
-            <div className="relative mt-3 mb-3">
-              <img src={imagePreview} alt="Preview" className="max-h-64 object-cover w-full rounded-lg border" />
-              <button
-                type="button"
-                onClick={removeImage}
-                className="absolute top-2 right-2 bg-black bg-opacity-50 p-1 rounded-full text-white hover:bg-opacity-75 transition"
-              >
-                <X className="h-4 w-4" />
-              </button>
+          {mediaPreviews.length === 0 && <LinkPreviewCard url={linkUrl} className="mt-3 mb-3" />}
+
+          {mediaPreviews.length > 0 && (
+            <div className={`grid gap-2 mt-3 mb-3 ${mediaPreviews.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+              {mediaPreviews.map((preview, index) => (
+                <div key={preview} className="relative">
+                  {getMediaKind(mediaFiles[index]) === 'video' ? (
+                    <video src={preview} controls className="max-h-64 object-cover w-full rounded-lg border" />
+                  ) : (
+                    <img src={preview} alt="Preview" className="max-h-64 object-cover w-full rounded-lg border" />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removeMedia(index)}
+                    className="absolute top-2 right-2 bg-black bg-opacity-50 p-1 rounded-full text-white hover:bg-opacity-75 transition"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                  {getMediaKind(mediaFiles[index]) === 'image' && (
+                    <button
+                      type="button"
+                      onClick={() => setAltTextIndex(index)}
+                      className="absolute bottom-2 left-2 bg-black bg-opacity-50 px-2 py-0.5 rounded-full text-white text-xs font-bold hover:bg-opacity-75 transition"
+                    >
+                      {mediaAltTexts[index] ? 'ALT ✓' : '+ ALT'}
+                    </button>
+                  )}
+                </div>
+              ))}
             </div>
           )}
+          {missingAltText && (
+            <p className="text-xs text-gray-500 mb-2">
+              Tip: describe your images with ALT so people using screen readers can follow along.
+            </p>
+          )}
+          <AltTextDialog
+            previewUrl={altTextIndex !== null ? mediaPreviews[altTextIndex] ?? null : null}
+            altText={altTextIndex !== null ? mediaAltTexts[altTextIndex] ?? '' : ''}
+            open={altTextIndex !== null}
+            onOpenChange={(open) => !open && setAltTextIndex(null)}
+            onSave={(altText) =>
+              altTextIndex !== null &&
+              setMediaAltTexts((prev) => prev.map((existing, i) => (i === altTextIndex ? altText : existing)))
+            }
+          />
 
           <div className="flex justify-between items-center mt-3">
             <label htmlFor="media-upload" className="cursor-pointer text-blue-500 hover:text-blue-700 transition inline-flex items-center">
@@ -116,7 +174,8 @@ const CreatePing: React.FC<CreatePingProps> = ({ onPostCreated }) => {
                 id="media-upload"
                 name="media-upload"
                 type="file"
-                accept="image/*"
+                accept="image/*,video/*"
+                multiple
                 onChange={handleFileChange}
                 className="hidden"
                 disabled={isPinging || uploading}
@@ -124,10 +183,10 @@ const CreatePing: React.FC<CreatePingProps> = ({ onPostCreated }) => {
             </label>
             <button
               type="button"
-              disabled={isPinging || uploading || (!content.trim() && !imageFile) || !user}
+              disabled={isPinging || uploading || (!content.trim() && mediaFiles.length === 0) || !user}
               onClick={handleSubmit}
               className={`px-4 py-2 rounded-lg transition-colors font-semibold text-sm ${
-                isPinging || uploading || (!content.trim() && !imageFile) || !user
+                isPinging || uploading || (!content.trim() && mediaFiles.length === 0) || !user
                   ? 'bg-gray-400 cursor-not-allowed text-gray-700 border border-transparent'
                   : 'bg-blue-500 text-white hover:bg-blue-600 border border-transparent'
               }`}
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import { updatePing, type FeedPing } from '@/api/pings';
+import { logger } from '@/lib/logger';
+
+interface EditPingDialogProps {
+  ping: { id: string | number; content: string };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (ping: FeedPing) => void;
+}
+
+// Edits a ping's text; the previous version is kept in its revision history
+const EditPingDialog = ({ ping, open, onOpenChange, onSaved }: EditPingDialogProps) => {
+  const [content, setContent] = useState(ping.content);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the current content each time the dialog opens
+  useEffect(() => {
+    if (open) setContent(ping.content);
+  }, [open, ping.content]);
+
+  const unchanged = content.trim() === ping.content.trim();
+
+  const handleSave = async () => {
+    if (!content.trim() || unchanged || saving) return;
+
+    setSaving(true);
+    try {
+      const updated = await updatePing(String(ping.id), content.trim());
+      logger.info('Ping edited successfully.', { pingId: ping.id });
+      onSaved?.(updated);
+      onOpenChange(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+      logger.error('Error editing ping', error, { userMessage: `Failed to edit ping. Details: ${errorMessage}`, showToast: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg rounded-3xl">
+        <DialogHeader>
+          <DialogTitle>Edit ping</DialogTitle>
+        </DialogHeader>
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          className="min-h-[120px] rounded-2xl resize-none"
+          autoFocus
+        />
+        <p className="text-xs text-muted-foreground">Previous versions stay visible in the edit history.</p>
+        <Button
+          onClick={handleSave}
+          disabled={saving || !content.trim() || unchanged}
+          className="w-full h-12 rounded-2xl font-semibold"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditPingDialog;
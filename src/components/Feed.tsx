@@ -1,57 +1,92 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import PingCard from './PingCard';
 import { logger } from '../lib/logger';
-import { fetchFeedPings } from '@/api/pings';
+import { fetchFeedPings, getPing, summarizeInteractions, type FeedCursor, type FeedPing } from '@/api/pings';
+import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/providers/SupabaseAuthContext';
 import { FeedSkeleton } from './skeletons/FeedSkeleton';
+import { useIntersectionObserver } from '@/hooks/use-intersection-observer';
+import LoadingSpinner from './LoadingSpinner';
 
 // Define the shape of the fetched ping data
-interface Ping {
+interface Ping extends Omit<FeedPing, 'id' | 'profiles'> {
   id: string; // Use string for UUIDs
-  user_id: string;
-  content: string;
-  created_at: string;
-  image_url?: string; // Optional image URL
   profiles: {
     id: string;
     username: string;
     display_name: string;
     verified: boolean;
   };
-  like_count: number;
-  repost_count: number;
-  is_liked: boolean;
-  is_reposted: boolean;
-  // views, comments, etc. can be added here
 }
 
+const PAGE_SIZE = 20;
+
 const Feed: React.FC = () => {
   const { user } = useAuth(); // Assuming useAuth provides current user details
   const [pings, setPings] = useState<Ping[]>([]);
   const [loading, setLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef<FeedCursor | null>(null);
+
+  const loadPings = useCallback(async (append: boolean) => {
+    if (append && !cursorRef.current) return;
+    const setLoadingState = append ? setIsLoadingMore : setLoading;
+
+    try {
+      setLoadingState(true);
+      // Fetch pings with enriched interaction data and profiles
+      const page = await fetchFeedPings('latest', append ? cursorRef.current : null, PAGE_SIZE);
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.nextCursor !== null);
+      // Cast to Ping[] since the fetch function returns a similar structure
+      const items = page.items as unknown as Ping[];
+      setPings(prev => (append ? [...prev, ...items] : items));
+    } catch (e) {
+      logger.error('Error fetching pings for feed', e);
+      setError('Failed to fetch pings for your feed.');
+    } finally {
+      setLoadingState(false);
+    }
+  }, []);
 
   useEffect(() => {
-    const loadPings = async () => {
-      if (!user) {
-        setLoading(false);
-        setError('Must be logged in to view feed.');
-        return;
-      }
-      try {
-        // Fetch pings with enriched interaction data and profiles
-        const fetchedPings = await fetchFeedPings(0, 50);
-        setPings(fetchedPings as unknown as Ping[]); // Cast to Ping[] since the fetch function returns a similar structure
-      } catch (e) {
-        logger.error('Error fetching pings for feed', e);
-        setError('Failed to fetch pings for your feed.');
-      } finally {
-        setLoading(false);
-      }
-    };
+    if (!user) {
+      setLoading(false);
+      setError('Must be logged in to view feed.');
+      return;
+    }
+    loadPings(false);
+  }, [user, loadPings]);
+
+  const { ref: sentinelRef, isIntersecting } = useIntersectionObserver({ threshold: 0.1 });
 
-    loadPings();
-  }, [user]);
+  useEffect(() => {
+    if (isIntersecting && hasMore && !loading && !isLoadingMore) {
+      loadPings(true);
+    }
+  }, [isIntersecting, hasMore, loading, isLoadingMore, loadPings]);
+
+  // Merge realtime inserts in at the top without re-fetching the loaded pages
+  useEffect(() => {
+    const channel = supabase
+      .channel('pings-changes')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'pings' }, async (payload) => {
+        try {
+          // Only the inserted ping is fetched (for its profile); loaded pages stay as they are
+          const ping = (await getPing(payload.new.id)) as unknown as Ping;
+          setPings(prev => (prev.some(p => p.id === ping.id) ? prev : [ping, ...prev]));
+        } catch (e) {
+          logger.error('Error fetching new ping details', e);
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
 
   if (loading) return <FeedSkeleton />;
   if (error) return <p className="text-red-500 text-center py-4">{error}</p>;
@@ -61,7 +96,7 @@ const Feed: React.FC = () => {
       {pings.length === 0 && <p className="text-center text-muted-foreground pt-4">No pings yet. Follow some users or post one!</p>}
       {pings.map((ping, index) => (
         <PingCard
-          key={ping.id}
+          key={`${ping.id}-${ping.reposted_by?.id ?? ''}`}
           post={
             // Map the fetched ping data to the expected PingCardProps
             {
@@ -69,17 +104,20 @@ const Feed: React.FC = () => {
               content: ping.content,
               created_at: ping.created_at,
               image_url: ping.image_url,
+              ping_media: ping.ping_media,
               user_id: ping.user_id,
               profiles: ping.profiles,
-              // These will be used in PingCard to initialize state, currently mocked there
-              like_count: ping.like_count,
-              repost_count: ping.repost_count,
-              is_liked: ping.is_liked,
-              is_reposted: ping.is_reposted,
+              quoted_ping: ping.quoted_ping,
+              reposted_by: ping.reposted_by,
+              // Used in PingCard to initialize like/repost/comment state
+              ...summarizeInteractions(ping, user?.id),
             }
           }
         />
       ))}
+      <div ref={sentinelRef} className="h-10 w-full flex items-center justify-center">
+        {isLoadingMore && <LoadingSpinner />}
+      </div>
     </div>
   );
 };
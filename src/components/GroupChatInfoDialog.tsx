@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Crown, LogOut, Shield, UserMinus } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/Avatar';
+import ChatMemberPicker from '@/components/ChatMemberPicker';
+import { addChatMembers, leaveChat, removeChatMember, renameGroupChat, setChatMemberRole } from '@/api/chats';
+import type { SearchUser } from '@/api/search';
+import { canManageChat, findMyParticipant, sortParticipants } from '@/lib/chats';
+import { logger } from '@/lib/logger';
+import { useChatContext } from '@/providers/ChatContext';
+import type { ChatParticipant } from '@/types';
+
+interface GroupChatInfoDialogProps {
+  chatId: string;
+  chatName: string | null;
+  participants: ChatParticipant[];
+  currentUserId: string | undefined;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MAX_GROUP_NAME_LENGTH = 100;
+
+// Group settings: rename, members and their roles, adding people and leaving.
+// Changes show up through the chat's realtime subscription, so nothing is patched locally.
+const GroupChatInfoDialog = ({ chatId, chatName, participants, currentUserId, open, onOpenChange }: GroupChatInfoDialogProps) => {
+  const navigate = useNavigate();
+  const { fetchChats } = useChatContext();
+  const [name, setName] = useState(chatName ?? '');
+  const [newMembers, setNewMembers] = useState<SearchUser[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const me = findMyParticipant(participants, currentUserId);
+  const isOwner = me?.role === 'owner';
+  const canManage = canManageChat(me);
+
+  useEffect(() => {
+    if (open) {
+      setName(chatName ?? '');
+      setNewMembers([]);
+    }
+  }, [open, chatName]);
+
+  const run = async (action: () => Promise<void>, errorMessage: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      logger.error(errorMessage, error, { userMessage: `${errorMessage}.` });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = () => run(() => renameGroupChat(chatId, name.trim()), 'Could not rename the group');
+
+  const handleAddMembers = () =>
+    run(async () => {
+      await addChatMembers(chatId, newMembers.map(({ id }) => id));
+      setNewMembers([]);
+    }, 'Could not add members');
+
+  const handleLeave = () =>
+    run(async () => {
+      await leaveChat(chatId);
+      onOpenChange(false);
+      await fetchChats();
+      navigate('/chats');
+    }, 'Could not leave the group');
+
+  const canRemove = (participant: ChatParticipant) =>
+    participant.user_id !== currentUserId &&
+    participant.role !== 'owner' &&
+    (isOwner || (me?.role === 'admin' && participant.role === 'member'));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg rounded-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Group info</DialogTitle>
+        </DialogHeader>
+
+        {canManage && (
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value.slice(0, MAX_GROUP_NAME_LENGTH))}
+              placeholder="Group name"
+              className="rounded-2xl"
+            />
+            <Button
+              onClick={handleRename}
+              disabled={busy || !name.trim() || name.trim() === chatName}
+              className="rounded-2xl"
+            >
+              Rename
+            </Button>
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-sm font-semibold text-muted-foreground mb-2">{participants.length} members</h3>
+          <ul className="space-y-1">
+            {sortParticipants(participants).map((participant) => (
+              <li key={participant.user_id} className="flex items-center gap-3 rounded-2xl px-2 py-2">
+                <Avatar className="w-9 h-9">
+                  {participant.profiles?.avatar_url ? (
+                    <AvatarImage src={participant.profiles.avatar_url} alt={participant.profiles.display_name} />
+                  ) : (
+                    <AvatarFallback className="bg-gradient-to-br from-primary to-primary/50 text-white font-semibold text-sm">
+                      {participant.profiles?.display_name?.[0]?.toUpperCase()}
+                    </AvatarFallback>
+                  )}
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold truncate">
+                    {participant.profiles?.display_name}
+                    {participant.user_id === currentUserId && <span className="text-muted-foreground font-normal"> (you)</span>}
+                  </p>
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    {participant.role === 'owner' && <Crown className="h-3 w-3 text-primary" />}
+                    {participant.role === 'admin' && <Shield className="h-3 w-3 text-primary" />}
+                    {participant.role === 'owner' ? 'Owner' : participant.role === 'admin' ? 'Admin' : `@${participant.profiles?.username}`}
+                  </p>
+                </div>
+                {isOwner && participant.role !== 'owner' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy}
+                    onClick={() =>
+                      run(
+                        () => setChatMemberRole(chatId, participant.user_id, participant.role === 'admin' ? 'member' : 'admin'),
+                        'Could not change the role'
+                      )
+                    }
+                    className="rounded-full text-xs"
+                  >
+                    {participant.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                  </Button>
+                )}
+                {canRemove(participant) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={busy}
+                    onClick={() => run(() => removeChatMember(chatId, participant.user_id), 'Could not remove the member')}
+                    className="rounded-full text-destructive"
+                    aria-label={`Remove ${participant.profiles?.display_name}`}
+                  >
+                    <UserMinus className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {canManage && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-muted-foreground">Add people</h3>
+            <ChatMemberPicker
+              selected={newMembers}
+              onChange={setNewMembers}
+              excludeIds={participants.map(({ user_id }) => user_id)}
+            />
+            {newMembers.length > 0 && (
+              <Button onClick={handleAddMembers} disabled={busy} className="w-full rounded-2xl">
+                Add {newMembers.length} {newMembers.length === 1 ? 'person' : 'people'}
+              </Button>
+            )}
+          </div>
+        )}
+
+        <Button variant="outline" onClick={handleLeave} disabled={busy} className="w-full h-12 rounded-2xl text-destructive">
+          <LogOut className="h-4 w-4 mr-2" />
+          Leave group
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GroupChatInfoDialog;
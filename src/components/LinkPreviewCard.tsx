@@ -0,0 +1,44 @@
+import { useLinkPreview } from '@/hooks/use-link-preview';
+
+interface LinkPreviewCardProps {
+  url: string | null;
+  className?: string;
+}
+
+// OpenGraph card for the first link in a ping; renders nothing until there is a title or image to show
+const LinkPreviewCard = ({ url, className = 'mb-4' }: LinkPreviewCardProps) => {
+  const preview = useLinkPreview(url);
+
+  if (!url || !preview) return null;
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => e.stopPropagation()}
+      className={`block overflow-hidden rounded-2xl border border-border/50 bg-background/40 hover:bg-background/70 transition-apple animate-fade-in ${className}`}
+    >
+      {preview.image_url && (
+        <img
+          src={preview.image_url}
+          alt={preview.title ?? ''}
+          loading="lazy"
+          referrerPolicy="no-referrer"
+          className="w-full max-h-64 object-cover"
+        />
+      )}
+      <div className="p-3">
+        {preview.site_name && (
+          <p className="text-xs text-muted-foreground uppercase tracking-wide truncate">{preview.site_name}</p>
+        )}
+        {preview.title && <p className="font-semibold line-clamp-2">{preview.title}</p>}
+        {preview.description && (
+          <p className="text-sm text-muted-foreground line-clamp-2 mt-0.5">{preview.description}</p>
+        )}
+      </div>
+    </a>
+  );
+};
+
+export default LinkPreviewCard;
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useBlurhashPlaceholder } from '@/hooks/use-blurhash-placeholder';
+import type { PingMediaItem } from '@/api/pings';
+
+interface MediaGridProps {
+  media?: PingMediaItem[];
+  // Legacy single-image pings only have image_url
+  imageUrl?: string | null;
+  className?: string;
+}
+
+type GridItem = Pick<PingMediaItem, 'url' | 'media_type' | 'width' | 'height' | 'blurhash' | 'alt_text'> & { key: string };
+
+// Tailwind classes per attachment count: 1 full width, 2 side by side, 3 with a tall first tile, 4 as a 2x2 grid
+const GRID_LAYOUTS: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-2',
+  3: 'grid-cols-2 grid-rows-2 [&>*:first-child]:row-span-2',
+  4: 'grid-cols-2 grid-rows-2',
+};
+
+const toGridItems = (media: PingMediaItem[] = [], imageUrl?: string | null): GridItem[] => {
+  if (media.length > 0) {
+    return [...media]
+      .sort((a, b) => a.position - b.position)
+      .map(item => ({ ...item, key: item.id }));
+  }
+  return imageUrl ? [{ key: imageUrl, url: imageUrl, media_type: 'image', width: null, height: null, blurhash: null, alt_text: null }] : [];
+};
+
+// Pings without a description still get an alt that says what the element is
+const altFor = (item: GridItem) => item.alt_text || 'Image attached to ping';
+
+// Separate component so each tile can track its own load state for the blurhash placeholder
+const GridImage = ({ item, className }: { item: GridItem; className?: string }) => {
+  const placeholder = useBlurhashPlaceholder(item.blurhash, item.url);
+
+  return (
+    <img
+      src={item.url}
+      alt={altFor(item)}
+      title={item.alt_text ?? undefined}
+      loading="lazy"
+      width={item.width ?? undefined}
+      height={item.height ?? undefined}
+      style={placeholder.style}
+      onLoad={placeholder.onLoad}
+      className={className}
+    />
+  );
+};
+
+const MediaGrid = ({ media, imageUrl, className }: MediaGridProps) => {
+  const items = toGridItems(media, imageUrl);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  // Arrow keys / Escape while the lightbox is open
+  useEffect(() => {
+    if (lightboxIndex === null) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setLightboxIndex(null);
+      if (e.key === 'ArrowRight') setLightboxIndex(i => (i === null ? i : (i + 1) % items.length));
+      if (e.key === 'ArrowLeft') setLightboxIndex(i => (i === null ? i : (i - 1 + items.length) % items.length));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [lightboxIndex, items.length]);
+
+  if (items.length === 0) return null;
+
+  const single = items.length === 1 ? items[0] : null;
+
+  return (
+    <>
+      <div
+        className={cn('grid gap-1 rounded-2xl overflow-hidden mb-4', GRID_LAYOUTS[items.length], items.length > 1 && 'aspect-[16/10]', className)}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {items.map((item, index) =>
+          item.media_type === 'video' ? (
+            <video
+              key={item.key}
+              src={item.url}
+              controls
+              playsInline
+              preload="metadata"
+              aria-label={item.alt_text ?? undefined}
+              className="w-full max-h-96 bg-black object-contain"
+            />
+          ) : (
+            <button key={item.key} onClick={() => setLightboxIndex(index)} className="relative w-full h-full">
+              <GridImage item={item} className={cn('w-full object-cover', single ? 'max-h-96' : 'h-full')} />
+              {item.alt_text && (
+                <span className="absolute bottom-2 left-2 rounded-md bg-black/70 px-1.5 py-0.5 text-[10px] font-bold text-white" aria-hidden="true">
+                  ALT
+                </span>
+              )}
+            </button>
+          )
+        )}
+      </div>
+
+      {lightboxIndex !== null && (
+        <div className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center" onClick={() => setLightboxIndex(null)}>
+          <button
+            onClick={() => setLightboxIndex(null)}
+            className="absolute top-4 right-4 rounded-full p-2 bg-background/20 text-white hover:bg-background/40 transition-apple"
+          >
+            <X className="h-5 w-5" />
+          </button>
+          {items.length > 1 && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setLightboxIndex((lightboxIndex - 1 + items.length) % items.length);
+              }}
+              className="absolute left-4 rounded-full p-2 bg-background/20 text-white hover:bg-background/40 transition-apple"
+            >
+              <ChevronLeft className="h-6 w-6" />
+            </button>
+          )}
+          <figure className="flex flex-col items-center gap-3" onClick={(e) => e.stopPropagation()}>
+            <img
+              src={items[lightboxIndex].url}
+              alt={altFor(items[lightboxIndex])}
+              className="max-h-[80vh] max-w-[90vw] object-contain"
+            />
+            {items[lightboxIndex].alt_text && (
+              <figcaption className="max-w-xl px-4 text-sm text-white/90 text-center">{items[lightboxIndex].alt_text}</figcaption>
+            )}
+          </figure>
+          {items.length > 1 && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setLightboxIndex((lightboxIndex + 1) % items.length);
+              }}
+              className="absolute right-4 rounded-full p-2 bg-background/20 text-white hover:bg-background/40 transition-apple"
+            >
+              <ChevronRight className="h-6 w-6" />
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MediaGrid;
@@ -0,0 +1,147 @@
+import { useEffect, useState, type RefObject } from 'react';
+import { useDebounce } from '@/hooks/use-debounce';
+import { getMentionQuery, insertMention } from '@/lib/mentions';
+import { searchMentionCandidates, type MentionCandidate } from '@/api/mentions';
+import { logger } from '@/lib/logger';
+import { cn } from '@/lib/utils';
+
+interface MentionSuggestionsProps {
+  textareaRef: RefObject<HTMLTextAreaElement>;
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+// @username autocomplete for a textarea: render it next to the textarea inside a `relative` container.
+// Arrow keys move through the suggestions, Enter/Tab picks one and Escape closes the list.
+const MentionSuggestions = ({ textareaRef, value, onChange, className }: MentionSuggestionsProps) => {
+  const [caret, setCaret] = useState<number | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const [candidates, setCandidates] = useState<MentionCandidate[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const mention = caret === null ? null : getMentionQuery(value, caret);
+  const debouncedQuery = useDebounce(mention?.query ?? null, 150);
+  const open = !!mention && !dismissed && candidates.length > 0;
+
+  // Follow the caret; typing re-opens a list closed with Escape
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const updateCaret = () => setCaret(textarea.selectionStart);
+    const handleInput = () => {
+      setDismissed(false);
+      updateCaret();
+    };
+    const handleBlur = () => setCaret(null);
+
+    textarea.addEventListener('input', handleInput);
+    textarea.addEventListener('keyup', updateCaret);
+    textarea.addEventListener('click', updateCaret);
+    textarea.addEventListener('blur', handleBlur);
+    return () => {
+      textarea.removeEventListener('input', handleInput);
+      textarea.removeEventListener('keyup', updateCaret);
+      textarea.removeEventListener('click', updateCaret);
+      textarea.removeEventListener('blur', handleBlur);
+    };
+  }, [textareaRef]);
+
+  useEffect(() => {
+    if (debouncedQuery === null) {
+      setCandidates([]);
+      return;
+    }
+
+    let cancelled = false;
+    searchMentionCandidates(debouncedQuery)
+      .then((results) => {
+        if (cancelled) return;
+        setCandidates(results);
+        setActiveIndex(0);
+      })
+      .catch((error) => logger.error('Error loading mention suggestions', error, { showToast: false }));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  const select = (candidate: MentionCandidate) => {
+    const textarea = textareaRef.current;
+    if (!mention || caret === null || !textarea) return;
+
+    const result = insertMention(value, mention, caret, candidate.username);
+    onChange(result.text);
+    setCandidates([]);
+    // Move the caret after the inserted mention once React has applied the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.caret, result.caret);
+      setCaret(result.caret);
+    });
+  };
+
+  // Keyboard navigation, registered on the textarea so the keys don't reach it while the list is open
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || !open) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex((i) => (i + 1) % candidates.length);
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex((i) => (i - 1 + candidates.length) % candidates.length);
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        select(candidates[activeIndex]);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        setDismissed(true);
+      }
+    };
+
+    textarea.addEventListener('keydown', handleKeyDown);
+    return () => textarea.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!open) return null;
+
+  return (
+    <ul
+      role="listbox"
+      className={cn('absolute left-0 right-0 z-50 mt-1 glass-strong rounded-2xl shadow-lg overflow-hidden', className)}
+    >
+      {candidates.map((candidate, index) => (
+        <li
+          key={candidate.id}
+          role="option"
+          aria-selected={index === activeIndex}
+          // mousedown instead of click so the textarea doesn't lose focus first
+          onMouseDown={(e) => {
+            e.preventDefault();
+            select(candidate);
+          }}
+          onMouseEnter={() => setActiveIndex(index)}
+          className={cn(
+            'flex items-center gap-3 px-4 py-2 cursor-pointer transition-apple',
+            index === activeIndex ? 'bg-primary/10' : 'hover:bg-background/50'
+          )}
+        >
+          <div className="w-8 h-8 rounded-full bg-gradient-to-br from-primary to-primary/50 flex items-center justify-center text-white font-semibold text-xs">
+            {candidate.display_name?.[0]?.toUpperCase() || 'U'}
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-semibold truncate">{candidate.display_name}</p>
+            <p className="text-xs text-muted-foreground truncate">@{candidate.username}</p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default MentionSuggestions;
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { Copy, Pencil, Reply, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { QUICK_REACTIONS, type ReactionSummary } from '@/lib/chats';
+import { cn } from '@/lib/utils';
+
+interface MessageActionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Tombstones and system messages only offer "Delete for me"
+  canInteract: boolean;
+  canEdit: boolean;
+  canDeleteForEveryone: boolean;
+  hasText: boolean;
+  reactions: ReactionSummary[];
+  onReact: (emoji: string) => void;
+  onReply: () => void;
+  onCopy: () => void;
+  onEdit: () => void;
+  onDeleteForMe: () => void;
+  onDeleteForEveryone: () => void;
+}
+
+// Actions for one chat message, opened by long-pressing or right-clicking it.
+// Every action closes the dialog; deleting for everyone asks for confirmation first.
+const MessageActionsDialog = ({
+  open,
+  onOpenChange,
+  canInteract,
+  canEdit,
+  canDeleteForEveryone,
+  hasText,
+  reactions,
+  onReact,
+  onReply,
+  onCopy,
+  onEdit,
+  onDeleteForMe,
+  onDeleteForEveryone,
+}: MessageActionsDialogProps) => {
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  useEffect(() => {
+    if (open) setConfirmingDelete(false);
+  }, [open]);
+
+  const run = (action: () => void) => () => {
+    onOpenChange(false);
+    action();
+  };
+
+  const actionClass = 'w-full justify-start h-12 rounded-2xl';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm rounded-3xl">
+        <DialogHeader>
+          <DialogTitle>{confirmingDelete ? 'Delete for everyone?' : 'Message'}</DialogTitle>
+        </DialogHeader>
+
+        {confirmingDelete ? (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              The message and its attachments are removed for everyone in the chat. Others will see that a message was deleted.
+            </p>
+            <Button variant="destructive" onClick={run(onDeleteForEveryone)} className="w-full h-12 rounded-2xl">
+              Delete for everyone
+            </Button>
+            <Button variant="outline" onClick={() => setConfirmingDelete(false)} className="w-full h-12 rounded-2xl">
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {canInteract && (
+              <div className="flex justify-between gap-1 pb-2">
+                {QUICK_REACTIONS.map((emoji) => {
+                  const reacted = reactions.some((reaction) => reaction.emoji === emoji && reaction.reacted);
+                  return (
+                    <button
+                      key={emoji}
+                      onClick={run(() => onReact(emoji))}
+                      aria-pressed={reacted}
+                      aria-label={reacted ? `Remove ${emoji} reaction` : `React with ${emoji}`}
+                      className={cn('text-2xl rounded-full w-11 h-11 transition-apple hover:bg-muted', reacted && 'bg-primary/15')}
+                    >
+                      {emoji}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            {canInteract && (
+              <Button variant="ghost" onClick={run(onReply)} className={actionClass}>
+                <Reply className="h-4 w-4 mr-3" />
+                Reply
+              </Button>
+            )}
+            {canInteract && hasText && (
+              <Button variant="ghost" onClick={run(onCopy)} className={actionClass}>
+                <Copy className="h-4 w-4 mr-3" />
+                Copy text
+              </Button>
+            )}
+            {canEdit && (
+              <Button variant="ghost" onClick={run(onEdit)} className={actionClass}>
+                <Pencil className="h-4 w-4 mr-3" />
+                Edit
+              </Button>
+            )}
+            <Button variant="ghost" onClick={run(onDeleteForMe)} className={cn(actionClass, 'text-destructive')}>
+              <Trash2 className="h-4 w-4 mr-3" />
+              Delete for me
+            </Button>
+            {canDeleteForEveryone && (
+              <Button variant="ghost" onClick={() => setConfirmingDelete(true)} className={cn(actionClass, 'text-destructive')}>
+                <Trash2 className="h-4 w-4 mr-3" />
+                Delete for everyone
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageActionsDialog;
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Download, FileText, Mic } from 'lucide-react';
+import { getChatAttachmentUrl } from '@/api/storage';
+import { useBlurhashPlaceholder } from '@/hooks/use-blurhash-placeholder';
+import { formatDuration, formatFileSize } from '@/lib/attachments';
+import { logger } from '@/lib/logger';
+import { cn } from '@/lib/utils';
+import type { MessageAttachment } from '@/types';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  // Own messages sit on the primary colour, which changes the contrast of file rows
+  isOwn?: boolean;
+}
+
+/**
+ * Resolves the signed URL of an attachment; undefined while loading, null when it couldn't be signed.
+ */
+function useAttachmentUrl(attachment: MessageAttachment, download = false) {
+  const [url, setUrl] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(undefined);
+    getChatAttachmentUrl(attachment.storage_path, download ? attachment.file_name : undefined)
+      .then((signedUrl) => !cancelled && setUrl(signedUrl))
+      .catch((error) => {
+        logger.error('Error signing chat attachment URL', error, { showToast: false });
+        if (!cancelled) setUrl(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.storage_path, attachment.file_name, download]);
+
+  return url;
+}
+
+const AttachmentImage = ({ attachment }: { attachment: MessageAttachment }) => {
+  const url = useAttachmentUrl(attachment);
+  const placeholder = useBlurhashPlaceholder(attachment.blurhash, url ?? undefined);
+  // Reserve the image's shape so the conversation doesn't jump when it loads
+  const aspectRatio = attachment.width && attachment.height ? `${attachment.width} / ${attachment.height}` : undefined;
+
+  if (url === null) {
+    return <p className="text-xs opacity-70">Image unavailable</p>;
+  }
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="block">
+      <img
+        src={url}
+        alt={attachment.file_name}
+        loading="lazy"
+        width={attachment.width ?? undefined}
+        height={attachment.height ?? undefined}
+        style={{ aspectRatio, ...placeholder.style }}
+        onLoad={placeholder.onLoad}
+        className="rounded-xl max-h-72 w-auto max-w-full object-cover bg-muted"
+      />
+    </a>
+  );
+};
+
+const AttachmentVoice = ({ attachment }: { attachment: MessageAttachment }) => {
+  const url = useAttachmentUrl(attachment);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Mic className="h-4 w-4 shrink-0 opacity-70" />
+      {url ? (
+        <audio controls preload="metadata" src={url} className="h-9 max-w-[220px]" aria-label="Voice message" />
+      ) : (
+        <span className="text-xs opacity-70">{url === null ? 'Voice message unavailable' : 'Loading…'}</span>
+      )}
+      {attachment.duration_seconds !== null && (
+        <span className="text-xs opacity-70 tabular-nums">{formatDuration(attachment.duration_seconds)}</span>
+      )}
+    </div>
+  );
+};
+
+const AttachmentFile = ({ attachment, isOwn }: { attachment: MessageAttachment; isOwn?: boolean }) => {
+  const url = useAttachmentUrl(attachment, true);
+
+  return (
+    <a
+      href={url ?? undefined}
+      aria-disabled={!url}
+      className={cn(
+        'flex items-center gap-3 rounded-xl px-3 py-2 transition-apple',
+        isOwn ? 'bg-primary-foreground/15 hover:bg-primary-foreground/25' : 'bg-muted hover:bg-muted/70',
+        !url && 'pointer-events-none opacity-70'
+      )}
+    >
+      <FileText className="h-5 w-5 shrink-0" />
+      <span className="min-w-0 flex-1">
+        <span className="block text-sm font-medium truncate">{attachment.file_name}</span>
+        <span className="block text-xs opacity-70">{formatFileSize(attachment.size_bytes)}</span>
+      </span>
+      <Download className="h-4 w-4 shrink-0 opacity-70" />
+    </a>
+  );
+};
+
+// Attachments of one chat message: images inline, voice notes as players and other files as download rows
+const MessageAttachments = ({ attachments, isOwn }: MessageAttachmentsProps) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-1">
+      {[...attachments]
+        .sort((a, b) => a.position - b.position)
+        .map((attachment) => {
+          if (attachment.attachment_type === 'image') return <AttachmentImage key={attachment.id} attachment={attachment} />;
+          if (attachment.attachment_type === 'voice') return <AttachmentVoice key={attachment.id} attachment={attachment} />;
+          return <AttachmentFile key={attachment.id} attachment={attachment} isOwn={isOwn} />;
+        })}
+    </div>
+  );
+};
+
+export default MessageAttachments;
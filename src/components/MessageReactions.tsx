@@ -0,0 +1,35 @@
+import { cn } from '@/lib/utils';
+import type { ReactionSummary } from '@/lib/chats';
+
+interface MessageReactionsProps {
+  reactions: ReactionSummary[];
+  onToggle: (emoji: string) => void;
+  className?: string;
+}
+
+// Reaction chips under a chat message; tapping one adds or removes the current user's reaction
+const MessageReactions = ({ reactions, onToggle, className }: MessageReactionsProps) => {
+  if (reactions.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1 mt-1', className)}>
+      {reactions.map(({ emoji, count, reacted }) => (
+        <button
+          key={emoji}
+          onClick={() => onToggle(emoji)}
+          aria-pressed={reacted}
+          aria-label={`${emoji} ${count}${reacted ? ', including you' : ''}`}
+          className={cn(
+            'flex items-center gap-1 rounded-full px-2 py-0.5 text-xs border transition-apple',
+            reacted ? 'bg-primary/15 border-primary/50 text-foreground' : 'bg-background/80 border-border/50 hover:bg-muted'
+          )}
+        >
+          <span>{emoji}</span>
+          <span className="tabular-nums">{count}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default MessageReactions;
@@ -0,0 +1,31 @@
+import { describeMessage } from '@/lib/chats';
+import { cn } from '@/lib/utils';
+import type { MessageReplyPreview } from '@/types';
+
+interface MessageReplyQuoteProps {
+  // null when the original message is gone or was deleted for the current user
+  reply: MessageReplyPreview | null;
+  onClick?: () => void;
+  className?: string;
+}
+
+// Quoted preview of the message being replied to, shown in the reply bubble and above the composer
+const MessageReplyQuote = ({ reply, onClick, className }: MessageReplyQuoteProps) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={!onClick || !reply}
+    className={cn('block w-full text-left border-l-2 border-current pl-2 py-0.5 opacity-80 min-w-0', className)}
+  >
+    {reply ? (
+      <>
+        <span className="block text-xs font-semibold truncate">{reply.sender?.display_name ?? 'Unknown'}</span>
+        <span className={cn('block text-xs truncate', reply.deleted_at && 'italic')}>{describeMessage(reply)}</span>
+      </>
+    ) : (
+      <span className="block text-xs italic">Original message unavailable</span>
+    )}
+  </button>
+);
+
+export default MessageReplyQuote;
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import ChatMemberPicker from '@/components/ChatMemberPicker';
+import { useChatContext } from '@/providers/ChatContext';
+import { useAuth } from '@/providers/SupabaseAuthContext';
+import type { SearchUser } from '@/api/search';
+
+interface NewGroupChatDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MAX_GROUP_NAME_LENGTH = 100;
+
+// Name the group, pick members, and open the new chat
+const NewGroupChatDialog = ({ open, onOpenChange }: NewGroupChatDialogProps) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { createGroupChat } = useChatContext();
+  const [name, setName] = useState('');
+  const [members, setMembers] = useState<SearchUser[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  // Start empty each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setMembers([]);
+    }
+  }, [open]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    const chatId = await createGroupChat(name.trim(), members.map(({ id }) => id));
+    setCreating(false);
+    if (chatId) {
+      onOpenChange(false);
+      navigate(`/chats/${chatId}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg rounded-3xl">
+        <DialogHeader>
+          <DialogTitle>New group</DialogTitle>
+        </DialogHeader>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value.slice(0, MAX_GROUP_NAME_LENGTH))}
+          placeholder="Group name"
+          className="rounded-2xl"
+          autoFocus
+        />
+        <ChatMemberPicker selected={members} onChange={setMembers} excludeIds={user ? [user.id] : []} />
+        <Button
+          onClick={handleCreate}
+          disabled={creating || !name.trim() || members.length === 0}
+          className="w-full h-12 rounded-2xl font-semibold"
+        >
+          {creating ? 'Creating...' : `Create group${members.length > 0 ? ` with ${members.length + 1} people` : ''}`}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewGroupChatDialog;
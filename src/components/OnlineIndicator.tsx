@@ -0,0 +1,21 @@
+import { cn } from '@/lib/utils';
+
+interface OnlineIndicatorProps {
+  online: boolean;
+  className?: string;
+}
+
+// Green dot for the corner of an avatar. Avatar clips its children, so place this next to it inside a `relative` wrapper.
+const OnlineIndicator = ({ online, className }: OnlineIndicatorProps) => {
+  if (!online) return null;
+
+  return (
+    <span
+      className={cn('absolute bottom-0 right-0 w-3 h-3 rounded-full bg-green-500 ring-2 ring-background', className)}
+      aria-label="Online"
+      title="Online"
+    />
+  );
+};
+
+export default OnlineIndicator;
@@ -1,10 +1,18 @@
 import { useNavigate } from 'react-router-dom';
 import { ParsedText } from '@/lib/textParser';
-import { Avatar, AvatarFallback } from '@/components/ui/Avatar';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/Avatar';
 import { useState } from 'react';
-import { Check, Heart, MessageCircle, Repeat2 } from 'lucide-react';
+import { Check, Heart, MessageCircle, Quote, Repeat2 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
-import { toggleLike, toggleRepost } from '@/api/pings';
+import { toggleLike, toggleRepost, type FeedPing, type PingMediaItem, type QuotedPing as QuotedPingData } from '@/api/pings';
+import QuotedPing from '@/components/QuotedPing';
+import MediaGrid from '@/components/MediaGrid';
+import LinkPreviewCard from '@/components/LinkPreviewCard';
+import QuotePingDialog from '@/components/QuotePingDialog';
+import EditPingDialog from '@/components/EditPingDialog';
+import PingRevisionsDialog from '@/components/PingRevisionsDialog';
+import { useAuth } from '@/providers/SupabaseAuthContext';
+import { extractFirstUrl } from '@/lib/links';
 
 // Reusing types from Profile.tsx/SearchResults.tsx
 interface Post {
@@ -12,11 +20,16 @@ interface Post {
   content: string;
   created_at: string;
   image_url?: string;
+  ping_media?: PingMediaItem[]; // Attachments (up to 4 images or one video)
   user_id: string;
   like_count?: number; // Added from feed data
   repost_count?: number; // Added from feed data
   is_liked?: boolean; // Added from feed data
   is_reposted?: boolean; // Added from feed data
+  comment_count?: number; // Added from feed data
+  quoted_ping?: QuotedPingData | null; // Embedded original when this is a quote ping
+  reposted_by?: FeedPing['reposted_by']; // Set when shown in the feed because of a repost
+  edited_at?: string | null; // Set when the content has been edited
 }
 
 interface Profile {
@@ -24,30 +37,43 @@ interface Profile {
   username: string;
   display_name: string;
   verified: boolean;
+  avatar_url?: string | null;
+  avatar_blurhash?: string | null;
 }
 
 interface PingCardProps {
   // Update to include new props
   post: Post & { profiles?: Profile };
   profile?: Profile;
+  // Lets the "edited" marker open the revision history (used on PostDetail)
+  showEditHistory?: boolean;
 }
 
-const PingCard = ({ post, profile }: PingCardProps) => {
+const PingCard = ({ post, profile, showEditHistory = false }: PingCardProps) => {
   const navigate = useNavigate();
+  const { user } = useAuth();
   
   // Use embedded profile or passed profile
-  const postProfile = post.profiles || post.profiles;
+  const postProfile = post.profiles || profile;
 
-  if (!postProfile) return null;
-
-  const navigateToProfile = () => navigate(`/profile/${postProfile.username}`);
-
-  // Initialize state with props from feed, falling back to mocked values
+  // Initialize state with props from feed
   const [isLiked, setIsLiked] = useState(post.is_liked ?? false);
   const [isReposted, setIsReposted] = useState(post.is_reposted ?? false);
   const [likeCount, setLikeCount] = useState(post.like_count ?? 0);
   const [repostCount, setRepostCount] = useState(post.repost_count ?? 0);
-  const [commentCount] = useState(5); // Comments fetching not yet implemented in API
+  const [repostMenuOpen, setRepostMenuOpen] = useState(false);
+  const [quoteOpen, setQuoteOpen] = useState(false);
+  const [content, setContent] = useState(post.content);
+  const [editedAt, setEditedAt] = useState(post.edited_at ?? null);
+  const [moreMenuOpen, setMoreMenuOpen] = useState(false);
+  const [editOpen, setEditOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const commentCount = post.comment_count ?? 0;
+  const isOwnPing = user?.id === post.user_id;
+
+  if (!postProfile) return null;
+
+  const navigateToProfile = () => navigate(`/profile/${postProfile.username}`);
 
   const handleLike = async () => {
     try {
@@ -62,6 +88,7 @@ const PingCard = ({ post, profile }: PingCardProps) => {
   };
 
   const handleRepost = async () => {
+    setRepostMenuOpen(false);
     try {
       await toggleRepost(post.id, isReposted);
       setIsReposted(c => !c);
@@ -79,12 +106,26 @@ const PingCard = ({ post, profile }: PingCardProps) => {
       className="glass rounded-3xl p-6 shadow-md animate-fade-in"
       // Note: Animation delay styling is removed here as it should be controlled by the parent list.
     >
-      <div className="flex items-start gap-3 mb-3">
+      {post.reposted_by && (
         <button
-          onClick={navigateToProfile}
-          className="w-10 h-10 rounded-full bg-gradient-to-br from-primary to-primary/50 flex items-center justify-center text-white font-semibold text-sm hover:scale-105 transition-apple"
+          onClick={() => navigate(`/profile/${post.reposted_by?.username}`)}
+          className="flex items-center gap-1.5 mb-3 text-xs font-medium text-muted-foreground hover:text-foreground transition-apple"
         >
-          {postProfile.display_name[0]?.toUpperCase() || 'U'}
+          <Repeat2 className="h-3.5 w-3.5" />
+          Reposted by {post.reposted_by.display_name}
+        </button>
+      )}
+      <div className="flex items-start gap-3 mb-3">
+        <button onClick={navigateToProfile} className="rounded-full hover:scale-105 transition-apple">
+          <Avatar>
+            {postProfile.avatar_url ? (
+              <AvatarImage src={postProfile.avatar_url} alt={postProfile.display_name} blurhash={postProfile.avatar_blurhash} />
+            ) : (
+              <AvatarFallback className="bg-gradient-to-br from-primary to-primary/50 text-white font-semibold text-sm">
+                {postProfile.display_name[0]?.toUpperCase() || 'U'}
+              </AvatarFallback>
+            )}
+          </Avatar>
         </button>
         <div className="flex-1">
           <div className="flex items-center gap-1.5">
@@ -102,22 +143,30 @@ const PingCard = ({ post, profile }: PingCardProps) => {
           </div>
           <p className="text-xs text-muted-foreground">
             @{postProfile.username} · {new Date(post.created_at).toLocaleString()}
+            {editedAt && (
+              showEditHistory ? (
+                <button onClick={() => setHistoryOpen(true)} className="ml-1 underline hover:text-foreground transition-apple">
+                  · edited
+                </button>
+              ) : (
+                <span className="ml-1" title={`Edited ${new Date(editedAt).toLocaleString()}`}>· edited</span>
+              )
+            )}
           </p>
         </div>
       </div>
       
       <p className="text-foreground/90 mb-2">
-        <ParsedText text={post.content} />
+        <ParsedText text={content} />
       </p>
       
       {/* Image/Media Display */}
-      {post.image_url && (
-        <img 
-          src={post.image_url} 
-          alt="Post" 
-          className="rounded-2xl w-full mb-4 max-h-96 object-cover"
-        />
-      )}
+      <MediaGrid media={post.ping_media} imageUrl={post.image_url} />
+
+      {/* Link preview, unless the ping already shows media */}
+      {!post.ping_media?.length && !post.image_url && <LinkPreviewCard url={extractFirstUrl(content)} />}
+
+      {post.quoted_ping && <QuotedPing ping={post.quoted_ping} />}
       
       {/* Interaction Bar (New Instagram-like element) */}
       <div className="flex items-center justify-between mt-2">
@@ -139,22 +188,99 @@ const PingCard = ({ post, profile }: PingCardProps) => {
             <span className="text-sm font-medium">{commentCount}</span>
           </div>
           
-          <div
-            onClick={handleRepost}
-            className="flex items-center gap-1.5 cursor-pointer transition-colors"
-            style={{ color: isReposted ? 'rgb(34 197 94)' : 'var(--muted-foreground)' }}
-          >
-            <Repeat2 className={`h-5 w-5 ${isReposted ? 'text-green-500' : ''}`} />
-            <span className="text-sm font-medium">{repostCount}</span>
+          <div className="relative">
+            <div
+              onClick={() => setRepostMenuOpen(open => !open)}
+              className="flex items-center gap-1.5 cursor-pointer transition-colors"
+              style={{ color: isReposted ? 'rgb(34 197 94)' : 'var(--muted-foreground)' }}
+            >
+              <Repeat2 className={`h-5 w-5 ${isReposted ? 'text-green-500' : ''}`} />
+              <span className="text-sm font-medium">{repostCount}</span>
+            </div>
+            {repostMenuOpen && (
+              <div className="absolute left-0 mt-2 w-40 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
+                <button
+                  onClick={handleRepost}
+                  className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left"
+                >
+                  <Repeat2 className="h-4 w-4" />
+                  {isReposted ? 'Undo repost' : 'Repost'}
+                </button>
+                <button
+                  onClick={() => {
+                    setRepostMenuOpen(false);
+                    setQuoteOpen(true);
+                  }}
+                  className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left"
+                >
+                  <Quote className="h-4 w-4" />
+                  Quote
+                </button>
+              </div>
+            )}
           </div>
         </div>
         
-        {/* Placeholder for Share/More Button */}
-        <Button variant="ghost" size="sm" className="rounded-full h-8 px-2 text-muted-foreground hover:text-foreground">
-          ...
-        </Button>
+        {/* More menu: editing for the author, edit history for everyone once edited */}
+        <div className="relative">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setMoreMenuOpen(open => !open)}
+            className="rounded-full h-8 px-2 text-muted-foreground hover:text-foreground"
+          >
+            ...
+          </Button>
+          {moreMenuOpen && (isOwnPing || editedAt) && (
+            <div className="absolute right-0 mt-2 w-40 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
+              {isOwnPing && (
+                <button
+                  onClick={() => {
+                    setMoreMenuOpen(false);
+                    setEditOpen(true);
+                  }}
+                  className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left"
+                >
+                  Edit Ping
+                </button>
+              )}
+              {editedAt && (
+                <button
+                  onClick={() => {
+                    setMoreMenuOpen(false);
+                    setHistoryOpen(true);
+                  }}
+                  className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left"
+                >
+                  Edit history
+                </button>
+              )}
+            </div>
+          )}
+        </div>
       </div>
 
+      {isOwnPing && (
+        <EditPingDialog
+          ping={{ id: post.id, content }}
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          onSaved={(updated) => {
+            setContent(updated.content);
+            setEditedAt(updated.edited_at ?? null);
+          }}
+        />
+      )}
+      <PingRevisionsDialog
+        ping={{ id: post.id, content, edited_at: editedAt }}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+      />
+      <QuotePingDialog
+        ping={{ ...post, content, image_url: post.image_url ?? null, profiles: postProfile }}
+        open={quoteOpen}
+        onOpenChange={setQuoteOpen}
+      />
     </div>
   );
 };
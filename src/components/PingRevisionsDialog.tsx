@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/Dialog';
+import { ParsedText } from '@/lib/textParser';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { fetchPingRevisions } from '@/api/pings';
+import { logger } from '@/lib/logger';
+import type { PingRevision } from '@/types';
+
+interface PingRevisionsDialogProps {
+  ping: { id: string | number; content: string; edited_at?: string | null };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lists the current version of a ping followed by every prior version, newest first
+const PingRevisionsDialog = ({ ping, open, onOpenChange }: PingRevisionsDialogProps) => {
+  const [revisions, setRevisions] = useState<PingRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadRevisions = async () => {
+      setLoading(true);
+      try {
+        setRevisions(await fetchPingRevisions(String(ping.id)));
+      } catch (error) {
+        logger.error('Error fetching ping revisions', error, { userMessage: 'Failed to load edit history.' });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRevisions();
+  }, [open, ping.id]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg rounded-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <LoadingSpinner text="Loading edit history..." />
+        ) : (
+          <div className="space-y-3">
+            <div className="rounded-2xl border border-primary/40 p-4">
+              <p className="text-xs font-semibold text-primary mb-1">
+                Current{ping.edited_at ? ` · ${new Date(ping.edited_at).toLocaleString()}` : ''}
+              </p>
+              <p className="text-sm break-words"><ParsedText text={ping.content} /></p>
+            </div>
+            {revisions.map((revision) => (
+              <div key={revision.id} className="rounded-2xl border border-border/50 p-4">
+                <p className="text-xs text-muted-foreground mb-1">
+                  {new Date(revision.created_at).toLocaleString()}
+                </p>
+                <p className="text-sm text-foreground/80 break-words"><ParsedText text={revision.content} /></p>
+              </div>
+            ))}
+            {revisions.length === 0 && (
+              <p className="text-sm text-muted-foreground">This ping has not been edited.</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PingRevisionsDialog;
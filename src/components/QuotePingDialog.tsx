@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import QuotedPing from '@/components/QuotedPing';
+import { createPing, type QuotedPing as QuotedPingData } from '@/api/pings';
+import { useAuth } from '@/providers/SupabaseAuthContext';
+import { logger } from '@/lib/logger';
+
+interface QuotePingDialogProps {
+  ping: QuotedPingData;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Composer for a quote ping: the user's comment plus an embed of the original ping
+const QuotePingDialog = ({ ping, open, onOpenChange }: QuotePingDialogProps) => {
+  const { user } = useAuth();
+  const [content, setContent] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const handleQuote = async () => {
+    if (!user || !content.trim() || posting) return;
+
+    setPosting(true);
+    try {
+      await createPing({
+        user_id: user.id,
+        content: content.trim(),
+        quoted_ping_id: String(ping.id),
+      });
+      setContent('');
+      onOpenChange(false);
+      logger.info('Quote ping created successfully.', { quotedPingId: ping.id });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+      logger.error('Error creating quote ping', error, { userMessage: `Failed to quote ping. Details: ${errorMessage}`, showToast: true });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg rounded-3xl">
+        <DialogHeader>
+          <DialogTitle>Quote ping</DialogTitle>
+        </DialogHeader>
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="Add a comment..."
+          className="min-h-[100px] rounded-2xl resize-none"
+          autoFocus
+        />
+        <QuotedPing ping={ping} />
+        <Button
+          onClick={handleQuote}
+          disabled={posting || !content.trim()}
+          className="w-full h-12 rounded-2xl font-semibold"
+        >
+          {posting ? 'Pinging...' : 'Quote'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuotePingDialog;
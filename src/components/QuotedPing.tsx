@@ -0,0 +1,42 @@
+import { useNavigate } from 'react-router-dom';
+import { Check } from 'lucide-react';
+import { ParsedText } from '@/lib/textParser';
+import MediaGrid from '@/components/MediaGrid';
+import type { QuotedPing as QuotedPingData } from '@/api/pings';
+
+interface QuotedPingProps {
+  ping: QuotedPingData;
+}
+
+// Compact, clickable preview of the ping embedded in a quote ping
+const QuotedPing = ({ ping }: QuotedPingProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <div
+      onClick={(e) => {
+        e.stopPropagation();
+        navigate(`/post/${ping.id}`);
+      }}
+      className="rounded-2xl border border-border/50 p-4 mb-4 cursor-pointer hover:bg-background/50 transition-apple"
+    >
+      <div className="flex items-center gap-1.5 mb-1 text-sm">
+        <span className="font-semibold">{ping.profiles?.display_name}</span>
+        {ping.profiles?.verified && (
+          <div className="flex items-center justify-center w-3.5 h-3.5 bg-primary rounded-full">
+            <Check className="h-2.5 w-2.5 text-white stroke-2" />
+          </div>
+        )}
+        <span className="text-xs text-muted-foreground">
+          @{ping.profiles?.username} · {new Date(ping.created_at).toLocaleString()}
+        </span>
+      </div>
+      <p className="text-sm text-foreground/90 break-words">
+        <ParsedText text={ping.content} />
+      </p>
+      <MediaGrid media={ping.ping_media} imageUrl={ping.image_url} className="mt-2 mb-0 rounded-xl" />
+    </div>
+  );
+};
+
+export default QuotedPing;
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { TrendingUp } from 'lucide-react';
+import { fetchTrendingHashtags, type TrendingHashtag } from '@/api/hashtags';
+import { logger } from '@/lib/logger';
+
+interface TrendingHashtagsProps {
+  limit?: number;
+  className?: string;
+}
+
+// "Trending" panel: the most used hashtags with their counts for the last 24h and 7d
+const TrendingHashtags = ({ limit = 5, className = '' }: TrendingHashtagsProps) => {
+  const navigate = useNavigate();
+  const [hashtags, setHashtags] = useState<TrendingHashtag[]>([]);
+
+  useEffect(() => {
+    fetchTrendingHashtags(limit)
+      .then(setHashtags)
+      // Not worth a toast; the panel just stays hidden
+      .catch((error) => logger.error('Error loading trending hashtags', error, { showToast: false }));
+  }, [limit]);
+
+  if (hashtags.length === 0) return null;
+
+  return (
+    <div className={`glass rounded-3xl p-5 shadow-md animate-fade-in ${className}`}>
+      <h2 className="flex items-center gap-2 font-bold mb-3">
+        <TrendingUp className="h-4 w-4 text-primary" />
+        Trending
+      </h2>
+      <ol className="space-y-1">
+        {hashtags.map((hashtag) => (
+          <li key={hashtag.name}>
+            <button
+              onClick={() => navigate(`/tag/${encodeURIComponent(hashtag.name)}`)}
+              className="w-full flex items-baseline justify-between gap-3 rounded-xl px-2 py-1.5 text-left hover:bg-background/50 transition-apple"
+            >
+              <span className="font-semibold text-primary truncate">#{hashtag.name}</span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {hashtag.count_24h} today · {hashtag.count_7d} this week
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default TrendingHashtags;
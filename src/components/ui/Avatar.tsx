@@ -1,5 +1,6 @@
 import * as React from "react"
 import { cn } from "@/lib/utils"
+import { useBlurhashPlaceholder } from "@/hooks/use-blurhash-placeholder"
 
 const Avatar = React.forwardRef<
   React.ElementRef<"span">,
@@ -18,14 +19,23 @@ Avatar.displayName = "Avatar"
 
 const AvatarImage = React.forwardRef<
   React.ElementRef<"img">,
-  React.ComponentPropsWithoutRef<"img">
->(({ className, ...props }, ref) => (
-  <img
-    ref={ref}
-    className={cn("aspect-square h-full w-full", className)}
-    {...props}
-  />
-))
+  React.ComponentPropsWithoutRef<"img"> & { blurhash?: string | null }
+>(({ className, blurhash, style, onLoad, ...props }, ref) => {
+  const placeholder = useBlurhashPlaceholder(blurhash, props.src)
+
+  return (
+    <img
+      ref={ref}
+      className={cn("aspect-square h-full w-full object-cover", className)}
+      style={{ ...placeholder.style, ...style }}
+      onLoad={(e) => {
+        placeholder.onLoad()
+        onLoad?.(e)
+      }}
+      {...props}
+    />
+  )
+})
 AvatarImage.displayName = "AvatarImage"
 
 const AvatarFallback = React.forwardRef<
@@ -5,8 +5,14 @@ import { X } from "lucide-react"
 // Simplified Dialog Context/State - not a full Radix implementation
 const DialogContext = React.createContext<{ open: boolean, setOpen: (open: boolean) => void }>({ open: false, setOpen: () => {} })
 
-const Dialog = ({ children }: { children: React.ReactNode }) => {
-  const [open, setOpen] = React.useState(false)
+// Uncontrolled by default; pass open/onOpenChange to control it from the parent
+const Dialog = ({ children, open: controlledOpen, onOpenChange }: { children: React.ReactNode, open?: boolean, onOpenChange?: (open: boolean) => void }) => {
+  const [uncontrolledOpen, setUncontrolledOpen] = React.useState(false)
+  const open = controlledOpen ?? uncontrolledOpen
+  const setOpen = (value: boolean) => {
+    setUncontrolledOpen(value)
+    onOpenChange?.(value)
+  }
   return <DialogContext.Provider value={{ open, setOpen }}>{children}</DialogContext.Provider>
 }
 
@@ -1,128 +1,400 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Avatar, AvatarFallback } from '@/components/ui/Avatar';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/Avatar';
 import { Button } from '@/components/ui/Button';
 import { Textarea } from '@/components/ui/Textarea';
-import { ArrowLeft, Check, Send, Image as ImageIcon, X, CheckCheck } from 'lucide-react';
+import { ArrowLeft, Check, CheckCheck, FileText, Lock, LockOpen, Mic, Paperclip, Pencil, Send, ShieldAlert, ShieldCheck, Square, X, Users } from 'lucide-react';
+import ChatEncryptionDialog from '@/components/ChatEncryptionDialog';
+import GroupChatInfoDialog from '@/components/GroupChatInfoDialog';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import MessageActionsDialog from '@/components/MessageActionsDialog';
+import MessageAttachments from '@/components/MessageAttachments';
+import MessageReactions from '@/components/MessageReactions';
+import MessageReplyQuote from '@/components/MessageReplyQuote';
+import OnlineIndicator from '@/components/OnlineIndicator';
 import { ParsedText } from '@/lib/textParser';
+import { formatDuration, formatFileSize, getAttachmentType, validateAttachmentSelection } from '@/lib/attachments';
+import { logger } from '@/lib/logger';
+import { canEditMessage, findMyParticipant, getChatTitle, summarizeReactions } from '@/lib/chats';
+import { formatLastSeen, formatTyping } from '@/lib/presence';
+import { formatSeenBy, getMessageReceipt, type DeliveryState } from '@/lib/receipts';
+import { removeChatAttachments, uploadChatAttachment, type UploadedChatAttachment } from '@/api/storage';
+import {
+  addMessageReaction,
+  deleteChatMessageForEveryone,
+  deleteChatMessageForMe,
+  editChatMessage,
+  fetchChatEncryption,
+  removeMessageReaction,
+} from '@/api/chats';
+import { useChatMessages } from '@/hooks/use-chat-messages';
+import { useChatTyping } from '@/hooks/use-chat-typing';
+import { useIntersectionObserver } from '@/hooks/use-intersection-observer';
+import { useKeyVerification } from '@/hooks/use-key-verification';
+import { useLongPress } from '@/hooks/use-long-press';
+import { useToast } from '@/hooks/use-toast';
+import { useVoiceRecorder, type VoiceNote } from '@/hooks/use-voice-recorder';
 import { useChatContext } from '@/providers/ChatContext';
-import { supabase } from '@/lib/supabase';
+import { useEncryption } from '@/providers/EncryptionContext';
+import { usePresence } from '@/providers/PresenceContext';
 import { useAuth } from '@/providers/SupabaseAuthContext';
+import type { AttachmentType, Chat, Message } from '@/types';
 
-interface Message {
-  id: string;
-  user_id: string;
-  content: string;
-  created_at: string;
-  status: string;
-}
+const DELIVERY_LABELS: Record<DeliveryState, string> = {
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read',
+};
+
+// New messages from others only scroll the conversation down when the reader is this close to the bottom
+const NEAR_BOTTOM_PX = 400;
 
-interface OtherUser {
+interface ComposerAttachment {
   id: string;
-  username: string;
-  display_name: string;
-  verified: boolean;
+  file: File;
+  type: AttachmentType;
+  previewUrl: string | null; // Images only
+  durationSeconds?: number; // Voice notes only
+  progress: number | null; // 0-1 while uploading
 }
 
+// Uploads are removed again when the message they were meant for couldn't be sent
+const discardUploads = (uploads: UploadedChatAttachment[]) => {
+  removeChatAttachments(uploads.map(({ storage_path }) => storage_path)).catch((error) =>
+    logger.error('Error removing unsent chat attachments', error, { showToast: false })
+  );
+};
+
 const ChatConversation = () => {
   const { chatId } = useParams();
   const navigate = useNavigate();
   const [message, setMessage] = useState('');
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [otherUser, setOtherUser] = useState<OtherUser | null>(null);
-  const [chatImage, setChatImage] = useState<string | null>(null);
-  const { markChatAsRead } = useChatContext();
+  // undefined while loading, null when the chat can't be read (e.g. removed from the group)
+  const [chat, setChat] = useState<Chat | null | undefined>(undefined);
+  const [infoOpen, setInfoOpen] = useState(false);
+  const [encryptionOpen, setEncryptionOpen] = useState(false);
+  const [attachments, setAttachments] = useState<ComposerAttachment[]>([]);
+  const [sending, setSending] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Message whose actions menu is open, and the message being replied to or edited in the composer
+  const [actionMessageId, setActionMessageId] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [editing, setEditing] = useState<Message | null>(null);
+  const { markChatAsRead, fetchChatDetails, fetchChats, sendMessage } = useChatContext();
+  const { toast } = useToast();
   const { user } = useAuth();
+  const { isOnline } = usePresence();
+  const { encryptForUsers } = useEncryption();
+  const { messages, loading: loadingMessages, hasOlder, loadingOlder, loadOlder, removeMessage, changeReaction } = useChatMessages(chatId);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // The message the view was last scrolled down to, and the first shown message and its position while an older page loads
+  const lastScrolledIdRef = useRef<string | null>(null);
+  const scrollAnchorRef = useRef<{ id: string; top: number } | null>(null);
+  const { ref: topSentinelRef, isIntersecting: nearTop } = useIntersectionObserver({
+    rootMargin: '300px 0px 0px 0px',
+    enabled: !!chat && !loadingMessages && hasOlder,
+  });
 
   useEffect(() => {
-    if (chatId && user) {
-      markChatAsRead(chatId);
-      fetchChatData();
-      fetchMessages();
-    }
-  }, [chatId, user]);
+    if (!chatId || !user) return;
+
+    setChat(undefined);
+    setReplyTo(null);
+    setEditing(null);
+    lastScrolledIdRef.current = null;
+    scrollAnchorRef.current = null;
+    markChatAsRead(chatId);
+    return fetchChatDetails(chatId, setChat);
+  }, [chatId, user, markChatAsRead, fetchChatDetails]);
 
+  const lastMessage = messages[messages.length - 1];
+
+  // Jump to the bottom when the history first loads; afterwards follow new messages smoothly, unless the reader
+  // has scrolled up to older messages and the new one isn't their own
   useEffect(() => {
-    if (!chatId) return;
-    
-    const channel = supabase
-      .channel(`messages-${chatId}`)
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter: `chat_id=eq.${chatId}` }, () => {
-        fetchMessages();
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [chatId]);
+    const end = messagesEndRef.current;
+    if (!lastMessage || !end || lastMessage.id === lastScrolledIdRef.current) return;
 
+    const initial = lastScrolledIdRef.current === null;
+    lastScrolledIdRef.current = lastMessage.id;
+    const distanceFromBottom = document.documentElement.scrollHeight - window.scrollY - window.innerHeight;
+    if (!initial && lastMessage.sender_id !== user?.id && distanceFromBottom > NEAR_BOTTOM_PX) return;
+    end.scrollIntoView({ behavior: initial ? 'auto' : 'smooth' });
+  }, [lastMessage, chat, user]);
+
+  // Load the previous page when the top of the history comes into view
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    if (!nearTop || !hasOlder || loadingOlder || messages.length === 0) return;
+
+    const first = document.querySelector(`[data-message-id="${messages[0].id}"]`);
+    scrollAnchorRef.current = first ? { id: messages[0].id, top: first.getBoundingClientRect().top } : null;
+    loadOlder();
+  }, [nearTop, hasOlder, loadingOlder, loadOlder, messages]);
+
+  // Keep the previously first message where it was on screen once the older page has been prepended
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    if (!anchor || messages[0]?.id === anchor.id) return;
+
+    scrollAnchorRef.current = null;
+    const element = document.querySelector(`[data-message-id="${anchor.id}"]`);
+    if (element) window.scrollBy(0, element.getBoundingClientRect().top - anchor.top);
   }, [messages]);
 
-  const fetchChatData = async () => {
-    if (!chatId || !user) return;
+  // Messages that arrive while the conversation is on screen are read right away;
+  // ones that arrive in a background tab are read when the tab comes back
+  useEffect(() => {
+    if (!chatId || !user || !lastMessage || lastMessage.sender_id === user.id) return;
+
+    const markIfVisible = () => {
+      if (document.visibilityState === 'visible') markChatAsRead(chatId);
+    };
+    markIfVisible();
+    document.addEventListener('visibilitychange', markIfVisible);
+    return () => document.removeEventListener('visibilitychange', markIfVisible);
+  }, [chatId, user, lastMessage, markChatAsRead]);
+
+  const participants = useMemo(() => chat?.chat_participants ?? [], [chat]);
+  const otherParticipant = chat?.is_group_chat ? undefined : participants.find(({ user_id }) => user_id !== user?.id);
+  const verification = useKeyVerification(user?.id, otherParticipant?.user_id, !!chat?.is_encrypted);
+  const { typingNames, notifyTyping, stopTyping } = useChatTyping(chatId, findMyParticipant(participants, user?.id)?.profiles?.display_name);
+
+  // Receipts for the current user's messages, recomputed whenever a participant's read/delivery position changes
+  const receipts = useMemo(
+    () =>
+      new Map(
+        messages
+          .filter((msg) => msg.sender_id === user?.id && msg.message_type !== 'system')
+          .map((msg) => [msg.id, getMessageReceipt(msg, participants)])
+      ),
+    [messages, participants, user]
+  );
 
-    const { data } = await supabase
-      .from('chat_participants')
-      .select('user_id, profiles!chat_participants_user_id_fkey(id, username, display_name, verified)')
-      .eq('chat_id', chatId)
-      .neq('user_id', user.id)
-      .single();
+  // In groups, "Seen by" goes under the newest own message anyone has seen
+  const seenByMessageId = useMemo(() => {
+    if (!chat?.is_group_chat) return null;
+    const seen = messages.filter((msg) => (receipts.get(msg.id)?.seenBy.length ?? 0) > 0);
+    return seen[seen.length - 1]?.id ?? null;
+  }, [chat, messages, receipts]);
 
-    if (data?.profiles) {
-      setOtherUser(data.profiles as any);
+  const addAttachments = (entries: Pick<ComposerAttachment, 'file' | 'type' | 'durationSeconds'>[]) => {
+    const selectionError = validateAttachmentSelection([...attachments.map(({ file }) => file), ...entries.map(({ file }) => file)]);
+    if (selectionError) {
+      logger.warn('ChatConversation.tsx: Rejected attachment selection', { selectionError }, { userMessage: selectionError, showToast: true });
+      return;
     }
+
+    setAttachments((prev) => [
+      ...prev,
+      ...entries.map((entry) => ({
+        ...entry,
+        id: crypto.randomUUID(),
+        previewUrl: entry.type === 'image' ? URL.createObjectURL(entry.file) : null,
+        progress: null,
+      })),
+    ]);
   };
 
-  const fetchMessages = async () => {
-    if (!chatId) return;
+  const voiceRecorder = useVoiceRecorder(({ file, durationSeconds }: VoiceNote) =>
+    addAttachments([{ file, type: 'voice', durationSeconds }])
+  );
 
-    const { data, error } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('chat_id', chatId)
-      .order('created_at', { ascending: true });
+  const handleFilesSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []);
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+    if (picked.length === 0) return;
 
-    if (!error && data) {
-      setMessages(data);
-    }
+    addAttachments(picked.map((file) => ({ file, type: getAttachmentType(file) })));
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setChatImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  const handleStartRecording = () => {
+    voiceRecorder.start().catch((error) =>
+      logger.error('Error starting voice recording', error, { userMessage: 'Could not access the microphone.' })
+    );
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments((prev) => {
+      const removed = prev.find((attachment) => attachment.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((attachment) => attachment.id !== id);
+    });
+  };
+
+  const clearAttachments = () => {
+    attachments.forEach(({ previewUrl }) => previewUrl && URL.revokeObjectURL(previewUrl));
+    setAttachments([]);
+  };
+
+  const setAttachmentProgress = (id: string, progress: number | null) => {
+    setAttachments((prev) => prev.map((attachment) => (attachment.id === id ? { ...attachment, progress } : attachment)));
+  };
+
+  const canSend = (editing ? !!message.trim() : !!message.trim() || attachments.length > 0) && !sending && !voiceRecorder.recording;
+
+  const handleSaveEdit = async (target: Message) => {
+    setSending(true);
+    try {
+      // Read fresh like sending does: edits are encrypted again, for whoever is in the chat now, and the server
+      // refuses edits that don't match the chat's current setting
+      const { isEncrypted, memberIds } = await fetchChatEncryption(target.chat_id);
+      const content = isEncrypted ? await encryptForUsers(message.trim(), memberIds) : message.trim();
+      await editChatMessage(target.id, content, isEncrypted);
+      setEditing(null);
+      setMessage('');
+    } catch (error) {
+      logger.error('Error editing message', error, { userMessage: 'Failed to edit message.' });
+    } finally {
+      setSending(false);
     }
   };
 
   const handleSend = async () => {
-    if (!message.trim() || !chatId || !user) return;
+    if (!canSend || !chatId || !user) return;
 
-    const { error } = await supabase.from('messages').insert({
-      chat_id: chatId,
-      user_id: user.id,
-      content: message,
-      status: 'sent',
-    });
+    stopTyping();
+    if (editing) {
+      await handleSaveEdit(editing);
+      return;
+    }
+    setSending(true);
+
+    // Upload everything first, then send the message and its attachments together
+    const results = await Promise.allSettled(
+      attachments.map((attachment) =>
+        uploadChatAttachment(chatId, attachment.file, {
+          type: attachment.type,
+          durationSeconds: attachment.durationSeconds,
+          onProgress: (progress) => setAttachmentProgress(attachment.id, progress),
+        })
+      )
+    );
+    const uploaded = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
 
-    if (!error) {
+    let sent = false;
+    if (failed) {
+      logger.error('Error uploading chat attachments', failed.reason, { userMessage: 'Failed to upload attachments.' });
+    } else {
+      sent = await sendMessage(chatId, message.trim(), uploaded, replyTo?.id);
+    }
+
+    if (sent) {
       setMessage('');
-      setChatImage(null);
-      fetchMessages();
+      setReplyTo(null);
+      clearAttachments();
+    } else {
+      discardUploads(uploaded);
+      setAttachments((prev) => prev.map((attachment) => ({ ...attachment, progress: null })));
+    }
+    setSending(false);
+  };
+
+  const actionMessage = messages.find(({ id }) => id === actionMessageId) ?? null;
+
+  // Long-press or right-click on a message opens its actions; anywhere else keeps the browser's own menu
+  const messageLongPress = useLongPress((target) => {
+    const id = target.closest<HTMLElement>('[data-message-id]')?.dataset.messageId;
+    if (!id) return false;
+    setActionMessageId(id);
+  });
+
+  const scrollToMessage = (messageId: string) => {
+    document.querySelector(`[data-message-id="${messageId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleToggleReaction = async (target: Message, emoji: string) => {
+    if (!user) return;
+
+    const reaction = { message_id: target.id, chat_id: target.chat_id, user_id: user.id, emoji, created_at: new Date().toISOString() };
+    const reacted = target.reactions?.some((other) => other.user_id === user.id && other.emoji === emoji) ?? false;
+    changeReaction(reaction, !reacted);
+    try {
+      if (reacted) {
+        await removeMessageReaction(target.id, user.id, emoji);
+      } else {
+        await addMessageReaction(target, emoji);
+      }
+    } catch (error) {
+      changeReaction(reaction, reacted);
+      logger.error('Error updating reaction', error, { userMessage: 'Failed to update reaction.' });
+    }
+  };
+
+  const handleCopy = async (target: Message) => {
+    try {
+      await navigator.clipboard.writeText(target.content);
+      toast({ title: 'Message copied' });
+    } catch (error) {
+      logger.error('Error copying message', error, { userMessage: 'Could not copy the message.' });
+    }
+  };
+
+  const handleStartEdit = (target: Message) => {
+    clearAttachments();
+    setReplyTo(null);
+    setEditing(target);
+    setMessage(target.content);
+  };
+
+  const handleStartReply = (target: Message) => {
+    setEditing(null);
+    setReplyTo(target);
+  };
+
+  const cancelComposerMode = () => {
+    if (editing) setMessage('');
+    setEditing(null);
+    setReplyTo(null);
+  };
+
+  const handleDeleteForMe = async (target: Message) => {
+    try {
+      await deleteChatMessageForMe(target.id);
+      removeMessage(target.id);
+      // The chat list previews the last message the current user can see
+      if (target.id === lastMessage?.id) fetchChats();
+    } catch (error) {
+      logger.error('Error deleting message for me', error, { userMessage: 'Failed to delete message.' });
+    }
+  };
+
+  const handleDeleteForEveryone = async (target: Message) => {
+    try {
+      const storagePaths = await deleteChatMessageForEveryone(target.id);
+      removeChatAttachments(storagePaths).catch((error) =>
+        logger.error('Error removing deleted message attachments', error, { showToast: false })
+      );
+    } catch (error) {
+      logger.error('Error deleting message for everyone', error, { userMessage: 'Failed to delete message.' });
     }
   };
 
-  if (!otherUser) {
+  if (chat === undefined) {
     return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
   }
 
+  if (chat === null) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-4 text-center">
+        <p className="text-muted-foreground">This chat isn't available. You may have left or been removed from it.</p>
+        <Button onClick={() => navigate('/chats')} className="rounded-2xl">Back to messages</Button>
+      </div>
+    );
+  }
+
+  const otherUser = otherParticipant?.profiles;
+  const otherOnline = isOnline(otherParticipant?.user_id);
+  const title = getChatTitle(chat, participants, user?.id);
+  // Typing wins over the usual subtitle; direct chats then show online/last seen, falling back to the username
+  const subtitle =
+    formatTyping(typingNames) ??
+    (chat.is_group_chat
+      ? `${participants.length} members · tap for group info`
+      : formatLastSeen(otherUser?.last_seen_at, otherOnline) ?? `@${otherUser?.username ?? ''}`);
+  const encrypted = !!chat.is_encrypted;
+
   return (
     <div className="min-h-screen flex flex-col">
       <header className="fixed top-0 left-0 right-0 z-50 glass-strong border-b">
@@ -135,123 +407,324 @@ const ChatConversation = () => {
           >
             <ArrowLeft className="h-5 w-5" />
           </Button>
-          
-          <div className="flex items-center gap-2 flex-1">
-            <Avatar className="w-10 h-10">
-              <AvatarFallback className="bg-gradient-to-br from-primary via-primary/80 to-primary/50 text-white font-bold">
-                {otherUser.display_name[0]?.toUpperCase()}
-              </AvatarFallback>
-            </Avatar>
-            <div>
+
+          <button
+            onClick={() => (chat.is_group_chat ? setInfoOpen(true) : otherUser && navigate(`/${otherUser.username}`))}
+            className="flex items-center gap-2 flex-1 min-w-0 text-left"
+          >
+            <div className="relative shrink-0">
+              <Avatar className="w-10 h-10">
+                {otherUser?.avatar_url ? (
+                  <AvatarImage src={otherUser.avatar_url} alt={otherUser.display_name} />
+                ) : (
+                  <AvatarFallback className="bg-gradient-to-br from-primary via-primary/80 to-primary/50 text-white font-bold">
+                    {chat.is_group_chat ? <Users className="h-5 w-5" /> : title[0]?.toUpperCase()}
+                  </AvatarFallback>
+                )}
+              </Avatar>
+              <OnlineIndicator online={otherOnline} />
+            </div>
+            <div className="min-w-0">
               <div className="flex items-center gap-1">
-                <span className="font-semibold">{otherUser.display_name}</span>
-                {otherUser.verified && (
+                <span className="font-semibold truncate">{title}</span>
+                {otherUser?.verified && (
                   <div className="flex items-center justify-center w-4 h-4 bg-primary rounded-full">
                     <Check className="h-3 w-3 text-white stroke-[3]" />
                   </div>
                 )}
               </div>
               <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                <span>@{otherUser.username}</span>
+                <span className={`truncate ${typingNames.length > 0 ? 'text-primary' : ''}`}>{subtitle}</span>
               </div>
             </div>
-          </div>
+          </button>
+
+          {!chat.is_group_chat && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setEncryptionOpen(true)}
+              className={`rounded-full shrink-0 ${verification.status === 'changed' && encrypted ? 'text-destructive' : encrypted ? 'text-primary' : 'text-muted-foreground'}`}
+              aria-label={encrypted ? 'End-to-end encrypted: view safety number' : 'Not encrypted: encryption settings'}
+            >
+              {!encrypted ? (
+                <LockOpen className="h-5 w-5" />
+              ) : verification.status === 'verified' ? (
+                <ShieldCheck className="h-5 w-5" />
+              ) : verification.status === 'changed' ? (
+                <ShieldAlert className="h-5 w-5" />
+              ) : (
+                <Lock className="h-5 w-5" />
+              )}
+            </Button>
+          )}
         </div>
       </header>
 
-      <main className="flex-1 pt-20 pb-32 px-4 max-w-2xl mx-auto w-full">
-        <div className="space-y-4">
-          {messages.map((msg) => (
-            <div
-              key={msg.id}
-              className={`flex ${msg.user_id === user?.id ? 'justify-end' : 'justify-start'}`}
-            >
+      <main className={`flex-1 pt-20 px-4 max-w-2xl mx-auto w-full ${attachments.length > 0 ? 'pb-60' : replyTo || editing ? 'pb-44' : 'pb-32'}`}>
+        <div ref={topSentinelRef} />
+        {loadingOlder && <div className="py-4"><LoadingSpinner text="Loading older messages..." /></div>}
+        {!loadingMessages && !hasOlder && messages.length > 0 && (
+          <p className="text-center text-xs text-muted-foreground py-4">This is the beginning of the conversation</p>
+        )}
+        <div className="space-y-4" {...messageLongPress}>
+          {messages.map((msg, index) => {
+            if (msg.message_type === 'system') {
+              return (
+                <p key={msg.id} data-message-id={msg.id} className="text-center text-xs text-muted-foreground">
+                  <span className="inline-block rounded-full bg-muted px-3 py-1">{msg.content}</span>
+                </p>
+              );
+            }
+
+            const isOwn = msg.sender_id === user?.id;
+            const receipt = receipts.get(msg.id);
+            // In groups, name the sender above the first of their consecutive messages
+            const showSender = chat.is_group_chat && !isOwn && messages[index - 1]?.sender_id !== msg.sender_id;
+            const reactions = summarizeReactions(msg.reactions, user?.id);
+            const replyTargetId = msg.reply_to?.id;
+
+            return (
               <div
-                className={`max-w-[75%] rounded-2xl px-4 py-2 ${
-                  msg.user_id === user?.id
-                    ? 'bg-primary text-primary-foreground'
-                    : 'glass-strong'
-                }`}
+                key={msg.id}
+                data-message-id={msg.id}
+                className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}
               >
-                <p className="text-sm">
-                  <ParsedText text={msg.content} />
-                </p>
-                <div className="flex items-center gap-1.5 mt-1">
-                  <p className="text-xs opacity-70">
-                    {new Date(msg.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                  </p>
-                  {msg.user_id === user?.id && msg.status && (
-                    <span>
-                      {msg.status === 'sent' && <Check className="h-3 w-3" />}
-                      {msg.status === 'delivered' && <CheckCheck className="h-3 w-3" />}
-                      {msg.status === 'seen' && <CheckCheck className="h-3 w-3 text-green-400" />}
-                    </span>
+                <div
+                  className={`max-w-[75%] rounded-2xl px-4 py-2 [-webkit-touch-callout:none] ${
+                    isOwn
+                      ? 'bg-primary text-primary-foreground'
+                      : 'glass-strong'
+                  }`}
+                >
+                  {showSender && (
+                    <p className="text-xs font-semibold text-primary mb-0.5">{msg.sender?.display_name ?? 'Unknown'}</p>
+                  )}
+                  {msg.deleted_at ? (
+                    <p className="text-sm italic opacity-70">This message was deleted</p>
+                  ) : (
+                    <>
+                      {msg.reply_to_id && (
+                        <MessageReplyQuote
+                          reply={msg.reply_to ?? null}
+                          onClick={replyTargetId ? () => scrollToMessage(replyTargetId) : undefined}
+                          className="mb-1"
+                        />
+                      )}
+                      {msg.attachments && msg.attachments.length > 0 && (
+                        <MessageAttachments attachments={msg.attachments} isOwn={isOwn} />
+                      )}
+                      {msg.decryption && (
+                        <p className="flex items-center gap-1.5 text-sm italic opacity-70">
+                          <Lock className="h-3.5 w-3.5 shrink-0" />
+                          {msg.decryption === 'pending' ? 'Decrypting…' : "This message can't be decrypted on this device"}
+                        </p>
+                      )}
+                      {msg.content && (
+                        <p className="text-sm">
+                          <ParsedText text={msg.content} />
+                        </p>
+                      )}
+                    </>
+                  )}
+                  <div className="flex items-center gap-1.5 mt-1">
+                    <p className="text-xs opacity-70">
+                      {new Date(msg.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {msg.edited_at && !msg.deleted_at && ' · edited'}
+                    </p>
+                    {receipt && (
+                      <span title={DELIVERY_LABELS[receipt.state]} aria-label={DELIVERY_LABELS[receipt.state]}>
+                        {receipt.state === 'sent' && <Check className="h-3 w-3 opacity-70" />}
+                        {receipt.state === 'delivered' && <CheckCheck className="h-3 w-3 opacity-70" />}
+                        {receipt.state === 'read' && <CheckCheck className="h-3 w-3 text-sky-300" />}
+                      </span>
+                    )}
+                  </div>
+                  {receipt && msg.id === seenByMessageId && (
+                    <p className="text-[0.7rem] opacity-80 mt-0.5 text-right">{formatSeenBy(receipt)}</p>
                   )}
                 </div>
+                {!msg.deleted_at && (
+                  <MessageReactions reactions={reactions} onToggle={(emoji) => handleToggleReaction(msg, emoji)} />
+                )}
               </div>
-            </div>
-          ))}
+            );
+          })}
           <div ref={messagesEndRef} />
         </div>
       </main>
 
       <footer className="fixed bottom-0 left-0 right-0 z-50 pb-safe">
         <div className="glass-strong border-t mx-4 mb-4 rounded-3xl p-4">
-          {chatImage && (
-            <div className="relative mb-3">
-              <img src={chatImage} alt="Upload preview" className="rounded-2xl max-h-40 w-auto" />
-              <button
-                onClick={() => setChatImage(null)}
-                className="absolute top-2 right-2 bg-background/80 backdrop-blur-sm rounded-full p-1.5 hover:bg-background transition-apple"
-              >
+          {(replyTo || editing) && (
+            <div className="flex items-center gap-2 mb-3 text-primary">
+              {editing ? (
+                <p className="flex items-center gap-2 flex-1 text-sm font-medium">
+                  <Pencil className="h-4 w-4" />
+                  Editing message
+                </p>
+              ) : (
+                <MessageReplyQuote reply={replyTo} onClick={() => replyTo && scrollToMessage(replyTo.id)} className="flex-1" />
+              )}
+              <Button variant="ghost" size="icon" className="rounded-full h-8 w-8 shrink-0" onClick={cancelComposerMode} aria-label={editing ? 'Cancel editing' : 'Cancel reply'}>
                 <X className="h-4 w-4" />
-              </button>
+              </Button>
             </div>
           )}
+          {attachments.length > 0 && (
+            <ul className="flex gap-2 overflow-x-auto mb-3">
+              {attachments.map((attachment) => (
+                <li key={attachment.id} className="relative shrink-0 w-24 h-24 rounded-2xl overflow-hidden bg-muted">
+                  {attachment.previewUrl ? (
+                    <img src={attachment.previewUrl} alt={attachment.file.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="flex flex-col items-center justify-center h-full gap-1 p-2 text-center">
+                      {attachment.type === 'voice' ? <Mic className="h-5 w-5" /> : <FileText className="h-5 w-5" />}
+                      <span className="text-[0.7rem] leading-tight line-clamp-2 break-all">
+                        {attachment.type === 'voice' ? 'Voice message' : attachment.file.name}
+                      </span>
+                      <span className="text-[0.7rem] text-muted-foreground">
+                        {attachment.type === 'voice' && attachment.durationSeconds !== undefined
+                          ? formatDuration(attachment.durationSeconds)
+                          : formatFileSize(attachment.file.size)}
+                      </span>
+                    </div>
+                  )}
+                  {attachment.progress !== null ? (
+                    <div
+                      className="absolute inset-x-2 bottom-2 h-1.5 rounded-full bg-background/70 overflow-hidden"
+                      role="progressbar"
+                      aria-label={`Uploading ${attachment.file.name}`}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-valuenow={Math.round(attachment.progress * 100)}
+                    >
+                      <div className="h-full bg-primary transition-all" style={{ width: `${attachment.progress * 100}%` }} />
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => removeAttachment(attachment.id)}
+                      disabled={sending}
+                      className="absolute top-1 right-1 bg-background/80 backdrop-blur-sm rounded-full p-1 hover:bg-background transition-apple"
+                      aria-label={`Remove ${attachment.file.name}`}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
           <div className="flex gap-2 items-center">
-            <label className="shrink-0">
-              <input
-                type="file"
-                accept="image/*"
-                onChange={handleImageUpload}
-                className="hidden"
-              />
+            <input ref={fileInputRef} type="file" multiple onChange={handleFilesSelect} className="hidden" />
+            {/* Attachments aren't encrypted, so encrypted chats take text only */}
+            {!encrypted && (
               <Button
                 type="button"
                 variant="outline"
                 size="icon"
-                className="rounded-full h-11 w-11"
-                onClick={(e) => {
-                  e.preventDefault();
-                  (e.currentTarget.previousElementSibling as HTMLInputElement)?.click();
+                className="rounded-full h-11 w-11 shrink-0"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={sending || voiceRecorder.recording || !!editing}
+                aria-label="Attach files"
+              >
+                <Paperclip className="h-5 w-5" />
+              </Button>
+            )}
+            {voiceRecorder.recording ? (
+              <div className="flex-1 flex items-center gap-3 h-11 px-4 rounded-2xl bg-muted">
+                <span className="w-2.5 h-2.5 rounded-full bg-destructive animate-pulse" />
+                <span className="text-sm tabular-nums flex-1">Recording {formatDuration(voiceRecorder.elapsedSeconds)}</span>
+                <Button variant="ghost" size="icon" className="rounded-full h-8 w-8" onClick={voiceRecorder.cancel} aria-label="Discard recording">
+                  <X className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="rounded-full h-8 w-8" onClick={voiceRecorder.stop} aria-label="Stop recording">
+                  <Square className="h-4 w-4 fill-current" />
+                </Button>
+              </div>
+            ) : (
+              <Textarea
+                value={message}
+                onChange={(e) => {
+                  setMessage(e.target.value);
+                  if (e.target.value.trim()) notifyTyping();
+                  else stopTyping();
+                }}
+                placeholder={encrypted ? 'Encrypted message...' : 'Type a message...'}
+                className="flex-1 min-h-[44px] max-h-32 resize-none rounded-2xl"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSend();
+                  }
                 }}
+              />
+            )}
+            {voiceRecorder.supported && !voiceRecorder.recording && !editing && !encrypted && !message.trim() && attachments.length === 0 ? (
+              <Button
+                onClick={handleStartRecording}
+                size="icon"
+                className="rounded-full h-11 w-11 shrink-0"
+                disabled={sending}
+                aria-label="Record a voice message"
               >
-                <ImageIcon className="h-5 w-5" />
+                <Mic className="h-5 w-5" />
               </Button>
-            </label>
-            <Textarea
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              placeholder="Type a message..."
-              className="flex-1 min-h-[44px] max-h-32 resize-none rounded-2xl"
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' && !e.shiftKey) {
-                  e.preventDefault();
-                  handleSend();
-                }
-              }}
-            />
-            <Button
-              onClick={handleSend}
-              size="icon"
-              className="rounded-full h-11 w-11 shrink-0"
-              disabled={!message.trim()}
-            >
-              <Send className="h-5 w-5" />
-            </Button>
+            ) : (
+              <Button
+                onClick={handleSend}
+                size="icon"
+                className="rounded-full h-11 w-11 shrink-0"
+                disabled={!canSend}
+                aria-label="Send"
+              >
+                <Send className="h-5 w-5" />
+              </Button>
+            )}
           </div>
         </div>
       </footer>
+
+      <MessageActionsDialog
+        open={!!actionMessage}
+        onOpenChange={(open) => !open && setActionMessageId(null)}
+        canInteract={!!actionMessage && actionMessage.message_type !== 'system' && !actionMessage.deleted_at}
+        canEdit={!!actionMessage && canEditMessage(actionMessage, user?.id, encrypted)}
+        canDeleteForEveryone={!!actionMessage && actionMessage.sender_id === user?.id && actionMessage.message_type !== 'system' && !actionMessage.deleted_at}
+        hasText={!!actionMessage?.content}
+        reactions={summarizeReactions(actionMessage?.reactions, user?.id)}
+        onReact={(emoji) => actionMessage && handleToggleReaction(actionMessage, emoji)}
+        onReply={() => actionMessage && handleStartReply(actionMessage)}
+        onCopy={() => actionMessage && handleCopy(actionMessage)}
+        onEdit={() => actionMessage && handleStartEdit(actionMessage)}
+        onDeleteForMe={() => actionMessage && handleDeleteForMe(actionMessage)}
+        onDeleteForEveryone={() => actionMessage && handleDeleteForEveryone(actionMessage)}
+      />
+
+      {!chat.is_group_chat && chatId && (
+        <ChatEncryptionDialog
+          chatId={chatId}
+          isEncrypted={encrypted}
+          otherName={otherUser?.display_name ?? title}
+          safetyNumber={verification.safetyNumber}
+          status={verification.status}
+          onVerifiedChange={verification.setVerified}
+          onReload={verification.reload}
+          open={encryptionOpen}
+          onOpenChange={setEncryptionOpen}
+        />
+      )}
+
+      {chat.is_group_chat && chatId && (
+        <GroupChatInfoDialog
+          chatId={chatId}
+          chatName={chat.chat_name}
+          participants={participants}
+          currentUserId={user?.id}
+          open={infoOpen}
+          onOpenChange={setInfoOpen}
+        />
+      )}
     </div>
   );
 };
@@ -1,146 +1,129 @@
-import { useState, useEffect } from 'react';
+import { useMemo, useState } from 'react';
 import Navigation from '@/components/Navigation';
 import Header from '@/components/Header';
-import { Avatar, AvatarFallback } from '@/components/ui/Avatar';
-import { Check } from 'lucide-react';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import NewGroupChatDialog from '@/components/NewGroupChatDialog';
+import OnlineIndicator from '@/components/OnlineIndicator';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/Avatar';
+import { Button } from '@/components/ui/Button';
+import { Check, Lock, Users } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { useDecryptedMessages } from '@/hooks/use-decrypted-messages';
 import { useChatContext } from '@/providers/ChatContext';
-import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/providers/SupabaseAuthContext';
-
-interface Chat {
-  id: string;
-  other_user: {
-    id: string;
-    username: string;
-    display_name: string;
-    verified: boolean;
-  };
-  last_message?: {
-    content: string;
-    created_at: string;
-  };
-}
+import { usePresence } from '@/providers/PresenceContext';
+import { describeMessage, getChatTitle } from '@/lib/chats';
+import type { Chat } from '@/types';
 
 const Chats = () => {
   const navigate = useNavigate();
-  const {  } = useChatContext();
+  const { chats, loadingChats } = useChatContext();
   const { user } = useAuth();
-  const [chats, setChats] = useState<Chat[]>([]);
+  const { isOnline } = usePresence();
+  const [newGroupOpen, setNewGroupOpen] = useState(false);
+  // Previews of encrypted chats are decrypted on this device, like the conversations themselves
+  const lastMessages = useDecryptedMessages(
+    useMemo(() => chats.flatMap((chat) => (chat.last_message ? [chat.last_message] : [])), [chats])
+  );
 
-  useEffect(() => {
-    if (user) {
-      fetchChats();
+  const renderPreview = (chat: Chat) => {
+    const message = lastMessages.find(({ id }) => id === chat.last_message?.id);
+    if (!message) return null;
+    if (message.message_type === 'system') {
+      return <p className="text-sm text-muted-foreground italic truncate">{message.content}</p>;
     }
-  }, [user]);
-
-  const fetchChats = async () => {
-    if (!user) return;
-
-    const { data: participantsData, error } = await supabase
-      .from('chat_participants')
-      .select(`
-        chat_id,
-        chats!inner(id)
-      `)
-      .eq('user_id', user.id);
-
-    if (error || !participantsData) return;
-
-    const chatIds = participantsData.map(p => p.chat_id);
-    
-    const chatsWithDetails = await Promise.all(
-      chatIds.map(async (chatId) => {
-        // Get other participant
-        const { data: otherParticipant } = await supabase
-          .from('chat_participants')
-          .select('user_id, profiles!chat_participants_user_id_fkey(id, username, display_name, verified)')
-          .eq('chat_id', chatId)
-          .neq('user_id', user.id)
-          .single();
-
-        // Get last message
-        const { data: lastMessage } = await supabase
-          .from('messages')
-          .select('content, created_at')
-          .eq('chat_id', chatId)
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .single();
-
-        if (!otherParticipant?.profiles) return null;
-
-        return {
-          id: chatId,
-          other_user: otherParticipant.profiles as any,
-          last_message: lastMessage || undefined,
-        };
-      })
+    // In groups, say who wrote the last message
+    const author = message.sender_id === user?.id ? 'You' : chat.is_group_chat ? message.sender?.display_name : null;
+    return (
+      <p className={`text-sm truncate ${chat.unread ? 'text-foreground font-medium' : 'text-muted-foreground'}`}>
+        {author && `${author}: `}{describeMessage(message)}
+      </p>
     );
-
-    setChats(chatsWithDetails.filter(Boolean) as Chat[]);
   };
 
   return (
     <div className="min-h-screen pb-32">
       <Header />
       <div className="max-w-2xl mx-auto p-4">
-        <div className="mb-8 pt-24 animate-fade-in">
+        <div className="mb-8 pt-24 animate-fade-in flex items-center justify-between">
           <h1 className="text-3xl font-bold">Messages</h1>
+          <Button onClick={() => setNewGroupOpen(true)} className="rounded-2xl">
+            <Users className="h-4 w-4 mr-2" />
+            New group
+          </Button>
         </div>
 
-        <div className="glass-strong rounded-3xl shadow-md overflow-hidden">
-          {chats.length === 0 ? (
-            <div className="p-8 text-center text-muted-foreground">
-              No messages yet. Start a conversation from someone's profile!
-            </div>
-          ) : (
-            chats.map((chat, index) => (
-              <button
-                key={chat.id}
-                onClick={() => navigate(`/chats/${chat.id}`)}
-                className={`w-full p-4 animate-fade-in hover:bg-primary/5 transition-apple text-left ${
-                  index !== chats.length - 1 ? 'border-b border-border/30' : ''
-                }`}
-                style={{ animationDelay: `${index * 0.05}s` }}
-              >
-                <div className="flex items-start gap-3">
-                  <Avatar className="w-12 h-12">
-                    <AvatarFallback className="bg-gradient-to-br from-primary via-primary/80 to-primary/50 text-white font-bold">
-                      {chat.other_user.display_name?.toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
+        {loadingChats ? (
+          <LoadingSpinner text="Loading chats..." />
+        ) : (
+          <div className="glass-strong rounded-3xl shadow-md overflow-hidden">
+            {chats.length === 0 ? (
+              <div className="p-8 text-center text-muted-foreground">
+                No messages yet. Start a conversation from someone's profile or create a group!
+              </div>
+            ) : (
+              chats.map((chat, index) => {
+                const participants = chat.chat_participants ?? [];
+                const otherParticipant = chat.is_group_chat ? undefined : participants.find(({ user_id }) => user_id !== user?.id);
+                const otherUser = otherParticipant?.profiles;
+                const title = getChatTitle(chat, participants, user?.id);
+
+                return (
+                  <button
+                    key={chat.id}
+                    onClick={() => navigate(`/chats/${chat.id}`)}
+                    className={`w-full p-4 animate-fade-in hover:bg-primary/5 transition-apple text-left ${
+                      index !== chats.length - 1 ? 'border-b border-border/30' : ''
+                    }`}
+                    style={{ animationDelay: `${index * 0.05}s` }}
+                  >
+                    <div className="flex items-start gap-3">
+                      <div className="relative shrink-0">
+                        <Avatar className="w-12 h-12">
+                          {otherUser?.avatar_url ? (
+                            <AvatarImage src={otherUser.avatar_url} alt={otherUser.display_name} />
+                          ) : (
+                            <AvatarFallback className="bg-gradient-to-br from-primary via-primary/80 to-primary/50 text-white font-bold">
+                              {chat.is_group_chat ? <Users className="h-5 w-5" /> : title[0]?.toUpperCase()}
+                            </AvatarFallback>
+                          )}
+                        </Avatar>
+                        <OnlineIndicator online={isOnline(otherParticipant?.user_id)} />
+                      </div>
 
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between mb-1">
-                      <div className="flex items-center gap-1.5">
-                        <span className="font-semibold">{chat.other_user.display_name}</span>
-                        {chat.other_user.verified && (
-                          <div className="flex items-center justify-center w-4 h-4 bg-primary rounded-full">
-                            <Check className="h-3 w-3 text-white stroke-" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="flex items-center gap-1.5 min-w-0">
+                            <span className="font-semibold truncate">{title}</span>
+                            {otherUser?.verified && (
+                              <div className="flex items-center justify-center w-4 h-4 bg-primary rounded-full">
+                                <Check className="h-3 w-3 text-white stroke-[3]" />
+                              </div>
+                            )}
+                            {chat.is_encrypted && <Lock className="h-3.5 w-3.5 text-muted-foreground shrink-0" aria-label="End-to-end encrypted" />}
+                            {chat.unread && <span className="w-2 h-2 rounded-full bg-primary shrink-0" aria-label="Unread" />}
                           </div>
-                        )}
+                          {chat.last_message && (
+                            <span className="text-xs text-muted-foreground whitespace-nowrap">
+                              {new Date(chat.last_message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {chat.is_group_chat ? `${participants.length} members` : `@${otherUser?.username ?? ''}`}
+                        </p>
+                        {renderPreview(chat)}
                       </div>
-                      {chat.last_message && (
-                        <span className="text-xs text-muted-foreground whitespace-nowrap">
-                          {new Date(chat.last_message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                        </span>
-                      )}
                     </div>
-                    <p className="text-sm text-muted-foreground">@{chat.other_user.username}</p>
-                    {chat.last_message && (
-                      <p className="text-sm text-muted-foreground truncate">
-                        {chat.last_message.content}
-                      </p>
-                    )}
-                  </div>
-                </div>
-              </button>
-            ))
-          )}
-        </div>
+                  </button>
+                );
+              })
+            )}
+          </div>
+        )}
       </div>
 
+      <NewGroupChatDialog open={newGroupOpen} onOpenChange={setNewGroupOpen} />
       <Navigation />
     </div>
   );
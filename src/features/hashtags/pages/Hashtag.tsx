@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Hash } from 'lucide-react';
+import Navigation from '@/components/Navigation';
+import Header from '@/components/Header';
+import PingCard from '@/components/PingCard';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { Button } from '@/components/ui/Button';
+import { FeedSkeleton } from '@/components/skeletons/FeedSkeleton';
+import { useAuth } from '@/providers/SupabaseAuthContext';
+import { useIntersectionObserver } from '@/hooks/use-intersection-observer';
+import { fetchHashtagPings, summarizeInteractions, type FeedCursor, type FeedPing } from '@/api/pings';
+import { logger } from '@/lib/logger';
+
+const PAGE_SIZE = 20;
+
+// Lists the pings tagged with /tag/:name, newest first
+const Hashtag = () => {
+  const { name = '' } = useParams<{ name: string }>();
+  const tag = name.replace(/^#/, '').toLowerCase();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [pings, setPings] = useState<FeedPing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  // Kept in a ref so loadPings stays stable and doesn't re-trigger the initial load
+  const cursorRef = useRef<FeedCursor | null>(null);
+
+  const loadPings = useCallback(async (append: boolean) => {
+    if (append && !cursorRef.current) return;
+
+    const setLoadingState = append ? setIsLoadingMore : setLoading;
+    try {
+      setLoadingState(true);
+      const page = await fetchHashtagPings(tag, append ? cursorRef.current : null, PAGE_SIZE);
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.nextCursor !== null);
+      setPings((prev) => (append ? [...prev, ...page.items] : page.items));
+    } catch (error) {
+      logger.error('Error loading hashtag pings', error, { userMessage: `Failed to load #${tag}.` });
+      setHasMore(false);
+    } finally {
+      setLoadingState(false);
+    }
+  }, [tag]);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+    cursorRef.current = null;
+    loadPings(false);
+  }, [loadPings]);
+
+  // Infinite Scroll Observer
+  const { ref: sentinelRef, isIntersecting } = useIntersectionObserver({ threshold: 0.1 });
+
+  useEffect(() => {
+    if (isIntersecting && hasMore && !loading && !isLoadingMore) {
+      loadPings(true);
+    }
+  }, [isIntersecting, hasMore, loading, isLoadingMore, loadPings]);
+
+  return (
+    <div className="min-h-screen pb-20 bg-background">
+      <Header />
+      <div className="max-w-2xl mx-auto p-4">
+        <div className="mb-6 pt-24 animate-fade-in flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)} className="rounded-full">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+            <Hash className="h-5 w-5 text-primary" />
+          </div>
+          <h1 className="text-2xl font-bold">{tag}</h1>
+        </div>
+
+        {loading ? (
+          <FeedSkeleton />
+        ) : (
+          <div className="space-y-4">
+            {pings.map((ping) => (
+              <PingCard
+                key={ping.id}
+                post={{
+                  ...ping,
+                  id: String(ping.id),
+                  image_url: ping.image_url ?? undefined,
+                  profiles: { ...ping.profiles, verified: !!(ping.profiles as { verified?: boolean }).verified },
+                  ...summarizeInteractions(ping, user?.id),
+                }}
+              />
+            ))}
+          </div>
+        )}
+
+        {!loading && pings.length === 0 && (
+          <div className="glass rounded-3xl p-8 text-center animate-scale-in">
+            <p className="text-muted-foreground">No pings tagged #{tag} yet.</p>
+          </div>
+        )}
+
+        <div ref={sentinelRef} className="h-10 flex justify-center items-center">
+          {isLoadingMore && <LoadingSpinner />}
+        </div>
+      </div>
+
+      <Navigation />
+    </div>
+  );
+};
+
+export default Hashtag;
@@ -1,100 +1,124 @@
 import Navigation from '@/components/Navigation';
 import Header from '@/components/Header';
-import { Avatar, AvatarFallback } from '@/components/ui/Avatar';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/Avatar';
+import { AtSign, Bell, BellOff, Heart, MessageCircle, MessageSquare, Repeat2, UserPlus } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
-import { Check, Heart, UserPlus, MessageCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
 import { useNotificationContext } from '@/providers/NotificationContext';
-import { useEffect, useState } from 'react';
-import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/lib/supabase';
-import { useAuth } from '@/providers/SupabaseAuthContext';
-import { Skeleton } from '@/components/ui/Skeleton';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import {
+  describeNotificationGroup,
+  getNotificationExcerpt,
+  getNotificationLink,
+  groupNotifications,
+  type NotificationGroup,
+} from '@/lib/notifications';
+import type { NotificationType } from '@/types';
 
-interface Notification {
-  id: string;
-  type: string;
-  content: any;
-  is_read: boolean;
-  created_at: string;
-  user_id: string; // The user receiving the notification
-}
-
-// Helper to format notification text and get related user info
-// This assumes content jsonb has structured data like { actor: { username, display_name... }, text: "...", link: "..." }
-// Since the schema is generic jsonb, we need to adapt based on how we insert data.
-// For now, I'll assume we need to fetch related profiles or the content stores actor info.
+const NOTIFICATION_ICONS: Record<NotificationType, JSX.Element> = {
+  like: <Heart className="h-5 w-5 text-red-500 fill-red-500" />,
+  repost: <Repeat2 className="h-5 w-5 text-green-500" />,
+  comment: <MessageCircle className="h-5 w-5 text-blue-500" />,
+  mention: <AtSign className="h-5 w-5 text-primary" />,
+  follow: <UserPlus className="h-5 w-5 text-primary" />,
+  chat: <MessageSquare className="h-5 w-5 text-primary" />,
+};
 
 const Notifications = () => {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const { markNotificationAsRead } = useNotificationContext();
+  const { notifications, loadingNotifications, markNotificationsAsRead, mutedPingIds, setThreadMuted } = useNotificationContext();
   const { toast } = useToast();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Notifications that were unread when they appeared here stay highlighted after being marked as read
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(() => new Set());
+  const markedIdsRef = useRef(new Set<string>());
+
+  const groups = useMemo(() => groupNotifications(notifications), [notifications]);
 
+  // Everything shown on this page counts as read, including notifications that arrive while it is open
   useEffect(() => {
-    if (user) {
-      fetchNotifications();
-    }
-  }, [user]);
+    if (loadingNotifications) return;
 
-  const fetchNotifications = async () => {
-    try {
-        const { data, error } = await supabase
-            .from('notifications')
-            .select('*')
-            .eq('user_id', user!.id)
-            .order('created_at', { ascending: false });
+    const unread = notifications.filter(({ id, is_read }) => !is_read && !markedIdsRef.current.has(id)).map(({ id }) => id);
+    if (unread.length === 0) return;
 
-        if (error) throw error;
-        setNotifications(data || []);
-        
-        // Mark unread as read
-        data?.forEach(async (notif) => {
-             if (!notif.is_read) {
-                 await supabase.from('notifications').update({ is_read: true }).eq('id', notif.id);
-                 markNotificationAsRead(notif.id);
-             }
-        });
+    unread.forEach((id) => markedIdsRef.current.add(id));
+    setHighlightedIds((prev) => new Set([...prev, ...unread]));
+    markNotificationsAsRead(unread);
+  }, [loadingNotifications, notifications, markNotificationsAsRead]);
 
-    } catch (error) {
-        console.error('Error fetching notifications:', error);
-    } finally {
-        setLoading(false);
-    }
+  const toggleThreadMuted = async (pingId: string) => {
+    const muted = !mutedPingIds.has(pingId);
+    if (!(await setThreadMuted(pingId, muted))) return;
+    toast({
+      title: muted ? 'Thread muted' : 'Thread unmuted',
+      description: muted ? "You won't be notified about this ping anymore." : undefined,
+      variant: 'success',
+    });
   };
 
-  const getIcon = (type: string) => {
-    switch (type) {
-      case 'like':
-        return <Heart className="h-5 w-5 text-red-500 fill-red-500" />;
-      case 'friend_request':
-        return <UserPlus className="h-5 w-5 text-primary" />;
-      case 'comment':
-        return <MessageCircle className="h-5 w-5 text-blue-500" />;
-      default:
-        return null;
-    }
-  };
+  const renderGroup = (group: NotificationGroup, index: number) => {
+    const { latest } = group;
+    const actor = group.actors[0];
+    const link = getNotificationLink(latest);
+    const excerpt = getNotificationExcerpt(latest);
+    const highlighted = group.notifications.some(({ id }) => highlightedIds.has(id));
+    const pingId = latest.ping_id;
+    const muted = pingId !== null && mutedPingIds.has(pingId);
 
-  if (loading) {
-      return (
-        <div className="min-h-screen pb-32 bg-background">
-          <Header />
-          <div className="max-w-2xl mx-auto p-4">
-            <div className="mb-8 pt-24 animate-fade-in">
-              <h1 className="text-3xl font-bold">Notifications</h1>
-            </div>
-            <div className="glass-strong rounded-3xl shadow-md overflow-hidden flex justify-center items-center h-40">
-              <LoadingSpinner text="Loading notifications..." />
+    return (
+      <div
+        key={group.key}
+        onClick={() => link && navigate(link)}
+        className={`p-4 animate-fade-in border-b border-border/30 last:border-b-0 ${link ? 'cursor-pointer hover:bg-primary/5 transition-apple' : ''} ${
+          highlighted ? 'bg-primary/5' : ''
+        }`}
+        style={{ animationDelay: `${index * 0.05}s` }}
+      >
+        <div className="flex items-start gap-3">
+          <div className="relative shrink-0">
+            <Avatar className="w-12 h-12">
+              {actor?.avatar_url ? (
+                <AvatarImage src={actor.avatar_url} alt={actor.display_name} />
+              ) : (
+                <AvatarFallback className="bg-gradient-to-br from-primary via-primary/80 to-primary/50 text-white font-bold">
+                  {actor?.display_name?.[0]?.toUpperCase() || '?'}
+                </AvatarFallback>
+              )}
+            </Avatar>
+            <div className="absolute -bottom-1 -right-1 bg-background rounded-full p-0.5">
+              {NOTIFICATION_ICONS[group.type]}
             </div>
           </div>
-          <Navigation />
+
+          <div className="flex-1 min-w-0">
+            <p className="text-sm">{describeNotificationGroup(group)}</p>
+            {excerpt && <p className="text-sm text-muted-foreground line-clamp-2 break-words mt-0.5">{excerpt}</p>}
+            <p className="text-xs text-muted-foreground mt-1">
+              {new Date(latest.created_at).toLocaleString()}
+            </p>
+          </div>
+
+          {pingId && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleThreadMuted(pingId);
+              }}
+              className="rounded-full shrink-0 text-muted-foreground"
+              aria-label={muted ? 'Unmute this thread' : 'Mute this thread'}
+              title={muted ? 'Unmute this thread' : 'Mute this thread'}
+            >
+              {muted ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+            </Button>
+          )}
         </div>
-      );
-  }
+      </div>
+    );
+  };
 
   return (
     <div className="min-h-screen pb-32 bg-background">
@@ -104,54 +128,19 @@ const Notifications = () => {
           <h1 className="text-3xl font-bold">Notifications</h1>
         </div>
 
-        <div className="glass-strong rounded-3xl shadow-md overflow-hidden">
-          {notifications.length === 0 ? (
+        {loadingNotifications ? (
+          <div className="glass-strong rounded-3xl shadow-md overflow-hidden flex justify-center items-center h-40">
+            <LoadingSpinner text="Loading notifications..." />
+          </div>
+        ) : (
+          <div className="glass-strong rounded-3xl shadow-md overflow-hidden">
+            {groups.length === 0 ? (
               <div className="p-8 text-center text-muted-foreground">No notifications yet</div>
-          ) : (
-            notifications.map((notification, index) => {
-                // Parse content if string, or use directly if object
-                const content = typeof notification.content === 'string' ? JSON.parse(notification.content) : notification.content;
-                const actor = content.actor || { displayName: 'Unknown', username: 'unknown' };
-
-                return (
-                    <div
-                    key={notification.id}
-                    className={`p-4 animate-fade-in border-b border-border/30 last:border-b-0 ${
-                        !notification.is_read ? 'bg-primary/5' : ''
-                    }`}
-                    style={{ animationDelay: `${index * 0.05}s` }}
-                    >
-                    <div className="flex items-start gap-3">
-                        <div className="relative">
-                        <Avatar className="w-12 h-12">
-                            <AvatarFallback className="bg-gradient-to-br from-primary via-primary/80 to-primary/50 text-white font-bold">
-                            {actor.displayName?.toUpperCase() || '?'}
-                            </AvatarFallback>
-                        </Avatar>
-                        <div className="absolute -bottom-1 -right-1 bg-background rounded-full p-0.5">
-                            {getIcon(notification.type)}
-                        </div>
-                        </div>
-
-                        <div className="flex-1">
-                        <div className="flex items-center gap-1">
-                            <span className="font-semibold">{actor.displayName}</span>
-                            <span className="text-muted-foreground text-sm">
-                            @{actor.username}
-                            </span>
-                        </div>
-                        
-                        <p className="text-sm text-foreground/80">{content.text || 'New notification'}</p>
-                        <p className="text-xs text-muted-foreground mt-1">
-                            {new Date(notification.created_at).toLocaleString()}
-                        </p>
-                        </div>
-                    </div>
-                    </div>
-                );
-            })
-          )}
-        </div>
+            ) : (
+              groups.map(renderGroup)
+            )}
+          </div>
+        )}
       </div>
 
       <Navigation />
@@ -3,16 +3,27 @@ import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import Navigation from '@/components/Navigation';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import Header from '@/components/Header';
-import { Heart, MessageCircle, Send, UserPlus, Check, Image as ImageIcon, X, Share2, Eye, MoreVertical } from 'lucide-react';
+import { Heart, MessageCircle, Send, UserPlus, Check, Image as ImageIcon, X, Share2, Eye, MoreVertical, Repeat2, Quote } from 'lucide-react';
 import { createPing } from '@/api/pings';
-import { uploadMedia } from '@/api/storage';
+import { uploadPingMedia } from '@/api/storage';
+import { getMediaKind, validateMediaSelection, type MediaKind } from '@/lib/media';
 import { ParsedText } from '@/lib/textParser';
 import { supabase } from '@/lib/supabase';
 import { apiService } from '@/services/apiService';
 import { useAuth } from '@/providers/SupabaseAuthContext';
-import { toggleLike, getPing } from '@/api/pings';
+import { toggleLike, toggleRepost, getPing, type FeedCursor, type FeedMode, type FeedPing, type PingMediaItem, type QuotedPing as QuotedPingData } from '@/api/pings';
+import MediaGrid from '@/components/MediaGrid';
+import QuotedPing from '@/components/QuotedPing';
+import QuotePingDialog from '@/components/QuotePingDialog';
+import EditPingDialog from '@/components/EditPingDialog';
+import AltTextDialog from '@/components/AltTextDialog';
+import TrendingHashtags from '@/components/TrendingHashtags';
+import MentionSuggestions from '@/components/MentionSuggestions';
+import LinkPreviewCard from '@/components/LinkPreviewCard';
 import { logger } from '@/lib/logger';
 import { useIntersectionObserver } from '@/hooks/use-intersection-observer';
+import { useDebounce } from '@/hooks/use-debounce';
+import { extractFirstUrl } from '@/lib/links';
 import { FeedSkeleton } from '@/components/skeletons/FeedSkeleton';
 
 interface Profile {
@@ -31,6 +42,19 @@ interface Comment {
   profiles?: Profile;
 }
 
+const FEED_MODE_STORAGE_KEY = 'iping.feedMode';
+
+const FEED_MODES: { mode: FeedMode; label: string }[] = [
+  { mode: 'for_you', label: 'For You' },
+  { mode: 'following', label: 'Following' },
+  { mode: 'latest', label: 'Latest' },
+];
+
+const getStoredFeedMode = (): FeedMode => {
+  const stored = localStorage.getItem(FEED_MODE_STORAGE_KEY);
+  return FEED_MODES.some(({ mode }) => mode === stored) ? (stored as FeedMode) : 'latest';
+};
+
 interface Post {
   id: string;
   user_id: string;
@@ -41,6 +65,18 @@ interface Post {
   profiles?: Profile;
   likes?: { id: string; user_id: string }[];
   comments?: Comment[];
+  ping_interactions?: FeedPing['ping_interactions'];
+  quoted_ping?: QuotedPingData | null;
+  reposted_by?: FeedPing['reposted_by'];
+  edited_at?: string | null;
+  ping_media?: PingMediaItem[];
+}
+
+interface ComposerAttachment {
+  file: File;
+  previewUrl: string;
+  kind: MediaKind;
+  altText: string;
 }
 
 const Home = () => {
@@ -52,16 +88,23 @@ const Home = () => {
   const [posts, setPosts] = useState<Post[]>([]);
   const [friendRequests, setFriendRequests] = useState<string[]>([]);
   const [newPing, setNewPing] = useState('');
+  const pingInputRef = useRef<HTMLTextAreaElement>(null);
+  // Preview of the first link in the draft, looked up once typing pauses
+  const composerLinkUrl = extractFirstUrl(useDebounce(newPing, 600));
   const [loading, setLoading] = useState(true);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(true);
-  const [page, setPage] = useState(0);
+  const [feedMode, setFeedMode] = useState<FeedMode>(getStoredFeedMode);
+  // Kept in a ref so loadPosts stays stable and doesn't re-trigger the initial load / realtime effects
+  const cursorRef = useRef<FeedCursor | null>(null);
   const [expandedPing, setExpandedPing] = useState<string | null>(null);
   const [commentText, setCommentText] = useState<{ [key: string]: string }>({});
   const [focusedCommentPing, setFocusedCommentPing] = useState<string | null>(null);
   const [pingInputFocused, setPingInputFocused] = useState(false);
-  const [pingImage, setPingImage] = useState<string | null>(null);
-  const [pingFile, setPingFile] = useState<File | null>(null);
+  const [attachments, setAttachments] = useState<ComposerAttachment[]>([]);
+  const [altTextIndex, setAltTextIndex] = useState<number | null>(null);
+  const [quotingPing, setQuotingPing] = useState<Post | null>(null);
+  const [editingPing, setEditingPing] = useState<Post | null>(null);
   // const { toast } = useToast(); // Removed as part of component cleanup
 
   useEffect(() => {
@@ -92,28 +135,24 @@ const Home = () => {
   const PAGE_SIZE = 20;
 
   const loadPosts = useCallback(async (append: boolean) => {
-    if (!hasMore && append) return;
-    
-    const offset = append ? page * PAGE_SIZE : 0;
+    if (append && !cursorRef.current) return;
+
     const currentLoadingState = append ? setIsLoadingMore : setLoading;
 
     try {
       currentLoadingState(true);
 
-      const data = await apiService.getPosts(PAGE_SIZE, offset);
+      const data = await apiService.getPosts(PAGE_SIZE, append ? cursorRef.current : null, feedMode);
 
       if (data) {
-        setHasMore(data.length === PAGE_SIZE);
-        setPage(prev => append ? prev + 1 : 0);
-        
+        cursorRef.current = data.nextCursor;
+        setHasMore(data.nextCursor !== null);
+
+        // Time-ordered pages never overlap, but ranked ones can when a score changes between requests, so drop repeats
         setPosts(prevPosts => {
-          if (append) {
-            // Avoid adding duplicates from real-time updates if we scroll down and a new post arrives
-            const newIds = new Set(data.map(p => p.id));
-            const filteredPrevPosts = prevPosts.filter(p => !newIds.has(p.id));
-            return [...filteredPrevPosts, ...(data as unknown as Post[])];
-          }
-          return data as unknown as Post[];
+          if (!append) return data.items as unknown as Post[];
+          const seen = new Set(prevPosts.map((post) => post.id));
+          return [...prevPosts, ...(data.items as unknown as Post[]).filter((post) => !seen.has(post.id))];
         });
       } else {
         setHasMore(false);
@@ -125,7 +164,12 @@ const Home = () => {
     } finally {
       currentLoadingState(false);
     }
-  }, [hasMore, page, isLoadingMore]);
+  }, [feedMode]);
+
+  // Remember the chosen feed mode across visits
+  useEffect(() => {
+    localStorage.setItem(FEED_MODE_STORAGE_KEY, feedMode);
+  }, [feedMode]);
 
   // Initial load
   useEffect(() => {
@@ -147,13 +191,18 @@ const Home = () => {
       .channel('pings-changes')
       .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'pings' }, async (payload) => {
         logger.debug('Realtime INSERT received', { new: payload.new });
+        // Ranked and Following feeds are re-ordered/filtered server-side, so only merge into Latest
+        // (plus the user's own pings, which belong in every mode)
+        if (feedMode !== 'latest' && payload.new.user_id !== user?.id) return;
         try {
           // Fetch full ping details including profile
           const newPingWithProfile = await getPing(payload.new.id);
-          // Prepend new post to the top and reset page to 0 to refresh the view
-          setPosts((prevPosts) => [newPingWithProfile as unknown as Post, ...prevPosts]);
-          setPage(0);
-          setHasMore(true);
+          // Merge the new ping in at the top; the cursor still points at the oldest loaded ping
+          setPosts((prevPosts) =>
+            prevPosts.some((post) => post.id === newPingWithProfile.id)
+              ? prevPosts
+              : [newPingWithProfile as unknown as Post, ...prevPosts]
+          );
         } catch (error) {
           logger.error('Error fetching new ping details', error);
         }
@@ -161,10 +210,12 @@ const Home = () => {
       .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'pings' }, (payload) => {
         logger.debug('Realtime UPDATE received', { new: payload.new });
         if (payload.new.views !== undefined && payload.new.likes === undefined && payload.new.comments === undefined) {
-          // Optimization: Only update views for the specific post in state if that's the only data present in the payload
+          // Optimization: Only update the ping's own columns (views, edited content) in state
           setPosts((prevPosts) =>
             prevPosts.map((post) =>
-              post.id === payload.new.id ? { ...post, views: payload.new.views } : post
+              post.id === payload.new.id
+                ? { ...post, views: payload.new.views, content: payload.new.content ?? post.content, edited_at: payload.new.edited_at ?? post.edited_at }
+                : post
             )
           );
         } else {
@@ -173,6 +224,18 @@ const Home = () => {
           loadPosts(false);
         }
       })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'ping_media' }, async (payload) => {
+        // Attachments are inserted right after their ping, so refresh pings that were merged without them
+        const pingId = payload.new.ping_id;
+        try {
+          const refreshed = await getPing(pingId);
+          setPosts((prevPosts) =>
+            prevPosts.map((post) => (post.id === pingId ? { ...post, ping_media: refreshed.ping_media } : post))
+          );
+        } catch (error) {
+          logger.error('Error refreshing ping media', error);
+        }
+      })
       .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'pings' }, (payload) => {
         logger.debug('Realtime DELETE received', { oldId: payload.old.id });
         setPosts((prevPosts) => prevPosts.filter((post) => post.id !== payload.old.id));
@@ -184,7 +247,7 @@ const Home = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [loadPosts]);
+  }, [loadPosts, feedMode, user?.id]);
 
   // Handle navigation from notifications and shared links
   useEffect(() => {
@@ -234,17 +297,39 @@ const Home = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, [highlightedPing, setSearchParams]);
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setPingFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setPingImage(reader.result as string);
-        logger.debug('Image loaded for ping preview');
-      };
-      reader.readAsDataURL(file);
+  const handleMediaSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []);
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+    if (picked.length === 0) return;
+
+    const selectionError = validateMediaSelection([...attachments.map(({ file }) => file), ...picked]);
+    if (selectionError) {
+      logger.warn('Home.tsx: Rejected media selection', { selectionError }, { userMessage: selectionError, showToast: true });
+      return;
     }
+
+    setAttachments((prev) => [
+      ...prev,
+      ...picked.map((file) => ({ file, previewUrl: URL.createObjectURL(file), kind: getMediaKind(file) ?? 'image', altText: '' })),
+    ]);
+    logger.debug('Media selected for ping', { count: picked.length });
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments((prev) => {
+      URL.revokeObjectURL(prev[index].previewUrl);
+      return prev.filter((_, i) => i !== index);
+    });
+  };
+
+  const setAttachmentAltText = (index: number, altText: string) => {
+    setAttachments((prev) => prev.map((attachment, i) => (i === index ? { ...attachment, altText } : attachment)));
+  };
+
+  const clearAttachments = () => {
+    attachments.forEach(({ previewUrl }) => URL.revokeObjectURL(previewUrl));
+    setAttachments([]);
   };
 
   const handlePing = async () => {
@@ -252,30 +337,28 @@ const Home = () => {
       navigate('/auth'); // Redirect to auth page if not authenticated
       return;
     }
-    if (!newPing.trim() && !pingFile && !pingImage) return;
+    if (!newPing.trim() && attachments.length === 0) return;
     
     setLoading(true);
 
-    logger.debug('Home.tsx: Attempting to create new ping', { newPing, hasImage: !!pingFile });
+    logger.debug('Home.tsx: Attempting to create new ping', { newPing, attachmentCount: attachments.length });
     try {
-      let imageUrl = undefined;
-      if (pingFile) {
-         imageUrl = await uploadMedia(pingFile);
-      }
-      
-      await createPing({
+      const media = await uploadPingMedia(
+        attachments.map(({ file }) => file),
+        attachments.map(({ altText }) => altText)
+      );
+
+      const created = await createPing({
         user_id: user.id,
         content: newPing,
-        image_url: imageUrl,
+        media,
       });
 
       logger.info('Home.tsx: Ping created successfully.');
       setNewPing('');
-      setPingImage(null);
-      setPingFile(null);
-      // Reset feed to page 0 to show new post immediately at the top
-      setPage(0);
-      setHasMore(true);
+      clearAttachments();
+      // The realtime INSERT can arrive before the media rows exist, so prefer the fully loaded ping
+      setPosts((prevPosts) => [created as unknown as Post, ...prevPosts.filter((post) => post.id !== created.id)]);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
       logger.error('Home.tsx: Error creating ping', error, { userMessage: `Failed to ping. Please try again. Details: ${errorMessage}`, showToast: true });
@@ -305,6 +388,41 @@ const Home = () => {
     loadPosts(false);
   };
 
+  const handleRepost = async (pingId: string) => {
+    if (!user) {
+      navigate('/auth'); // Redirect to auth page if not authenticated
+      return;
+    }
+
+    const ping = posts.find(p => p.id === pingId);
+    const alreadyReposted = ping?.ping_interactions?.some(
+      interaction => interaction.interaction_type === 'REPOST' && interaction.user_id === user.id
+    ) || false;
+
+    try {
+      await toggleRepost(pingId, alreadyReposted);
+      logger.info(`Home.tsx: Successfully ${alreadyReposted ? 'un-reposted' : 'reposted'} ping ${pingId}.`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+      logger.error(`Home.tsx: Error toggling repost on ping ${pingId}`, error, { userMessage: `Failed to change repost status. Details: ${errorMessage}`, showToast: true });
+      return;
+    }
+
+    // Update the ping in place, keeping the reader's scroll position and loaded pages
+    setPosts((prevPosts) =>
+      prevPosts.map((post) => {
+        if (post.id !== pingId) return post;
+        const others = (post.ping_interactions ?? []).filter(
+          (interaction) => !(interaction.interaction_type === 'REPOST' && interaction.user_id === user.id)
+        );
+        return {
+          ...post,
+          ping_interactions: alreadyReposted ? others : [...others, { user_id: user.id, interaction_type: 'REPOST' as const }],
+        };
+      })
+    );
+  };
+
   const handleComment = async (pingId: string) => {
     if (!user) {
       navigate('/auth'); // Redirect to auth page if not authenticated
@@ -406,30 +524,65 @@ const Home = () => {
           />
         )}
         <div className={`glass-strong rounded-3xl p-6 mb-6 shadow-lg animate-scale-in transition-all duration-300 ${pingInputFocused ? 'relative z-50 scale-105' : ''}`}>
-          <textarea
-            placeholder="What's on your mind?"
-            value={newPing}
-            onChange={(e) => setNewPing(e.target.value)}
-            onFocus={() => setPingInputFocused(true)}
-            className="min-h-[100px] rounded-2xl border-2 border-gray-300 resize-none focus:outline-none focus:border-blue-500 transition-all mb-4 p-2 w-full bg-transparent"
-          />
-          {pingImage && (
-        <div className="relative mb-4">
-          <img src={pingImage} alt="Upload preview" className="rounded-2xl max-h-64 w-full object-cover" />
-          <button
-            onClick={() => { setPingImage(null); setPingFile(null); }}
-                className="absolute top-2 right-2 bg-background/80 backdrop-blur-sm rounded-full p-1.5 hover:bg-background transition-apple"
-              >
-                <X className="h-4 w-4" />
-              </button>
+          <div className="relative mb-4">
+            <textarea
+              ref={pingInputRef}
+              placeholder="What's on your mind?"
+              value={newPing}
+              onChange={(e) => setNewPing(e.target.value)}
+              onFocus={() => setPingInputFocused(true)}
+              className="min-h-[100px] rounded-2xl border-2 border-gray-300 resize-none focus:outline-none focus:border-blue-500 transition-all p-2 w-full bg-transparent block"
+            />
+            <MentionSuggestions textareaRef={pingInputRef} value={newPing} onChange={setNewPing} />
+          </div>
+          {attachments.length > 0 && (
+            <div className={`grid gap-2 mb-4 ${attachments.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+              {attachments.map((attachment, index) => (
+                <div key={attachment.previewUrl} className="relative">
+                  {attachment.kind === 'video' ? (
+                    <video src={attachment.previewUrl} controls className="rounded-2xl max-h-64 w-full object-cover" />
+                  ) : (
+                    <img src={attachment.previewUrl} alt="Upload preview" className="rounded-2xl max-h-64 w-full object-cover" />
+                  )}
+                  <button
+                    onClick={() => removeAttachment(index)}
+                    className="absolute top-2 right-2 bg-background/80 backdrop-blur-sm rounded-full p-1.5 hover:bg-background transition-apple"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                  {attachment.kind === 'image' && (
+                    <button
+                      onClick={() => setAltTextIndex(index)}
+                      className="absolute bottom-2 left-2 flex items-center gap-1 bg-background/80 backdrop-blur-sm rounded-full px-2.5 py-1 text-xs font-bold hover:bg-background transition-apple"
+                    >
+                      {attachment.altText && <Check className="h-3 w-3" />}
+                      ALT
+                    </button>
+                  )}
+                </div>
+              ))}
             </div>
           )}
+          {attachments.length === 0 && <LinkPreviewCard url={composerLinkUrl} />}
+          {attachments.some(({ kind, altText }) => kind === 'image' && !altText) && (
+            <p className="mb-4 text-xs text-muted-foreground">
+              Tip: add a description with ALT so people using screen readers know what's in your images.
+            </p>
+          )}
+          <AltTextDialog
+            previewUrl={altTextIndex !== null ? attachments[altTextIndex]?.previewUrl ?? null : null}
+            altText={altTextIndex !== null ? attachments[altTextIndex]?.altText ?? '' : ''}
+            open={altTextIndex !== null}
+            onOpenChange={(open) => !open && setAltTextIndex(null)}
+            onSave={(altText) => altTextIndex !== null && setAttachmentAltText(altTextIndex, altText)}
+          />
           <div className="flex gap-2">
             <label className="flex-1">
               <input
                 type="file"
-                accept="image/*"
-                onChange={handleImageUpload}
+                accept="image/*,video/*"
+                multiple
+                onChange={handleMediaSelect}
                 className="hidden"
               />
               <button
@@ -441,12 +594,12 @@ const Home = () => {
                 }}
               >
                 <ImageIcon className="h-5 w-5 mr-2" />
-                Image
+                Media
               </button>
             </label>
             <button
               onClick={handlePing}
-              disabled={loading || (!newPing.trim() && !pingImage)}
+              disabled={loading || (!newPing.trim() && attachments.length === 0)}
               className="flex-1 h-12 rounded-2xl bg-primary hover:bg-primary/90 text-white font-bold transition-all shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? 'Pinging...' : 'Ping'}
@@ -454,6 +607,24 @@ const Home = () => {
           </div>
         </div>
 
+        <TrendingHashtags className={`mb-6 ${pingInputFocused ? 'blur-sm pointer-events-none' : ''}`} />
+
+        <div className={`flex gap-2 mb-4 ${pingInputFocused ? 'blur-sm pointer-events-none' : ''}`}>
+          {FEED_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => setFeedMode(mode)}
+              className={`flex-1 h-10 rounded-2xl text-sm font-semibold transition-apple ${
+                feedMode === mode
+                  ? 'bg-primary text-white shadow-md'
+                  : 'glass text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
         <div className="space-y-4">
           {posts.map((ping, index) => (
             <div
@@ -466,6 +637,15 @@ const Home = () => {
               }`}
               style={{ animationDelay: `${index * 0.05}s` }}
             >
+              {ping.reposted_by && (
+                <button
+                  onClick={() => navigate(`/profile/${ping.reposted_by?.username}`)}
+                  className="flex items-center gap-1.5 mb-3 text-xs font-medium text-muted-foreground hover:text-foreground transition-apple"
+                >
+                  <Repeat2 className="h-3.5 w-3.5" />
+                  Reposted by {ping.reposted_by.display_name}
+                </button>
+              )}
               <div className="flex items-start gap-3 mb-3">
                 <button
                   onClick={() => navigate(`/profile/${ping.profiles?.username}`)}
@@ -507,6 +687,15 @@ const Home = () => {
                         </button>
                         {expandedPing === ping.id && (
                           <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
+                            <button
+                              onClick={() => {
+                                setExpandedPing(null);
+                                setEditingPing(ping);
+                              }}
+                              className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left"
+                            >
+                              Edit Ping
+                            </button>
                             <button
                               onClick={() => handleDeletePing(ping.id)}
                               className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left"
@@ -520,6 +709,15 @@ const Home = () => {
                   </div>
                   <p className="text-xs text-muted-foreground">
                     @{ping.profiles?.username} · {new Date(ping.created_at).toLocaleString()}
+                    {ping.edited_at && (
+                      <button
+                        onClick={() => navigate(`/post/${ping.id}`)}
+                        title={`Edited ${new Date(ping.edited_at).toLocaleString()}`}
+                        className="ml-1 hover:text-foreground transition-apple"
+                      >
+                        · edited
+                      </button>
+                    )}
                   </p>
                 </div>
               </div>
@@ -528,14 +726,10 @@ const Home = () => {
                 <ParsedText text={ping.content} />
               </p>
               
-              {ping.image_url && (
-                <img
-                  src={ping.image_url}
-                  alt="Ping image"
-                  loading="lazy"
-                  className="rounded-2xl w-full mb-4 max-h-96 object-cover"
-                />
-              )}
+              <MediaGrid media={ping.ping_media} imageUrl={ping.image_url} className="mb-4" />
+              {!ping.ping_media?.length && !ping.image_url && <LinkPreviewCard url={extractFirstUrl(ping.content)} />}
+
+              {ping.quoted_ping && <QuotedPing ping={ping.quoted_ping} />}
               
               <div className="flex items-center gap-6 mb-4">
                 <button
@@ -570,6 +764,25 @@ const Home = () => {
                   <MessageCircle className="h-5 w-5" />
                   <span className="text-sm font-medium">{ping.comments?.length || 0}</span>
                 </button>
+                <button
+                  onClick={() => handleRepost(ping.id)}
+                  className={`flex items-center gap-2 transition-apple ${
+                    ping.ping_interactions?.some(i => i.interaction_type === 'REPOST' && i.user_id === user?.id)
+                      ? 'text-green-500'
+                      : 'text-muted-foreground hover:text-green-500'
+                  }`}
+                >
+                  <Repeat2 className="h-5 w-5" />
+                  <span className="text-sm font-medium">
+                    {ping.ping_interactions?.filter(i => i.interaction_type === 'REPOST').length || 0}
+                  </span>
+                </button>
+                <button
+                  onClick={() => setQuotingPing(ping)}
+                  className="flex items-center gap-2 text-muted-foreground hover:text-primary transition-apple"
+                >
+                  <Quote className="h-5 w-5" />
+                </button>
                 <button
                   onClick={() => handleShare(ping)}
                   className="flex items-center gap-2 text-muted-foreground hover:text-primary transition-apple"
@@ -653,6 +866,29 @@ const Home = () => {
         </div>
       </div>
  
+       {editingPing && (
+         <EditPingDialog
+           ping={editingPing}
+           open={!!editingPing}
+           onOpenChange={(open) => !open && setEditingPing(null)}
+           onSaved={(updated) =>
+             setPosts((prevPosts) =>
+               prevPosts.map((post) =>
+                 post.id === updated.id ? { ...post, content: updated.content, edited_at: updated.edited_at } : post
+               )
+             )
+           }
+         />
+       )}
+
+       {quotingPing && (
+         <QuotePingDialog
+           ping={{ ...quotingPing, image_url: quotingPing.image_url ?? null, profiles: quotingPing.profiles }}
+           open={!!quotingPing}
+           onOpenChange={(open) => !open && setQuotingPing(null)}
+         />
+       )}
+
        <div className={`fixed bottom-0 left-0 right-0 z-50 ${focusedCommentPing ? 'blur-sm pointer-events-none' : ''}`}>
          <Navigation />
        </div>
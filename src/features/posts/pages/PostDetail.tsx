@@ -1,37 +1,30 @@
-import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom'; // Import useNavigate
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
-import { Ping, Comment, Profile } from '@/types'; // Import types
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/Avatar'; // Import Avatar components
-import { Button } from '@/components/ui/Button'; // Import Button
-import { Textarea } from '@/components/ui/Textarea'; // Import Textarea
-import { useAuth } from '@/providers/SupabaseAuthContext'; // Import useAuth
-import { formatDistanceToNow } from 'date-fns'; // Import date-fns
-import { ThumbsUp, MessageCircle, Share2 } from 'lucide-react'; // Import lucide-react icons
-import { textParser } from '@/lib/textParser'; // Import textParser
-import { toast } from '@/hooks/use-toast'; // Import toast hook
-import LoadingSpinner from '@/components/LoadingSpinner'; // Import LoadingSpinner
-
-interface Comment {
-  id: string;
-  content: string;
-  created_at: string;
-  profiles?: Profile;
-}
-
-interface PostDetailPing extends Ping {
-  profiles?: Profile;
-  likes_count: number;
-  comments_count: number;
-}
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import { useAuth } from '@/providers/SupabaseAuthContext';
+import { ArrowLeft, X } from 'lucide-react';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import PingCard from '@/components/PingCard';
+import CommentThread from '@/components/CommentThread';
+import MentionSuggestions from '@/components/MentionSuggestions';
+import { getPing, summarizeInteractions, type FeedPing } from '@/api/pings';
+import { fetchComments, getComment, createComment, toggleCommentLike, type ThreadComment } from '@/api/comments';
+import { buildCommentTree, findCommentNode } from '@/lib/commentTree';
 
 const PostDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  // When set, only the subtree rooted at this comment is shown ("Continue thread")
+  const threadId = searchParams.get('thread');
   const navigate = useNavigate();
-  const [post, setPost] = useState<PostDetailPing | null>(null);
-  const [comments, setComments] = useState<Comment[]>([]);
+  const [post, setPost] = useState<FeedPing | null>(null);
+  const [comments, setComments] = useState<ThreadComment[]>([]);
   const [newComment, setNewComment] = useState('');
+  const commentInputRef = useRef<HTMLTextAreaElement>(null);
+  const [replyingTo, setReplyingTo] = useState<ThreadComment | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
@@ -40,60 +33,45 @@ const PostDetail: React.FC = () => {
     const fetchPostAndComments = async () => {
       setLoading(true);
       setError(null);
-      
+
       if (!id) {
         setError("Post ID is missing.");
         setLoading(false);
         return;
       }
 
-      // Fetch post
-      const { data: postData, error: postError } = await supabase
-        .from('pings')
-        .select('*, profiles(username)')
-        .eq('id', id)
-        .single();
-
-      if (postError) {
-        logger.error('Error fetching post', postError, { userMessage: 'Failed to fetch post.' });
+      try {
+        const [postData, commentsData] = await Promise.all([getPing(id), fetchComments(id)]);
+        setPost(postData);
+        setComments(commentsData);
+      } catch (fetchError) {
+        logger.error('Error fetching post and comments', fetchError, { userMessage: 'Failed to fetch post.' });
         setError('Failed to fetch post.'); // Keep for UI display
+      } finally {
         setLoading(false);
-        return;
-      }
-
-      // Fetch like count for the post
-      const { count: likesCount } = await supabase
-        .from('likes')
-        .select('*', { count: 'exact' })
-        .eq('post_id', postData.id);
-
-      // Fetch comments for the post
-      const { data: commentsData, error: commentsError } = await supabase
-        .from('comments')
-        .select('*, profiles(username)')
-        .eq('post_id', id)
-        .order('created_at', { ascending: false });
-
-      if (commentsError) {
-        logger.error('Error fetching comments', commentsError, { userMessage: 'Failed to fetch comments.' });
-        setError('Failed to fetch comments.'); // Keep for UI display
-        setLoading(false);
-        return;
       }
-      
-      setPost({ ...postData, likes_count: likesCount || 0, comments_count: commentsData.length } as PostDetailPing);
-      setComments(commentsData as Comment[]);
-      setLoading(false);
     };
 
     fetchPostAndComments();
 
-    // Set up real-time subscription for new comments
+    // Set up real-time subscription for comments; the flat list is re-threaded on render,
+    // so new replies land under their parent automatically
     const commentChannel = supabase
-      .channel('public:comments')
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'comments', filter: `post_id=eq.${id}` }, payload => {
-        const newComment = payload.new as Comment;
-        setComments((prevComments) => [newComment, ...prevComments]);
+      .channel(`comments:${id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'comments', filter: `ping_id=eq.${id}` }, async payload => {
+        try {
+          const insertedComment = await getComment(payload.new.id);
+          setComments((prevComments) =>
+            prevComments.some(comment => comment.id === insertedComment.id)
+              ? prevComments
+              : [...prevComments, insertedComment]
+          );
+        } catch (fetchError) {
+          logger.error('Error fetching new comment details', fetchError);
+        }
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'comments', filter: `ping_id=eq.${id}` }, payload => {
+        setComments((prevComments) => prevComments.filter(comment => comment.id !== payload.old.id));
       })
       .subscribe();
 
@@ -102,13 +80,16 @@ const PostDetail: React.FC = () => {
     };
   }, [id]);
 
+  const commentTree = useMemo(() => buildCommentTree(comments), [comments]);
+  const threadRoot = useMemo(() => (threadId ? findCommentNode(commentTree, threadId) : null), [commentTree, threadId]);
+  const visibleRoots = threadRoot ? [threadRoot] : commentTree;
+
   const handleAddComment = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newComment.trim()) return;
 
-    const user = await supabase.auth.getUser();
-    if (!user.data.user) {
-      alert('You must be logged in to comment.');
+    if (!user) {
+      navigate('/auth'); // Redirect to auth page if not authenticated
       return;
     }
 
@@ -117,19 +98,46 @@ const PostDetail: React.FC = () => {
       return;
     }
 
-    const { data, error } = await supabase
-      .from('comments')
-      .insert([
-        { post_id: post.id, user_id: user.data.user.id, content: newComment }
-      ]);
-
-    if (error) {
-      logger.error('Error adding comment', error, { userMessage: 'Failed to add comment.' });
-      setError('Failed to add comment.'); // Keep for UI display
-    } else {
-      logger.info('Comment added', { data });
+    try {
+      const created = await createComment({
+        ping_id: String(post.id),
+        content: newComment.trim(),
+        parent_comment_id: replyingTo?.id,
+      });
+      logger.info('Comment added', { commentId: created.id, parentId: replyingTo?.id });
+      setComments((prevComments) =>
+        prevComments.some(comment => comment.id === created.id) ? prevComments : [...prevComments, created]
+      );
       setNewComment('');
-      // The real-time subscription will update the comments state
+      setReplyingTo(null);
+    } catch (addError) {
+      logger.error('Error adding comment', addError, { userMessage: 'Failed to add comment.' });
+    }
+  };
+
+  const handleToggleCommentLike = async (comment: ThreadComment) => {
+    if (!user) {
+      navigate('/auth'); // Redirect to auth page if not authenticated
+      return;
+    }
+
+    const isLiked = comment.comment_likes?.some(like => like.user_id === user.id) || false;
+    try {
+      await toggleCommentLike(comment.id, isLiked);
+      setComments((prevComments) =>
+        prevComments.map(c =>
+          c.id !== comment.id
+            ? c
+            : {
+                ...c,
+                comment_likes: isLiked
+                  ? c.comment_likes.filter(like => like.user_id !== user.id)
+                  : [...(c.comment_likes || []), { id: `local-${user.id}`, user_id: user.id }],
+              }
+        )
+      );
+    } catch (likeError) {
+      logger.error('Error toggling comment like', likeError, { userMessage: 'Failed to change like status.' });
     }
   };
 
@@ -138,46 +146,69 @@ const PostDetail: React.FC = () => {
   if (!post) return <p>Post not found.</p>;
 
   return (
-    <div className="w-full max-w-2xl mx-auto p-4">
-      <div className="bg-white rounded-lg shadow-md p-4 mb-4">
-        <div className="flex items-center mb-4">
-          <img
-            src="https://i.pravatar.cc/50"
-            alt="Avatar"
-            className="w-10 h-10 rounded-full mr-4"
-          />
-          <h3 className="font-bold">{post.profiles?.username || 'Unknown User'}</h3>
-        </div>
-        <p className="mb-4">{post.content}</p>
-        <div className="flex justify-between text-gray-500">
-          <span>{post.likes_count} Likes</span>
-          <span>{post.comments_count} Comments</span>
-        </div>
+    <div className="w-full max-w-2xl mx-auto p-4 pb-24">
+      <div className="flex items-center gap-4 mb-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate(-1)} className="rounded-full">
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="text-2xl font-bold">Ping</h1>
       </div>
 
-      <div className="bg-white rounded-lg shadow-md p-4 mb-4">
+      <div className="mb-4">
+        <PingCard
+          post={{
+            ...post,
+            id: String(post.id),
+            image_url: post.image_url ?? undefined,
+            profiles: { ...post.profiles, verified: !!(post.profiles as { verified?: boolean }).verified },
+            ...summarizeInteractions(post, user?.id),
+          }}
+          showEditHistory
+        />
+      </div>
+
+      <div className="glass rounded-3xl p-6 shadow-md">
         <h4 className="font-bold mb-2">Comments</h4>
         <form onSubmit={handleAddComment} className="mb-4">
-          <textarea
-            className="w-full p-2 border rounded-md mb-2"
-            rows={3}
-            placeholder="Add a comment..."
-            value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
-          ></textarea>
-          <button
-            type="submit"
-            className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600"
-          >
-            Add Comment
-          </button>
+          {replyingTo && (
+            <div className="flex items-center justify-between mb-2 text-xs text-muted-foreground">
+              <span>Replying to @{replyingTo.profiles?.username}</span>
+              <button type="button" onClick={() => setReplyingTo(null)} className="hover:text-foreground transition-apple">
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          )}
+          <div className="relative mb-2">
+            <Textarea
+              ref={commentInputRef}
+              className="rounded-2xl resize-none"
+              rows={3}
+              placeholder={replyingTo ? 'Write a reply...' : 'Add a comment...'}
+              value={newComment}
+              onChange={(e) => setNewComment(e.target.value)}
+            />
+            <MentionSuggestions textareaRef={commentInputRef} value={newComment} onChange={setNewComment} />
+          </div>
+          <Button type="submit" disabled={!newComment.trim()} className="rounded-2xl">
+            {replyingTo ? 'Reply' : 'Add Comment'}
+          </Button>
         </form>
-        {comments.length === 0 && <p>No comments yet. Be the first to comment!</p>}
-        {comments.map((comment) => (
-          <div key={comment.id} className="border-t pt-2 mt-2">
-            <p className="text-sm font-bold">{comment.profiles?.username || 'Unknown User'}</p>
-            <p className="text-sm">{comment.content}</p>
-            <span className="text-xs text-gray-400">{new Date(comment.created_at).toLocaleString()}</span>
+
+        {threadId && (
+          <Link to={`/post/${post.id}`} className="block mb-2 text-xs font-medium text-primary hover:underline">
+            ← Back to all comments
+          </Link>
+        )}
+        {visibleRoots.length === 0 && <p>No comments yet. Be the first to comment!</p>}
+        {visibleRoots.map((node) => (
+          <div key={node.id} className="border-t border-border/50 pt-2 mt-2">
+            <CommentThread
+              node={node}
+              pingId={String(post.id)}
+              currentUserId={user?.id}
+              onReply={setReplyingTo}
+              onToggleLike={handleToggleCommentLike}
+            />
           </div>
         ))}
       </div>
@@ -185,4 +216,4 @@ const PostDetail: React.FC = () => {
   );
 };
 
-export default PostDetail;
\ No newline at end of file
+export default PostDetail;
@@ -7,10 +7,16 @@ import { Avatar, AvatarFallback } from '@/components/ui/Avatar';
 import { ArrowLeft, UserPlus, Check, Settings, Calendar, MapPin, MessageCircle, UserCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { ParsedText } from '@/lib/textParser';
+import { formatLastSeen } from '@/lib/presence';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/providers/SupabaseAuthContext';
+import { useChatContext } from '@/providers/ChatContext';
+import { usePresence } from '@/providers/PresenceContext';
 import { followUser, unfollowUser, isFollowing } from '@/api/user';
 import { Skeleton } from '@/components/ui/Skeleton';
+import MediaGrid from '@/components/MediaGrid';
+import OnlineIndicator from '@/components/OnlineIndicator';
+import { PING_MEDIA_SELECT, type PingMediaItem } from '@/api/pings';
 
 interface UserProfile {
   id: string;
@@ -20,6 +26,7 @@ interface UserProfile {
   verified: boolean;
   location?: string;
   avatar_url?: string;
+  last_seen_at?: string | null;
   created_at: string;
 }
 
@@ -28,12 +35,15 @@ interface Post {
   content: string;
   created_at: string;
   image_url?: string;
+  ping_media?: PingMediaItem[];
 }
 
 const Profile = () => {
   const { username: urlUsername } = useParams();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { createDirectChat } = useChatContext();
+  const { isOnline } = usePresence();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [posts, setPosts] = useState<Post[]>([]);
   const [followersCount, setFollowersCount] = useState(0);
@@ -88,7 +98,7 @@ const Profile = () => {
   const fetchUserPosts = async (userId: string) => {
     const { data, error } = await supabase
       .from('pings')
-      .select('*')
+      .select(`*, ${PING_MEDIA_SELECT}`)
       .eq('user_id', userId)
       .order('created_at', { ascending: false });
 
@@ -160,13 +170,14 @@ const Profile = () => {
 
   const handleMessage = async () => {
     if (!user || !profile) return;
-    const { data, error } = await supabase.rpc('create_direct_chat', { other_user: profile.id });
-    if (!error && data) {
-      navigate(`/chats/${data}`);
+    const chatId = await createDirectChat(profile.id);
+    if (chatId) {
+      navigate(`/chats/${chatId}`);
     }
   };
 
   const isOwnProfile = user?.id === profile?.id;
+  const lastSeen = profile && !isOwnProfile ? formatLastSeen(profile.last_seen_at, isOnline(profile.id)) : null;
 
   if (!profile) {
     return (
@@ -244,11 +255,14 @@ const Profile = () => {
 
         <div className="glass-strong rounded-3xl p-6 mb-6 shadow-lg animate-scale-in">
           <div className="flex items-start gap-4 mb-4">
-            <Avatar className="w-20 h-20 ring-4 ring-primary/20 shadow-lg">
-              <AvatarFallback className="bg-gradient-to-br from-primary via-primary/80 to-primary/50 text-white text-2xl font-bold">
-                {profile.display_name[0]?.toUpperCase() || 'U'}
-              </AvatarFallback>
-            </Avatar>
+            <div className="relative shrink-0">
+              <Avatar className="w-20 h-20 ring-4 ring-primary/20 shadow-lg">
+                <AvatarFallback className="bg-gradient-to-br from-primary via-primary/80 to-primary/50 text-white text-2xl font-bold">
+                  {profile.display_name[0]?.toUpperCase() || 'U'}
+                </AvatarFallback>
+              </Avatar>
+              <OnlineIndicator online={!isOwnProfile && isOnline(profile.id)} className="w-5 h-5 bottom-0.5 right-0.5 ring-4" />
+            </div>
             
             <div className="flex-1">
               <div className="flex items-center gap-1.5 mb-1">
@@ -260,6 +274,7 @@ const Profile = () => {
                 )}
               </div>
               <p className="text-sm text-muted-foreground">@{profile.username}</p>
+              {lastSeen && <p className="text-xs text-muted-foreground mt-1">{lastSeen}</p>}
             </div>
           </div>
 
@@ -345,13 +360,7 @@ const Profile = () => {
                   <p className="text-foreground/90 mb-2">
                     <ParsedText text={post.content} />
                   </p>
-                  {post.image_url && (
-                    <img 
-                      src={post.image_url} 
-                      alt="Post" 
-                      className="rounded-2xl w-full mb-2 max-h-96 object-cover"
-                    />
-                  )}
+                  <MediaGrid media={post.ping_media} imageUrl={post.image_url} className="mb-2" />
                   <p className="text-xs text-muted-foreground">
                     {new Date(post.created_at).toLocaleString()}
                   </p>
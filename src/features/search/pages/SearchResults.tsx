@@ -1,111 +1,230 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import Navigation from '@/components/Navigation';
 import { useDebounce } from '@/hooks/use-debounce';
 import Header from '@/components/Header';
-import { Avatar, AvatarFallback } from '@/components/ui/Avatar';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/Avatar';
 import { Check, ArrowLeft, Hash } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
-import { ParsedText } from '@/lib/textParser';
-import { supabase } from '@/lib/supabase';
-
-interface User {
-  id: string;
-  username: string;
-  display_name: string;
-  bio?: string;
-  verified: boolean;
-}
-
-interface Post {
-  id: string;
-  user_id: string;
-  content: string;
-  created_at: string;
-  image_url?: string;
-  profiles?: {
-    username: string;
-    display_name: string;
-    verified: boolean;
-  };
-}
+import MediaGrid from '@/components/MediaGrid';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { logger } from '@/lib/logger';
+import { useIntersectionObserver } from '@/hooks/use-intersection-observer';
+import type { FeedPing } from '@/api/pings';
+import {
+  searchHashtags,
+  searchPings,
+  searchUsers,
+  splitSnippet,
+  type SearchHashtag,
+  type SearchPage,
+  type SearchResult,
+  type SearchType,
+  type SearchUser,
+} from '@/api/search';
+
+const SEARCH_TABS: { type: SearchType; label: string }[] = [
+  { type: 'pings', label: 'Pings' },
+  { type: 'users', label: 'People' },
+  { type: 'hashtags', label: 'Hashtags' },
+];
+
+const PAGE_SIZE = 20;
+
+type TabResult = SearchResult<FeedPing> | SearchResult<SearchUser> | SearchResult<SearchHashtag>;
+
+const SEARCHERS: Record<SearchType, (query: string, offset: number, limit: number) => Promise<SearchPage<TabResult['item']>>> = {
+  pings: searchPings,
+  users: searchUsers,
+  hashtags: searchHashtags,
+};
+
+// Queries starting with # or @ open on the matching tab
+const defaultTabFor = (query: string): SearchType =>
+  query.startsWith('#') ? 'hashtags' : query.startsWith('@') ? 'users' : 'pings';
+
+// Renders a search snippet with the matched words highlighted; the text is never parsed as HTML
+const Snippet = ({ snippet, className }: { snippet: string; className?: string }) => (
+  <span className={className}>
+    {splitSnippet(snippet).map((segment, index) =>
+      segment.highlighted ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">{segment.text}</mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </span>
+);
 
 const SearchResults = () => {
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const urlQuery = searchParams.get('q') || '';
-  const [debouncedQuery] = useDebounce(urlQuery, 300); // Debounce input by 300ms for faster perceived performance
-  
-  const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
-  const [filteredPosts, setFilteredPosts] = useState<Post[]>([]);
-  const [hashtags, setHashtags] = useState<string[]>([]);
+  const debouncedQuery = useDebounce(urlQuery, 300).trim(); // Debounce input by 300ms for faster perceived performance
+  const tabParam = searchParams.get('tab');
+  const activeTab: SearchType = SEARCH_TABS.some(({ type }) => type === tabParam)
+    ? (tabParam as SearchType)
+    : defaultTabFor(urlQuery);
+
+  const [results, setResults] = useState<TabResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Kept in a ref so loadResults stays stable; null once the last page has been loaded
+  const nextOffsetRef = useRef<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  // Ignores responses for a query/tab the user has already moved away from
+  const requestIdRef = useRef(0);
+
+  const loadResults = useCallback(async (append: boolean) => {
+    if (!debouncedQuery) {
+      setResults([]);
+      setHasMore(false);
+      return;
+    }
+    if (append && nextOffsetRef.current === null) return;
+
+    const requestId = ++requestIdRef.current;
+    const setLoadingState = append ? setIsLoadingMore : setLoading;
+    setLoadingState(true);
+
+    try {
+      const page = await SEARCHERS[activeTab](debouncedQuery, append ? nextOffsetRef.current ?? 0 : 0, PAGE_SIZE);
+      if (requestId !== requestIdRef.current) return;
+
+      nextOffsetRef.current = page.nextOffset;
+      setHasMore(page.nextOffset !== null);
+      setResults((prev) => (append ? [...prev, ...(page.items as TabResult[])] : (page.items as TabResult[])));
+    } catch (error) {
+      logger.error('Error searching', error, { userMessage: 'Search failed. Please try again.' });
+      setHasMore(false);
+    } finally {
+      if (requestId === requestIdRef.current) setLoadingState(false);
+    }
+  }, [debouncedQuery, activeTab]);
 
   useEffect(() => {
     window.scrollTo(0, 0);
-    if (debouncedQuery.trim()) {
-      performSearch(debouncedQuery.trim());
-    }
-  }, [debouncedQuery]); // Depend on debouncedQuery
-
-  const performSearch = async (searchQuery: string) => {
-    const isHashtagSearch = searchQuery.startsWith('#');
-    const cleanQuery = isHashtagSearch ? searchQuery.substring(1).toLowerCase() : searchQuery.toLowerCase();
-
-    if (isHashtagSearch) {
-      // Hashtag search: search posts and user bios for hashtags
-      const { data: posts } = await supabase
-        .from('posts')
-        .select('*, profiles!posts_user_id_fkey(username, display_name, verified)')
-        .ilike('content', `%#${cleanQuery}%`)
-        .order('created_at', { ascending: false });
-
-      const { data: users } = await supabase
-        .from('profiles')
-        .select('*')
-        .ilike('bio', `%#${cleanQuery}%`);
-
-      setFilteredPosts(posts || []);
-      setFilteredUsers(users || []);
-      setHashtags([]);
-    } else {
-      // Word search: search posts by content (recent to old), then extract hashtags, then search users
-      const { data: posts } = await supabase
-        .from('posts')
-        .select('*, profiles!posts_user_id_fkey(username, display_name, verified)')
-        .or(`content.ilike.%${cleanQuery}%`)
-        .order('created_at', { ascending: false });
-
-      const { data: users } = await supabase
-        .from('profiles')
-        .select('*')
-        .or(`username.ilike.%${cleanQuery}%,display_name.ilike.%${cleanQuery}%,bio.ilike.%${cleanQuery}%`);
-
-      // Extract hashtags from all posts
-      const allHashtags = new Set<string>();
-      const { data: allPosts } = await supabase.from('posts').select('content');
-      allPosts?.forEach(post => {
-        const matches = post.content.match(/#\w+/g);
-        if (matches) {
-          matches.forEach(tag => {
-            const tagLower = tag.toLowerCase();
-            if (tagLower.includes(cleanQuery)) {
-              allHashtags.add(tag);
-            }
-          });
-        }
-      });
-
-      setFilteredPosts(posts || []);
-      setFilteredUsers(users || []);
-      setHashtags(Array.from(allHashtags).slice(0, 5));
+    nextOffsetRef.current = null;
+    loadResults(false);
+  }, [loadResults]);
+
+  // Infinite Scroll Observer
+  const { ref: sentinelRef, isIntersecting } = useIntersectionObserver({ threshold: 0.1, enabled: hasMore });
+
+  useEffect(() => {
+    if (isIntersecting && hasMore && !loading && !isLoadingMore) {
+      loadResults(true);
     }
+  }, [isIntersecting, hasMore, loading, isLoadingMore, loadResults]);
+
+  const selectTab = (type: SearchType) => {
+    setResults([]);
+    setSearchParams({ q: urlQuery, tab: type }, { replace: true });
+  };
+
+  const renderPing = ({ item: post, snippet }: SearchResult<FeedPing>, index: number) => (
+    <div
+      key={post.id}
+      onClick={() => navigate(`/post/${post.id}`)}
+      className="glass rounded-3xl p-6 shadow-md animate-fade-in cursor-pointer"
+      style={{ animationDelay: `${index * 0.05}s` }}
+    >
+      <div className="flex items-start gap-3 mb-3">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            navigate(`/profile/${post.profiles?.username}`);
+          }}
+          className="w-10 h-10 rounded-full bg-gradient-to-br from-primary to-primary/50 flex items-center justify-center text-white font-semibold text-sm hover:scale-105 transition-apple"
+        >
+          {post.profiles?.display_name?.[0]?.toUpperCase() || 'U'}
+        </button>
+        <div className="flex-1">
+          <div className="flex items-center gap-1.5">
+            <span className="font-semibold">{post.profiles?.display_name}</span>
+            {(post.profiles as { verified?: boolean } | undefined)?.verified && (
+              <div className="flex items-center justify-center w-4 h-4 bg-primary rounded-full">
+                <Check className="h-3 w-3 text-white stroke-[3]" />
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            @{post.profiles?.username} · {new Date(post.created_at).toLocaleString()}
+          </p>
+        </div>
+      </div>
+      <p className="text-foreground/90 break-words">
+        <Snippet snippet={snippet} />
+      </p>
+      <MediaGrid media={post.ping_media} imageUrl={post.image_url} className="mt-3 mb-0" />
+    </div>
+  );
+
+  const renderUser = ({ item: user, snippet }: SearchResult<SearchUser>, index: number) => (
+    <div
+      key={user.id}
+      onClick={() => navigate(`/profile/${user.username}`)}
+      className="glass-strong rounded-3xl p-4 shadow-md animate-fade-in cursor-pointer hover:scale-[1.02] transition-transform"
+      style={{ animationDelay: `${index * 0.05}s` }}
+    >
+      <div className="flex items-center gap-3">
+        <Avatar className="w-12 h-12">
+          {user.avatar_url ? (
+            <AvatarImage src={user.avatar_url} alt={user.display_name} blurhash={user.avatar_blurhash} />
+          ) : (
+            <AvatarFallback className="bg-gradient-to-br from-primary via-primary/80 to-primary/50 text-white font-bold">
+              {user.display_name?.[0]?.toUpperCase()}
+            </AvatarFallback>
+          )}
+        </Avatar>
+        <div className="flex-1">
+          <div className="flex items-center gap-1.5">
+            <span className="font-semibold">{user.display_name}</span>
+            {user.verified && (
+              <div className="flex items-center justify-center w-4 h-4 bg-primary rounded-full">
+                <Check className="h-3 w-3 text-white stroke-[3]" />
+              </div>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">@{user.username}</p>
+          {user.bio && <Snippet snippet={snippet} className="block text-sm text-foreground/70 mt-1" />}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderHashtag = ({ item: hashtag, snippet }: SearchResult<SearchHashtag>, index: number) => (
+    <button
+      key={hashtag.tag}
+      onClick={() => navigate(`/tag/${encodeURIComponent(hashtag.tag)}`)}
+      className="glass-strong rounded-3xl p-4 shadow-md animate-fade-in cursor-pointer hover:scale-[1.02] transition-transform w-full text-left"
+      style={{ animationDelay: `${index * 0.05}s` }}
+    >
+      <div className="flex items-center gap-3">
+        <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
+          <Hash className="h-6 w-6 text-primary" />
+        </div>
+        <div className="flex-1">
+          <span className="font-semibold text-primary">#<Snippet snippet={snippet} /></span>
+          <p className="text-sm text-muted-foreground">
+            {hashtag.usage_count} {hashtag.usage_count === 1 ? 'ping' : 'pings'}
+          </p>
+        </div>
+      </div>
+    </button>
+  );
+
+  const renderResult = (result: TabResult, index: number) => {
+    if (activeTab === 'pings') return renderPing(result as SearchResult<FeedPing>, index);
+    if (activeTab === 'users') return renderUser(result as SearchResult<SearchUser>, index);
+    return renderHashtag(result as SearchResult<SearchHashtag>, index);
   };
 
   return (
     <div className="min-h-screen pb-20 bg-background">
       <Header />
       <div className="max-w-2xl mx-auto p-4">
-        <div className="mb-8 pt-24 animate-fade-in flex items-center gap-4">
+        <div className="mb-6 pt-24 animate-fade-in flex items-center gap-4">
           <Button
             variant="ghost"
             size="icon"
@@ -119,124 +238,41 @@ const SearchResults = () => {
           </h1>
         </div>
 
-        {filteredPosts.length > 0 && (
-          <div className="mb-8">
-            <h2 className="text-xl font-semibold mb-4">Posts</h2>
-            <div className="space-y-4">
-              {filteredPosts.map((post, index) => (
-                <div
-                  key={post.id}
-                  className="glass rounded-3xl p-6 shadow-md animate-fade-in"
-                  style={{ animationDelay: `${index * 0.05}s` }}
-                >
-                  <div className="flex items-start gap-3 mb-3">
-                    <button
-                      onClick={() => navigate(`/profile/${post.profiles?.username}`)}
-                      className="w-10 h-10 rounded-full bg-gradient-to-br from-primary to-primary/50 flex items-center justify-center text-white font-semibold text-sm hover:scale-105 transition-apple"
-                    >
-                      {post.profiles?.display_name?.[0]?.toUpperCase() || 'U'}
-                    </button>
-                    <div className="flex-1">
-                      <div className="flex items-center gap-1.5">
-                        <button
-                          onClick={() => navigate(`/profile/${post.profiles?.username}`)}
-                          className="font-semibold hover:text-primary transition-apple"
-                        >
-                          {post.profiles?.display_name}
-                        </button>
-                        {post.profiles?.verified && (
-                          <div className="flex items-center justify-center w-4 h-4 bg-primary rounded-full">
-                            <Check className="h-3 w-3 text-white stroke-" />
-                          </div>
-                        )}
-                      </div>
-                      <p className="text-xs text-muted-foreground">
-                        @{post.profiles?.username} · {new Date(post.created_at).toLocaleString()}
-                      </p>
-                    </div>
-                  </div>
-                  <p className="text-foreground/90">
-                    <ParsedText text={post.content} />
-                  </p>
-                  {post.image_url && (
-                    <img 
-                      src={post.image_url} 
-                      alt="Post" 
-                      className="rounded-2xl w-full mt-3 max-h-96 object-cover"
-                    />
-                  )}
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
-
-        {hashtags.length > 0 && (
-          <div className="mb-8">
-            <h2 className="text-xl font-semibold mb-4">Hashtags</h2>
-            <div className="space-y-3">
-              {hashtags.map((tag, index) => (
-                <button
-                  key={index}
-                  onClick={() => navigate(`/search?q=${encodeURIComponent(tag)}`)}
-                  className="glass-strong rounded-3xl p-4 shadow-md animate-fade-in cursor-pointer hover:scale-[1.02] transition-transform w-full text-left"
-                  style={{ animationDelay: `${(filteredPosts.length + index) * 0.05}s` }}
-                >
-                  <div className="flex items-center gap-3">
-                    <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
-                      <Hash className="h-6 w-6 text-primary" />
-                    </div>
-                    <span className="font-semibold text-primary">{tag}</span>
-                  </div>
-                </button>
-              ))}
-            </div>
-          </div>
-        )}
+        <div className="flex gap-2 mb-6">
+          {SEARCH_TABS.map(({ type, label }) => (
+            <button
+              key={type}
+              onClick={() => selectTab(type)}
+              className={`flex-1 h-10 rounded-2xl text-sm font-semibold transition-apple ${
+                activeTab === type
+                  ? 'bg-primary text-white shadow-md'
+                  : 'glass text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
 
-        {filteredUsers.length > 0 && (
-          <div className="mb-8">
-            <h2 className="text-xl font-semibold mb-4">People</h2>
-            <div className="space-y-3">
-              {filteredUsers.map((user, index) => (
-                <div
-                  key={user.id}
-                  onClick={() => navigate(`/profile/${user.username}`)}
-                  className="glass-strong rounded-3xl p-4 shadow-md animate-fade-in cursor-pointer hover:scale-[1.02] transition-transform"
-                  style={{ animationDelay: `${(filteredPosts.length + hashtags.length + index) * 0.05}s` }}
-                >
-                  <div className="flex items-center gap-3">
-                    <Avatar className="w-12 h-12">
-                      <AvatarFallback className="bg-gradient-to-br from-primary via-primary/80 to-primary/50 text-white font-bold">
-                        {user.display_name?.toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="flex-1">
-                      <div className="flex items-center gap-1.5">
-                        <span className="font-semibold">{user.display_name}</span>
-                        {user.verified && (
-                          <div className="flex items-center justify-center w-4 h-4 bg-primary rounded-full">
-                            <Check className="h-3 w-3 text-white stroke-" />
-                          </div>
-                        )}
-                      </div>
-                      <p className="text-sm text-muted-foreground">@{user.username}</p>
-                      {user.bio && <p className="text-sm text-foreground/70 mt-1">{user.bio}</p>}
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
+        {loading ? (
+          <LoadingSpinner text="Searching..." />
+        ) : (
+          <div className="space-y-3">
+            {results.map(renderResult)}
           </div>
         )}
 
-        {filteredUsers.length === 0 && filteredPosts.length === 0 && hashtags.length === 0 && urlQuery && (
+        {!loading && results.length === 0 && debouncedQuery && (
           <div className="glass rounded-3xl p-8 text-center animate-scale-in">
             <p className="text-muted-foreground">
               No results found for "{urlQuery}"
             </p>
           </div>
         )}
+
+        <div ref={sentinelRef} className="h-10 flex justify-center items-center">
+          {isLoadingMore && <LoadingSpinner />}
+        </div>
       </div>
 
       <Navigation />
@@ -9,9 +9,19 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/Avatar';
 import { ArrowLeft, Camera, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/providers/SupabaseAuthContext';
+import { usePresence } from '@/providers/PresenceContext';
+import { useNotificationContext } from '@/providers/NotificationContext';
 import { updateUserProfile } from '@/api/user';
+import { apiService } from '@/services/apiService';
 import { supabase } from '@/lib/supabase';
 import { Skeleton } from '@/components/ui/Skeleton';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  fetchNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/api/notifications';
+import { logger } from '@/lib/logger';
+import type { EmailDigestFrequency, NotificationPreferences, NotificationType } from '@/types';
 
 interface UserProfile {
   username: string;
@@ -20,8 +30,24 @@ interface UserProfile {
   verified: boolean;
   location: string;
   avatar_url?: string;
+  avatar_blurhash?: string | null;
 }
 
+const NOTIFICATION_TYPE_SETTINGS: { type: NotificationType; label: string; description: string }[] = [
+  { type: 'like', label: 'Likes', description: 'Someone likes your ping or comment' },
+  { type: 'repost', label: 'Reposts', description: 'Someone reposts your ping' },
+  { type: 'comment', label: 'Comments', description: 'Someone comments on your ping' },
+  { type: 'mention', label: 'Mentions', description: 'Someone mentions you in a ping or comment' },
+  { type: 'follow', label: 'New followers', description: 'Someone follows you' },
+  { type: 'chat', label: 'Messages', description: 'Push a notification when someone sends you a message' },
+];
+
+const EMAIL_DIGEST_OPTIONS: { value: EmailDigestFrequency; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
 const Settings = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
@@ -31,19 +57,34 @@ const Settings = () => {
   const [username, setUsername] = useState('');
   const [location, setLocation] = useState('');
   const [profileImage, setProfileImage] = useState<string>('');
+  const [profileImageBlurhash, setProfileImageBlurhash] = useState<string | null>(null);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [savingPresence, setSavingPresence] = useState(false);
+  const { showPresence, setShowPresence } = usePresence();
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [savingNotificationPreferences, setSavingNotificationPreferences] = useState(false);
+  const { pushSupported, pushEnabled, setPushEnabled } = useNotificationContext();
+  const [savingPush, setSavingPush] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchProfile();
   }, [user]);
 
+  useEffect(() => {
+    if (!user) return;
+    fetchNotificationPreferences()
+      .then(setNotificationPreferences)
+      .catch((error) => logger.error('Error fetching notification preferences', error, { userMessage: 'Could not load notification settings.' }));
+  }, [user]);
+
   const fetchProfile = async () => {
     if (!user) return;
     setLoading(true);
     const { data, error } = await supabase
       .from('profiles')
-      .select('username, display_name, bio, verified, location, avatar_url')
+      .select('username, display_name, bio, verified, location, avatar_url, avatar_blurhash')
       .eq('id', user.id)
       .single();
 
@@ -59,6 +100,7 @@ const Settings = () => {
       setUsername(data.username || '');
       setLocation(data.location || '');
       setProfileImage(data.avatar_url || '');
+      setProfileImageBlurhash(data.avatar_blurhash ?? null);
     } else {
       console.error('Error fetching profile for settings:', error);
       toast({ title: 'Error', description: 'Could not load profile data.', variant: 'destructive' });
@@ -66,22 +108,63 @@ const Settings = () => {
     setLoading(false);
   };
   
-  const handleProfileImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleProfileImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    // NOTE: Image upload logic is complex and is kept as a placeholder.
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setProfileImage(reader.result as string);
-        toast({
-          title: 'Profile picture updated (Placeholder)',
-          description: 'Image logic needs actual Supabase storage implementation.',
-        });
-      };
-      reader.readAsDataURL(file);
+    if (!file) return;
+
+    // uploadAvatar resizes the image and strips its EXIF data before uploading; it reports its own errors
+    setUploadingAvatar(true);
+    const updated = await apiService.uploadAvatar(file);
+    setUploadingAvatar(false);
+
+    if (updated?.avatar_url) {
+      setProfileImage(updated.avatar_url);
+      setProfileImageBlurhash(updated.avatar_blurhash ?? null);
+      toast({ title: 'Profile picture updated', variant: 'success' });
+    }
+  };
+
+  const handlePresenceChange = async (show: boolean) => {
+    setSavingPresence(true);
+    const updated = await setShowPresence(show);
+    setSavingPresence(false);
+    if (updated) {
+      toast({ title: show ? 'Your online status is visible' : 'Your online status is hidden', variant: 'success' });
+    }
+  };
+
+  const handlePushChange = async (enabled: boolean) => {
+    setSavingPush(true);
+    const updated = await setPushEnabled(enabled);
+    setSavingPush(false);
+    if (updated) {
+      toast({ title: enabled ? 'Push notifications are on for this device' : 'Push notifications are off for this device', variant: 'success' });
+    }
+  };
+
+  // Saved right away, like the presence toggle; the server applies them to every notification created afterwards
+  const handleNotificationPreferencesChange = async (preferences: NotificationPreferences) => {
+    const previous = notificationPreferences;
+    setNotificationPreferences(preferences);
+    setSavingNotificationPreferences(true);
+    try {
+      await updateNotificationPreferences(preferences);
+    } catch (error) {
+      setNotificationPreferences(previous);
+      logger.error('Error saving notification preferences', error, { userMessage: 'Failed to save notification settings.' });
+    } finally {
+      setSavingNotificationPreferences(false);
     }
   };
 
+  const handleNotificationTypeChange = (type: NotificationType, enabled: boolean) => {
+    const others = notificationPreferences.disabled_types.filter((disabled) => disabled !== type);
+    handleNotificationPreferencesChange({
+      ...notificationPreferences,
+      disabled_types: enabled ? others : [...others, type],
+    });
+  };
+
   const handleSave = async () => {
     if (!user || loading) {
         toast({ title: 'Error', description: 'User not authenticated or loading', variant: 'destructive' });
@@ -163,7 +246,7 @@ const Settings = () => {
                 <DialogTrigger asChild>
                   <div className="relative cursor-pointer group">
                     <Avatar className="w-24 h-24 ring-4 ring-primary/20 shadow-lg">
-                      <AvatarImage src={profileImage} />
+                      <AvatarImage src={profileImage} blurhash={profileImageBlurhash} />
                       <AvatarFallback className="bg-gradient-to-br from-primary via-primary/80 to-primary/50 text-white text-3xl font-bold">
                         {displayName?.toUpperCase() || 'U'}
                       </AvatarFallback>
@@ -182,8 +265,15 @@ const Settings = () => {
                       type="file"
                       accept="image/*"
                       onChange={handleProfileImageChange}
+                      disabled={uploadingAvatar}
                       className="file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90 file:cursor-pointer"
                     />
+                    {uploadingAvatar && (
+                      <p className="flex items-center text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Uploading...
+                      </p>
+                    )}
                   </div>
                 </DialogContent>
               </Dialog>
@@ -236,6 +326,104 @@ const Settings = () => {
             </Button>
           </div>
         </div>
+
+        <div className="glass-strong rounded-3xl p-8 mb-6 shadow-lg animate-scale-in">
+          <h2 className="text-lg font-semibold mb-4">Privacy</h2>
+          <label className="flex items-start justify-between gap-4 cursor-pointer">
+            <div>
+              <p className="text-sm font-medium">Show when I'm online</p>
+              <p className="text-sm text-muted-foreground">
+                Others can see when you're online and when you were last active. If you turn this off, you won't appear online and your last seen time is hidden.
+              </p>
+            </div>
+            <input
+              type="checkbox"
+              checked={showPresence}
+              disabled={savingPresence}
+              onChange={(e) => handlePresenceChange(e.target.checked)}
+              className="mt-1 h-5 w-5 shrink-0 accent-primary cursor-pointer"
+            />
+          </label>
+        </div>
+
+        <div className="glass-strong rounded-3xl p-8 mb-6 shadow-lg animate-scale-in">
+          <h2 className="text-lg font-semibold mb-4">Notifications</h2>
+          <div className="space-y-4">
+            {pushSupported && (
+              <label className="flex items-start justify-between gap-4 cursor-pointer pb-4 border-b border-border/30">
+                <div>
+                  <p className="text-sm font-medium">Push notifications on this device</p>
+                  <p className="text-sm text-muted-foreground">
+                    Get notified while iPing isn't open. Encrypted messages only show that a message arrived, never what it says.
+                  </p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={pushEnabled}
+                  disabled={savingPush}
+                  onChange={(e) => handlePushChange(e.target.checked)}
+                  className="mt-1 h-5 w-5 shrink-0 accent-primary cursor-pointer"
+                />
+              </label>
+            )}
+
+            {NOTIFICATION_TYPE_SETTINGS.map(({ type, label, description }) => (
+              <label key={type} className="flex items-start justify-between gap-4 cursor-pointer">
+                <div>
+                  <p className="text-sm font-medium">{label}</p>
+                  <p className="text-sm text-muted-foreground">{description}</p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={!notificationPreferences.disabled_types.includes(type)}
+                  disabled={savingNotificationPreferences}
+                  onChange={(e) => handleNotificationTypeChange(type, e.target.checked)}
+                  className="mt-1 h-5 w-5 shrink-0 accent-primary cursor-pointer"
+                />
+              </label>
+            ))}
+
+            <label className="flex items-start justify-between gap-4 cursor-pointer pt-4 border-t border-border/30">
+              <div>
+                <p className="text-sm font-medium">Only from people I follow</p>
+                <p className="text-sm text-muted-foreground">
+                  Ignore likes, comments, mentions and everything else from accounts you don't follow. To silence a single ping, mute its thread from your notifications.
+                </p>
+              </div>
+              <input
+                type="checkbox"
+                checked={notificationPreferences.only_following}
+                disabled={savingNotificationPreferences}
+                onChange={(e) => handleNotificationPreferencesChange({ ...notificationPreferences, only_following: e.target.checked })}
+                className="mt-1 h-5 w-5 shrink-0 accent-primary cursor-pointer"
+              />
+            </label>
+
+            <div className="flex items-start justify-between gap-4 pt-4 border-t border-border/30">
+              <div>
+                <p className="text-sm font-medium">Email digest</p>
+                <p className="text-sm text-muted-foreground">
+                  A summary of unread notifications and chats, sent to your account's email. It never includes what messages say.
+                </p>
+              </div>
+              <select
+                value={notificationPreferences.email_digest}
+                disabled={savingNotificationPreferences}
+                onChange={(e) =>
+                  handleNotificationPreferencesChange({ ...notificationPreferences, email_digest: e.target.value as EmailDigestFrequency })
+                }
+                aria-label="Email digest"
+                className="h-9 shrink-0 rounded-xl glass border-2 border-border/50 px-2 text-sm cursor-pointer"
+              >
+                {EMAIL_DIGEST_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
       </div>
 
       <Navigation />
@@ -0,0 +1,25 @@
+import { useEffect, useMemo, useState, type CSSProperties } from 'react';
+import { blurhashToDataUrl } from '@/lib/imageProcessing';
+
+/**
+ * Shows a decoded blurhash as the background of an <img> until the image itself has loaded.
+ * Spread `style` onto the img and call `onLoad` from its load handler.
+ * @param blurhash The placeholder stored with the image, if any.
+ * @param src The image URL; the placeholder comes back when it changes.
+ */
+export function useBlurhashPlaceholder(blurhash: string | null | undefined, src: string | undefined) {
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setLoaded(false);
+  }, [src]);
+
+  const placeholderUrl = useMemo(() => (blurhash ? blurhashToDataUrl(blurhash) : null), [blurhash]);
+
+  const style: CSSProperties | undefined =
+    placeholderUrl && !loaded
+      ? { backgroundImage: `url(${placeholderUrl})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+      : undefined;
+
+  return { style, onLoad: () => setLoaded(true) };
+}
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchChatMessage, fetchChatMessagesPage, type MessageCursor } from '@/api/chats';
+import { applyReactionChange, mergeMessages } from '@/lib/chats';
+import { useDecryptedMessages } from '@/hooks/use-decrypted-messages';
+import { logger } from '@/lib/logger';
+import { supabase } from '@/lib/supabase';
+import type { Message, MessageReaction } from '@/types';
+
+/**
+ * Paginated history of one chat, kept live with realtime changes.
+ * The latest page loads first and loadOlder() prepends the page before it. Realtime inserts, updates
+ * and deletes are applied to the loaded messages in place instead of refetching the history.
+ * Encrypted messages come back decrypted (see useDecryptedMessages).
+ * @param chatId The chat to load.
+ */
+export function useChatMessages(chatId: string | undefined) {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [olderCursor, setOlderCursor] = useState<MessageCursor | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // Responses for a chat the user has already left are dropped
+  const chatIdRef = useRef(chatId);
+  chatIdRef.current = chatId;
+
+  useEffect(() => {
+    setMessages([]);
+    setOlderCursor(null);
+    setLoading(true);
+    if (!chatId) return;
+
+    let cancelled = false;
+    const channel = supabase.channel(`chat_messages:${chatId}`);
+
+    channel
+      .on<Message>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `chat_id=eq.${chatId}` },
+        (payload) => {
+          const row = payload.new as Message;
+          // Realtime rows carry no sender or attachments; show the row right away and complete it once fetched
+          setMessages((prev) => mergeMessages(prev, [row]));
+          fetchChatMessage(row.id)
+            .then((message) => {
+              if (!cancelled && message) setMessages((prev) => mergeMessages(prev, [message]));
+            })
+            .catch((error) => logger.error('Error fetching new chat message', error, { showToast: false }));
+        }
+      )
+      .on<Message>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `chat_id=eq.${chatId}` },
+        (payload) => {
+          const row = payload.new as Message;
+          // Only update messages that are loaded; older ones pick up the change when their page loads.
+          // Quotes of the message in replies follow edits and deletes too.
+          setMessages((prev) => {
+            const withReplies = prev.map((message) =>
+              message.reply_to?.id === row.id
+                ? { ...message, reply_to: { ...message.reply_to, content: row.content, deleted_at: row.deleted_at, is_encrypted: row.is_encrypted } }
+                : message
+            );
+            return withReplies.some(({ id }) => id === row.id) ? mergeMessages(withReplies, [row]) : withReplies;
+          });
+        }
+      )
+      .on<Message>(
+        'postgres_changes',
+        // Delete events can't be filtered and only carry the primary key; unknown IDs are simply ignored
+        { event: 'DELETE', schema: 'public', table: 'messages' },
+        (payload) => {
+          const deletedId = payload.old.id;
+          setMessages((prev) => prev.filter(({ id }) => id !== deletedId));
+        }
+      )
+      .on<MessageReaction>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'message_reactions', filter: `chat_id=eq.${chatId}` },
+        (payload) => setMessages((prev) => applyReactionChange(prev, payload.new as MessageReaction, true))
+      )
+      .on<MessageReaction>(
+        'postgres_changes',
+        // Like message deletes: unfiltered, but the primary key identifies the reaction
+        { event: 'DELETE', schema: 'public', table: 'message_reactions' },
+        (payload) => setMessages((prev) => applyReactionChange(prev, payload.old as MessageReaction, false))
+      )
+      .subscribe();
+
+    fetchChatMessagesPage(chatId)
+      .then((page) => {
+        if (cancelled) return;
+        // Merge rather than replace: realtime inserts may have arrived while the page was loading
+        setMessages((prev) => mergeMessages(page.messages, prev));
+        setOlderCursor(page.olderCursor);
+      })
+      .catch((error) => logger.error('Error fetching chat messages', error, { userMessage: 'Failed to fetch chat messages.' }))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [chatId]);
+
+  const loadOlder = useCallback(async () => {
+    if (!chatId || !olderCursor || loadingOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await fetchChatMessagesPage(chatId, olderCursor);
+      if (chatIdRef.current !== chatId) return;
+      setMessages((prev) => mergeMessages(prev, page.messages));
+      setOlderCursor(page.olderCursor);
+    } catch (error) {
+      logger.error('Error fetching older chat messages', error, { userMessage: 'Failed to load older messages.' });
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [chatId, olderCursor, loadingOlder]);
+
+  // The current user's own changes, applied right away. Reactions are deduplicated against their realtime echo;
+  // messages deleted for the current user only have no echo at all.
+  const removeMessage = useCallback((messageId: string) => {
+    setMessages((prev) => prev.filter(({ id }) => id !== messageId));
+  }, []);
+
+  const changeReaction = useCallback((reaction: MessageReaction, added: boolean) => {
+    setMessages((prev) => applyReactionChange(prev, reaction, added));
+  }, []);
+
+  const decryptedMessages = useDecryptedMessages(messages);
+
+  return { messages: decryptedMessages, loading, hasOlder: olderCursor !== null, loadingOlder, loadOlder, removeMessage, changeReaction };
+}
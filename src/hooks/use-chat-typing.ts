@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/providers/SupabaseAuthContext';
+
+// Typing state is dropped this long after the last keystroke
+const TYPING_TIMEOUT_MS = 4000;
+
+interface TypingState {
+  display_name: string;
+}
+
+/**
+ * Typing indicator for one chat, shared over a private Realtime presence channel per chat.
+ * Realtime only lets the chat's members join it (see the private typing channels migration), so typing is shown
+ * even when the user hides their online status.
+ * @param chatId The chat being viewed.
+ * @param displayName The current user's display name, shown to the others while typing.
+ */
+export function useChatTyping(chatId: string | undefined, displayName: string | undefined) {
+  const { user } = useAuth();
+  const [typingNames, setTypingNames] = useState<string[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const isTypingRef = useRef(false);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    setTypingNames([]);
+    if (!chatId || !user) return;
+
+    const channel = supabase.channel(`typing:${chatId}`, { config: { private: true, presence: { key: user.id } } });
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<TypingState>();
+        setTypingNames(
+          Object.entries(state)
+            .filter(([userId]) => userId !== user.id)
+            .map(([, presences]) => presences[0]?.display_name)
+            .filter((name): name is string => !!name)
+        );
+      })
+      .subscribe((status) => {
+        channelRef.current = status === 'SUBSCRIBED' ? channel : null;
+      });
+
+    return () => {
+      clearTimeout(timeoutRef.current);
+      isTypingRef.current = false;
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [chatId, user]);
+
+  const stopTyping = useCallback(() => {
+    clearTimeout(timeoutRef.current);
+    if (!isTypingRef.current) return;
+    isTypingRef.current = false;
+    channelRef.current?.untrack();
+  }, []);
+
+  // Call on every keystroke; only the first one in a burst is sent over the channel
+  const notifyTyping = useCallback(() => {
+    const channel = channelRef.current;
+    if (!channel) return;
+
+    if (!isTypingRef.current) {
+      isTypingRef.current = true;
+      channel.track({ display_name: displayName ?? 'Someone' });
+    }
+    clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(stopTyping, TYPING_TIMEOUT_MS);
+  }, [displayName, stopTyping]);
+
+  return { typingNames, notifyTyping, stopTyping };
+}
@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useState } from 'react';
+import { logger } from '@/lib/logger';
+import { useEncryption } from '@/providers/EncryptionContext';
+import type { Message, MessageReplyPreview } from '@/types';
+
+type Decryptable = Pick<Message, 'content' | 'sender_id' | 'deleted_at' | 'is_encrypted'>;
+
+// Encrypted contents still to decrypt; deleted messages have no content left
+const needsDecrypting = (message: Decryptable | null | undefined): message is Decryptable =>
+  !!message?.is_encrypted && !message.deleted_at && !!message.content;
+
+// Plaintexts are cached per sender as well as envelope: decrypting checks the sender's device key, so the same
+// envelope sent by someone else must be decrypted (and rejected) on its own
+const cacheKey = ({ content, sender_id }: Pick<Decryptable, 'content' | 'sender_id'>) => JSON.stringify([sender_id, content]);
+
+/**
+ * Messages with the text of encrypted ones decrypted on this device, replies' quotes included.
+ * Until an envelope is decrypted its message has empty content and decryption 'pending'; envelopes this device
+ * can't open get decryption 'failed'. Everything else passes through unchanged.
+ * @param messages Messages as loaded from the database.
+ */
+export function useDecryptedMessages(messages: Message[]): Message[] {
+  const { deviceId, decryptContent } = useEncryption();
+  // cacheKey -> plaintext, or null when it couldn't be decrypted
+  const [plaintexts, setPlaintexts] = useState<Map<string, string | null>>(() => new Map());
+
+  // Results belong to one device key
+  useEffect(() => {
+    setPlaintexts(new Map());
+  }, [deviceId]);
+
+  const pending = messages
+    .flatMap((message) => [message, message.reply_to])
+    .filter(needsDecrypting)
+    .filter((message) => !plaintexts.has(cacheKey(message)))
+    .map(({ content, sender_id }) => [content, sender_id] as const);
+  // A string so the effect only runs when the set of envelopes to decrypt changes
+  const pendingKey = deviceId ? JSON.stringify(pending) : '[]';
+
+  useEffect(() => {
+    const entries = JSON.parse(pendingKey) as [string, string | null][];
+    if (entries.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      entries.map(async ([content, senderId]) => {
+        try {
+          return [cacheKey({ content, sender_id: senderId }), await decryptContent(content, senderId)] as const;
+        } catch (error) {
+          logger.warn('Could not decrypt a chat message', { error }, { showToast: false });
+          return [cacheKey({ content, sender_id: senderId }), null] as const;
+        }
+      })
+    ).then((results) => {
+      if (!cancelled) setPlaintexts((prev) => new Map([...prev, ...results]));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pendingKey, decryptContent]);
+
+  return useMemo(() => {
+    const decrypt = <T extends Decryptable>(message: T): T & Pick<Message, 'decryption'> => {
+      if (!needsDecrypting(message)) return message;
+      const plaintext = plaintexts.get(cacheKey(message));
+      if (plaintext === undefined) return { ...message, content: '', decryption: 'pending' };
+      if (plaintext === null) return { ...message, content: '', decryption: 'failed' };
+      return { ...message, content: plaintext };
+    };
+
+    return messages.map((message) => {
+      const decrypted = decrypt(message);
+      return message.reply_to ? { ...decrypted, reply_to: decrypt<MessageReplyPreview>(message.reply_to) } : decrypted;
+    });
+  }, [messages, plaintexts]);
+}
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getSafetyNumber } from '@/lib/e2ee';
+import { getVerifiedFingerprint, setVerifiedFingerprint } from '@/lib/deviceKeys';
+import { logger } from '@/lib/logger';
+import { useEncryption } from '@/providers/EncryptionContext';
+
+/**
+ * 'verified' while the other person's fingerprint matches the one the current user compared and confirmed;
+ * 'changed' once it no longer does (they added a device, or someone is impersonating them).
+ */
+export type VerificationStatus = 'unverified' | 'verified' | 'changed';
+
+/**
+ * Key verification for a direct chat: the chat's safety number and whether the current user has verified it.
+ * @param currentUserId The signed-in user's ID.
+ * @param otherUserId The other person in the chat.
+ * @param enabled False to skip loading, e.g. while the chat isn't encrypted.
+ */
+export function useKeyVerification(currentUserId: string | undefined, otherUserId: string | undefined, enabled: boolean) {
+  const { getFingerprint } = useEncryption();
+  const [fingerprints, setFingerprints] = useState<{ mine: string; theirs: string } | null>(null);
+  const [verifiedFingerprint, setVerifiedFingerprintState] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    setFingerprints(null);
+    setVerifiedFingerprintState(otherUserId ? getVerifiedFingerprint(otherUserId) : null);
+    if (!enabled || !currentUserId || !otherUserId) return;
+
+    let cancelled = false;
+    Promise.all([getFingerprint(currentUserId), getFingerprint(otherUserId)])
+      .then(([mine, theirs]) => {
+        if (!cancelled && mine && theirs) setFingerprints({ mine, theirs });
+      })
+      .catch((error) => logger.error('Error loading key fingerprints', error, { showToast: false }));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUserId, otherUserId, enabled, getFingerprint, reloadCount]);
+
+  // Fetch the keys again, e.g. when the verification screen opens, to notice devices added since
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  const setVerified = useCallback((verified: boolean) => {
+    if (!otherUserId || !fingerprints) return;
+    const fingerprint = verified ? fingerprints.theirs : null;
+    setVerifiedFingerprint(otherUserId, fingerprint);
+    setVerifiedFingerprintState(fingerprint);
+  }, [otherUserId, fingerprints]);
+
+  const status: VerificationStatus = !verifiedFingerprint || !fingerprints
+    ? 'unverified'
+    : verifiedFingerprint === fingerprints.theirs ? 'verified' : 'changed';
+
+  return {
+    // null while loading or when someone has no device key yet
+    safetyNumber: fingerprints && currentUserId && otherUserId
+      ? getSafetyNumber({ userId: currentUserId, fingerprint: fingerprints.mine }, { userId: otherUserId, fingerprint: fingerprints.theirs })
+      : null,
+    status,
+    setVerified,
+    reload,
+  };
+}
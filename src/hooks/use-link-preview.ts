@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { getLinkPreview } from '@/api/linkPreviews';
+import { hasPreviewContent } from '@/lib/links';
+import { logger } from '@/lib/logger';
+import type { LinkPreview } from '@/types';
+
+/**
+ * Loads the preview card data for a URL. Returns null while loading, for a null URL,
+ * and when the page had no title or image worth showing.
+ * @param url The link to preview, usually extractFirstUrl(text).
+ */
+export function useLinkPreview(url: string | null): LinkPreview | null {
+  const [preview, setPreview] = useState<LinkPreview | null>(null);
+
+  useEffect(() => {
+    setPreview(null);
+    if (!url) return;
+
+    let cancelled = false;
+    getLinkPreview(url)
+      .then((result) => {
+        if (!cancelled && result && hasPreviewContent(result)) setPreview(result);
+      })
+      .catch((error) => logger.error('Error loading link preview', error, { showToast: false }));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return preview;
+}
@@ -0,0 +1,53 @@
+import { useCallback, useRef } from 'react';
+
+// How long a touch has to be held, and how far it may drift, before it counts as a long press
+const LONG_PRESS_MS = 500;
+const MOVE_TOLERANCE_PX = 10;
+
+/**
+ * Long-press (touch and pen) and right-click handlers to spread onto an element.
+ * Some mobile browsers also fire contextmenu on a long press; the callback still runs only once per press.
+ * @param onLongPress Receives the element the press started on. Return false to let the browser show its own menu.
+ */
+export function useLongPress(onLongPress: (target: HTMLElement) => boolean | void) {
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const firedRef = useRef(false);
+
+  const cancel = useCallback(() => {
+    clearTimeout(timerRef.current);
+    startRef.current = null;
+  }, []);
+
+  const onPointerDown = useCallback((e: React.PointerEvent<HTMLElement>) => {
+    firedRef.current = false;
+    if (e.pointerType === 'mouse') return;
+
+    const target = e.target as HTMLElement;
+    startRef.current = { x: e.clientX, y: e.clientY };
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      if (firedRef.current) return;
+      firedRef.current = onLongPress(target) !== false;
+    }, LONG_PRESS_MS);
+  }, [onLongPress]);
+
+  const onPointerMove = useCallback((e: React.PointerEvent<HTMLElement>) => {
+    const start = startRef.current;
+    if (start && Math.hypot(e.clientX - start.x, e.clientY - start.y) > MOVE_TOLERANCE_PX) cancel();
+  }, [cancel]);
+
+  const onContextMenu = useCallback((e: React.MouseEvent<HTMLElement>) => {
+    cancel();
+    if (firedRef.current) {
+      e.preventDefault();
+      return;
+    }
+    if (onLongPress(e.target as HTMLElement) !== false) {
+      firedRef.current = true;
+      e.preventDefault();
+    }
+  }, [cancel, onLongPress]);
+
+  return { onPointerDown, onPointerMove, onPointerUp: cancel, onPointerCancel: cancel, onContextMenu };
+}
@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+/**
+ * Opens the route of a tapped push. The service worker (public/sw.js) focuses an open window and posts the route to
+ * it, so the app navigates in place instead of reloading.
+ */
+export function usePushNavigation() {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      const { type, url } = event.data ?? {};
+      // Only app routes; pushes never link elsewhere
+      if (type === 'push-navigate' && typeof url === 'string' && url.startsWith('/') && !url.startsWith('//')) {
+        navigate(url);
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [navigate]);
+}
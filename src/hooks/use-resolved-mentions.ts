@@ -0,0 +1,32 @@
+import { useEffect, useMemo, useState } from 'react';
+import { resolveUsernames } from '@/api/mentions';
+import { extractMentions } from '@/lib/mentions';
+import { logger } from '@/lib/logger';
+
+/**
+ * Returns which of the usernames mentioned in `text` belong to real profiles (lowercase, without '@').
+ * Starts empty and fills in once the lookup resolves; lookups are cached across components.
+ * @param text Ping, comment or message content.
+ */
+export function useResolvedMentions(text: string): Set<string> {
+  const mentions = useMemo(() => extractMentions(text), [text]);
+  const mentionsKey = mentions.join(',');
+  const [resolved, setResolved] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    if (!mentionsKey) return;
+
+    let cancelled = false;
+    resolveUsernames(mentionsKey.split(','))
+      .then((found) => {
+        if (!cancelled) setResolved(found);
+      })
+      .catch((error) => logger.error('Error resolving mentions', error, { showToast: false }));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mentionsKey]);
+
+  return resolved;
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MAX_VOICE_NOTE_SECONDS } from '@/lib/attachments';
+
+// Preferred recording formats, in order; Safari only supports mp4
+const VOICE_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+
+export interface VoiceNote {
+  file: File;
+  durationSeconds: number;
+}
+
+/**
+ * Records a voice note with the microphone. Recording stops by itself after MAX_VOICE_NOTE_SECONDS.
+ * @param onRecorded Receives the finished recording; not called for cancelled recordings.
+ */
+export function useVoiceRecorder(onRecorded: (note: VoiceNote) => void) {
+  const [recording, setRecording] = useState(false);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const cancelledRef = useRef(false);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const supported = typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  }, []);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    stop();
+  }, [stop]);
+
+  // Throws when microphone access is denied
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const mimeType = VOICE_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+
+    cancelledRef.current = false;
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      setRecording(false);
+      if (cancelledRef.current || chunks.length === 0) return;
+
+      const type = (recorder.mimeType || mimeType || 'audio/webm').split(';')[0];
+      const extension = type === 'audio/mp4' ? 'm4a' : type.split('/')[1];
+      const file = new File(chunks, `voice-note-${startedAt}.${extension}`, { type });
+      onRecordedRef.current({ file, durationSeconds: (Date.now() - startedAt) / 1000 });
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setElapsedSeconds(0);
+    setRecording(true);
+  }, []);
+
+  // Elapsed time for the UI, and the length limit
+  useEffect(() => {
+    if (!recording) return;
+
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const elapsed = (Date.now() - startedAt) / 1000;
+      setElapsedSeconds(elapsed);
+      if (elapsed >= MAX_VOICE_NOTE_SECONDS) stop();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [recording, stop]);
+
+  // Release the microphone when the component goes away mid-recording
+  useEffect(() => cancel, [cancel]);
+
+  return { supported, recording, elapsedSeconds, start, stop, cancel };
+}
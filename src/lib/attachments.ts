@@ -0,0 +1,66 @@
+import type { AttachmentType, MessageAttachment } from '@/types';
+
+// Limits for chat attachments; the bucket itself also rejects files over 25 MB
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+export const MAX_VOICE_NOTE_SECONDS = 5 * 60;
+
+/**
+ * How a picked file is sent: images are shown inline, everything else as a downloadable file.
+ * Voice notes are only created by the recorder, never from the file picker.
+ * @param file The selected file.
+ */
+export function getAttachmentType(file: Pick<File, 'type'>): AttachmentType {
+  return file.type.startsWith('image/') ? 'image' : 'file';
+}
+
+/**
+ * Checks a composer selection against the attachment limits.
+ * @param files The files selected so far (existing selection plus newly picked files).
+ * @returns A user-facing error message, or null when the selection is valid.
+ */
+export function validateAttachmentSelection(files: Pick<File, 'size'>[]): string | null {
+  if (files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files to a message.`;
+  }
+  if (files.some((file) => file.size > MAX_ATTACHMENT_BYTES)) {
+    return `Files must be smaller than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`;
+  }
+  return null;
+}
+
+/**
+ * "512 B", "14 KB", "3.2 MB".
+ * @param bytes The file size.
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * "0:07", "2:35" for voice note lengths.
+ * @param seconds The duration, possibly fractional.
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Short description of a message's attachments for the chat list, e.g. "Photo", "3 photos", "Voice message" or a file name.
+ * @param attachments The message's attachments; realtime rows have none loaded, which gives "Attachment".
+ */
+export function describeAttachments(attachments: Pick<MessageAttachment, 'attachment_type' | 'file_name'>[] | undefined): string {
+  if (!attachments || attachments.length === 0) return 'Attachment';
+
+  const [first] = attachments;
+  if (attachments.every(({ attachment_type }) => attachment_type === 'image')) {
+    return attachments.length === 1 ? 'Photo' : `${attachments.length} photos`;
+  }
+  if (attachments.length === 1) {
+    return first.attachment_type === 'voice' ? 'Voice message' : first.file_name;
+  }
+  return `${attachments.length} attachments`;
+}
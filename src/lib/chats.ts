@@ -0,0 +1,157 @@
+import type { Chat, ChatParticipant, ChatRole, Message, MessageReaction, MessageReplyPreview } from '@/types';
+import { describeAttachments } from '@/lib/attachments';
+
+const ROLE_ORDER: Record<ChatRole, number> = { owner: 0, admin: 1, member: 2 };
+
+// Senders can edit a message this long after sending it; edit_chat_message enforces the same window
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+// Reactions offered in the message actions menu
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+/**
+ * A reaction emoji with how many people used it and whether the current user is one of them.
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reacted: boolean;
+}
+
+/**
+ * The current user's participant row in a chat, if they are still a member.
+ */
+export function findMyParticipant(participants: ChatParticipant[], userId: string | undefined): ChatParticipant | undefined {
+  return participants.find((participant) => participant.user_id === userId);
+}
+
+/**
+ * Whether a participant may perform admin actions (rename, add and remove members).
+ */
+export function canManageChat(participant: Pick<ChatParticipant, 'role'> | undefined): boolean {
+  return participant?.role === 'owner' || participant?.role === 'admin';
+}
+
+/**
+ * Orders members for display: owner, then admins, then members, each alphabetically.
+ */
+export function sortParticipants(participants: ChatParticipant[]): ChatParticipant[] {
+  return [...participants].sort(
+    (a, b) =>
+      ROLE_ORDER[a.role ?? 'member'] - ROLE_ORDER[b.role ?? 'member'] ||
+      (a.profiles?.display_name ?? '').localeCompare(b.profiles?.display_name ?? '')
+  );
+}
+
+/**
+ * The name shown for a chat: the group name, or the other person's name in a direct chat.
+ * @param participants The chat's participants.
+ * @param userId The current user's ID.
+ */
+export function getChatTitle(chat: Pick<Chat, 'chat_name' | 'is_group_chat'>, participants: ChatParticipant[], userId: string | undefined): string {
+  const others = participants.filter((participant) => participant.user_id !== userId);
+  if (chat.is_group_chat) {
+    return chat.chat_name || others.map((participant) => participant.profiles?.display_name).filter(Boolean).join(', ') || 'Group chat';
+  }
+  return others[0]?.profiles?.display_name ?? 'Chat';
+}
+
+/**
+ * Chronological order for messages: created_at, then id for messages sent in the same instant.
+ */
+export function compareMessages(a: Pick<Message, 'created_at' | 'id'>, b: Pick<Message, 'created_at' | 'id'>): number {
+  const byTime = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  if (byTime !== 0) return byTime;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Merges loaded pages and realtime rows into one chronological list without duplicates.
+ * When a message appears in both lists, the incoming copy wins but keeps the sender and attachments
+ * of the existing one if it has none loaded (realtime rows carry neither).
+ * @param existing The messages already shown.
+ * @param incoming Newly loaded or received messages.
+ */
+export function mergeMessages(existing: Message[], incoming: Message[]): Message[] {
+  const byId = new Map(existing.map((message) => [message.id, message]));
+  incoming.forEach((message) => {
+    const current = byId.get(message.id);
+    byId.set(message.id, {
+      ...current,
+      ...message,
+      sender: message.sender ?? current?.sender,
+      attachments: message.attachments ?? current?.attachments,
+    });
+  });
+  return [...byId.values()].sort(compareMessages);
+}
+
+/**
+ * Whether the current user can still edit a message: their own, not deleted, readable on this device, encrypted
+ * exactly when the chat is now and inside the edit window.
+ * @param message The message.
+ * @param userId The current user's ID.
+ * @param chatIsEncrypted Whether the chat is end-to-end encrypted now.
+ * @param now The current time, for testing the window.
+ */
+export function canEditMessage(
+  message: Pick<Message, 'sender_id' | 'message_type' | 'deleted_at' | 'created_at' | 'decryption' | 'is_encrypted'>,
+  userId: string | undefined,
+  chatIsEncrypted: boolean = false,
+  now: Date = new Date()
+): boolean {
+  return (
+    !!userId &&
+    message.sender_id === userId &&
+    message.message_type !== 'system' &&
+    !message.deleted_at &&
+    !message.decryption &&
+    !!message.is_encrypted === chatIsEncrypted &&
+    now.getTime() - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000
+  );
+}
+
+/**
+ * Groups a message's reactions by emoji, in the order each emoji was first used.
+ * @param reactions The message's reactions.
+ * @param userId The current user's ID.
+ */
+export function summarizeReactions(reactions: MessageReaction[] = [], userId: string | undefined): ReactionSummary[] {
+  const summaries = new Map<string, ReactionSummary>();
+  [...reactions]
+    .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''))
+    .forEach(({ emoji, user_id }) => {
+      const summary = summaries.get(emoji) ?? { emoji, count: 0, reacted: false };
+      summary.count += 1;
+      summary.reacted ||= user_id === userId;
+      summaries.set(emoji, summary);
+    });
+  return [...summaries.values()];
+}
+
+/**
+ * One-line text for a message in previews (chat list, reply quotes): its text, or what it contains.
+ * @param message The message or reply preview.
+ */
+export function describeMessage(message: Pick<MessageReplyPreview, 'content' | 'deleted_at' | 'attachments' | 'decryption'>): string {
+  if (message.deleted_at) return 'Message deleted';
+  if (message.decryption) return 'Encrypted message';
+  return message.content || describeAttachments(message.attachments);
+}
+
+/**
+ * Adds or removes one reaction on the loaded messages; repeated changes (local and realtime) are no-ops.
+ * @param messages The loaded messages.
+ * @param reaction The reaction that was added or removed.
+ * @param added True for an added reaction, false for a removed one.
+ */
+export function applyReactionChange(messages: Message[], reaction: MessageReaction, added: boolean): Message[] {
+  const isSame = (other: MessageReaction) => other.user_id === reaction.user_id && other.emoji === reaction.emoji;
+
+  return messages.map((message) => {
+    if (message.id !== reaction.message_id) return message;
+    const reactions = message.reactions ?? [];
+    if (added === reactions.some(isSame)) return message;
+    return { ...message, reactions: added ? [...reactions, reaction] : reactions.filter((other) => !isSame(other)) };
+  });
+}
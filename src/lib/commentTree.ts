@@ -0,0 +1,50 @@
+/**
+ * A comment together with its direct replies, recursively.
+ */
+export type CommentNode<T> = T & { replies: CommentNode<T>[] };
+
+/**
+ * Builds reply trees from a flat list of comments.
+ * Replies keep the order of the input list (chronological when fetched by created_at); a reply whose
+ * parent is not in the list is treated as a root so it is never silently dropped.
+ * @param comments Flat list of comments, each optionally pointing at its parent.
+ */
+export function buildCommentTree<T extends { id: string; parent_comment_id?: string | null }>(comments: T[]): CommentNode<T>[] {
+  const nodes = new Map<string, CommentNode<T>>();
+  comments.forEach((comment) => nodes.set(comment.id, { ...comment, replies: [] }));
+
+  const roots: CommentNode<T>[] = [];
+  comments.forEach((comment) => {
+    const node = nodes.get(comment.id)!;
+    const parent = comment.parent_comment_id ? nodes.get(comment.parent_comment_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * Finds a comment anywhere in a tree built by buildCommentTree.
+ * @param nodes The roots to search.
+ * @param commentId The ID of the comment to find.
+ */
+export function findCommentNode<T extends { id: string }>(nodes: CommentNode<T>[], commentId: string): CommentNode<T> | null {
+  for (const node of nodes) {
+    if (node.id === commentId) return node;
+    const found = findCommentNode(node.replies, commentId);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Counts a comment's replies at every depth.
+ * @param node The comment whose descendants to count.
+ */
+export function countReplies<T>(node: CommentNode<T>): number {
+  return node.replies.reduce((total, reply) => total + 1 + countReplies(reply), 0);
+}
@@ -0,0 +1,86 @@
+import type { DevicePrivateKey } from '@/lib/e2ee';
+
+// IndexedDB keeps CryptoKey objects as they are, so the non-extractable private key never exists as bytes
+const DB_NAME = 'iping-e2ee';
+const STORE_NAME = 'device_keys';
+
+/**
+ * This device's key for one account, with the public key it published.
+ */
+export interface StoredDeviceKey extends DevicePrivateKey {
+  userId: string;
+  publicKey: JsonWebKey;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'userId' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Loads this device's key for an account, if it has one.
+ * @param userId The signed-in user's ID.
+ */
+export async function loadDeviceKey(userId: string): Promise<StoredDeviceKey | null> {
+  const stored = await runRequest('readonly', (store) => store.get(userId) as IDBRequest<StoredDeviceKey | undefined>);
+  return stored ?? null;
+}
+
+/**
+ * Saves this device's key for an account, replacing any previous one.
+ * @param key The key, keyed by its userId.
+ */
+export async function saveDeviceKey(key: StoredDeviceKey): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(key));
+}
+
+const VERIFIED_STORAGE_KEY = 'iping:verified-fingerprints';
+
+const readVerified = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(VERIFIED_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * The fingerprint the current user verified for someone, if any. A verification only holds while the fingerprint
+ * is unchanged; a new device gives a new fingerprint and needs verifying again.
+ * @param userId The other person's ID.
+ */
+export function getVerifiedFingerprint(userId: string): string | null {
+  return readVerified()[userId] ?? null;
+}
+
+/**
+ * Records or clears the verified fingerprint for someone on this device.
+ * @param userId The other person's ID.
+ * @param fingerprint The fingerprint that was compared, or null to remove the verification.
+ */
+export function setVerifiedFingerprint(userId: string, fingerprint: string | null): void {
+  const verified = readVerified();
+  if (fingerprint) {
+    verified[userId] = fingerprint;
+  } else {
+    delete verified[userId];
+  }
+  localStorage.setItem(VERIFIED_STORAGE_KEY, JSON.stringify(verified));
+}
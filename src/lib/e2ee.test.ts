@@ -0,0 +1,108 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  decryptMessage,
+  encryptMessage,
+  exportPublicKey,
+  fingerprintPublicKeys,
+  generateDeviceKeyPair,
+  parseEnvelope,
+  type DevicePrivateKey,
+  type DevicePublicKey,
+  type EncryptedEnvelope,
+} from './e2ee';
+
+interface TestDevice {
+  private: DevicePrivateKey;
+  public: DevicePublicKey;
+}
+
+async function createDevice(id: string): Promise<TestDevice> {
+  const keyPair = await generateDeviceKeyPair();
+  return { private: { id, privateKey: keyPair.privateKey }, public: { id, public_key: await exportPublicKey(keyPair.publicKey) } };
+}
+
+// Flips one bit of a base64 field
+const tamper = (value: string) => {
+  const bytes = Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+  bytes[0] ^= 1;
+  return btoa(String.fromCharCode(...bytes));
+};
+
+let sender: TestDevice;
+let recipient: TestDevice;
+let stranger: TestDevice;
+let envelope: EncryptedEnvelope;
+
+beforeAll(async () => {
+  [sender, recipient, stranger] = await Promise.all([createDevice('sender'), createDevice('recipient'), createDevice('stranger')]);
+  envelope = parseEnvelope(await encryptMessage('Meet at 8 🌙', sender.private, [sender.public, recipient.public]));
+});
+
+describe('encryptMessage / decryptMessage', () => {
+  it('encrypts once for every recipient device, including the sender', async () => {
+    expect(envelope.device).toBe('sender');
+    expect(Object.keys(envelope.keys).sort()).toEqual(['recipient', 'sender']);
+    expect(envelope.ciphertext).not.toContain('Meet');
+
+    await expect(decryptMessage(envelope, recipient.private, sender.public.public_key)).resolves.toBe('Meet at 8 🌙');
+    await expect(decryptMessage(envelope, sender.private, sender.public.public_key)).resolves.toBe('Meet at 8 🌙');
+  });
+
+  it('refuses devices the message was not encrypted for', async () => {
+    await expect(decryptMessage(envelope, stranger.private, sender.public.public_key)).rejects.toThrow(/not encrypted for this device/);
+  });
+
+  it('fails with the wrong sender key', async () => {
+    await expect(decryptMessage(envelope, recipient.private, stranger.public.public_key)).rejects.toThrow();
+  });
+
+  it('fails when the ciphertext or an IV was tampered with', async () => {
+    const wrapped = envelope.keys.recipient;
+    const tampered: EncryptedEnvelope[] = [
+      { ...envelope, ciphertext: tamper(envelope.ciphertext) },
+      { ...envelope, iv: tamper(envelope.iv) },
+      { ...envelope, keys: { ...envelope.keys, recipient: { ...wrapped, key: tamper(wrapped.key) } } },
+      { ...envelope, keys: { ...envelope.keys, recipient: { ...wrapped, iv: tamper(wrapped.iv) } } },
+    ];
+
+    for (const candidate of tampered) {
+      await expect(decryptMessage(candidate, recipient.private, sender.public.public_key)).rejects.toThrow();
+    }
+  });
+
+  it('needs at least one recipient', async () => {
+    await expect(encryptMessage('hi', sender.private, [])).rejects.toThrow(/no devices/);
+  });
+});
+
+describe('parseEnvelope', () => {
+  it.each([
+    ['not json'],
+    ['null'],
+    ['42'],
+    ['"text"'],
+    ['{}'],
+    ['{"v":2,"device":"a","iv":"","ciphertext":"","keys":{}}'],
+    ['{"v":1,"device":"a","iv":"","ciphertext":""}'],
+    ['{"v":1,"device":"a","iv":"","ciphertext":"","keys":null}'],
+  ])('rejects %s', (content) => {
+    expect(() => parseEnvelope(content)).toThrow('Unsupported encrypted message format.');
+  });
+});
+
+describe('fingerprintPublicKeys', () => {
+  it('does not depend on the order of the keys', async () => {
+    const forward = await fingerprintPublicKeys([sender.public.public_key, recipient.public.public_key]);
+    const backward = await fingerprintPublicKeys([recipient.public.public_key, sender.public.public_key]);
+
+    expect(forward).toBe(backward);
+    expect(forward).toMatch(/^\d{5}( \d{5}){5}$/);
+  });
+
+  it('changes when a device is added', async () => {
+    const one = await fingerprintPublicKeys([sender.public.public_key]);
+    const two = await fingerprintPublicKeys([sender.public.public_key, recipient.public.public_key]);
+
+    expect(one).not.toBe(two);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * End-to-end encryption for direct messages, built on WebCrypto only (no DOM or storage access), so it runs
+ * unchanged in the browser and in Node's globalThis.crypto.
+ *
+ * Each device has an ECDH P-256 key pair. A message is encrypted once with a fresh AES-GCM content key, and that key
+ * is wrapped for every recipient device with a key derived (ECDH + HKDF) from the sender device's private key and the
+ * recipient device's public key. The sender's own devices are recipients too, so they can read their history.
+ */
+
+const CURVE = { name: 'ECDH', namedCurve: 'P-256' } as const;
+const HKDF_INFO = new TextEncoder().encode('iping-e2ee-v1');
+const IV_BYTES = 12;
+
+/**
+ * A message envelope as stored in messages.content. Binary fields are base64.
+ */
+export interface EncryptedEnvelope {
+  v: 1;
+  device: string; // The sender's device key ID
+  iv: string;
+  ciphertext: string;
+  keys: Record<string, { iv: string; key: string }>; // Wrapped content key per recipient device key ID
+}
+
+/**
+ * A device's private key, as held by that device only.
+ */
+export interface DevicePrivateKey {
+  id: string;
+  privateKey: CryptoKey;
+}
+
+/**
+ * A device's published public key.
+ */
+export interface DevicePublicKey {
+  id: string;
+  public_key: JsonWebKey;
+}
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const randomIv = () => crypto.getRandomValues(new Uint8Array(IV_BYTES));
+
+const importPublicKey = (jwk: JsonWebKey) => crypto.subtle.importKey('jwk', jwk, CURVE, true, []);
+
+// The key that wraps content keys between two devices; both sides derive the same one
+async function deriveWrappingKey(privateKey: CryptoKey, publicKey: JsonWebKey): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: await importPublicKey(publicKey) }, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: HKDF_INFO },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Generates a key pair for this device. The private key is not extractable; the public key can always be exported.
+ */
+export async function generateDeviceKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(CURVE, false, ['deriveBits']);
+}
+
+/**
+ * Exports a public key as a JWK for publishing.
+ */
+export async function exportPublicKey(publicKey: CryptoKey): Promise<JsonWebKey> {
+  return crypto.subtle.exportKey('jwk', publicKey);
+}
+
+/**
+ * Encrypts a message for a set of devices.
+ * @param plaintext The message text.
+ * @param sender The sending device.
+ * @param recipients Every device that may read the message, including the sender's own.
+ * @returns The serialized envelope to store as the message content.
+ */
+export async function encryptMessage(plaintext: string, sender: DevicePrivateKey, recipients: DevicePublicKey[]): Promise<string> {
+  if (recipients.length === 0) {
+    throw new Error('There are no devices to encrypt this message for.');
+  }
+
+  const contentKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const rawContentKey = await crypto.subtle.exportKey('raw', contentKey);
+  const iv = randomIv();
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, contentKey, new TextEncoder().encode(plaintext));
+
+  const keys: EncryptedEnvelope['keys'] = {};
+  for (const recipient of recipients) {
+    const wrappingKey = await deriveWrappingKey(sender.privateKey, recipient.public_key);
+    const wrapIv = randomIv();
+    const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: wrapIv }, wrappingKey, rawContentKey);
+    keys[recipient.id] = { iv: toBase64(wrapIv), key: toBase64(wrapped) };
+  }
+
+  const envelope: EncryptedEnvelope = { v: 1, device: sender.id, iv: toBase64(iv), ciphertext: toBase64(ciphertext), keys };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Reads a stored envelope.
+ * @param content The message content of an encrypted message.
+ * @throws When the content isn't an envelope this version understands.
+ */
+export function parseEnvelope(content: string): EncryptedEnvelope {
+  let envelope: Partial<EncryptedEnvelope> | null;
+  try {
+    envelope = JSON.parse(content);
+  } catch {
+    throw new Error('Unsupported encrypted message format.');
+  }
+  if (envelope?.v !== 1 || typeof envelope.device !== 'string' || typeof envelope.iv !== 'string'
+    || typeof envelope.ciphertext !== 'string' || typeof envelope.keys !== 'object' || envelope.keys === null) {
+    throw new Error('Unsupported encrypted message format.');
+  }
+  return envelope as EncryptedEnvelope;
+}
+
+/**
+ * Decrypts an envelope on one of its recipient devices.
+ * @param envelope The parsed envelope.
+ * @param device This device.
+ * @param senderPublicKey The public key of the sending device (envelope.device); decryption fails with any other key.
+ * @throws When the message wasn't encrypted for this device or has been tampered with.
+ */
+export async function decryptMessage(envelope: EncryptedEnvelope, device: DevicePrivateKey, senderPublicKey: JsonWebKey): Promise<string> {
+  const wrapped = envelope.keys[device.id];
+  if (!wrapped) {
+    throw new Error('This message was not encrypted for this device.');
+  }
+
+  const wrappingKey = await deriveWrappingKey(device.privateKey, senderPublicKey);
+  const rawContentKey = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(wrapped.iv) }, wrappingKey, fromBase64(wrapped.key));
+  const contentKey = await crypto.subtle.importKey('raw', rawContentKey, 'AES-GCM', false, ['decrypt']);
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, contentKey, fromBase64(envelope.ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * A user's key fingerprint: 30 digits in groups of five, derived from all of their device public keys.
+ * It changes whenever they add a device, which is what verification needs to notice.
+ * @param publicKeys The user's device public keys, in any order.
+ */
+export async function fingerprintPublicKeys(publicKeys: JsonWebKey[]): Promise<string> {
+  const rawKeys = await Promise.all(
+    publicKeys.map(async (jwk) => toBase64(await crypto.subtle.exportKey('raw', await importPublicKey(jwk))))
+  );
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode([...rawKeys].sort().join('.'))));
+
+  const groups: string[] = [];
+  for (let offset = 0; offset < 30; offset += 5) {
+    const chunk = digest.slice(offset, offset + 5).reduce((value, byte) => value * 256 + byte, 0);
+    groups.push(String(chunk % 100000).padStart(5, '0'));
+  }
+  return groups.join(' ');
+}
+
+/**
+ * The safety number of a direct chat: both people's fingerprints in a fixed order, so both sides see the same
+ * number and can compare it in person or over another channel.
+ */
+export function getSafetyNumber(a: { userId: string; fingerprint: string }, b: { userId: string; fingerprint: string }): string {
+  return [a, b]
+    .sort((x, y) => x.userId.localeCompare(y.userId))
+    .map(({ fingerprint }) => fingerprint)
+    .join(' ');
+}
@@ -0,0 +1,136 @@
+import { decode, encode } from 'blurhash';
+
+/**
+ * Target size and encoder quality for one kind of upload.
+ */
+export interface ImagePreset {
+  maxWidth: number;
+  maxHeight: number;
+  quality: number;
+}
+
+export const IMAGE_PRESETS = {
+  ping: { maxWidth: 2048, maxHeight: 2048, quality: 0.82 },
+  avatar: { maxWidth: 512, maxHeight: 512, quality: 0.85 },
+} satisfies Record<string, ImagePreset>;
+
+/**
+ * An image ready for upload: resized, re-encoded without its EXIF metadata, plus its placeholder.
+ */
+export interface ProcessedImage {
+  file: File;
+  width: number;
+  height: number;
+  blurhash: string;
+}
+
+// Blurhash only needs a thumbnail; 4x3 components is the size the library recommends for photos
+const BLURHASH_SAMPLE_SIZE = 32;
+const BLURHASH_COMPONENTS_X = 4;
+const BLURHASH_COMPONENTS_Y = 3;
+
+// Formats that canvas re-encoding would break (animation, vector)
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+/**
+ * Scales width/height down to fit inside maxWidth x maxHeight, keeping the aspect ratio. Never upscales.
+ */
+export function fitWithin(width: number, height: number, maxWidth: number, maxHeight: number) {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Image processing is not supported in this browser.');
+  }
+  return { canvas, context };
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+function encodeBlurhash(bitmap: ImageBitmap): string {
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE);
+  const { context } = createCanvas(width, height);
+  context.drawImage(bitmap, 0, 0, width, height);
+  const pixels = context.getImageData(0, 0, width, height).data;
+  return encode(pixels, width, height, BLURHASH_COMPONENTS_X, BLURHASH_COMPONENTS_Y);
+}
+
+/**
+ * Resizes an image to the preset's bounds and re-encodes it as WebP (JPEG where the browser
+ * can't encode WebP). Drawing through a canvas drops EXIF data such as GPS coordinates;
+ * the orientation tag is applied first so photos keep their rotation.
+ * GIFs and SVGs are uploaded as-is, but still get a placeholder when the browser can decode them.
+ * @param file The image picked by the user.
+ * @param preset Target size and quality, usually one of IMAGE_PRESETS.
+ */
+export async function processImage(file: File, preset: ImagePreset): Promise<ProcessedImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' }).catch(() => {
+    throw new Error(`Could not read ${file.name}.`);
+  });
+
+  try {
+    const blurhash = encodeBlurhash(bitmap);
+
+    if (PASSTHROUGH_TYPES.includes(file.type)) {
+      return { file, width: bitmap.width, height: bitmap.height, blurhash };
+    }
+
+    const { width, height } = fitWithin(bitmap.width, bitmap.height, preset.maxWidth, preset.maxHeight);
+    const { canvas, context } = createCanvas(width, height);
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    // Browsers without a WebP encoder silently return PNG, so check the type we got back
+    let blob = await canvasToBlob(canvas, 'image/webp', preset.quality);
+    if (!blob || blob.type !== 'image/webp') {
+      // JPEG has no alpha channel; flatten transparent areas onto white instead of black
+      context.globalCompositeOperation = 'destination-over';
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+      blob = await canvasToBlob(canvas, 'image/jpeg', preset.quality);
+    }
+    if (!blob) {
+      throw new Error(`Could not process ${file.name}.`);
+    }
+
+    const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+    const name = `${file.name.replace(/\.[^.]+$/, '')}.${extension}`;
+    return { file: new File([blob], name, { type: blob.type }), width, height, blurhash };
+  } finally {
+    bitmap.close();
+  }
+}
+
+const placeholderCache = new Map<string, string>();
+
+/**
+ * Decodes a blurhash into a small data URL that can be stretched behind a loading image.
+ * Results are cached, since the same placeholders render many times in the feed.
+ * @param blurhash The hash stored with the image.
+ */
+export function blurhashToDataUrl(blurhash: string): string | null {
+  const cached = placeholderCache.get(blurhash);
+  if (cached) return cached;
+
+  try {
+    const { canvas, context } = createCanvas(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE);
+    const pixels = decode(blurhash, BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE);
+    const imageData = context.createImageData(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE);
+    imageData.data.set(pixels);
+    context.putImageData(imageData, 0, 0);
+
+    const dataUrl = canvas.toDataURL();
+    placeholderCache.set(blurhash, dataUrl);
+    return dataUrl;
+  } catch {
+    // Malformed hash: render without a placeholder
+    return null;
+  }
+}
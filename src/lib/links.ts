@@ -0,0 +1,29 @@
+// Same pattern as ParsedText
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+
+// Punctuation that usually ends the sentence rather than the URL, e.g. "see https://example.com."
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+/**
+ * Returns the URLs in a text, in order, without trailing sentence punctuation.
+ * @param text Ping, comment or message content.
+ */
+export function extractUrls(text: string): string[] {
+  return Array.from(text.matchAll(URL_PATTERN), ([url]) => url.replace(TRAILING_PUNCTUATION, ''))
+    .filter((url) => /^https?:\/\/[^/?#]+\.[^/?#]+/.test(url));
+}
+
+/**
+ * The URL a link preview is shown for: the first one in the text.
+ * @param text Ping, comment or message content.
+ */
+export function extractFirstUrl(text: string): string | null {
+  return extractUrls(text)[0] ?? null;
+}
+
+/**
+ * Whether a preview has anything worth rendering.
+ */
+export function hasPreviewContent(preview: { title: string | null; image_url: string | null }): boolean {
+  return !!(preview.title || preview.image_url);
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown } from './markdown';
+
+const text = (value: string) => ({ type: 'text', text: value });
+
+describe('parseInline', () => {
+  it('keeps plain text as a single text token', () => {
+    expect(parseInline('just some words')).toEqual([text('just some words')]);
+  });
+
+  it('never treats markup as HTML', () => {
+    expect(parseInline('<script>alert("hi")</script>')).toEqual([text('<script>alert("hi")</script>')]);
+  });
+
+  it('nests italic inside bold', () => {
+    expect(parseInline('a **b _c_ d** e')).toEqual([
+      text('a '),
+      { type: 'bold', children: [text('b '), { type: 'italic', children: [text('c')] }, text(' d')] },
+      text(' e'),
+    ]);
+  });
+
+  it('nests bold inside italic', () => {
+    expect(parseInline('*a **b** c*')).toEqual([
+      { type: 'italic', children: [text('a '), { type: 'bold', children: [text('b')] }, text(' c')] },
+    ]);
+  });
+
+  it('reads three stars as bold and italic', () => {
+    expect(parseInline('***x***')).toEqual([{ type: 'bold', children: [{ type: 'italic', children: [text('x')] }] }]);
+  });
+
+  it('parses spoilers and inline code', () => {
+    expect(parseInline('||hidden|| and `**not bold**`')).toEqual([
+      { type: 'spoiler', children: [text('hidden')] },
+      text(' and '),
+      { type: 'code', text: '**not bold**' },
+    ]);
+  });
+
+  it('does not italicize inside words or around spaced stars', () => {
+    expect(parseInline('snake_case_name')).toEqual([text('snake_case_name')]);
+    expect(parseInline('2 * 3 * 4')).toEqual([text('2 * 3 * 4')]);
+    expect(parseInline('_ not italic _')).toEqual([text('_ not italic _')]);
+  });
+
+  it('keeps escaped markers as text', () => {
+    expect(parseInline('\\*not italic\\* and \\#tag and \\\\')).toEqual([text('*not italic* and #tag and \\')]);
+    expect(parseInline('**bold \\** still bold**')).toEqual([{ type: 'bold', children: [text('bold ** still bold')] }]);
+  });
+
+  it('leaves unclosed markers as text', () => {
+    expect(parseInline('**bold')).toEqual([text('**bold')]);
+    expect(parseInline('_italic')).toEqual([text('_italic')]);
+    expect(parseInline('||spoiler')).toEqual([text('||spoiler')]);
+    expect(parseInline('`code')).toEqual([text('`code')]);
+  });
+
+  it('does not carry emphasis across a blank line', () => {
+    expect(parseInline('*a\n\nb*')).toEqual([text('*a\n\nb*')]);
+    expect(parseInline('*a\nb*')).toEqual([{ type: 'italic', children: [text('a\nb')] }]);
+  });
+
+  it('finds links, hashtags and mentions', () => {
+    expect(parseInline('see https://ex.com/a?b=1, #News by @ana_b')).toEqual([
+      text('see '),
+      { type: 'link', url: 'https://ex.com/a?b=1' },
+      text(', '),
+      { type: 'hashtag', tag: 'News' },
+      text(' by '),
+      { type: 'mention', username: 'ana_b' },
+    ]);
+  });
+
+  it('reads hashtags and mentions as ASCII only, like the database', () => {
+    expect(parseInline('#café @anaé')).toEqual([
+      { type: 'hashtag', tag: 'caf' },
+      text('é '),
+      { type: 'mention', username: 'ana' },
+      text('é'),
+    ]);
+  });
+
+  it('keeps underscores at the end of a URL and drops sentence punctuation', () => {
+    expect(parseInline('https://ex.com/a_b_.')).toEqual([{ type: 'link', url: 'https://ex.com/a_b_' }, text('.')]);
+    expect(parseInline('(https://ex.com/page)!')).toEqual([text('('), { type: 'link', url: 'https://ex.com/page' }, text(')!')]);
+  });
+
+  it('ends a wrapped URL where the emphasis closes', () => {
+    expect(parseInline('**https://ex.com**')).toEqual([{ type: 'bold', children: [{ type: 'link', url: 'https://ex.com' }] }]);
+    expect(parseInline('_https://ex.com/a_b_')).toEqual([{ type: 'italic', children: [{ type: 'link', url: 'https://ex.com/a_b' }] }]);
+  });
+
+  it('stays fast on input full of markers that never close', () => {
+    const input = '**a ||b `c' + ' _d *e'.repeat(5000);
+    const started = performance.now();
+    const tokens = parseInline(input);
+    expect(performance.now() - started).toBeLessThan(500);
+    expect(tokens.map((token) => (token.type === 'text' ? token.text : '')).join('')).toBe(input);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('splits fenced code blocks from paragraphs', () => {
+    expect(parseMarkdown('Look:\n```TS\nconst a = 1;\n\nconst b = 2;\n```\nnice')).toEqual([
+      { type: 'paragraph', children: [text('Look:')] },
+      { type: 'code_block', language: 'ts', code: 'const a = 1;\n\nconst b = 2;' },
+      { type: 'paragraph', children: [text('nice')] },
+    ]);
+  });
+
+  it('keeps unclosed fences as text', () => {
+    expect(parseMarkdown('```js\nconst a = 1;')).toEqual([{ type: 'paragraph', children: [text('```js\nconst a = 1;')] }]);
+  });
+
+  it('parses blockquotes, including nested ones', () => {
+    expect(parseMarkdown('> quoted **bold**\n> > deeper\nafter')).toEqual([
+      {
+        type: 'blockquote',
+        children: [
+          { type: 'paragraph', children: [text('quoted '), { type: 'bold', children: [text('bold')] }] },
+          { type: 'blockquote', children: [{ type: 'paragraph', children: [text('deeper')] }] },
+        ],
+      },
+      { type: 'paragraph', children: [text('after')] },
+    ]);
+  });
+
+  it('does not format text past the length cap', () => {
+    const long = `**${'a'.repeat(25_000)}**`;
+    expect(parseMarkdown(long)).toEqual([{ type: 'paragraph', children: [text(long)] }]);
+  });
+});
@@ -0,0 +1,271 @@
+// Markdown-lite tokenizer for pings, comments and messages.
+// Pure: turns text into a token tree that ParsedText renders with React elements, so user text is never
+// interpreted as HTML. Supported syntax:
+//   **bold**, _italic_ or *italic*, `inline code`, ||spoiler||, "> " blockquotes,
+//   ```lang fenced code blocks```, links, #hashtags and @mentions. A backslash escapes the next marker.
+
+export type InlineToken =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: InlineToken[] }
+  | { type: 'italic'; children: InlineToken[] }
+  | { type: 'spoiler'; children: InlineToken[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string }
+  | { type: 'hashtag'; tag: string } // Without the '#', as typed
+  | { type: 'mention'; username: string }; // Without the '@', as typed
+
+export type BlockToken =
+  | { type: 'paragraph'; children: InlineToken[] }
+  | { type: 'code_block'; language: string | null; code: string }
+  | { type: 'blockquote'; children: BlockToken[] };
+
+// Longer text is shown without formatting. Parsing is linear, but nothing anyone posts gets near this
+const MAX_MARKDOWN_LENGTH = 20_000;
+// Emphasis and blockquotes nested deeper than this are kept as text
+const MAX_NESTING_DEPTH = 8;
+
+// ASCII only, the same patterns as public.extract_hashtags / extract_mentions, so a link always names the stored tag
+const HASHTAG_PATTERN = /#[A-Za-z0-9_]+/y;
+const MENTION_PATTERN = /@[A-Za-z0-9_]+/y;
+// Punctuation that usually ends the sentence rather than the URL. Emphasis markers stay in the URL: a link
+// wrapped in **, _ or || ends where the wrapping run does.
+const URL_TRAILING_PUNCTUATION = '.,;:!?\'")]';
+// Characters that can't start a token
+const PLAIN_RUN = /[^\\`h*_|#@]+/y;
+
+const FENCE_PATTERN = /^\s*```\s*([\w+#.-]*)\s*$/;
+const CLOSING_FENCE_PATTERN = /^\s*```\s*$/;
+const QUOTE_PATTERN = /^\s*> ?/;
+const ESCAPABLE = '\\*_`|>#@';
+
+type EmphasisMarker = '**' | '||' | '*' | '_';
+
+const isWordChar = (char: string | undefined) => !!char && /\w/.test(char);
+const isSpace = (char: string | undefined) => !char || /\s/.test(char);
+
+/**
+ * Splits text into blocks: fenced code, blockquotes and the paragraphs between them.
+ * Paragraph text keeps its newlines. Unclosed fences are treated as plain text.
+ * @param text Ping, comment or message content.
+ */
+export function parseMarkdown(text: string): BlockToken[] {
+  if (text.length > MAX_MARKDOWN_LENGTH) {
+    return text.trim() ? [{ type: 'paragraph', children: [{ type: 'text', text }] }] : [];
+  }
+  return parseBlocks(text.split('\n'), 0);
+}
+
+function parseBlocks(lines: string[], depth: number): BlockToken[] {
+  const blocks: BlockToken[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      const content = paragraph.join('\n');
+      if (content.trim()) blocks.push({ type: 'paragraph', children: parseInline(content) });
+      paragraph = [];
+    }
+  };
+
+  // The first closing fence at or after each line, so an opening fence finds its end without searching
+  const closingFence = new Array<number>(lines.length + 1).fill(-1);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    closingFence[i] = CLOSING_FENCE_PATTERN.test(lines[i]) ? i : closingFence[i + 1];
+  }
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const closing = closingFence[index + 1];
+      if (closing !== -1) {
+        flushParagraph();
+        blocks.push({ type: 'code_block', language: fence[1] ? fence[1].toLowerCase() : null, code: lines.slice(index + 1, closing).join('\n') });
+        index = closing + 1;
+        continue;
+      }
+    }
+
+    if (depth < MAX_NESTING_DEPTH && QUOTE_PATTERN.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE_PATTERN.test(lines[index])) {
+        quoted.push(lines[index].replace(QUOTE_PATTERN, ''));
+        index++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    paragraph.push(line);
+    index++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Where emphasis runs can close, in order, with everything that doesn't depend on the opener already checked.
+ * Single-character markers (_ and *) must hug their content and not sit inside a word, so snake_case and
+ * "2 * 3 * 4" stay plain text. A run of three stars closes both an italic and a bold run ("***x***").
+ */
+function findClosers(text: string, escaped: Uint8Array): Record<EmphasisMarker, number[]> {
+  const closers: Record<EmphasisMarker, number[]> = { '**': [], '||': [], '*': [], _: [] };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (escaped[index]) continue;
+
+    if (char === '*' && text[index - 1] !== '*') {
+      let runEnd = index;
+      while (text[runEnd] === '*') runEnd++;
+      const length = runEnd - index;
+      if (length % 2 === 1 && !isSpace(text[index - 1]) && !isWordChar(text[runEnd])) closers['*'].push(index);
+      if (length >= 2) closers['**'].push(runEnd - 2);
+    } else if (char === '|' && text[index + 1] === '|') {
+      closers['||'].push(index);
+    } else if (char === '_' && !isSpace(text[index - 1]) && !isWordChar(text[index + 1])) {
+      closers._.push(index);
+    }
+  }
+
+  return closers;
+}
+
+/**
+ * Tokenizes inline formatting. Code spans are literal; bold, italic and spoiler content is parsed recursively.
+ * Runs in one pass over the text: every position is read once, and the possible closers of each marker are
+ * found up front, so a marker that never closes costs nothing more than the character it is.
+ * @param text A paragraph of text.
+ */
+export function parseInline(text: string): InlineToken[] {
+  // Characters escaped with a backslash
+  const escaped = new Uint8Array(text.length + 1);
+  // The first blank line ('\n\n') at or after each position; emphasis doesn't span paragraphs
+  const nextBlankLine = new Array<number>(text.length + 1).fill(text.length);
+  // The first whitespace at or after each position, where a URL ends
+  const nextSpace = new Array<number>(text.length + 1).fill(text.length);
+
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\\' && ESCAPABLE.includes(text[index + 1] ?? '')) escaped[++index] = 1;
+  }
+  for (let index = text.length - 1; index >= 0; index--) {
+    nextBlankLine[index] = text[index] === '\n' && text[index + 1] === '\n' ? index : nextBlankLine[index + 1];
+    nextSpace[index] = /\s/.test(text[index]) ? index : nextSpace[index + 1];
+  }
+
+  const closers = findClosers(text, escaped);
+  // Openers are reached left to right, so the closers before an opener never matter again
+  const nextCloser: Record<EmphasisMarker, number> = { '**': 0, '||': 0, '*': 0, _: 0 };
+
+  const findClosing = (marker: EmphasisMarker, from: number, end: number): number => {
+    const candidates = closers[marker];
+    let next = nextCloser[marker];
+    while (next < candidates.length && candidates[next] <= from) next++;
+    nextCloser[marker] = next;
+
+    const closing = next < candidates.length ? candidates[next] : -1;
+    if (closing === -1 || closing + marker.length > end || nextBlankLine[from] < closing - 1) return -1;
+    return closing;
+  };
+
+  const parseRange = (start: number, end: number, depth: number): InlineToken[] => {
+    const tokens: InlineToken[] = [];
+    let buffer = '';
+
+    const push = (token: InlineToken) => {
+      if (buffer) tokens.push({ type: 'text', text: buffer });
+      buffer = '';
+      tokens.push(token);
+    };
+
+    let index = start;
+    while (index < end) {
+      const char = text[index];
+
+      if (char === '\\' && index + 1 < end && escaped[index + 1]) {
+        buffer += text[index + 1];
+        index += 2;
+        continue;
+      }
+
+      if (char === '`') {
+        const closing = text.indexOf('`', index + 1);
+        if (closing > index + 1 && closing < end) {
+          push({ type: 'code', text: text.slice(index + 1, closing) });
+          index = closing + 1;
+          continue;
+        }
+      }
+
+      if (char === 'h' && (text.startsWith('https://', index) || text.startsWith('http://', index))) {
+        let urlEnd = Math.min(nextSpace[index], end);
+        while (urlEnd > index && URL_TRAILING_PUNCTUATION.includes(text[urlEnd - 1])) urlEnd--;
+        if (urlEnd - index > 'https://'.length) {
+          push({ type: 'link', url: text.slice(index, urlEnd) });
+          index = urlEnd;
+          continue;
+        }
+      }
+
+      if (depth < MAX_NESTING_DEPTH) {
+        const pair = text.startsWith('**', index) ? '**' : text.startsWith('||', index) ? '||' : null;
+        if (pair) {
+          const closing = findClosing(pair, index + 2, end);
+          if (closing !== -1) {
+            const children = parseRange(index + 2, closing, depth + 1);
+            push(pair === '**' ? { type: 'bold', children } : { type: 'spoiler', children });
+            index = closing + 2;
+            continue;
+          }
+        }
+
+        if ((char === '_' || char === '*') && !isWordChar(index > start ? text[index - 1] : undefined) && !isSpace(text[index + 1])) {
+          const closing = findClosing(char, index + 1, end);
+          if (closing !== -1) {
+            push({ type: 'italic', children: parseRange(index + 1, closing, depth + 1) });
+            index = closing + 1;
+            continue;
+          }
+        }
+      }
+
+      const hashtag = char === '#' ? matchAt(HASHTAG_PATTERN, text, index, end) : null;
+      if (hashtag && hashtag.length > 1) {
+        push({ type: 'hashtag', tag: hashtag.slice(1) });
+        index += hashtag.length;
+        continue;
+      }
+
+      const mention = char === '@' ? matchAt(MENTION_PATTERN, text, index, end) : null;
+      if (mention && mention.length > 1) {
+        push({ type: 'mention', username: mention.slice(1) });
+        index += mention.length;
+        continue;
+      }
+
+      // Copy a run of characters that can't start a token in one go
+      const plain = matchAt(PLAIN_RUN, text, index, end);
+      buffer += plain ?? char;
+      index += plain ? plain.length : 1;
+    }
+
+    if (buffer) tokens.push({ type: 'text', text: buffer });
+    return tokens;
+  };
+
+  return parseRange(0, text.length, 0);
+}
+
+/**
+ * Matches a sticky pattern at `index`, cut off at `end`.
+ * @returns The matched text, or null when the pattern doesn't match there.
+ */
+function matchAt(pattern: RegExp, text: string, index: number, end: number): string | null {
+  pattern.lastIndex = index;
+  const match = pattern.exec(text);
+  return match ? match[0].slice(0, end - index) : null;
+}
@@ -0,0 +1,101 @@
+// Limits for ping attachments: up to 4 images, or a single short video
+export const MAX_IMAGES_PER_PING = 4;
+export const MAX_VIDEO_DURATION_SECONDS = 60;
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+export const MAX_ALT_TEXT_LENGTH = 1000;
+
+export type MediaKind = 'image' | 'video';
+
+/**
+ * Dimensions and type information read from a file before upload.
+ */
+export interface MediaMetadata {
+  media_type: MediaKind;
+  mime_type: string;
+  width: number | null;
+  height: number | null;
+  duration_seconds: number | null;
+}
+
+/**
+ * Returns whether a file is an image or a video, or null for anything else.
+ * @param file The selected file.
+ */
+export function getMediaKind(file: Pick<File, 'type'>): MediaKind | null {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  return null;
+}
+
+/**
+ * Checks a composer selection against the attachment rules.
+ * @param files The files selected so far (existing selection plus newly picked files).
+ * @returns A user-facing error message, or null when the selection is valid.
+ */
+export function validateMediaSelection(files: Pick<File, 'type' | 'size'>[]): string | null {
+  const kinds = files.map(getMediaKind);
+
+  if (kinds.some((kind) => kind === null)) {
+    return 'Only images and videos can be attached.';
+  }
+
+  const videoCount = kinds.filter((kind) => kind === 'video').length;
+  if (videoCount > 0 && files.length > 1) {
+    return 'A video must be the only attachment on a ping.';
+  }
+  if (files.length > MAX_IMAGES_PER_PING) {
+    return `You can attach up to ${MAX_IMAGES_PER_PING} images.`;
+  }
+
+  const tooLarge = files.find((file, index) =>
+    file.size > (kinds[index] === 'video' ? MAX_VIDEO_BYTES : MAX_IMAGE_BYTES)
+  );
+  if (tooLarge) {
+    return videoCount > 0
+      ? `Videos must be smaller than ${MAX_VIDEO_BYTES / 1024 / 1024} MB.`
+      : `Images must be smaller than ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`;
+  }
+
+  return null;
+}
+
+/**
+ * Reads width/height (and duration for videos) from a local file using the browser's decoders.
+ * @param file The image or video file.
+ */
+export function readMediaMetadata(file: File): Promise<MediaMetadata> {
+  const mediaType = getMediaKind(file);
+  const objectUrl = URL.createObjectURL(file);
+
+  return new Promise<MediaMetadata>((resolve, reject) => {
+    const done = (metadata: Omit<MediaMetadata, 'mime_type'>) => {
+      URL.revokeObjectURL(objectUrl);
+      resolve({ ...metadata, mime_type: file.type });
+    };
+    const fail = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error(`Could not read ${file.name}.`));
+    };
+
+    if (mediaType === 'image') {
+      const image = new Image();
+      image.onload = () => done({ media_type: 'image', width: image.naturalWidth, height: image.naturalHeight, duration_seconds: null });
+      image.onerror = fail;
+      image.src = objectUrl;
+    } else if (mediaType === 'video') {
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+      video.onloadedmetadata = () => done({
+        media_type: 'video',
+        width: video.videoWidth,
+        height: video.videoHeight,
+        duration_seconds: video.duration,
+      });
+      video.onerror = fail;
+      video.src = objectUrl;
+    } else {
+      fail();
+    }
+  });
+}
@@ -0,0 +1,42 @@
+// Same ASCII-only pattern as the markdown parser and public.extract_mentions
+const MENTION_PATTERN = /@([A-Za-z0-9_]+)/g;
+
+/**
+ * Returns the distinct usernames (lowercase, without '@') mentioned in a text.
+ * @param text Ping, comment or message content.
+ */
+export function extractMentions(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(MENTION_PATTERN), (match) => match[1].toLowerCase()))];
+}
+
+/**
+ * The '@partial' being typed right before the caret, if any.
+ */
+export interface MentionQuery {
+  query: string; // Without the '@'; may be empty right after typing '@'
+  start: number; // Index of the '@'
+}
+
+/**
+ * Finds the mention being typed at the caret, e.g. "hi @jo|" -> { query: 'jo', start: 3 }.
+ * The '@' must start the text or follow whitespace, so email addresses don't trigger it.
+ * @param text The composer's current value.
+ * @param caret The caret position (selectionStart).
+ */
+export function getMentionQuery(text: string, caret: number): MentionQuery | null {
+  const match = /(^|\s)@(\w*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
+
+/**
+ * Replaces the mention being typed with the chosen username, followed by a space.
+ * @returns The new text and where the caret should go.
+ */
+export function insertMention(text: string, mention: MentionQuery, caret: number, username: string) {
+  const inserted = `@${username} `;
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(caret),
+    caret: mention.start + inserted.length,
+  };
+}
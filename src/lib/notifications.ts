@@ -0,0 +1,118 @@
+import type { Notification, NotificationActor, NotificationType } from '@/types';
+
+/**
+ * Notifications about the same thing, shown as one row ("Alice and 4 others liked your ping").
+ * Unread and read notifications are grouped separately, so new activity isn't hidden inside an old row.
+ */
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  notifications: Notification[]; // Newest first
+  latest: Notification;
+  actors: NotificationActor[]; // Distinct, most recent first
+  isRead: boolean;
+}
+
+// What makes notifications similar. Comments and mentions each carry their own text, so they stay on their own.
+const getGroupKey = (notification: Notification): string => {
+  switch (notification.type) {
+    case 'like':
+      return `like:${notification.ping_id}:${notification.comment_id ?? ''}`;
+    case 'repost':
+      return `repost:${notification.ping_id}`;
+    case 'follow':
+      return 'follow';
+    case 'chat':
+      return `chat:${notification.chat_id}`;
+    default:
+      return notification.id;
+  }
+};
+
+/**
+ * Groups similar notifications, keeping the newest-first order of each group's latest notification.
+ * @param notifications The notifications, newest first.
+ */
+export function groupNotifications(notifications: Notification[]): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+
+  notifications.forEach((notification) => {
+    const key = `${getGroupKey(notification)}:${notification.is_read ? 'read' : 'unread'}`;
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, {
+        key,
+        type: notification.type,
+        notifications: [notification],
+        latest: notification,
+        actors: notification.actor ? [notification.actor] : [],
+        isRead: notification.is_read,
+      });
+      return;
+    }
+    group.notifications.push(notification);
+    if (notification.actor && !group.actors.some(({ id }) => id === notification.actor?.id)) {
+      group.actors.push(notification.actor);
+    }
+  });
+
+  return [...groups.values()];
+}
+
+/**
+ * "Alice", "Alice and Bob", "Alice and 4 others".
+ * @param actors Distinct actors, most recent first.
+ */
+export function formatActorNames(actors: NotificationActor[]): string {
+  const [first, second] = actors.map(({ display_name, username }) => display_name || username);
+  if (!first) return 'Someone';
+  if (actors.length === 1) return first;
+  if (actors.length === 2) return `${first} and ${second}`;
+  return `${first} and ${actors.length - 1} others`;
+}
+
+/**
+ * The text of a notification row, without the excerpt of the ping or comment.
+ * @param group The grouped notifications.
+ */
+export function describeNotificationGroup(group: NotificationGroup): string {
+  const names = formatActorNames(group.actors);
+  const { latest } = group;
+
+  switch (latest.type) {
+    case 'like':
+      return `${names} liked your ${latest.comment_id ? 'comment' : 'ping'}`;
+    case 'repost':
+      return `${names} reposted your ping`;
+    case 'comment':
+      return `${names} commented on your ping`;
+    case 'mention':
+      return `${names} mentioned you in a ${latest.comment_id ? 'comment' : 'ping'}`;
+    case 'follow':
+      return `${names} followed you`;
+    case 'chat':
+      return group.notifications.length === 1 ? `${names} sent you a message` : `${names} sent you ${group.notifications.length} messages`;
+  }
+}
+
+/**
+ * The text quoted under a notification: the comment it is about, or else the ping. Chats are never quoted.
+ */
+export function getNotificationExcerpt(notification: Notification): string | null {
+  if (notification.type === 'chat' || notification.type === 'follow') return null;
+  return notification.comment?.content ?? notification.ping?.content ?? null;
+}
+
+/**
+ * Where tapping a notification goes: the ping, the chat or the new follower's profile.
+ */
+export function getNotificationLink(notification: Notification): string | null {
+  switch (notification.type) {
+    case 'follow':
+      return notification.actor ? `/${notification.actor.username}` : null;
+    case 'chat':
+      return `/chats/${notification.chat_id}`;
+    default:
+      return `/post/${notification.ping_id}`;
+  }
+}
@@ -0,0 +1,24 @@
+import { formatDistanceToNow } from 'date-fns';
+
+/**
+ * Status line for a user: "Online" while they are in the presence channel, otherwise "Last seen … ago".
+ * Returns null when there is nothing to show, e.g. the user hides their presence (last_seen_at is then null).
+ * @param lastSeenAt The user's profiles.last_seen_at.
+ * @param online Whether the user is currently in the presence channel.
+ */
+export function formatLastSeen(lastSeenAt: string | null | undefined, online: boolean): string | null {
+  if (online) return 'Online';
+  if (!lastSeenAt) return null;
+  return `Last seen ${formatDistanceToNow(new Date(lastSeenAt), { addSuffix: true })}`;
+}
+
+/**
+ * "Ana is typing…", "Ana and Ben are typing…" or "3 people are typing…".
+ * @param names Display names of everyone currently typing, excluding the current user.
+ */
+export function formatTyping(names: string[]): string | null {
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names.length} people are typing…`;
+}
@@ -0,0 +1,49 @@
+// Browser side of Web Push: the service worker in public/sw.js and this device's push subscription.
+// Subscriptions are stored per device through api/push; the 'send-push' edge function delivers to them.
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+const SERVICE_WORKER_URL = '/sw.js';
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Whether this browser can receive pushes and the app is configured with a VAPID public key.
+ */
+export function isPushSupported(): boolean {
+  return !!VAPID_PUBLIC_KEY && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+/**
+ * Registers the service worker that shows pushes. Safe to call on every page load.
+ */
+export async function registerServiceWorker(): Promise<void> {
+  if (!isPushSupported()) return;
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+/**
+ * This device's current push subscription, if it has one.
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Asks for permission if needed and subscribes this device to pushes.
+ * @returns The subscription, or null when the user doesn't allow notifications.
+ */
+export async function subscribeToPush(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  if ((await Notification.requestPermission()) !== 'granted') return null;
+
+  await registerServiceWorker();
+  const registration = await navigator.serviceWorker.ready;
+  return (
+    (await registration.pushManager.getSubscription()) ??
+    registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: fromBase64Url(VAPID_PUBLIC_KEY!) })
+  );
+}
@@ -0,0 +1,53 @@
+import type { ChatParticipant, Message } from '@/types';
+
+/**
+ * Delivery state of a message the current user sent:
+ * 'sent' once stored, 'delivered' once every recipient's device has it, 'read' once every recipient has seen it.
+ */
+export type DeliveryState = 'sent' | 'delivered' | 'read';
+
+export interface MessageReceipt {
+  state: DeliveryState;
+  // Recipients whose last_read_at has reached the message, for "Seen by" in group chats
+  seenBy: ChatParticipant[];
+}
+
+const reached = (position: string | null | undefined, message: Pick<Message, 'created_at'>) =>
+  !!position && new Date(position).getTime() >= new Date(message.created_at).getTime();
+
+/**
+ * Derives the receipt for a message from the other participants' read and delivery positions.
+ * Reading implies delivery, so a participant who has read the message also counts as delivered.
+ * @param message A message sent by the current user.
+ * @param participants All participants of the chat.
+ */
+export function getMessageReceipt(message: Pick<Message, 'created_at' | 'sender_id'>, participants: ChatParticipant[]): MessageReceipt {
+  const recipients = participants.filter((participant) => participant.user_id !== message.sender_id);
+  const seenBy = recipients.filter((participant) => reached(participant.last_read_at, message));
+
+  if (recipients.length > 0 && seenBy.length === recipients.length) {
+    return { state: 'read', seenBy };
+  }
+
+  const delivered = recipients.length > 0 && recipients.every(
+    (participant) => reached(participant.last_read_at, message) || reached(participant.last_delivered_at, message)
+  );
+  return { state: delivered ? 'delivered' : 'sent', seenBy };
+}
+
+/**
+ * "Seen by Alice, Bob and 3 others" / "Seen by everyone" for a group message's receipt.
+ * @param receipt The receipt from getMessageReceipt.
+ * @param maxNames How many names to list before summarizing the rest.
+ */
+export function formatSeenBy(receipt: MessageReceipt, maxNames: number = 2): string | null {
+  if (receipt.seenBy.length === 0) return null;
+  if (receipt.state === 'read' && receipt.seenBy.length > maxNames) return 'Seen by everyone';
+
+  const names = receipt.seenBy.map((participant) => participant.profiles?.display_name ?? 'Someone');
+  if (names.length <= maxNames) {
+    return `Seen by ${names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`}`;
+  }
+  const others = names.length - maxNames;
+  return `Seen by ${names.slice(0, maxNames).join(', ')} and ${others} ${others === 1 ? 'other' : 'others'}`;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { highlightCode } from './syntaxHighlight';
+
+describe('highlightCode', () => {
+  it('returns unknown languages as one plain token', () => {
+    expect(highlightCode('const a = 1;', null)).toEqual([{ type: 'plain', text: 'const a = 1;' }]);
+    expect(highlightCode('const a = 1;', 'brainfuck')).toEqual([{ type: 'plain', text: 'const a = 1;' }]);
+  });
+
+  it('marks keywords, strings, numbers and comments', () => {
+    expect(highlightCode('const a = "hi"; // done\nreturn 0x1F + 2.5e3;', 'ts')).toEqual([
+      { type: 'keyword', text: 'const' },
+      { type: 'plain', text: ' a = ' },
+      { type: 'string', text: '"hi"' },
+      { type: 'plain', text: '; ' },
+      { type: 'comment', text: '// done' },
+      { type: 'plain', text: '\n' },
+      { type: 'keyword', text: 'return' },
+      { type: 'plain', text: ' ' },
+      { type: 'number', text: '0x1F' },
+      { type: 'plain', text: ' + ' },
+      { type: 'number', text: '2.5e3' },
+      { type: 'plain', text: ';' },
+    ]);
+  });
+
+  it('resolves aliases and case-insensitive keywords', () => {
+    expect(highlightCode('SELECT id FROM pings', 'postgres')).toEqual([
+      { type: 'keyword', text: 'SELECT' },
+      { type: 'plain', text: ' id ' },
+      { type: 'keyword', text: 'FROM' },
+      { type: 'plain', text: ' pings' },
+    ]);
+  });
+
+  it('keeps escaped quotes inside strings and block comments whole', () => {
+    expect(highlightCode("'it\\'s' /* a\nb */ x", 'js')).toEqual([
+      { type: 'string', text: "'it\\'s'" },
+      { type: 'plain', text: ' ' },
+      { type: 'comment', text: '/* a\nb */' },
+      { type: 'plain', text: ' x' },
+    ]);
+  });
+
+  it('stops unterminated strings and comments at the end of the line or code', () => {
+    expect(highlightCode('"open\nnext', 'python')).toEqual([
+      { type: 'string', text: '"open' },
+      { type: 'plain', text: '\nnext' },
+    ]);
+    expect(highlightCode('/* never closed', 'css')).toEqual([{ type: 'comment', text: '/* never closed' }]);
+  });
+
+  it('does not read digits inside names as numbers', () => {
+    expect(highlightCode('x1 = 2', 'python')).toEqual([
+      { type: 'plain', text: 'x1 = ' },
+      { type: 'number', text: '2' },
+    ]);
+  });
+
+  it('keeps markup as plain text', () => {
+    expect(highlightCode('<script>alert(1)</script>', 'html')).toEqual([{ type: 'plain', text: '<script>alert(1)</script>' }]);
+  });
+});
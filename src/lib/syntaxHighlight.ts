@@ -0,0 +1,160 @@
+// Small, dependency-free syntax highlighter for fenced code blocks.
+// Produces typed tokens (never HTML), which ParsedText renders as styled spans.
+
+export type CodeTokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+interface LanguageDefinition {
+  keywords: Set<string>;
+  lineComment: string | null;
+  blockComment: [string, string] | null;
+  stringDelimiters: string[];
+  caseInsensitive?: boolean;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const NUMBER_PATTERN = /0[xX][\da-fA-F]+|\d[\d_]*(\.\d+)?([eE][+-]?\d+)?/y;
+const WORD_PATTERN = /[A-Za-z_$][\w$]*/y;
+
+// Matches a sticky pattern at `index` without copying the rest of the code
+const matchAt = (pattern: RegExp, code: string, index: number) => {
+  pattern.lastIndex = index;
+  return pattern.exec(code)?.[0] ?? null;
+};
+
+const JS_KEYWORDS = words(
+  'async await break case catch class const continue default delete do else export extends false finally for from function if import in instanceof let new null return static super switch this throw true try typeof undefined var void while yield'
+);
+const TS_KEYWORDS = new Set([...JS_KEYWORDS, ...words('as declare enum implements interface keyof namespace private protected public readonly satisfies type')]);
+
+const C_LIKE = { lineComment: '//', blockComment: ['/*', '*/'] as [string, string], stringDelimiters: ['"', "'", '`'] };
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: { ...C_LIKE, keywords: JS_KEYWORDS },
+  typescript: { ...C_LIKE, keywords: TS_KEYWORDS },
+  python: {
+    keywords: words('and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return True try while with yield'),
+    lineComment: '#',
+    blockComment: null,
+    stringDelimiters: ['"""', "'''", '"', "'"],
+  },
+  sql: {
+    keywords: words('select from where and or not insert into values update set delete create table alter drop index join left right inner outer on group by order having limit offset as distinct null is in exists case when then else end returns function begin declare language primary key references default'),
+    lineComment: '--',
+    blockComment: ['/*', '*/'],
+    stringDelimiters: ["'"],
+    caseInsensitive: true,
+  },
+  bash: {
+    keywords: words('if then else elif fi for while do done case esac function in return export local echo exit'),
+    lineComment: '#',
+    blockComment: null,
+    stringDelimiters: ['"', "'"],
+  },
+  json: { keywords: words('true false null'), lineComment: null, blockComment: null, stringDelimiters: ['"'] },
+  css: { keywords: words('important media import from to'), lineComment: null, blockComment: ['/*', '*/'], stringDelimiters: ['"', "'"] },
+  go: {
+    ...C_LIKE,
+    keywords: words('break case chan const continue default defer else fallthrough for func go goto if import interface map nil package range return select struct switch type var true false'),
+  },
+  rust: {
+    ...C_LIKE,
+    stringDelimiters: ['"'],
+    keywords: words('as async await break const continue crate else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while'),
+  },
+  java: {
+    ...C_LIKE,
+    keywords: words('abstract boolean break case catch char class const continue default do double else enum extends final finally float for if implements import instanceof int interface long new null package private protected public return short static super switch this throw throws true false try void while'),
+  },
+  c: {
+    ...C_LIKE,
+    stringDelimiters: ['"', "'"],
+    keywords: words('auto break case char const continue default do double else enum extern float for goto if include define int long return short signed sizeof static struct switch typedef union unsigned void volatile while class namespace public private template typename using new delete nullptr true false'),
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python',
+  sh: 'bash', shell: 'bash', zsh: 'bash',
+  postgres: 'sql', postgresql: 'sql', plpgsql: 'sql',
+  golang: 'go', rs: 'rust', cpp: 'c', 'c++': 'c', h: 'c', cs: 'c', 'c#': 'c', kotlin: 'java', kt: 'java',
+  scss: 'css',
+};
+
+/**
+ * Splits code into keyword, string, comment, number and plain tokens.
+ * Unknown languages come back as a single plain token.
+ * @param code The contents of a fenced code block.
+ * @param language The info string after the opening ``` (lowercase), if any.
+ */
+export function highlightCode(code: string, language: string | null): CodeToken[] {
+  const definition = language ? LANGUAGES[ALIASES[language] ?? language] : undefined;
+  if (!definition) return [{ type: 'plain', text: code }];
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let index = 0;
+  while (index < code.length) {
+    if (definition.lineComment && code.startsWith(definition.lineComment, index)) {
+      const end = code.indexOf('\n', index);
+      const comment = code.slice(index, end === -1 ? code.length : end);
+      push('comment', comment);
+      index += comment.length;
+      continue;
+    }
+
+    if (definition.blockComment && code.startsWith(definition.blockComment[0], index)) {
+      const end = code.indexOf(definition.blockComment[1], index + definition.blockComment[0].length);
+      const comment = code.slice(index, end === -1 ? code.length : end + definition.blockComment[1].length);
+      push('comment', comment);
+      index += comment.length;
+      continue;
+    }
+
+    const delimiter = definition.stringDelimiters.find((candidate) => code.startsWith(candidate, index));
+    if (delimiter) {
+      let end = index + delimiter.length;
+      while (end < code.length && !code.startsWith(delimiter, end)) {
+        // Single-line strings stop at the end of the line when unterminated
+        if (delimiter.length === 1 && delimiter !== '`' && code[end] === '\n') break;
+        end += code[end] === '\\' ? 2 : 1;
+      }
+      const literal = code.slice(index, Math.min(code.length, code.startsWith(delimiter, end) ? end + delimiter.length : end));
+      push('string', literal);
+      index += literal.length;
+      continue;
+    }
+
+    const number = matchAt(NUMBER_PATTERN, code, index);
+    if (number && !/\w/.test(code[index - 1] ?? '')) {
+      push('number', number);
+      index += number.length;
+      continue;
+    }
+
+    const word = matchAt(WORD_PATTERN, code, index);
+    if (word) {
+      const isKeyword = definition.keywords.has(definition.caseInsensitive ? word.toLowerCase() : word);
+      push(isKeyword ? 'keyword' : 'plain', word);
+      index += word.length;
+      continue;
+    }
+
+    push('plain', code[index]);
+    index++;
+  }
+
+  return tokens;
+}
@@ -1,83 +1,155 @@
 import { useNavigate } from 'react-router-dom';
-import { useMemo, memo } from 'react';
+import { useMemo, useState, memo, type ReactNode } from 'react';
+import { useResolvedMentions } from '@/hooks/use-resolved-mentions';
+import { parseMarkdown, type BlockToken, type InlineToken } from '@/lib/markdown';
+import { highlightCode, type CodeTokenType } from '@/lib/syntaxHighlight';
 
 interface ParsedTextProps {
   text: string;
 }
 
-export const ParsedText = memo(({ text }: ParsedTextProps) => {
-  const navigate = useNavigate();
+const CODE_TOKEN_CLASSES: Record<CodeTokenType, string> = {
+  plain: '',
+  keyword: 'text-primary font-semibold',
+  string: 'text-green-600 dark:text-green-400',
+  comment: 'text-muted-foreground italic',
+  number: 'text-orange-600 dark:text-orange-400',
+};
 
-  const parsedContent = useMemo(() => {
-    const parts = [];
-    const regex = /(https?:\/\/[^\s]+|#\w+|@\w+)/g;
-    let lastIndex = 0;
-    let match;
+// Hidden until clicked; the click doesn't open the ping underneath
+const Spoiler = ({ children }: { children: ReactNode }) => {
+  const [revealed, setRevealed] = useState(false);
 
-    while ((match = regex.exec(text)) !== null) {
-      // Add text before the match
-      if (match.index > lastIndex) {
-        parts.push(
-          <span key={lastIndex}>{text.substring(lastIndex, match.index)}</span>
-        );
-      }
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      aria-label={revealed ? undefined : 'Spoiler, click to reveal'}
+      onClick={(e) => {
+        e.stopPropagation();
+        setRevealed(true);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          setRevealed(true);
+        }
+      }}
+      className={`rounded px-0.5 transition-apple ${revealed ? 'bg-muted' : 'bg-foreground text-transparent cursor-pointer select-none'}`}
+    >
+      {children}
+    </span>
+  );
+};
 
-      const matchedText = match[0];
-      if (matchedText.startsWith('http://') || matchedText.startsWith('https://')) {
-        // URL
-        parts.push(
-          <a
-            key={match.index}
-            href={matchedText}
-            target="_blank"
-            rel="noopener noreferrer"
-            onClick={(e) => e.stopPropagation()}
-            className="text-primary hover:underline font-medium break-all"
-          >
-            {matchedText}
-          </a>
-        );
-      } else if (matchedText.startsWith('#')) {
-        // Hashtag
-        parts.push(
-          <button
-            key={match.index}
-            onClick={(e) => {
-              e.stopPropagation();
-              navigate(`/search?q=${encodeURIComponent(matchedText)}`);
-            }}
-            className="text-primary hover:underline font-medium"
-          >
-            {matchedText}
-          </button>
-        );
-      } else if (matchedText.startsWith('@')) {
-        // Mention
-        const username = matchedText.substring(1);
-        parts.push(
-          <button
-            key={match.index}
-            onClick={(e) => {
-              e.stopPropagation();
-              navigate(`/profile/${username}`);
-            }}
-            className="text-primary hover:underline font-medium"
-          >
-            {matchedText}
-          </button>
-        );
-      }
+// ParsedText is rendered inside <p> elements, so blocks use spans with display: block rather than <pre>/<blockquote>
+export const ParsedText = memo(({ text }: ParsedTextProps) => {
+  const navigate = useNavigate();
+  // Only @names that belong to real profiles become links
+  const knownMentions = useResolvedMentions(text);
 
-      lastIndex = regex.lastIndex;
-    }
+  const parsedContent = useMemo(() => {
+    const renderInline = (tokens: InlineToken[]): ReactNode[] =>
+      tokens.map((token, index) => {
+        switch (token.type) {
+          case 'text':
+            return <span key={index}>{token.text}</span>;
+          case 'bold':
+            return <strong key={index} className="font-semibold">{renderInline(token.children)}</strong>;
+          case 'italic':
+            return <em key={index}>{renderInline(token.children)}</em>;
+          case 'spoiler':
+            return <Spoiler key={index}>{renderInline(token.children)}</Spoiler>;
+          case 'code':
+            return (
+              <code key={index} className="rounded-md bg-muted px-1 py-0.5 font-mono text-[0.9em] break-words">
+                {token.text}
+              </code>
+            );
+          case 'link':
+            return (
+              <a
+                key={index}
+                href={token.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={(e) => e.stopPropagation()}
+                className="text-primary hover:underline font-medium break-all"
+              >
+                {token.url}
+              </a>
+            );
+          case 'hashtag':
+            return (
+              <button
+                key={index}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  navigate(`/tag/${encodeURIComponent(token.tag.toLowerCase())}`);
+                }}
+                className="text-primary hover:underline font-medium"
+              >
+                #{token.tag}
+              </button>
+            );
+          case 'mention':
+            // Mention of a username that doesn't exist: plain text
+            if (!knownMentions.has(token.username.toLowerCase())) {
+              return <span key={index}>@{token.username}</span>;
+            }
+            return (
+              <button
+                key={index}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  navigate(`/profile/${token.username}`);
+                }}
+                className="text-primary hover:underline font-medium"
+              >
+                @{token.username}
+              </button>
+            );
+        }
+      });
 
-    // Add remaining text
-    if (lastIndex < text.length) {
-      parts.push(<span key={lastIndex}>{text.substring(lastIndex)}</span>);
-    }
+    const renderBlocks = (blocks: BlockToken[]): ReactNode[] =>
+      blocks.map((block, index) => {
+        switch (block.type) {
+          case 'paragraph':
+            // A lone paragraph stays inline so plain pings render exactly as before
+            return blocks.length === 1 ? (
+              <span key={index}>{renderInline(block.children)}</span>
+            ) : (
+              <span key={index} className="block [&:not(:last-child)]:mb-2">{renderInline(block.children)}</span>
+            );
+          case 'blockquote':
+            return (
+              <span key={index} className="block border-l-4 border-primary/40 pl-3 text-muted-foreground [&:not(:last-child)]:mb-2">
+                {renderBlocks(block.children)}
+              </span>
+            );
+          case 'code_block':
+            return (
+              <span key={index} className="block my-2 overflow-x-auto rounded-xl bg-muted p-3 text-left">
+                {block.language && (
+                  <span className="block mb-1 text-[0.7rem] uppercase tracking-wide text-muted-foreground">{block.language}</span>
+                )}
+                <code className="block whitespace-pre font-mono text-sm">
+                  {highlightCode(block.code, block.language).map((codeToken, tokenIndex) =>
+                    codeToken.type === 'plain' ? (
+                      codeToken.text
+                    ) : (
+                      <span key={tokenIndex} className={CODE_TOKEN_CLASSES[codeToken.type]}>{codeToken.text}</span>
+                    )
+                  )}
+                </code>
+              </span>
+            );
+        }
+      });
 
-    return parts;
-  }, [text, navigate]);
+    return renderBlocks(parseMarkdown(text));
+  }, [text, navigate, knownMentions]);
 
   return <>{parsedContent}</>;
 });
@@ -1,25 +1,42 @@
 import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from './SupabaseAuthContext';
+import { useEncryption } from './EncryptionContext';
 import { logger } from '@/lib/logger';
-import { Chat, Message, ChatParticipant } from '@/types'; // Import types from central types file
+import { Chat, Message } from '@/types'; // Import types from central types file
+import {
+  CHAT_PARTICIPANTS_SELECT,
+  createDirectChat as createDirectChatRpc,
+  createGroupChat as createGroupChatRpc,
+  fetchChatEncryption,
+  markChatRead,
+  markChatsDelivered,
+  MESSAGE_SELECT,
+  sendChatMessage,
+} from '@/api/chats';
+import type { UploadedChatAttachment } from '@/api/storage';
 
 interface ChatContextType {
   chats: Chat[];
   loadingChats: boolean;
   fetchChats: () => Promise<void>;
   markChatAsRead: (chatId: string) => Promise<void>;
-  sendMessage: (chatId: string, content: string) => Promise<void>;
+  // Resolves to false after logging the error, so the composer can keep the draft.
+  // In encrypted chats the content is encrypted here, so only ciphertext leaves the device.
+  sendMessage: (chatId: string, content: string, attachments?: UploadedChatAttachment[], replyToId?: string | null) => Promise<boolean>;
   subscribeToChatMessages: (chatId: string, onNewMessage: (message: Message) => void) => () => void;
-  createPersonalChat: (participantId: string) => Promise<Chat | null>;
-  fetchChatDetails: (chatId: string, onUpdate: (chat: Chat) => void) => () => void;
-  fetchChatMessages: (chatId: string, onUpdate: (messages: Message[]) => void) => () => void;
+  // Both resolve to the chat ID, or null after logging the error
+  createDirectChat: (participantId: string) => Promise<string | null>;
+  createGroupChat: (name: string, memberIds: string[]) => Promise<string | null>;
+  // onUpdate gets null when the chat can't be read, e.g. after being removed from a group
+  fetchChatDetails: (chatId: string, onUpdate: (chat: Chat | null) => void) => () => void;
 }
 
 export const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
 export const ChatProvider = ({ children }: { children: ReactNode }) => {
   const { user } = useAuth();
+  const { encryptForUsers } = useEncryption();
   const [chats, setChats] = useState<Chat[]>([]);
   const [loadingChats, setLoadingChats] = useState(true);
 
@@ -36,15 +53,9 @@ export const ChatProvider = ({ children }: { children: ReactNode }) => {
       .select(`
         last_read_at,
         chats (
-          id, created_at, chat_name, is_group_chat, last_message_id,
-          chat_participants (
-            id, user_id,
-            profiles (display_name, username, verified, avatar_url)
-          ),
-          last_message:messages!last_message_id (
-            id, created_at, chat_id, sender_id, content, is_read,
-            sender:profiles (display_name, username, verified, avatar_url)
-          )
+          id, created_at, chat_name, is_group_chat, is_encrypted, last_message_id,
+          ${CHAT_PARTICIPANTS_SELECT},
+          last_message:messages!last_message_id (${MESSAGE_SELECT})
         )
       `)
       .eq('user_id', user.id)
@@ -63,6 +74,8 @@ export const ChatProvider = ({ children }: { children: ReactNode }) => {
         };
       });
       setChats(formattedChats);
+      // Everything loaded is now on this device: advance the delivery ticks senders see
+      markChatsDelivered().catch(deliveryError => logger.error('Error marking chats as delivered', deliveryError, { showToast: false }));
     }
     setLoadingChats(false);
   }, [user]);
@@ -75,9 +88,10 @@ export const ChatProvider = ({ children }: { children: ReactNode }) => {
       }
       const updatedChats = [...prevChats];
       const chatToUpdate = updatedChats[chatIndex];
+      // Realtime rows carry no profile; take the sender's from the chat's participants
       const lastMessage = {
         ...newMessage,
-        sender: newMessage.sender,
+        sender: newMessage.sender ?? chatToUpdate.chat_participants?.find(p => p.user_id === newMessage.sender_id)?.profiles,
       };
       const isUnread = chatToUpdate.last_read_at ? new Date(lastMessage.created_at) > new Date(chatToUpdate.last_read_at) : true;
       updatedChats[chatIndex] = {
@@ -129,6 +143,9 @@ export const ChatProvider = ({ children }: { children: ReactNode }) => {
         (payload) => {
           logger.debug('New message received, updating chat list', { payload });
           updateChatList(payload.new as Message);
+          if (payload.new.sender_id !== user.id) {
+            markChatsDelivered().catch(error => logger.error('Error marking chats as delivered', error, { showToast: false }));
+          }
         }
       )
       .subscribe();
@@ -138,40 +155,39 @@ export const ChatProvider = ({ children }: { children: ReactNode }) => {
     };
   }, [user, fetchChats, updateChatList]);
 
-  const markChatAsRead = async (chatId: string) => {
+  const markChatAsRead = useCallback(async (chatId: string) => {
     if (!user) return;
-    const { error } = await supabase
-      .from('chat_participants')
-      .update({ last_read_at: new Date().toISOString() })
-      .eq('chat_id', chatId)
-      .eq('user_id', user.id);
-
-    if (error) {
-      logger.error('Error marking chat as read', error, { userMessage: 'Failed to mark chat as read.' });
-    } else {
+    try {
+      const readAt = await markChatRead(chatId);
       setChats(prevChats =>
         prevChats.map(chat =>
-          chat.id === chatId ? { ...chat, unread: false, last_read_at: new Date().toISOString() } : chat
+          chat.id === chatId ? { ...chat, unread: false, last_read_at: readAt ?? chat.last_read_at } : chat
         )
       );
+    } catch (error) {
+      logger.error('Error marking chat as read', error, { userMessage: 'Failed to mark chat as read.' });
     }
-  };
-
-  const sendMessage = async (chatId: string, content: string) => {
-    if (!user) return;
-    const { data, error } = await supabase
-      .from('messages')
-      .insert({ chat_id: chatId, sender_id: user.id, content })
-      .select()
-      .single();
+  }, [user]);
 
-    if (error) {
+  const sendMessage = async (
+    chatId: string,
+    content: string,
+    attachments: UploadedChatAttachment[] = [],
+    replyToId: string | null = null
+  ): Promise<boolean> => {
+    if (!user) return false;
+    // chats.last_message_id is kept up to date by the on_message_created trigger
+    try {
+      const { isEncrypted, memberIds } = await fetchChatEncryption(chatId);
+      if (isEncrypted && attachments.length > 0) {
+        throw new Error('Attachments cannot be sent in encrypted chats.');
+      }
+      const body = isEncrypted ? await encryptForUsers(content, memberIds) : content;
+      await sendChatMessage(chatId, body, attachments, replyToId, isEncrypted);
+      return true;
+    } catch (error) {
       logger.error('Error sending message', error, { userMessage: 'Failed to send message.' });
-    } else {
-      await supabase
-        .from('chats')
-        .update({ last_message_id: data.id })
-        .eq('id', chatId);
+      return false;
     }
   };
 
@@ -193,66 +209,49 @@ export const ChatProvider = ({ children }: { children: ReactNode }) => {
     };
   };
 
-  const createPersonalChat = async (participantId: string): Promise<Chat | null> => {
+  const createDirectChat = async (participantId: string): Promise<string | null> => {
     if (!user) return null;
 
-    const { data: rpcData, error: rpcError } = await supabase.rpc('create_personal_chat', {
-        p_user_id: participantId
-    });
-
-    if (rpcError) {
-      logger.error('Error creating or fetching personal chat', rpcError, { userMessage: 'Could not start chat.' });
+    try {
+      return await createDirectChatRpc(participantId);
+    } catch (error) {
+      logger.error('Error creating or fetching direct chat', error, { userMessage: 'Could not start chat.' });
       return null;
     }
-    
-    if (rpcData && rpcData.length > 0) {
-        const chatId = rpcData.id;
-        const { data: chatData, error: fetchChatError } = await supabase
-            .from('chats')
-            .select(`
-                id, created_at, chat_name, is_group_chat, last_message_id,
-                messages (
-                    id, created_at, chat_id, sender_id, content, is_read,
-                    sender:profiles!inner(display_name, username, verified, avatar_url)
-                ),
-                chat_participants (
-                    id, user_id,
-                    profiles (display_name, username, verified, avatar_url)
-                )
-            `)
-            .eq('id', chatId)
-            .single();
+  };
 
-        if (fetchChatError) {
-            logger.error('Error fetching newly created or existing chat', fetchChatError);
-            return null;
-        }
-        return chatData as unknown as Chat;
+  const createGroupChat = async (name: string, memberIds: string[]): Promise<string | null> => {
+    if (!user) return null;
+
+    try {
+      const chatId = await createGroupChatRpc(name, memberIds);
+      fetchChats();
+      return chatId;
+    } catch (error) {
+      logger.error('Error creating group chat', error, { userMessage: 'Could not create the group.' });
+      return null;
     }
-    return null;
   };
 
-  const fetchChatDetails = useCallback((chatId: string, onUpdate: (chat: Chat) => void) => {
+  const fetchChatDetails = useCallback((chatId: string, onUpdate: (chat: Chat | null) => void) => {
     const chatChannel = supabase.channel(`chat_details:${chatId}`);
 
     const handleChatUpdate = async () => {
       const { data, error } = await supabase
         .from('chats')
         .select(`
-          id, created_at, chat_name, is_group_chat, last_message_id,
-          chat_participants (
-            id, user_id,
-            profiles (display_name, username, verified, avatar_url)
-          )
+          id, created_at, chat_name, is_group_chat, is_encrypted, last_message_id,
+          ${CHAT_PARTICIPANTS_SELECT}
         `)
         .eq('id', chatId)
         .single();
 
       if (error) {
-        logger.error('Error fetching chat details', error, { userMessage: 'Failed to fetch chat details.' });
+        logger.error('Error fetching chat details', error, { showToast: false });
+        onUpdate(null);
         return;
       }
-      onUpdate(data as Chat);
+      onUpdate(data as unknown as Chat);
     };
 
     chatChannel.on(
@@ -264,51 +263,21 @@ export const ChatProvider = ({ children }: { children: ReactNode }) => {
         filter: `chat_id=eq.${chatId}`
       },
       handleChatUpdate
-    ).subscribe();
-    
-    handleChatUpdate();
-
-    return () => {
-      supabase.removeChannel(chatChannel);
-    };
-  }, []);
-
-  const fetchChatMessages = useCallback((chatId: string, onUpdate: (messages: Message[]) => void) => {
-    const messagesChannel = supabase.channel(`chat_messages:${chatId}`);
-
-    const handleMessageUpdate = async () => {
-      const { data, error } = await supabase
-        .from('messages')
-        .select(`
-          id, created_at, chat_id, sender_id, content, is_read,
-          sender:profiles!inner (display_name, username, verified, avatar_url)
-        `)
-        .eq('chat_id', chatId)
-        .order('created_at', { ascending: true });
-
-      if (error) {
-        logger.error('Error fetching chat messages', error, { userMessage: 'Failed to fetch chat messages.' });
-        onUpdate([]);
-        return;
-      }
-      onUpdate(data as unknown as Message[]);
-    };
-
-    messagesChannel.on(
+    ).on(
       'postgres_changes',
       {
-        event: '*',
+        event: 'UPDATE',
         schema: 'public',
-        table: 'messages',
-        filter: `chat_id=eq.${chatId}`
+        table: 'chats',
+        filter: `id=eq.${chatId}`
       },
-      handleMessageUpdate
+      handleChatUpdate // Renames
     ).subscribe();
-
-    handleMessageUpdate();
+    
+    handleChatUpdate();
 
     return () => {
-      supabase.removeChannel(messagesChannel);
+      supabase.removeChannel(chatChannel);
     };
   }, []);
 
@@ -321,9 +290,9 @@ export const ChatProvider = ({ children }: { children: ReactNode }) => {
         markChatAsRead,
         sendMessage,
         subscribeToChatMessages,
-        createPersonalChat,
+        createDirectChat,
+        createGroupChat,
         fetchChatDetails,
-        fetchChatMessages,
       }}
     >
       {children}
@@ -0,0 +1,112 @@
+import { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react';
+import { useAuth } from './SupabaseAuthContext';
+import { logger } from '@/lib/logger';
+import { decryptMessage, encryptMessage, exportPublicKey, fingerprintPublicKeys, generateDeviceKeyPair, parseEnvelope } from '@/lib/e2ee';
+import { loadDeviceKey, saveDeviceKey, type StoredDeviceKey } from '@/lib/deviceKeys';
+import { fetchDeviceKey, fetchDeviceKeys, publishDeviceKey } from '@/api/keys';
+import type { DeviceKey } from '@/types';
+
+interface EncryptionContextType {
+  // This device's key ID once its key pair is loaded or created, null until then or when the browser can't do E2EE
+  deviceId: string | null;
+  // Encrypts a message for every device of the given users (the current user included)
+  encryptForUsers: (plaintext: string, userIds: string[]) => Promise<string>;
+  // Decrypts an encrypted message content; rejects when this device can't read it
+  decryptContent: (content: string, senderId: string | null) => Promise<string>;
+  // A user's key fingerprint, or null when they have no device keys yet
+  getFingerprint: (userId: string) => Promise<string | null>;
+}
+
+const EncryptionContext = createContext<EncryptionContextType | undefined>(undefined);
+
+// Loads this device's key pair for the user, creating and publishing one on first use
+const setUpDeviceKey = async (userId: string): Promise<StoredDeviceKey> => {
+  const stored = await loadDeviceKey(userId);
+  if (stored) return stored;
+
+  const keyPair = await generateDeviceKeyPair();
+  const publicKey = await exportPublicKey(keyPair.publicKey);
+  const id = await publishDeviceKey(publicKey);
+  const created = { id, userId, privateKey: keyPair.privateKey, publicKey };
+  await saveDeviceKey(created);
+  return created;
+};
+
+export const EncryptionProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [device, setDevice] = useState<StoredDeviceKey | null>(null);
+  // Sender device keys never change, and neither does the plaintext of a given envelope
+  const senderKeysRef = useRef(new Map<string, Promise<DeviceKey | null>>());
+  const plaintextsRef = useRef(new Map<string, Promise<string>>());
+
+  useEffect(() => {
+    setDevice(null);
+    plaintextsRef.current.clear();
+    if (!user) return;
+
+    let cancelled = false;
+    setUpDeviceKey(user.id)
+      .then((key) => !cancelled && setDevice(key))
+      .catch((error) => logger.error('Error setting up the encryption key for this device', error, { showToast: false }));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const encryptForUsers = useCallback(async (plaintext: string, userIds: string[]) => {
+    if (!device) {
+      throw new Error('Encryption is not available on this device yet.');
+    }
+    const recipients = await fetchDeviceKeys(userIds);
+    return encryptMessage(plaintext, device, recipients);
+  }, [device]);
+
+  const decryptContent = useCallback((content: string, senderId: string | null) => {
+    if (!device) {
+      return Promise.reject(new Error('Encryption is not available on this device yet.'));
+    }
+
+    let plaintext = plaintextsRef.current.get(content);
+    if (!plaintext) {
+      plaintext = (async () => {
+        const envelope = parseEnvelope(content);
+        let senderKey = senderKeysRef.current.get(envelope.device);
+        if (!senderKey) {
+          senderKey = fetchDeviceKey(envelope.device);
+          senderKeysRef.current.set(envelope.device, senderKey);
+          // Lookups that failed are retried next time
+          senderKey.catch(() => senderKeysRef.current.delete(envelope.device));
+        }
+        const key = await senderKey;
+        // The envelope names its sending device; it has to belong to the message's sender
+        if (!key || key.user_id !== senderId) {
+          throw new Error('The sending device does not belong to the sender.');
+        }
+        return decryptMessage(envelope, device, key.public_key);
+      })();
+      plaintextsRef.current.set(content, plaintext);
+      plaintext.catch(() => plaintextsRef.current.delete(content));
+    }
+    return plaintext;
+  }, [device]);
+
+  const getFingerprint = useCallback(async (userId: string) => {
+    const keys = await fetchDeviceKeys([userId]);
+    return keys.length > 0 ? fingerprintPublicKeys(keys.map(({ public_key }) => public_key)) : null;
+  }, []);
+
+  return (
+    <EncryptionContext.Provider value={{ deviceId: device?.id ?? null, encryptForUsers, decryptContent, getFingerprint }}>
+      {children}
+    </EncryptionContext.Provider>
+  );
+};
+
+export const useEncryption = () => {
+  const context = useContext(EncryptionContext);
+  if (!context) {
+    throw new Error('useEncryption must be used within an EncryptionProvider');
+  }
+  return context;
+};
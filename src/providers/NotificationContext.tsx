@@ -2,26 +2,33 @@ import { createContext, useContext, useState, useEffect, ReactNode, useCallback
 import { supabase } from '@/lib/supabase';
 import { useAuth } from './SupabaseAuthContext';
 import { logger } from '@/lib/logger';
-import { Profile, Notification as AppNotification } from '@/types'; // Import the updated AppNotification type
-
-export interface Notification extends AppNotification {
-  sender?: Pick<Profile, 'username' | 'avatar_url' | 'is_admin'> & { display_name?: string; verified?: boolean };
-  pings?: {
-    id: string;
-    content: string;
-  };
-  comments?: {
-    id: string;
-    content: string;
-  };
-}
+import {
+  fetchMutedPingIds,
+  fetchNotification,
+  fetchNotifications as fetchNotificationsApi,
+  markNotificationsRead,
+  setPingMuted,
+} from '@/api/notifications';
+import { deletePushSubscription, savePushSubscription } from '@/api/push';
+import { getPushSubscription, isPushSupported, registerServiceWorker, subscribeToPush } from '@/lib/push';
+import type { Notification } from '@/types';
 
 interface NotificationContextType {
+  // The latest notifications, newest first; group them for display with groupNotifications (lib/notifications)
   notifications: Notification[];
   loadingNotifications: boolean;
   unreadCount: number;
-  fetchNotifications: () => Promise<void>; // Make fetchNotifications available in context
-  markNotificationAsRead: (notificationId: string) => Promise<void>;
+  fetchNotifications: () => Promise<void>;
+  // Both update the list right away and roll back if the server rejects the change
+  markNotificationsAsRead: (notificationIds: string[]) => Promise<void>;
+  markAllNotificationsAsRead: () => Promise<void>;
+  // Pings whose threads no longer notify the user; muting keeps the notifications already received
+  mutedPingIds: Set<string>;
+  setThreadMuted: (pingId: string, muted: boolean) => Promise<boolean>;
+  // Web Push on this device, for when no app window is open (see lib/push)
+  pushSupported: boolean;
+  pushEnabled: boolean;
+  setPushEnabled: (enabled: boolean) => Promise<boolean>;
 }
 
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
@@ -30,6 +37,9 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
   const { user } = useAuth();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loadingNotifications, setLoadingNotifications] = useState(true);
+  const [mutedPingIds, setMutedPingIds] = useState<Set<string>>(() => new Set());
+  const [pushEnabled, setPushEnabledState] = useState(false);
+  const pushSupported = isPushSupported();
 
   const fetchNotifications = useCallback(async () => {
     if (!user) {
@@ -39,23 +49,11 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
     }
 
     setLoadingNotifications(true);
-    const { data, error } = await supabase
-      .from('notifications')
-      .select(`
-        id, created_at, recipient_id, type, source_id, read,
-        sender:profiles (display_name, username, verified, avatar_url, is_admin),
-        pings (id, content),
-        comments (id, content)
-      `)
-      .eq('recipient_id', user.id)
-      .order('created_at', { ascending: false });
-
-    if (error) {
+    try {
+      setNotifications(await fetchNotificationsApi());
+    } catch (error) {
       logger.error('Error fetching notifications', error, { userMessage: 'Failed to load notifications.' });
       setNotifications([]);
-    } else {
-      // Type assertion needed due to dynamic selection and structure difference
-      setNotifications(data as unknown as Notification[]);
     }
     setLoadingNotifications(false);
   }, [user]);
@@ -63,25 +61,43 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
   useEffect(() => {
     if (!user) {
       setNotifications([]);
+      setMutedPingIds(new Set());
       setLoadingNotifications(false);
       return;
     }
 
     fetchNotifications();
+    fetchMutedPingIds()
+      .then((pingIds) => setMutedPingIds(new Set(pingIds)))
+      .catch((error) => logger.error('Error fetching muted threads', error, { showToast: false }));
 
     const notificationChannel = supabase.channel(`user_notifications:${user.id}`);
 
-    notificationChannel.on(
+    notificationChannel.on<Notification>(
       'postgres_changes',
       {
-        event: 'INSERT', // Listen for INSERT only to avoid unnecessary re-fetches on read updates
+        event: 'INSERT', // Read-state updates are made by this client, so they need no listening to
         schema: 'public',
         table: 'notifications',
-        filter: `recipient_id=eq.${user.id}`
+        filter: `user_id=eq.${user.id}`
       },
       (payload) => {
-        console.log('Notification change received!', payload);
-        fetchNotifications();
+        // Realtime rows carry no actor or target; load the complete notification and put it first
+        fetchNotification(payload.new.id)
+          .then((notification) => {
+            if (!notification) return;
+            setNotifications((prev) => [notification, ...prev.filter(({ id }) => id !== notification.id)]);
+          })
+          .catch((error) => logger.error('Error fetching new notification', error, { showToast: false }));
+      }
+    ).on<Notification>(
+      'postgres_changes',
+      // Undone actions (unlike, unfollow, ...) delete their notification. Delete events can't be filtered and only
+      // carry the primary key; IDs of other users' notifications are simply not in the list.
+      { event: 'DELETE', schema: 'public', table: 'notifications' },
+      (payload) => {
+        const deletedId = payload.old.id;
+        setNotifications((prev) => prev.filter(({ id }) => id !== deletedId));
       }
     ).subscribe();
 
@@ -90,30 +106,123 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
     };
   }, [user, fetchNotifications]);
 
-  const markNotificationAsRead = async (notificationId: string) => {
-    if (!user) return;
-
-    const { error } = await supabase
-      .from('notifications')
-      .update({ read: true }) // Changed is_read to read
-      .eq('id', notificationId)
-      .eq('recipient_id', user.id); // Changed to recipient_id
-
-    if (error) {
-      logger.error('Error marking notification as read', error, { userMessage: 'Failed to mark notification as read.' });
-    } else {
-      setNotifications(prevNotifications =>
-        prevNotifications.map(notification =>
-          notification.id === notificationId ? { ...notification, read: true } : notification // Changed is_read to read
-        )
-      );
+  // A subscription found on load is saved again, so it belongs to whoever is signed in on this device now
+  useEffect(() => {
+    if (!user || !pushSupported) {
+      setPushEnabledState(false);
+      return;
+    }
+
+    registerServiceWorker()
+      .then(getPushSubscription)
+      .then(async (subscription) => {
+        setPushEnabledState(!!subscription);
+        if (subscription) await savePushSubscription(subscription);
+      })
+      .catch((error) => logger.error('Error restoring push subscription', error, { showToast: false }));
+  }, [user, pushSupported]);
+
+  const setRead = (isRead: (notification: Notification) => boolean) => {
+    setNotifications((prev) => prev.map((notification) => ({ ...notification, is_read: isRead(notification) })));
+  };
+
+  const markNotificationsAsRead = async (notificationIds: string[]) => {
+    const unread = notifications.filter(({ id, is_read }) => !is_read && notificationIds.includes(id)).map(({ id }) => id);
+    if (!user || unread.length === 0) return;
+
+    setRead((notification) => notification.is_read || unread.includes(notification.id));
+    try {
+      await markNotificationsRead(unread);
+    } catch (error) {
+      setRead((notification) => notification.is_read && !unread.includes(notification.id));
+      logger.error('Error marking notifications as read', error, { userMessage: 'Failed to mark notifications as read.' });
+    }
+  };
+
+  const markAllNotificationsAsRead = async () => {
+    const unread = notifications.filter(({ is_read }) => !is_read).map(({ id }) => id);
+    if (!user || unread.length === 0) return;
+
+    setRead(() => true);
+    try {
+      await markNotificationsRead();
+    } catch (error) {
+      setRead((notification) => !unread.includes(notification.id));
+      logger.error('Error marking notifications as read', error, { userMessage: 'Failed to mark notifications as read.' });
+    }
+  };
+
+  const setMuted = (pingId: string, muted: boolean) => {
+    setMutedPingIds((prev) => {
+      const next = new Set(prev);
+      if (muted) next.add(pingId);
+      else next.delete(pingId);
+      return next;
+    });
+  };
+
+  const setThreadMuted = async (pingId: string, muted: boolean) => {
+    if (!user) return false;
+
+    setMuted(pingId, muted);
+    try {
+      await setPingMuted(pingId, muted);
+      return true;
+    } catch (error) {
+      setMuted(pingId, !muted);
+      logger.error('Error muting thread', error, { userMessage: muted ? 'Failed to mute this thread.' : 'Failed to unmute this thread.' });
+      return false;
+    }
+  };
+
+  const setPushEnabled = async (enabled: boolean) => {
+    if (!user || !pushSupported) return false;
+
+    try {
+      if (enabled) {
+        const subscription = await subscribeToPush();
+        if (!subscription) {
+          logger.warn('Push permission denied', undefined, {
+            userMessage: 'Notifications are blocked for iPing. Allow them in your browser settings first.',
+          });
+          return false;
+        }
+        await savePushSubscription(subscription);
+      } else {
+        const subscription = await getPushSubscription();
+        if (subscription) {
+          await deletePushSubscription(subscription.endpoint);
+          await subscription.unsubscribe();
+        }
+      }
+      setPushEnabledState(enabled);
+      return true;
+    } catch (error) {
+      logger.error('Error changing push notifications', error, {
+        userMessage: enabled ? 'Failed to turn on push notifications.' : 'Failed to turn off push notifications.',
+      });
+      return false;
     }
   };
 
-  const unreadCount = notifications.filter(n => !n.read).length; // Changed is_read to read
+  const unreadCount = notifications.filter(({ is_read }) => !is_read).length;
 
   return (
-    <NotificationContext.Provider value={{ notifications, loadingNotifications, unreadCount, fetchNotifications, markNotificationAsRead }}>
+    <NotificationContext.Provider
+      value={{
+        notifications,
+        loadingNotifications,
+        unreadCount,
+        fetchNotifications,
+        markNotificationsAsRead,
+        markAllNotificationsAsRead,
+        mutedPingIds,
+        setThreadMuted,
+        pushSupported,
+        pushEnabled,
+        setPushEnabled,
+      }}
+    >
       {children}
     </NotificationContext.Provider>
   );
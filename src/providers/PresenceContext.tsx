@@ -0,0 +1,131 @@
+import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from './SupabaseAuthContext';
+import { logger } from '@/lib/logger';
+import { apiService } from '@/services/apiService';
+
+interface PresenceContextType {
+  onlineUserIds: Set<string>;
+  isOnline: (userId: string | undefined | null) => boolean;
+  // The current user's privacy setting; when false they are never shown as online and have no last-seen time
+  showPresence: boolean;
+  setShowPresence: (show: boolean) => Promise<boolean>;
+}
+
+// How often last_seen_at is refreshed while the app is open and visible
+const HEARTBEAT_INTERVAL_MS = 60_000;
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+export const PresenceProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(() => new Set());
+  const [showPresence, setShowPresenceState] = useState(true);
+  // Set once the presence channel has joined; tracking only works after that
+  const [channel, setChannel] = useState<RealtimeChannel | null>(null);
+
+  const touchLastSeen = useCallback(() => {
+    supabase.rpc('touch_last_seen').then(({ error }) => {
+      if (error) logger.error('Error updating last seen', error, { showToast: false });
+    });
+  }, []);
+
+  // Load the privacy setting for the signed-in user
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('profiles')
+      .select('show_presence')
+      .eq('id', user.id)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          logger.error('Error loading presence setting', error, { showToast: false });
+          return;
+        }
+        setShowPresenceState(data.show_presence ?? true);
+      });
+  }, [user]);
+
+  // One shared private channel that only signed-in users may join (see the private online presence migration):
+  // every visible user tracks themselves under their user ID. Users who hide their presence still subscribe (to
+  // see others) but never track.
+  useEffect(() => {
+    if (!user) {
+      setOnlineUserIds(new Set());
+      return;
+    }
+
+    const presenceChannel = supabase.channel('presence:online', { config: { private: true, presence: { key: user.id } } });
+
+    presenceChannel
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineUserIds(new Set(Object.keys(presenceChannel.presenceState())));
+      })
+      .subscribe((status) => {
+        setChannel(status === 'SUBSCRIBED' ? presenceChannel : null);
+      });
+
+    return () => {
+      setChannel(null);
+      supabase.removeChannel(presenceChannel);
+    };
+  }, [user]);
+
+  // Track or untrack as the privacy setting and tab visibility change, and keep last_seen_at fresh while visible
+  useEffect(() => {
+    if (!user || !channel) return;
+
+    const syncTracking = () => {
+      if (showPresence && document.visibilityState === 'visible') {
+        channel.track({ online_at: new Date().toISOString() });
+      } else {
+        channel.untrack();
+      }
+    };
+
+    const handleVisibility = () => {
+      syncTracking();
+      // Record the moment the user left so "last seen" is accurate
+      if (showPresence) touchLastSeen();
+    };
+
+    syncTracking();
+    if (showPresence) touchLastSeen();
+    const heartbeat = setInterval(() => {
+      if (showPresence && document.visibilityState === 'visible') touchLastSeen();
+    }, HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      clearInterval(heartbeat);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [user, channel, showPresence, touchLastSeen]);
+
+  const isOnline = useCallback((userId: string | undefined | null) => !!userId && onlineUserIds.has(userId), [onlineUserIds]);
+
+  const setShowPresence = async (show: boolean): Promise<boolean> => {
+    // updateProfile reports its own errors
+    const updated = await apiService.updateProfile({ show_presence: show });
+    if (!updated) return false;
+    setShowPresenceState(show);
+    return true;
+  };
+
+  return (
+    <PresenceContext.Provider value={{ onlineUserIds, isOnline, showPresence, setShowPresence }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+};
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (!context) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+};
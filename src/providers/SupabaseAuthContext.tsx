@@ -2,6 +2,8 @@ import { createContext, useContext, useState, useEffect, ReactNode } from 'react
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
+import { getPushSubscription } from '@/lib/push';
+import { deletePushSubscription } from '@/api/push';
 
 interface AuthContextType {
   user: User | null;
@@ -169,6 +171,16 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   const signOut = async () => {
     logger.info('Attempting sign out.');
+    // This device stops receiving the user's pushes; removing the row needs the session, so it goes first
+    try {
+      const subscription = await getPushSubscription();
+      if (subscription) {
+        await deletePushSubscription(subscription.endpoint);
+        await subscription.unsubscribe();
+      }
+    } catch (error) {
+      logger.error('Error removing push subscription on sign out', error, { showToast: false });
+    }
     const { error } = await supabase.auth.signOut();
     if (error) {
       logger.error('Sign out error', error, { userMessage: error.message, showToast: true });
@@ -1,6 +1,9 @@
 import { supabase } from '../lib/supabase';
 import type { Profile, Ping } from '../types';
 import { logger } from '../lib/logger';
+import { createPing, fetchFeedPings, type FeedCursor, type FeedMode, type FeedPage } from '../api/pings';
+import { uploadPingMedia, type UploadedMedia } from '../api/storage';
+import { IMAGE_PRESETS, processImage, type ProcessedImage } from '../lib/imageProcessing';
 
 // Renaming class to ApiService for a more general purpose, incorporating profile and post logic
 export class ApiService {
@@ -52,6 +55,8 @@ export class ApiService {
             bio: updates.bio,
             location: updates.location, // Added location
             avatar_url: updates.avatar_url,
+            avatar_blurhash: updates.avatar_blurhash,
+            show_presence: updates.show_presence,
         };
         
         // Remove null/undefined values from allowedUpdates
@@ -81,6 +86,7 @@ export class ApiService {
 
     /**
      * Uploads a user avatar file to Supabase Storage and updates the avatar_url in the profile.
+     * The image is resized and stripped of EXIF metadata first, and its placeholder saved as avatar_blurhash.
      * @param file The File object to upload.
      */
     async uploadAvatar(file: File): Promise<Profile | null> {
@@ -90,14 +96,23 @@ export class ApiService {
             return null;
         }
 
-        const fileExtension = file.name.split('.').pop() || 'png';
-        const filePath = `avatars/${userId}/${Date.now()}_${file.name}`; // Use timestamp for unique path
+        // 1. Resize and re-encode the image
+        let processed: ProcessedImage;
+        try {
+            processed = await processImage(file, IMAGE_PRESETS.avatar);
+        } catch (processError) {
+            logger.error('Error processing avatar:', processError, { userMessage: 'Could not read that image.', showToast: true });
+            return null;
+        }
+
+        const filePath = `avatars/${userId}/${Date.now()}_${processed.file.name}`; // Use timestamp for unique path
 
-        // 1. Upload the file
+        // 2. Upload the file
         const { error: uploadError } = await supabase.storage
             .from('avatars') // Assuming 'avatars' bucket exists
-            .upload(filePath, file, {
+            .upload(filePath, processed.file, {
                 cacheControl: '3600',
+                contentType: processed.file.type,
                 upsert: true, // Overwrite existing file with the same path
             });
 
@@ -106,100 +121,57 @@ export class ApiService {
             return null;
         }
 
-        // 2. Get the public URL for the uploaded file
+        // 3. Get the public URL for the uploaded file
         const publicUrl = supabase.storage
             .from('avatars') // Assuming 'avatars' bucket exists
             .getPublicUrl(filePath).data.publicUrl;
 
-        // 3. Update the profile with the new avatar URL
-        return this.updateProfile({ avatar_url: publicUrl });
+        // 4. Update the profile with the new avatar URL and placeholder
+        return this.updateProfile({ avatar_url: publicUrl, avatar_blurhash: processed.blurhash });
     }
     
     // --- STEP 6: POST CREATION AND STORAGE LOGIC ---
 
     /**
-     * Creates a new post, optionally uploading an image first.
+     * Creates a new post, optionally uploading image or video attachments first.
      * @param content The text content of the post.
-     * @param imageFile Optional File object for the image.
+     * @param mediaFiles Optional attachments (up to 4 images or a single video).
      */
-    async createPost(content: string, imageFile?: File): Promise<Ping | null> {
+    async createPost(content: string, mediaFiles: File[] = []): Promise<Ping | null> {
         const userId = await this.getUserId();
         if (!userId) {
             logger.error('User not authenticated to create post.', { userMessage: 'Authentication required to create post.' });
             return null;
         }
 
-        let imageUrl: string | undefined = undefined;
-
-        // 1. Handle Image Upload if provided
-        if (imageFile) {
-            const fileExtension = imageFile.name.split('.').pop() || 'png';
-            // Use a unique path in the 'posts' bucket
-            const filePath = `posts/${userId}/${Date.now()}_${imageFile.name}`;
-
-            const { error: uploadError } = await supabase.storage
-                .from('posts') // Assuming 'posts' bucket exists
-                .upload(filePath, imageFile, {
-                    cacheControl: '3600',
-                    upsert: true,
-                });
-
-            if (uploadError) {
-                logger.error('Error uploading post image:', uploadError, { userMessage: 'Failed to upload post image.', showToast: true });
-                // Fail post creation if image upload fails
-                return null;
-            }
-
-            // 2. Get the public URL
-            imageUrl = supabase.storage
-                .from('posts') // Assuming 'posts' bucket exists
-                .getPublicUrl(filePath).data.publicUrl;
+        // 1. Upload the attachments to the 'media' bucket
+        let media: UploadedMedia[];
+        try {
+            media = await uploadPingMedia(mediaFiles);
+        } catch (uploadError) {
+            logger.error('Error uploading post media:', uploadError, { userMessage: 'Failed to upload post media.', showToast: true });
+            // Fail post creation if the upload fails
+            return null;
         }
 
-        // 3. Insert the new record into the 'pings' table
-        const { data, error } = await supabase
-            .from('pings')
-            .insert({
-                user_id: userId,
-                content: content,
-                image_url: imageUrl,
-            })
-            .select() // Return the newly created record
-            .single();
-
-        if (error) {
+        // 2. Insert the ping together with its 'ping_media' rows
+        try {
+            return await createPing({ user_id: userId, content, media }) as unknown as Ping;
+        } catch (error) {
             logger.error('Error inserting post:', error, { userMessage: 'Failed to create post.', showToast: true });
             return null;
         }
-
-        return data as Ping;
     }
     
     /**
-     * Retrieves posts from the 'posts' table with pagination.
+     * Retrieves a page of posts for the given feed mode using keyset pagination.
      * @param limit The maximum number of posts to return.
-     * @param offset The number of posts to skip.
+     * @param cursor The cursor returned with the previous page, or null for the first page.
+     * @param mode Which feed to load (following, latest or for_you).
      */
-    async getPosts(limit: number = 20, offset: number = 0): Promise<Ping[] | null> {
+    async getPosts(limit: number = 20, cursor: FeedCursor | null = null, mode: FeedMode = 'latest'): Promise<FeedPage<Ping> | null> {
         try {
-            // Fetch posts from 'pings' table (corrected from 'posts'), ordered by creation time descending
-            const { data, error } = await supabase
-                .from('pings')
-                .select(`
-                    *,
-                    profiles(id, username, display_name, verified, avatar_url),
-                    likes(id, user_id),
-                    comments(id)
-                `)
-                .order('created_at', { ascending: false })
-                .range(offset, offset + limit - 1);
-
-            if (error) {
-                logger.error('Error fetching posts:', error, { userMessage: 'Failed to load posts.', showToast: true });
-                return null;
-            }
-
-            return data as unknown as Ping[];
+            return await fetchFeedPings(mode, cursor, limit);
         } catch (error) {
              logger.error('Exception fetching posts:', error, { userMessage: 'Failed to load posts.', showToast: true });
              return null;
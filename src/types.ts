@@ -12,6 +12,9 @@ export interface Profile {
     avatar_url: string | null;
     is_admin: boolean; // Added for new schema
     location: string | null; // Added location
+    avatar_blurhash?: string | null; // Placeholder shown while the avatar loads
+    last_seen_at?: string | null; // Last heartbeat; NULL while presence is hidden
+    show_presence?: boolean; // Privacy setting: share online status and last seen
     full_name?: string; // Optional for backward compatibility if needed, but display_name is preferred
 }
  
@@ -25,9 +28,44 @@ export interface Ping {
     content: string;
     image_url: string | null;
     views: number; // Added views column
+    quoted_ping_id?: string | null; // Set when the ping quotes another ping
+    edited_at?: string | null; // Set when the content has been edited
     created_at: string; // Using string for timestamp representation
 }
 
+/**
+ * Ping Media Table Interface
+ * Reflects: one attachment of a ping (up to 4 images or a single video), with its dimensions and mime type.
+ */
+export interface PingMedia {
+    id: string;
+    ping_id: string;
+    user_id: string;
+    storage_path: string; // Path inside the 'media' bucket
+    url: string;
+    media_type: 'image' | 'video';
+    mime_type: string;
+    width: number | null;
+    height: number | null;
+    duration_seconds: number | null; // Videos only
+    blurhash: string | null; // Placeholder shown while the image loads; images only
+    alt_text: string | null; // Description written by the author; images only
+    position: number;
+    created_at: string;
+}
+
+/**
+ * Ping Revision Table Interface
+ * Reflects: a prior version of a ping's content, archived by the on_ping_content_edited trigger.
+ */
+export interface PingRevision {
+    id: string;
+    ping_id: string;
+    content: string;
+    created_at: string; // When this version was written
+    replaced_at: string; // When it was superseded by an edit
+}
+
 /**
  * Like Table Interface
  */
@@ -46,9 +84,45 @@ export interface Comment {
     ping_id: string;
     user_id: string;
     content: string;
+    parent_comment_id?: string | null; // Set for replies; null for top-level comments
     created_at: string;
     profiles?: Profile; // Added to match Home.tsx expectations
 }
+
+/**
+ * Ping Mention Table Interface
+ * Reflects: a user @mentioned in a ping (comment_id null) or in one of its comments, written by the on_*_mentions_changed triggers.
+ */
+export interface PingMention {
+    id: string;
+    ping_id: string;
+    comment_id: string | null;
+    mentioned_user_id: string; // Foreign key to profiles.id
+    created_at: string;
+}
+
+/**
+ * Link Preview Table Interface
+ * Reflects: OpenGraph/Twitter-card metadata cached per URL by the 'unfurl' edge function. All fields are NULL when the page had none.
+ */
+export interface LinkPreview {
+    url: string; // Primary key, normalized (no fragment)
+    title: string | null;
+    description: string | null;
+    image_url: string | null;
+    site_name: string | null;
+    fetched_at?: string;
+}
+
+/**
+ * Comment Like Table Interface
+ */
+export interface CommentLike {
+    id: string;
+    comment_id: string;
+    user_id: string;
+    created_at: string;
+}
  
 /**
  * Friendship Table Interface
@@ -62,16 +136,46 @@ export interface Friendship {
  
 /**
  * Notification Table Interface
- * Reflects: id (number/string), recipient_id (string, FK to profile), message (string), type (enum/string: 'friend_request', 'post_like', 'mention'), read (boolean).
+ * Reflects: user_id is the recipient and actor_id whoever caused the notification. The targets a notification
+ * has depend on its type, so the union below is discriminated on type.
  */
-export interface Notification {
-    id: string | number;
-    recipient_id: string; // Foreign key to profiles.id
-    message: string;
-    type: 'friend_request' | 'post_like' | 'mention';
-    read: boolean;
+export type NotificationType = 'like' | 'repost' | 'comment' | 'mention' | 'follow' | 'chat';
+
+export type NotificationActor = Pick<Profile, 'id' | 'username' | 'display_name' | 'avatar_url'> & { verified?: boolean };
+
+interface NotificationBase {
+    id: string;
+    user_id: string; // The recipient; foreign key to profiles.id
+    actor_id: string | null; // Null once the actor's account is gone
+    is_read: boolean;
+    created_at: string;
+    actor?: NotificationActor | null;
+    ping?: Pick<Ping, 'id' | 'content'> | null;
+    comment?: { id: string; content: string } | null;
 }
 
+export type Notification =
+    // Someone liked your ping, or your comment when comment_id is set
+    | (NotificationBase & { type: 'like'; ping_id: string; comment_id: string | null; chat_id: null })
+    | (NotificationBase & { type: 'repost'; ping_id: string; comment_id: null; chat_id: null })
+    | (NotificationBase & { type: 'comment'; ping_id: string; comment_id: string; chat_id: null })
+    // In a ping, or in a comment when comment_id is set
+    | (NotificationBase & { type: 'mention'; ping_id: string; comment_id: string | null; chat_id: null })
+    | (NotificationBase & { type: 'follow'; ping_id: null; comment_id: null; chat_id: null })
+    | (NotificationBase & { type: 'chat'; ping_id: null; comment_id: null; chat_id: string });
+
+/**
+ * Notification Preferences Table Interface
+ * Reflects: one row per user, enforced where notifications are created. A user without a row gets everything.
+ */
+export interface NotificationPreferences {
+    disabled_types: NotificationType[];
+    only_following: boolean; // Only notifications caused by people the user follows
+    email_digest: EmailDigestFrequency;
+}
+
+export type EmailDigestFrequency = 'off' | 'daily' | 'weekly';
+
 /**
  * Ping Interaction Table Interface
  * Reflects: ping_id (uuid), user_id (uuid), interaction_type ('LIKE' | 'REPOST')
@@ -90,9 +194,11 @@ export interface Chat {
   created_at: string;
   chat_name: string | null;
   is_group_chat: boolean;
+  is_encrypted?: boolean; // Direct chats only: messages are end-to-end encrypted (see lib/e2ee)
   last_message_id: string | null;
   messages?: Message[];
   participants?: ChatParticipant[];
+  chat_participants?: ChatParticipant[]; // As embedded by PostgREST selects
   last_message?: Message;
   unread?: boolean;
   last_read_at?: string | null;
@@ -100,35 +206,122 @@ export interface Chat {
 
 /**
  * Message Table Interface
+ * Reflects: 'system' messages ("Alice added Bob") are written by the group chat RPCs; sender_id is the actor.
  */
 export interface Message {
   id: string;
   created_at: string;
   chat_id: string;
-  sender_id: string;
+  sender_id: string | null;
   content: string;
-  is_read: boolean;
+  is_read: boolean; // Legacy flag; read state comes from chat_participants.last_read_at (see lib/receipts)
+  message_type?: MessageType;
+  metadata?: ChatSystemEvent | null;
   sender?: {
     display_name: string;
     username: string;
     verified: boolean;
     avatar_url: string;
   };
+  attachments?: MessageAttachment[]; // Missing on rows that come straight from realtime
+  edited_at?: string | null;
+  deleted_at?: string | null; // Set when the sender deleted the message for everyone; content is then empty
+  reply_to_id?: string | null;
+  reply_to?: MessageReplyPreview | null; // Null when the original is gone or hidden by the current user
+  reactions?: MessageReaction[];
+  is_encrypted?: boolean; // content is an encrypted envelope in the database
+  decryption?: 'pending' | 'failed'; // Client only: set on encrypted messages whose text isn't available (content is then empty)
 }
 
 /**
- * Chat Participant Table Interface
+ * The part of a replied-to message shown as a quote above the reply.
  */
-export interface ChatParticipant {
+export type MessageReplyPreview = Pick<Message, 'id' | 'content' | 'sender_id' | 'message_type' | 'deleted_at' | 'is_encrypted' | 'decryption'> & {
+  sender?: { display_name: string } | null;
+  attachments?: Pick<MessageAttachment, 'attachment_type' | 'file_name'>[];
+};
+
+/**
+ * Message Reaction Table Interface
+ * Reflects: one emoji reaction by one user; a user can add several different emoji to a message.
+ */
+export interface MessageReaction {
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  chat_id: string;
+  created_at?: string;
+}
+
+export type MessageType = 'text' | 'system';
+
+/**
+ * Device Key Table Interface
+ * Reflects: the public half of one device's end-to-end encryption key pair, listed on its owner's profile.
+ */
+export interface DeviceKey {
   id: string;
+  user_id: string;
+  public_key: JsonWebKey;
   created_at: string;
+}
+
+export type AttachmentType = 'image' | 'file' | 'voice';
+
+/**
+ * Message Attachment Table Interface
+ * Reflects: a file sent with a chat message, stored in the private 'chat-attachments' bucket.
+ * There is no public URL; read it through getChatAttachmentUrl (api/storage).
+ */
+export interface MessageAttachment {
+  id: string;
+  message_id: string;
   chat_id: string;
   user_id: string;
-  last_read_at: string | null;
+  storage_path: string; // '<chat_id>/<user_id>/<file>' inside the 'chat-attachments' bucket
+  attachment_type: AttachmentType;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null; // Images only
+  height: number | null; // Images only
+  duration_seconds: number | null; // Voice notes only
+  blurhash: string | null; // Images only
+  position: number;
+  created_at: string;
+}
+
+/**
+ * Metadata stored with a system message.
+ */
+export interface ChatSystemEvent {
+  event: 'created' | 'renamed' | 'added' | 'removed' | 'left' | 'role_changed' | 'encryption_enabled' | 'encryption_disabled';
+  actor_id: string | null;
+  target_id: string | null;
+}
+
+/**
+ * A participant's permissions in a chat: the owner manages admins, admins manage members and the name.
+ */
+export type ChatRole = 'owner' | 'admin' | 'member';
+
+/**
+ * Chat Participant Table Interface
+ */
+export interface ChatParticipant {
+  id: string;
+  created_at?: string;
+  joined_at?: string;
+  chat_id?: string;
+  user_id: string;
+  role?: ChatRole;
+  last_read_at?: string | null;
+  last_delivered_at?: string | null; // When this participant's device last received the chat's messages
   profiles?: {
     display_name: string;
     username: string;
     verified: boolean;
     avatar_url: string;
+    last_seen_at?: string | null;
   };
 }
\ No newline at end of file
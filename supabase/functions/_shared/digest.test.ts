@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { isDigestEmpty, MAX_DIGEST_NOTIFICATIONS, renderDigest, type DigestData } from './digest.ts';
+
+const data: DigestData = {
+  displayName: 'Ana <script>alert("hi")</script> & co',
+  frequency: 'daily',
+  appUrl: 'https://iping.test/',
+  notifications: [
+    { title: 'Bob & Carol liked your ping', body: '<img src=x onerror=alert(1)> "quoted" & \'single\'', url: '/post/1' },
+    { title: 'Dan followed you', url: '/profile/dan' },
+  ],
+  chats: [
+    { name: 'Eve', isGroupChat: false, unreadCount: 1, url: '/chats/2' },
+    { name: '<b>Team</b>', isGroupChat: true, unreadCount: 3, url: '/chats/3' },
+  ],
+};
+
+describe('renderDigest', () => {
+  it('renders the subject, HTML and text', () => {
+    expect(renderDigest(data)).toMatchSnapshot();
+  });
+
+  it('escapes display names, excerpts and chat names in the HTML', () => {
+    const { html } = renderDigest(data);
+
+    expect(html).toContain('Hi Ana &lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt; &amp; co,');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt; &quot;quoted&quot; &amp; &#39;single&#39;');
+    expect(html).toContain('3 unread messages in &lt;b&gt;Team&lt;/b&gt;');
+    expect(html).not.toMatch(/<script|<img|<b>/);
+  });
+
+  it('keeps the plain text unescaped', () => {
+    const { text } = renderDigest(data);
+
+    expect(text).toContain('Hi Ana <script>alert("hi")</script> & co,');
+    expect(text).toContain('- Bob & Carol liked your ping: "<img src=x onerror=alert(1)> "quoted" & \'single\'" https://iping.test/post/1');
+  });
+
+  it('lists only the newest notifications and links to the rest', () => {
+    const notifications = Array.from({ length: MAX_DIGEST_NOTIFICATIONS + 2 }, (_, i) => ({ title: `Notification ${i}`, url: `/post/${i}` }));
+    const { subject, html, text } = renderDigest({ ...data, frequency: 'weekly', notifications, chats: [] });
+
+    expect(subject).toBe('Your iPing weekly digest: 12 new notifications');
+    expect(text).toContain('...and 2 more: https://iping.test/notifications');
+    expect(html).toContain('…and 2 more');
+    expect(html).not.toContain(`Notification ${MAX_DIGEST_NOTIFICATIONS}<`);
+  });
+});
+
+describe('isDigestEmpty', () => {
+  it('is empty without notifications and chats', () => {
+    expect(isDigestEmpty({ notifications: [], chats: [] })).toBe(true);
+    expect(isDigestEmpty({ notifications: [], chats: data.chats })).toBe(false);
+  });
+});
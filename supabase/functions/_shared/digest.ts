@@ -0,0 +1,114 @@
+// Renders the email digest of unread activity as HTML and plain text.
+// Pure and runtime-agnostic, so a rendered digest can be compared against a snapshot as well as sent by the
+// 'send-digest' edge function.
+import type { NotificationText } from './notificationText.ts';
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DigestChat {
+  name: string;
+  isGroupChat: boolean;
+  unreadCount: number;
+  // App route of the chat
+  url: string;
+}
+
+export interface DigestData {
+  displayName: string;
+  frequency: DigestFrequency;
+  // Absolute base URL the app's routes are appended to, e.g. https://iping.online
+  appUrl: string;
+  // Newest first; only the first MAX_DIGEST_NOTIFICATIONS are listed
+  notifications: NotificationText[];
+  chats: DigestChat[];
+}
+
+export interface RenderedDigest {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const MAX_DIGEST_NOTIFICATIONS = 10;
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) => `${count} ${count === 1 ? singular : pluralForm}`;
+
+const link = (appUrl: string, route: string) => `${appUrl.replace(/\/+$/, '')}${route}`;
+
+/**
+ * Whether there is anything worth sending.
+ */
+export function isDigestEmpty(data: Pick<DigestData, 'notifications' | 'chats'>): boolean {
+  return data.notifications.length === 0 && data.chats.length === 0;
+}
+
+function summarize({ notifications, chats }: DigestData): string {
+  const parts: string[] = [];
+  if (notifications.length > 0) parts.push(plural(notifications.length, 'new notification'));
+  if (chats.length > 0) parts.push(`unread messages in ${plural(chats.length, 'chat')}`);
+  return parts.join(' and ');
+}
+
+const describeChat = (chat: DigestChat) =>
+  `${plural(chat.unreadCount, 'unread message')} ${chat.isGroupChat ? 'in' : 'from'} ${chat.name}`;
+
+/**
+ * Renders a digest. Chats only say who wrote and how much, never what: messages may be end-to-end encrypted,
+ * and plain ones shouldn't end up in an inbox either.
+ */
+export function renderDigest(data: DigestData): RenderedDigest {
+  const { displayName, frequency, appUrl, chats } = data;
+  const notifications = data.notifications.slice(0, MAX_DIGEST_NOTIFICATIONS);
+  const hiddenCount = data.notifications.length - notifications.length;
+  const period = frequency === 'daily' ? 'today' : 'this week';
+  const summary = summarize(data);
+  const subject = `Your iPing ${frequency} digest: ${summary}`;
+  const settingsUrl = link(appUrl, '/settings');
+
+  const text = [
+    `Hi ${displayName},`,
+    '',
+    `Here's what you missed on iPing ${period}: ${summary}.`,
+    ...(notifications.length > 0
+      ? ['', 'Notifications', ...notifications.map((n) => `- ${n.title}${n.body ? `: "${n.body}"` : ''} ${link(appUrl, n.url)}`)]
+      : []),
+    ...(hiddenCount > 0 ? [`...and ${plural(hiddenCount, 'more', 'more')}: ${link(appUrl, '/notifications')}`] : []),
+    ...(chats.length > 0 ? ['', 'Messages', ...chats.map((chat) => `- ${describeChat(chat)} ${link(appUrl, chat.url)}`)] : []),
+    '',
+    `You get this email because you turned on the ${frequency} digest. Change it in your settings: ${settingsUrl}`,
+  ].join('\n');
+
+  const section = (title: string, items: string[]) =>
+    `<h2 style="font-size:16px;margin:24px 0 8px">${escapeHtml(title)}</h2><ul style="list-style:none;margin:0;padding:0">${items.join('')}</ul>`;
+
+  const item = (url: string, title: string, body?: string) =>
+    `<li style="padding:8px 0;border-bottom:1px solid #eee"><a href="${escapeHtml(link(appUrl, url))}" style="color:#111;text-decoration:none;font-weight:600">${escapeHtml(title)}</a>` +
+    (body ? `<div style="color:#666;margin-top:2px">${escapeHtml(body)}</div>` : '') +
+    '</li>';
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">',
+    `<title>${escapeHtml(subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f5f5f7;font-family:-apple-system,BlinkMacSystemFont,\'Segoe UI\',sans-serif;font-size:14px;color:#111">',
+    '<div style="max-width:560px;margin:0 auto;background:#fff;border-radius:16px;padding:24px">',
+    `<p style="margin:0 0 8px">Hi ${escapeHtml(displayName)},</p>`,
+    `<p style="margin:0">Here's what you missed on iPing ${period}: ${escapeHtml(summary)}.</p>`,
+    notifications.length > 0
+      ? section('Notifications', [
+          ...notifications.map((n) => item(n.url, n.title, n.body)),
+          ...(hiddenCount > 0 ? [item('/notifications', `…and ${plural(hiddenCount, 'more', 'more')}`)] : []),
+        ])
+      : '',
+    chats.length > 0 ? section('Messages', chats.map((chat) => item(chat.url, describeChat(chat)))) : '',
+    `<p style="margin:24px 0 0;color:#666;font-size:12px">You get this email because you turned on the ${frequency} digest. ` +
+      `<a href="${escapeHtml(settingsUrl)}" style="color:#666">Change it in your settings</a>.</p>`,
+    '</div></body></html>',
+  ].join('\n');
+
+  return { subject, html, text };
+}
@@ -0,0 +1,147 @@
+import { createServer, type Server } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import nodemailer from 'nodemailer';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { renderDigest } from './digest.ts';
+import { smtpOptions } from './digestMail.ts';
+
+interface CaughtMail {
+  auth: string | null;
+  from: string;
+  to: string[];
+  data: string;
+}
+
+// A minimal SMTP catcher: accepts one login and every message, or refuses recipients when told to
+let server: Server;
+let port: number;
+let caught: CaughtMail[] = [];
+let refuseRecipients = false;
+
+beforeAll(async () => {
+  server = createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let mail: CaughtMail = { auth: null, from: '', to: [], data: '' };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply('220 catcher.test ESMTP');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          caught.push({ ...mail, data: buffer.slice(0, end).replace(/^\.\./gm, '.') });
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          reply('250 Queued');
+          continue;
+        }
+
+        const newline = buffer.indexOf('\r\n');
+        if (newline === -1) return;
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === 'EHLO') {
+          reply('250-catcher.test');
+          reply('250 AUTH PLAIN');
+        } else if (command === 'AUTH') {
+          mail.auth = Buffer.from(line.split(' ')[2], 'base64').toString('utf8');
+          reply('235 Authenticated');
+        } else if (command === 'MAIL') {
+          mail = { auth: mail.auth, from: /<(.*)>/.exec(line)![1], to: [], data: '' };
+          reply('250 OK');
+        } else if (command === 'RCPT') {
+          if (refuseRecipients) {
+            reply('451 Try again later');
+          } else {
+            mail.to.push(/<(.*)>/.exec(line)![1]);
+            reply('250 OK');
+          }
+        } else if (command === 'DATA') {
+          inData = true;
+          reply('354 Go ahead');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('250 OK');
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  caught = [];
+  refuseRecipients = false;
+});
+
+const env = (values: Record<string, string>) => (name: string) => values[name];
+
+// The message is all ASCII on the wire, so decoded bytes can go through latin1 before reading them as UTF-8
+const decodeQuotedPrintable = (text: string) =>
+  Buffer.from(
+    text.replace(/=\r\n/g, '').replace(/=([0-9A-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1',
+  ).toString('utf8');
+
+const digest = renderDigest({
+  displayName: 'Ana & <Bob>',
+  frequency: 'weekly',
+  appUrl: 'https://iping.test',
+  notifications: [{ title: 'Carol liked your ping', body: 'Tea > coffee', url: '/post/1' }],
+  chats: [],
+});
+
+describe('smtpOptions', () => {
+  it('defaults to STARTTLS on port 587 without a login', () => {
+    expect(smtpOptions(env({ SMTP_HOST: 'smtp.example.test' }))).toEqual({ host: 'smtp.example.test', port: 587, secure: false, auth: undefined });
+  });
+
+  it('uses implicit TLS on port 465 and logs in when a user is set', () => {
+    expect(smtpOptions(env({ SMTP_PORT: '465', SMTP_USER: 'digest', SMTP_PASS: 'secret' }))).toEqual({
+      host: 'localhost',
+      port: 465,
+      secure: true,
+      auth: { user: 'digest', pass: 'secret' },
+    });
+  });
+});
+
+describe('sending a digest over SMTP', () => {
+  it('delivers the rendered digest as HTML and plain text', async () => {
+    const transport = nodemailer.createTransport(
+      smtpOptions(env({ SMTP_HOST: '127.0.0.1', SMTP_PORT: String(port), SMTP_USER: 'digest', SMTP_PASS: 'secret' })),
+    );
+    await transport.sendMail({ from: 'iPing <digest@iping.test>', to: 'ana@example.test', ...digest });
+
+    expect(caught).toHaveLength(1);
+    const [mail] = caught;
+    expect(mail.auth).toBe('\0digest\0secret');
+    expect(mail.from).toBe('digest@iping.test');
+    expect(mail.to).toEqual(['ana@example.test']);
+    expect(mail.data).toMatch(/^Subject: Your iPing weekly digest: 1 new notification$/m);
+    expect(mail.data).toMatch(/^Content-Type: multipart\/alternative;/m);
+
+    const body = decodeQuotedPrintable(mail.data).replace(/\r\n/g, '\n');
+    expect(body).toContain(digest.text);
+    expect(body).toContain(digest.html);
+    expect(body).toContain('Hi Ana &amp; &lt;Bob&gt;,');
+  });
+
+  it('rejects when the server refuses the message', async () => {
+    refuseRecipients = true;
+    const transport = nodemailer.createTransport(smtpOptions(env({ SMTP_HOST: '127.0.0.1', SMTP_PORT: String(port) })));
+
+    await expect(transport.sendMail({ from: 'digest@iping.test', to: 'ana@example.test', ...digest })).rejects.toThrow(/451/);
+    expect(caught).toEqual([]);
+  });
+});
@@ -0,0 +1,26 @@
+// SMTP settings for the 'send-digest' edge function. The environment is passed as a lookup and nodemailer is
+// imported by the caller, so the same settings can be tested on Node against a local SMTP server.
+
+export type EnvLookup = (name: string) => string | undefined;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS; on any other port nodemailer upgrades with STARTTLS when the server offers it
+  secure: boolean;
+  auth?: { user: string; pass: string };
+}
+
+/**
+ * Reads SMTP_HOST, SMTP_PORT (default 587) and, when the server needs a login, SMTP_USER and SMTP_PASS.
+ */
+export function smtpOptions(env: EnvLookup): SmtpOptions {
+  const port = Number(env('SMTP_PORT') ?? 587);
+  const user = env('SMTP_USER');
+  return {
+    host: env('SMTP_HOST') ?? 'localhost',
+    port,
+    secure: port === 465,
+    auth: user ? { user, pass: env('SMTP_PASS') ?? '' } : undefined,
+  };
+}
@@ -0,0 +1,66 @@
+// Wording and links for single notifications outside the app (pushes, email digests).
+// Mirrors describeNotificationGroup and getNotificationLink in src/lib/notifications.ts.
+
+export interface NotificationRow {
+  id: string;
+  type: string;
+  ping_id: string | null;
+  comment_id: string | null;
+  chat_id: string | null;
+  actor: { display_name: string; username: string } | null;
+  ping: { content: string } | null;
+  comment: { content: string } | null;
+}
+
+export interface NotificationText {
+  title: string;
+  body?: string;
+  // An app route, e.g. /post/<id>
+  url: string;
+}
+
+/**
+ * Columns to select from 'notifications' for describeNotification.
+ */
+export const NOTIFICATION_TEXT_SELECT =
+  'id, type, ping_id, comment_id, chat_id, actor:profiles!actor_id (display_name, username), ping:pings (content), comment:comments (content)';
+
+const MAX_EXCERPT_LENGTH = 140;
+
+/**
+ * Collapses whitespace and shortens text to a one-line excerpt.
+ */
+export function excerpt(text: string | null | undefined, maxLength = MAX_EXCERPT_LENGTH): string | undefined {
+  const clean = (text ?? '').replace(/\s+/g, ' ').trim();
+  if (!clean) return undefined;
+  return clean.length > maxLength ? `${clean.slice(0, maxLength - 1)}…` : clean;
+}
+
+/**
+ * "Ana liked your ping", with an excerpt of what it is about and where to open it.
+ * @returns Null for types this doesn't know.
+ */
+export function describeNotification(notification: NotificationRow): NotificationText | null {
+  const { actor, ping, comment } = notification;
+  const name = actor?.display_name || 'Someone';
+  const postUrl = `/post/${notification.ping_id}`;
+
+  switch (notification.type) {
+    case 'like':
+      return notification.comment_id
+        ? { title: `${name} liked your comment`, body: excerpt(comment?.content), url: postUrl }
+        : { title: `${name} liked your ping`, body: excerpt(ping?.content), url: postUrl };
+    case 'repost':
+      return { title: `${name} reposted your ping`, body: excerpt(ping?.content), url: postUrl };
+    case 'comment':
+      return { title: `${name} commented on your ping`, body: excerpt(comment?.content), url: postUrl };
+    case 'mention':
+      return { title: `${name} mentioned you`, body: excerpt(comment?.content ?? ping?.content), url: postUrl };
+    case 'follow':
+      return { title: `${name} followed you`, url: actor ? `/${actor.username}` : '/notifications' };
+    case 'chat':
+      return { title: `${name} sent you a message`, url: `/chats/${notification.chat_id}` };
+    default:
+      return null;
+  }
+}
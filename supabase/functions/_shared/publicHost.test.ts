@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { assertPublicHost, isPrivateAddress, PrivateHostError } from './publicHost.ts';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.31.255.255',
+    '192.168.0.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '255.255.255.255',
+    '::',
+    '::1',
+    '[::1]',
+    '::ffff:7f00:1',
+    '::ffff:127.0.0.1',
+    '::ffff:10.0.0.1',
+    'fe80::1',
+    'febf::1',
+    'fd12:3456::1',
+    'ff02::1',
+    '64:ff9b::7f00:1',
+  ])('treats %s as private', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.215.14', '8.8.8.8', '172.32.0.1', '100.128.0.1', '2606:4700::1111', '::ffff:8.8.8.8', 'example.com'])(
+    'treats %s as public',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    },
+  );
+});
+
+describe('assertPublicHost', () => {
+  const resolve = async (hostname: string) =>
+    ({ 'public.test': ['93.184.215.14', '2606:4700::1111'], 'split.test': ['93.184.215.14', '10.0.0.1'] })[hostname] ?? [];
+
+  it('accepts names that only resolve to public addresses', async () => {
+    await expect(assertPublicHost('public.test', resolve)).resolves.toBeUndefined();
+  });
+
+  it('rejects names with any private address', async () => {
+    await expect(assertPublicHost('split.test', resolve)).rejects.toThrow(PrivateHostError);
+  });
+
+  it('rejects names that do not resolve', async () => {
+    await expect(assertPublicHost('missing.test', resolve)).rejects.toThrow(/Could not resolve/);
+  });
+
+  it('checks IP literals without resolving them', async () => {
+    const failingResolve = () => Promise.reject(new Error('should not resolve'));
+    await expect(assertPublicHost('[::ffff:7f00:1]', failingResolve)).rejects.toThrow(/not a public address/);
+    await expect(assertPublicHost('8.8.8.8', failingResolve)).resolves.toBeUndefined();
+  });
+
+  it('rejects localhost names', async () => {
+    await expect(assertPublicHost('localhost', resolve)).rejects.toThrow(/not a public host/);
+    await expect(assertPublicHost('app.localhost', resolve)).rejects.toThrow(/not a public host/);
+  });
+});
@@ -0,0 +1,139 @@
+// Keeps server-side requests to user-supplied URLs (link previews, push endpoints) out of the private network.
+// Host names are resolved and every address is matched against the private and reserved ranges, so names that
+// point inside, IPv4-mapped IPv6 literals and the like are caught too. Uses node:dns, which Deno and Node both
+// provide; the resolver can be swapped out, e.g. for tests.
+import { lookup } from 'node:dns/promises';
+
+/** Returns every address a host name resolves to. */
+export type ResolveHost = (hostname: string) => Promise<string[]>;
+
+export class PrivateHostError extends Error {}
+
+// [network, prefix length]
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata services
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24], // documentation
+  ['192.88.99.0', 24], // 6to4 relays
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+];
+
+const PRIVATE_IPV6_RANGES: [string, number][] = [
+  ['::', 8], // unspecified, loopback and IPv4-compatible (mapped addresses are checked as IPv4 first)
+  ['64:ff9b::', 96], // NAT64
+  ['64:ff9b:1::', 48],
+  ['100::', 64], // discard
+  ['2001::', 23], // protocol assignments, including Teredo
+  ['2001:db8::', 32], // documentation
+  ['2002::', 16], // 6to4
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['fec0::', 10], // site-local
+  ['ff00::', 8], // multicast
+];
+
+const PRIVATE_HOST_NAMES = /^localhost$|\.(localhost|local|internal)$/i;
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.map(Number);
+}
+
+function parseIPv6(address: string): number[] | null {
+  let text = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+  // A trailing dotted quad (::ffff:127.0.0.1) stands for the last two groups
+  const tail = /^(.*:)(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (tail) {
+    const ipv4 = parseIPv4(tail[2]);
+    if (!ipv4) return null;
+    text = `${tail[1]}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(missing).fill('0'), ...rest];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.flatMap((group) => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+function inRange(bytes: number[], network: number[], prefixLength: number): boolean {
+  for (let bit = 0; bit < prefixLength; bit++) {
+    const mask = 0x80 >> (bit % 8);
+    if ((bytes[bit >> 3] & mask) !== (network[bit >> 3] & mask)) return false;
+  }
+  return true;
+}
+
+const isPrivateIPv4 = (bytes: number[]) =>
+  PRIVATE_IPV4_RANGES.some(([network, prefixLength]) => inRange(bytes, parseIPv4(network)!, prefixLength));
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not a public internet address.
+ * @param address An IPv4 or IPv6 address, with or without brackets.
+ * @returns False for anything that isn't an IP address.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  const ipv6 = parseIPv6(address);
+  if (!ipv6) return false;
+  // ::ffff:a.b.c.d is the IPv4 address a.b.c.d
+  if (ipv6.slice(0, 10).every((byte) => byte === 0) && ipv6[10] === 0xff && ipv6[11] === 0xff) {
+    return isPrivateIPv4(ipv6.slice(12));
+  }
+  return PRIVATE_IPV6_RANGES.some(([network, prefixLength]) => inRange(ipv6, parseIPv6(network)!, prefixLength));
+}
+
+/**
+ * Resolves a host name with the system resolver, the same one fetch connects with.
+ */
+export const resolveHost: ResolveHost = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(({ address }) => address);
+
+/**
+ * Checks that a host and everything it resolves to is on the public internet.
+ * The check and the request resolve separately, so a name that changes its answer in between isn't caught; it
+ * does stop links and endpoints that simply point inside.
+ * @param hostname A URL's hostname; IPv6 literals keep their brackets.
+ * @param resolve Defaults to resolveHost.
+ * @throws PrivateHostError when the host is private or doesn't resolve.
+ */
+export async function assertPublicHost(hostname: string, resolve: ResolveHost = resolveHost): Promise<void> {
+  if (PRIVATE_HOST_NAMES.test(hostname)) throw new PrivateHostError(`${hostname} is not a public host`);
+
+  const literal = hostname.replace(/^\[|\]$/g, '');
+  if (parseIPv4(literal) || parseIPv6(literal)) {
+    if (isPrivateAddress(literal)) throw new PrivateHostError(`${hostname} is not a public address`);
+    return;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolve(hostname);
+  } catch (error) {
+    throw new PrivateHostError(`Could not resolve ${hostname}: ${(error as Error).message}`);
+  }
+  if (addresses.length === 0) throw new PrivateHostError(`Could not resolve ${hostname}`);
+  const privateAddress = addresses.find(isPrivateAddress);
+  if (privateAddress) throw new PrivateHostError(`${hostname} resolves to ${privateAddress}, which is not a public address`);
+}
@@ -0,0 +1,136 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { unfurl, UnfurlError } from './unfurl.ts';
+
+const PAGE = `<!DOCTYPE html>
+<html><head>
+<title>Fallback title</title>
+<meta property="og:title" content="Tom &amp; Jerry">
+<meta name="twitter:title" content="Twitter title">
+<meta name="description" content="  A   cat and a mouse  ">
+<meta property="og:image" content="/images/cover.png">
+<meta property="og:site_name" content="Cartoons">
+</head><body>ignored</body></html>`;
+
+let server: Server;
+let origin: string;
+const requested: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requested.push(req.url ?? '');
+    switch (req.url) {
+      case '/page':
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(PAGE);
+        break;
+      case '/moved':
+        res.writeHead(301, { Location: '/page' });
+        res.end();
+        break;
+      case '/to-internal-name':
+        res.writeHead(302, { Location: 'http://internal.test/secret' });
+        res.end();
+        break;
+      case '/to-mapped-loopback':
+        res.writeHead(307, { Location: 'http://[::ffff:7f00:1]/secret' });
+        res.end();
+        break;
+      case '/loop':
+        res.writeHead(302, { Location: '/loop' });
+        res.end();
+        break;
+      case '/data.json':
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{"title":"not a page"}');
+        break;
+      case '/huge': {
+        // A megabyte of <head> before the title; only the first chunks should ever be read
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.write('<html><head>');
+        const filler = `<meta name="filler" content="${'x'.repeat(16 * 1024)}">`;
+        for (let i = 0; i < 64; i++) res.write(filler);
+        res.end('<title>Too far</title></head></html>');
+        break;
+      }
+      default:
+        res.writeHead(404);
+        res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  requested.length = 0;
+});
+
+// Pretends public.test and internal.test are real hosts: the resolver says where they point, the fetch sends
+// every request to the fixture server whatever the host
+const resolve = async (hostname: string) =>
+  ({ 'public.test': ['93.184.215.14'], 'internal.test': ['10.0.0.7'] })[hostname] ?? [];
+const fixtureFetch: typeof fetch = (input, init) => {
+  const url = new URL(String(input));
+  return fetch(`${origin}${url.pathname}${url.search}`, init);
+};
+const publicOptions = { fetch: fixtureFetch, resolve };
+
+describe('unfurl', () => {
+  it('reads OpenGraph metadata from a page', async () => {
+    const preview = await unfurl(`${origin}/page#section`, { allowPrivateHosts: true });
+
+    expect(preview).toEqual({
+      url: `${origin}/page`,
+      title: 'Tom & Jerry',
+      description: 'A cat and a mouse',
+      image_url: `${origin}/images/cover.png`,
+      site_name: 'Cartoons',
+    });
+  });
+
+  it('follows redirects between public hosts but keeps the posted URL', async () => {
+    const preview = await unfurl('http://public.test/moved', publicOptions);
+
+    expect(preview.url).toBe('http://public.test/moved');
+    expect(preview.image_url).toBe('http://public.test/images/cover.png');
+    expect(requested).toEqual(['/moved', '/page']);
+  });
+
+  it('refuses private hosts unless they are allowed', async () => {
+    await expect(unfurl(`${origin}/page`)).rejects.toThrow(UnfurlError);
+    await expect(unfurl('http://localhost/page', publicOptions)).rejects.toThrow(/not a public host/);
+    expect(requested).toEqual([]);
+  });
+
+  it('does not follow a redirect to a name that resolves into the private network', async () => {
+    await expect(unfurl('http://public.test/to-internal-name', publicOptions)).rejects.toThrow(/resolves to 10\.0\.0\.7/);
+    expect(requested).toEqual(['/to-internal-name']);
+  });
+
+  it('does not follow a redirect to an IPv4-mapped loopback address', async () => {
+    await expect(unfurl('http://public.test/to-mapped-loopback', publicOptions)).rejects.toThrow(/not a public address/);
+    expect(requested).toEqual(['/to-mapped-loopback']);
+  });
+
+  it('gives up after too many redirects', async () => {
+    await expect(unfurl('http://public.test/loop', publicOptions)).rejects.toThrow(/Too many redirects/);
+  });
+
+  it('rejects responses that are not HTML', async () => {
+    await expect(unfurl(`${origin}/data.json`, { allowPrivateHosts: true })).rejects.toThrow(/Not an HTML page: application\/json/);
+  });
+
+  it('stops reading after maxBytes', async () => {
+    const preview = await unfurl(`${origin}/huge`, { allowPrivateHosts: true, maxBytes: 64 * 1024 });
+
+    expect(preview.title).toBeNull();
+    expect(preview.site_name).toBe('127.0.0.1');
+
+    const uncapped = await unfurl(`${origin}/huge`, { allowPrivateHosts: true, maxBytes: 4 * 1024 * 1024 });
+    expect(uncapped.title).toBe('Too far');
+  });
+});
@@ -0,0 +1,217 @@
+// Fetches a web page and extracts its OpenGraph / Twitter-card metadata.
+// Runtime-agnostic (no Deno or DOM APIs) and takes its fetch as an option, so it can be
+// exercised against a local HTTP fixture server as well as used by the 'unfurl' edge function.
+import { assertPublicHost, type ResolveHost } from './publicHost.ts';
+
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+export interface UnfurlOptions {
+  /** Defaults to the global fetch. */
+  fetch?: typeof fetch;
+  /** Abort the request after this many milliseconds. */
+  timeoutMs?: number;
+  /** Stop reading the page after this many bytes; metadata lives in <head>. */
+  maxBytes?: number;
+  /** Allow localhost and private network addresses (fixture servers). Off in production to prevent SSRF. */
+  allowPrivateHosts?: boolean;
+  /** Resolves host names for the private network check; defaults to the system resolver. */
+  resolve?: ResolveHost;
+}
+
+export class UnfurlError extends Error {}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_BYTES = 512 * 1024;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(codePoint) ? entity : String.fromCodePoint(codePoint);
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function clean(value: string | undefined, maxLength: number): string | null {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+/**
+ * Extracts preview metadata from a page's HTML. OpenGraph tags win over Twitter-card tags,
+ * which win over <title> and <meta name="description">. Relative image URLs are resolved against the page URL.
+ * @param html The page source (only the <head> is needed).
+ * @param pageUrl The final URL of the page, after redirects.
+ */
+export function parseLinkPreview(html: string, pageUrl: string): LinkPreview {
+  const meta: Record<string, string> = {};
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = readAttributes(match[0]);
+    const key = (attributes.property ?? attributes.name)?.toLowerCase();
+    // The first occurrence wins, like most unfurlers
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  const titleTag = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  const rawImage = meta['og:image'] ?? meta['og:image:url'] ?? meta['og:image:secure_url'] ?? meta['twitter:image'] ?? meta['twitter:image:src'];
+
+  let image_url: string | null = null;
+  if (rawImage) {
+    try {
+      const resolved = new URL(decodeEntities(rawImage.trim()), pageUrl);
+      image_url = resolved.protocol === 'https:' || resolved.protocol === 'http:' ? resolved.href : null;
+    } catch {
+      image_url = null;
+    }
+  }
+
+  return {
+    url: pageUrl,
+    title: clean(meta['og:title'] ?? meta['twitter:title'] ?? titleTag, MAX_TITLE_LENGTH),
+    description: clean(meta['og:description'] ?? meta['twitter:description'] ?? meta['description'], MAX_DESCRIPTION_LENGTH),
+    image_url,
+    site_name: clean(meta['og:site_name'], MAX_TITLE_LENGTH) ?? new URL(pageUrl).hostname.replace(/^www\./, ''),
+  };
+}
+
+/**
+ * Normalizes a URL for caching: http(s) only, no fragment, lowercase host.
+ * @throws UnfurlError for anything that isn't a valid http(s) URL.
+ */
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new UnfurlError(`Invalid URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new UnfurlError(`Unsupported protocol: ${parsed.protocol}`);
+  }
+  parsed.hash = '';
+  return parsed.href;
+}
+
+async function readLimited(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return response.text();
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let html = '';
+  let received = 0;
+
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    html += decoder.decode(value, { stream: true });
+    // Everything we need is in <head>
+    if (/<\/head>/i.test(html)) break;
+  }
+
+  await reader.cancel().catch(() => undefined);
+  return html;
+}
+
+/**
+ * Fetches a page and returns its preview metadata.
+ * @param url The link found in a ping.
+ * @param options Fetch implementation, limits and host policy (see UnfurlOptions).
+ * @throws UnfurlError when the URL is rejected, the request fails or the response isn't HTML.
+ */
+export async function unfurl(url: string, options: UnfurlOptions = {}): Promise<LinkPreview> {
+  const {
+    fetch: fetchImpl = globalThis.fetch,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxBytes = DEFAULT_MAX_BYTES,
+    allowPrivateHosts = false,
+    resolve,
+  } = options;
+
+  const normalized = normalizeUrl(url);
+  const checkHost = async (target: string) => {
+    if (allowPrivateHosts) return;
+    try {
+      await assertPublicHost(new URL(target).hostname, resolve);
+    } catch (error) {
+      throw new UnfurlError(`Refusing to unfurl ${target}: ${(error as Error).message}`);
+    }
+  };
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    // Redirects are followed by hand so every hop is checked before it is requested
+    let pageUrl = normalized;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      await checkHost(pageUrl);
+      response = await fetchImpl(pageUrl, {
+        signal: controller.signal,
+        redirect: 'manual',
+        headers: {
+          // Some sites only serve OpenGraph tags to known crawlers
+          'User-Agent': 'Mozilla/5.0 (compatible; iPingBot/1.0; +https://iping.online)',
+          Accept: 'text/html,application/xhtml+xml',
+        },
+      });
+
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.has(response.status) || !location) break;
+      await response.body?.cancel();
+      if (redirects === MAX_REDIRECTS) throw new UnfurlError(`Too many redirects fetching ${normalized}`);
+      pageUrl = normalizeUrl(new URL(location, pageUrl).href);
+    }
+
+    if (!response.ok) {
+      throw new UnfurlError(`Fetching ${normalized} failed with status ${response.status}`);
+    }
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+      throw new UnfurlError(`Not an HTML page: ${contentType || 'unknown content type'}`);
+    }
+
+    const html = await readLimited(response, maxBytes);
+    // Keep the URL the user posted as the cache key, even if the page redirected
+    return { ...parseLinkPreview(html, pageUrl), url: normalized };
+  } catch (error) {
+    if (error instanceof UnfurlError) throw error;
+    throw new UnfurlError(controller.signal.aborted ? `Timed out fetching ${normalized}` : `Could not fetch ${normalized}: ${(error as Error).message}`);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
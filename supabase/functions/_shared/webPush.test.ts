@@ -0,0 +1,158 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { fromBase64Url, sendWebPush, toBase64Url, WebPushError, type PushSubscriptionTarget, type VapidKeys } from './webPush.ts';
+
+interface ReceivedPush {
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+let server: Server;
+let origin: string;
+let received: ReceivedPush[] = [];
+// Status the mock push service answers with
+let status = 201;
+
+let vapid: VapidKeys;
+let userAgentKeys: CryptoKeyPair;
+let subscription: PushSubscriptionTarget;
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number) {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8));
+}
+
+// What the browser does with an aes128gcm push (RFC 8291), written out independently of the sender
+async function decryptPush(body: Uint8Array): Promise<string> {
+  const salt = body.slice(0, 16);
+  const keyIdLength = body[20];
+  const serverPublicKey = body.slice(21, 21 + keyIdLength);
+  const ciphertext = body.slice(21 + keyIdLength);
+
+  const userAgentPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', userAgentKeys.publicKey));
+  const serverKey = await crypto.subtle.importKey('raw', serverPublicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const sharedSecret = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: serverKey }, userAgentKeys.privateKey, 256));
+
+  const info = new Uint8Array([...encoder.encode('WebPush: info\0'), ...userAgentPublicKey, ...serverPublicKey]);
+  const ikm = await hkdf(fromBase64Url(subscription.auth), sharedSecret, info, 32);
+  const contentKey = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  const key = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['decrypt']);
+  const padded = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, key, ciphertext));
+  // The last record ends with a 0x02 delimiter, possibly followed by zero padding
+  const end = padded.lastIndexOf(2);
+  expect(padded.slice(end + 1).every((byte) => byte === 0)).toBe(true);
+  return new TextDecoder().decode(padded.slice(0, end));
+}
+
+beforeAll(async () => {
+  const vapidKeys = (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])) as CryptoKeyPair;
+  vapid = {
+    publicKey: toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', vapidKeys.publicKey))),
+    privateKey: (await crypto.subtle.exportKey('jwk', vapidKeys.privateKey)).d!,
+    subject: 'mailto:push@example.test',
+  };
+
+  userAgentKeys = (await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits'])) as CryptoKeyPair;
+
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      received.push({ url: req.url ?? '', headers: req.headers, body: new Uint8Array(Buffer.concat(chunks)) });
+      if (req.url === '/redirect') {
+        res.writeHead(307, { Location: '/internal' });
+      } else {
+        res.writeHead(status);
+      }
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  subscription = {
+    endpoint: `${origin}/push/device-1`,
+    p256dh: toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', userAgentKeys.publicKey))),
+    auth: toBase64Url(crypto.getRandomValues(new Uint8Array(16))),
+  };
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  received = [];
+  status = 201;
+});
+
+describe('sendWebPush', () => {
+  it('sends a VAPID-signed, aes128gcm-encrypted push the subscriber can decrypt', async () => {
+    const payload = JSON.stringify({ title: 'Ana liked your ping', url: '/post/1', tag: 'notification:1' });
+    const result = await sendWebPush(subscription, payload, vapid, { allowPrivateEndpoints: true, ttl: 60, urgency: 'high', topic: 'likes' });
+
+    expect(result).toEqual({ status: 201, gone: false });
+    expect(received).toHaveLength(1);
+    const [push] = received;
+    expect(push.url).toBe('/push/device-1');
+    expect(push.headers['content-encoding']).toBe('aes128gcm');
+    expect(push.headers.ttl).toBe('60');
+    expect(push.headers.urgency).toBe('high');
+    expect(push.headers.topic).toBe('likes');
+
+    await expect(decryptPush(push.body)).resolves.toBe(payload);
+  });
+
+  it('signs a JWT for the push service origin with the VAPID key', async () => {
+    await sendWebPush(subscription, 'hello', vapid, { allowPrivateEndpoints: true });
+
+    const match = /^vapid t=([\w-]+)\.([\w-]+)\.([\w-]+), k=([\w-]+)$/.exec(String(received[0].headers.authorization));
+    expect(match).not.toBeNull();
+    const [, header, claims, signature, key] = match!;
+    expect(key).toBe(vapid.publicKey);
+    expect(JSON.parse(new TextDecoder().decode(fromBase64Url(header)))).toEqual({ typ: 'JWT', alg: 'ES256' });
+
+    const { aud, sub, exp } = JSON.parse(new TextDecoder().decode(fromBase64Url(claims)));
+    expect(aud).toBe(origin);
+    expect(sub).toBe(vapid.subject);
+    const now = Date.now() / 1000;
+    expect(exp).toBeGreaterThan(now);
+    expect(exp).toBeLessThanOrEqual(now + 24 * 60 * 60);
+
+    const publicKey = await crypto.subtle.importKey('raw', fromBase64Url(key), { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      publicKey,
+      fromBase64Url(signature),
+      encoder.encode(`${header}.${claims}`),
+    );
+    expect(valid).toBe(true);
+  });
+
+  it('reports subscriptions the push service no longer knows as gone', async () => {
+    status = 410;
+    await expect(sendWebPush(subscription, 'hello', vapid, { allowPrivateEndpoints: true })).resolves.toEqual({ status: 410, gone: true });
+  });
+
+  it('does not follow redirects', async () => {
+    await expect(
+      sendWebPush({ ...subscription, endpoint: `${origin}/redirect` }, 'hello', vapid, { allowPrivateEndpoints: true }),
+    ).rejects.toThrow(/redirected with status 307/);
+    expect(received.map(({ url }) => url)).toEqual(['/redirect']);
+  });
+
+  it('refuses private and non-https endpoints unless they are allowed', async () => {
+    const resolve = async (hostname: string) => ({ 'push.example.test': ['10.0.0.8'] })[hostname] ?? [];
+
+    await expect(sendWebPush(subscription, 'hello', vapid)).rejects.toThrow(/must use https/);
+    await expect(sendWebPush({ ...subscription, endpoint: 'https://[::ffff:7f00:1]/push' }, 'hello', vapid)).rejects.toThrow(WebPushError);
+    await expect(
+      sendWebPush({ ...subscription, endpoint: 'https://push.example.test/push' }, 'hello', vapid, { resolve }),
+    ).rejects.toThrow(/resolves to 10\.0\.0\.8/);
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,207 @@
+// Sends Web Push messages: VAPID authentication (RFC 8292) and aes128gcm payload encryption (RFC 8291).
+// Runtime-agnostic (WebCrypto and fetch only) and takes its fetch as an option, so it can be exercised
+// against a local mock push endpoint as well as used by the 'send-push' edge function.
+import { assertPublicHost, type ResolveHost } from './publicHost.ts';
+
+export interface PushSubscriptionTarget {
+  endpoint: string;
+  /** The browser's P-256 public key, base64url (PushSubscription.getKey('p256dh')). */
+  p256dh: string;
+  /** The browser's authentication secret, base64url (PushSubscription.getKey('auth')). */
+  auth: string;
+}
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public key, base64url; the same key the browser subscribed with. */
+  publicKey: string;
+  /** The private scalar d, base64url (as printed by `npx web-push generate-vapid-keys`). */
+  privateKey: string;
+  /** Contact for push services, a mailto: or https: URL. */
+  subject: string;
+}
+
+export interface WebPushOptions {
+  /** Defaults to the global fetch. */
+  fetch?: typeof fetch;
+  /** How long the push service keeps an undelivered message, in seconds. */
+  ttl?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  /** Pending messages with the same topic replace each other; at most 32 base64url characters. */
+  topic?: string;
+  /** Allow http: and private network endpoints (mock push services). Off in production to prevent SSRF. */
+  allowPrivateEndpoints?: boolean;
+  /** Resolves host names for the private network check; defaults to the system resolver. */
+  resolve?: ResolveHost;
+}
+
+export interface WebPushResult {
+  status: number;
+  /** The subscription expired or was revoked; it should be deleted. */
+  gone: boolean;
+}
+
+export class WebPushError extends Error {}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+// Push services accept at least 4096 bytes of payload; the header, padding delimiter and tag take the rest
+const MAX_PAYLOAD_BYTES = 3993;
+
+const encoder = new TextEncoder();
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function concat(...parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number) {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Checks that an endpoint is somewhere a push service could be: https on a public host, by name and by address.
+ * @returns The parsed endpoint.
+ */
+export async function validateEndpoint(endpoint: string, allowPrivateEndpoints = false, resolve?: ResolveHost): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    throw new WebPushError('Invalid push endpoint');
+  }
+  if (allowPrivateEndpoints) {
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new WebPushError('Push endpoints must use http(s)');
+    return url;
+  }
+  if (url.protocol !== 'https:') throw new WebPushError('Push endpoints must use https');
+  try {
+    await assertPublicHost(url.hostname, resolve);
+  } catch (error) {
+    throw new WebPushError(`Push endpoints must be on a public host: ${(error as Error).message}`);
+  }
+  return url;
+}
+
+/**
+ * The VAPID Authorization header value for a push service: a signed JWT naming the service as audience.
+ * @param audience The origin of the push endpoint.
+ */
+export async function createVapidAuthorization(audience: string, vapid: VapidKeys): Promise<string> {
+  const publicKey = fromBase64Url(vapid.publicKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 4) throw new WebPushError('The VAPID public key must be an uncompressed P-256 point');
+
+  const signingKey = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: toBase64Url(publicKey.slice(1, 33)),
+      y: toBase64Url(publicKey.slice(33, 65)),
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign'],
+  );
+
+  const header = toBase64Url(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = toBase64Url(
+    encoder.encode(JSON.stringify({ aud: audience, exp: Math.floor(Date.now() / 1000) + JWT_LIFETIME_SECONDS, sub: vapid.subject })),
+  );
+  const unsigned = `${header}.${claims}`;
+  // WebCrypto ECDSA signatures are already r || s, the encoding JWS expects
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, signingKey, encoder.encode(unsigned));
+
+  return `vapid t=${unsigned}.${toBase64Url(new Uint8Array(signature))}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypts a payload for one subscription as a single aes128gcm record, header included.
+ */
+export async function encryptPayload(payload: Uint8Array, subscription: Pick<PushSubscriptionTarget, 'p256dh' | 'auth'>): Promise<Uint8Array> {
+  if (payload.length > MAX_PAYLOAD_BYTES) throw new WebPushError(`Push payloads are limited to ${MAX_PAYLOAD_BYTES} bytes`);
+
+  const userAgentPublicKey = fromBase64Url(subscription.p256dh);
+  const authSecret = fromBase64Url(subscription.auth);
+
+  const userAgentKey = await crypto.subtle.importKey('raw', userAgentPublicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const serverKeys = (await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits'])) as CryptoKeyPair;
+  const serverPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', serverKeys.publicKey));
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: userAgentKey }, serverKeys.privateKey, 256),
+  );
+
+  const ikm = await hkdf(authSecret, sharedSecret, concat(encoder.encode('WebPush: info\0'), userAgentPublicKey, serverPublicKey), 32);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  const key = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  // 0x02 marks the last (and only) record; no further padding
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, key, concat(payload, new Uint8Array([2]))));
+
+  const recordSize = new Uint8Array(4);
+  new DataView(recordSize.buffer).setUint32(0, RECORD_SIZE);
+  return concat(salt, recordSize, new Uint8Array([serverPublicKey.length]), serverPublicKey, ciphertext);
+}
+
+/**
+ * Delivers one push message to one subscription.
+ * @param payload The message the service worker receives, usually JSON.
+ * @returns The push service's status; 404 and 410 mean the subscription is gone for good.
+ * @throws WebPushError when the endpoint is rejected or the push service redirects.
+ */
+export async function sendWebPush(
+  subscription: PushSubscriptionTarget,
+  payload: string,
+  vapid: VapidKeys,
+  options: WebPushOptions = {},
+): Promise<WebPushResult> {
+  const { fetch: fetchImpl = fetch, ttl = DEFAULT_TTL_SECONDS, urgency = 'normal', topic, allowPrivateEndpoints = false, resolve } = options;
+  const endpoint = await validateEndpoint(subscription.endpoint, allowPrivateEndpoints, resolve);
+
+  const headers: Record<string, string> = {
+    Authorization: await createVapidAuthorization(endpoint.origin, vapid),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    TTL: String(ttl),
+    Urgency: urgency,
+  };
+  if (topic) headers.Topic = topic;
+
+  // Push services answer directly; a redirect (307/308 keep the POST) could only point somewhere unchecked
+  const response = await fetchImpl(endpoint.href, {
+    method: 'POST',
+    redirect: 'manual',
+    headers,
+    body: await encryptPayload(encoder.encode(payload), subscription),
+  });
+  await response.body?.cancel();
+  if (response.status >= 300 && response.status < 400) {
+    throw new WebPushError(`The push service redirected with status ${response.status}`);
+  }
+
+  return { status: response.status, gone: response.status === 404 || response.status === 410 };
+}
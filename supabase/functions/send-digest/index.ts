@@ -0,0 +1,121 @@
+// Edge function: sends the email digests that are due. Called hourly by the 'email-digest' cron job (see the email
+// digest migration) with the shared secret in x-digest-secret, so it is deployed without JWT verification:
+// `supabase functions deploy send-digest --no-verify-jwt`.
+//
+// Environment: DIGEST_WEBHOOK_SECRET, SMTP_HOST, SMTP_PORT, SMTP_USER and SMTP_PASS (optional), DIGEST_FROM, APP_URL.
+// To test locally, run an SMTP catcher such as Mailpit (SMTP on 1025, inbox on http://localhost:8025), serve the
+// function with SMTP_HOST and SMTP_PORT pointing at it, opt a user in and POST to the function with the secret.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import nodemailer from 'npm:nodemailer@6';
+import { isDigestEmpty, renderDigest, type DigestChat, type DigestFrequency } from '../_shared/digest.ts';
+import { smtpOptions } from '../_shared/digestMail.ts';
+import { describeNotification, NOTIFICATION_TEXT_SELECT, type NotificationRow, type NotificationText } from '../_shared/notificationText.ts';
+
+interface ClaimedDigest {
+  user_id: string;
+  email: string;
+  display_name: string | null;
+  frequency: DigestFrequency;
+  since: string;
+  previous_sent_at: string | null;
+  claimed_at: string;
+}
+
+interface UnreadChat {
+  chat_id: string;
+  chat_name: string | null;
+  is_group_chat: boolean;
+  unread_count: number;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+const transport = nodemailer.createTransport(smtpOptions((name) => Deno.env.get(name)));
+const from = Deno.env.get('DIGEST_FROM') ?? 'iPing <digest@iping.online>';
+const appUrl = Deno.env.get('APP_URL') ?? 'https://iping.online';
+
+// Digests claimed per run; the rest are still due on the next run
+const BATCH_SIZE = 100;
+// Unread notifications looked at per digest, like the app's notification list
+const NOTIFICATION_LIMIT = 100;
+
+async function collectNotifications(userId: string, since: string): Promise<NotificationText[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(NOTIFICATION_TEXT_SELECT)
+    .eq('user_id', userId)
+    .eq('is_read', false)
+    .gt('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+  if (error) throw new Error(error.message);
+
+  return (data as unknown as NotificationRow[]).flatMap((notification) => describeNotification(notification) ?? []);
+}
+
+async function collectChats(userId: string, since: string): Promise<DigestChat[]> {
+  const { data, error } = await supabase.rpc('digest_unread_chats', { _user_id: userId, _since: since });
+  if (error) throw new Error(error.message);
+
+  return (data as UnreadChat[]).map((chat) => ({
+    name: chat.chat_name || (chat.is_group_chat ? 'a group' : 'someone'),
+    isGroupChat: chat.is_group_chat,
+    unreadCount: Number(chat.unread_count),
+    url: `/chats/${chat.chat_id}`,
+  }));
+}
+
+async function sendDigest(digest: ClaimedDigest): Promise<boolean> {
+  const [notifications, chats] = await Promise.all([
+    collectNotifications(digest.user_id, digest.since),
+    collectChats(digest.user_id, digest.since),
+  ]);
+  if (isDigestEmpty({ notifications, chats })) return false;
+
+  const { subject, html, text } = renderDigest({
+    displayName: digest.display_name || 'there',
+    frequency: digest.frequency,
+    appUrl,
+    notifications,
+    chats,
+  });
+  await transport.sendMail({ from, to: digest.email, subject, html, text });
+  return true;
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const secret = Deno.env.get('DIGEST_WEBHOOK_SECRET');
+  if (!secret || req.headers.get('x-digest-secret') !== secret) return json({ error: 'Unauthorized' }, 401);
+
+  // Claiming stamps digest_sent_at first so overlapping runs can't send twice; a failed digest is released again
+  const { data, error } = await supabase.rpc('claim_email_digests', { _limit: BATCH_SIZE });
+  if (error) return json({ error: error.message }, 500);
+
+  let sent = 0;
+  let empty = 0;
+  let failed = 0;
+  // One at a time: SMTP servers throttle bursts
+  for (const digest of data as ClaimedDigest[]) {
+    try {
+      if (await sendDigest(digest)) sent++;
+      else empty++;
+    } catch (error) {
+      failed++;
+      console.error('Sending digest failed', digest.user_id, (error as Error).message);
+      // Puts the previous stamp back, so the digest is due again and the next run retries it
+      const { error: releaseError } = await supabase.rpc('release_email_digest', {
+        _user_id: digest.user_id,
+        _claimed_at: digest.claimed_at,
+        _previous_sent_at: digest.previous_sent_at,
+      });
+      if (releaseError) console.error('Releasing digest failed', digest.user_id, releaseError.message);
+    }
+  }
+
+  return json({ sent, empty, failed });
+});
@@ -0,0 +1,131 @@
+// Edge function: delivers Web Push messages for a new notification or chat message to the recipients' devices.
+// Called by public.request_push (see the web push migration) with { kind, id, user_ids } and the shared secret in
+// x-push-secret, so it is deployed without JWT verification: `supabase functions deploy send-push --no-verify-jwt`.
+//
+// Environment: PUSH_WEBHOOK_SECRET, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT (mailto: or https: contact).
+// To test locally, generate keys with `npx web-push generate-vapid-keys`, set PUSH_ALLOW_PRIVATE_ENDPOINTS=true and
+// save a subscription whose endpoint is a mock push service on localhost; the mock receives the encrypted request.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { sendWebPush, type VapidKeys } from '../_shared/webPush.ts';
+import { describeNotification, excerpt, NOTIFICATION_TEXT_SELECT, type NotificationRow } from '../_shared/notificationText.ts';
+
+interface PushMessage {
+  title: string;
+  body?: string;
+  // The route the app opens when the push is tapped
+  url: string;
+  // Pushes with the same tag replace each other on the device
+  tag: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+const vapid: VapidKeys = {
+  publicKey: Deno.env.get('VAPID_PUBLIC_KEY') ?? '',
+  privateKey: Deno.env.get('VAPID_PRIVATE_KEY') ?? '',
+  subject: Deno.env.get('VAPID_SUBJECT') ?? 'mailto:support@iping.online',
+};
+const allowPrivateEndpoints = Deno.env.get('PUSH_ALLOW_PRIVATE_ENDPOINTS') === 'true';
+
+async function describeNotificationPush(notificationId: string): Promise<PushMessage | null> {
+  const { data, error } = await supabase.from('notifications').select(NOTIFICATION_TEXT_SELECT).eq('id', notificationId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  const notification = data as unknown as NotificationRow;
+  const text = describeNotification(notification);
+  if (!text) return null;
+
+  return { ...text, tag: notification.type === 'chat' ? `chat:${notification.chat_id}` : `notification:${notification.id}` };
+}
+
+async function describeMessagePush(messageId: string): Promise<PushMessage | null> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('chat_id, content, is_encrypted, deleted_at, sender:profiles (display_name), chat:chats!chat_id (chat_name, is_group_chat)')
+    .eq('id', messageId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data || data.deleted_at) return null;
+
+  const sender = data.sender as unknown as { display_name: string } | null;
+  const chat = data.chat as unknown as { chat_name: string | null; is_group_chat: boolean } | null;
+  const name = sender?.display_name || 'Someone';
+
+  return {
+    title: chat?.is_group_chat ? `${name} in ${chat.chat_name || 'a group'}` : name,
+    // Encrypted content is an envelope only the recipients' devices can open; it never goes into a push
+    body: data.is_encrypted ? 'Encrypted message' : excerpt(data.content) ?? 'Sent an attachment',
+    url: `/chats/${data.chat_id}`,
+    tag: `chat:${data.chat_id}`,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const secret = Deno.env.get('PUSH_WEBHOOK_SECRET');
+  if (!secret || req.headers.get('x-push-secret') !== secret) return json({ error: 'Unauthorized' }, 401);
+  if (!vapid.publicKey || !vapid.privateKey) return json({ error: 'VAPID keys are not configured' }, 500);
+
+  let kind: string, id: string, userIds: string[];
+  try {
+    const body = await req.json();
+    kind = String(body?.kind);
+    id = String(body?.id);
+    userIds = Array.isArray(body?.user_ids) ? body.user_ids.map(String) : [];
+  } catch {
+    return json({ error: 'Expected a JSON body with kind, id and user_ids' }, 400);
+  }
+  if ((kind !== 'notification' && kind !== 'message') || userIds.length === 0) {
+    return json({ error: 'Expected a JSON body with kind, id and user_ids' }, 400);
+  }
+
+  let message: PushMessage | null;
+  try {
+    message = kind === 'notification' ? await describeNotificationPush(id) : await describeMessagePush(id);
+  } catch (error) {
+    return json({ error: (error as Error).message }, 500);
+  }
+  // Removed before the push went out, e.g. an unlike right after the like
+  if (!message) return json({ sent: 0, removed: 0 });
+
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .in('user_id', userIds);
+  if (error) return json({ error: error.message }, 500);
+
+  const payload = JSON.stringify(message);
+  const results = await Promise.allSettled(
+    subscriptions.map((subscription) =>
+      sendWebPush(subscription, payload, vapid, { allowPrivateEndpoints, urgency: kind === 'message' ? 'high' : 'normal' }),
+    ),
+  );
+
+  const goneIds: string[] = [];
+  let sent = 0;
+  results.forEach((result, index) => {
+    const subscription = subscriptions[index];
+    if (result.status === 'rejected') {
+      console.warn('Push failed', subscription.endpoint, (result.reason as Error).message);
+    } else if (result.value.gone) {
+      goneIds.push(subscription.id);
+    } else if (result.value.status >= 400) {
+      console.warn('Push rejected', subscription.endpoint, result.value.status);
+    } else {
+      sent++;
+    }
+  });
+
+  // Expired or revoked subscriptions won't come back; the device has to turn push on again in Settings
+  if (goneIds.length > 0) {
+    const { error: deleteError } = await supabase.from('push_subscriptions').delete().in('id', goneIds);
+    if (deleteError) console.error('Removing expired push subscriptions failed', deleteError.message);
+  }
+
+  return json({ sent, removed: goneIds.length });
+});
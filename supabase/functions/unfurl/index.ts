@@ -0,0 +1,53 @@
+// Edge function: returns the link preview for a URL, unfurling and caching it in 'link_previews' on first request.
+// Each URL is fetched at most once; failures are cached as empty previews so broken links aren't retried on every view.
+//
+// Environment: UNFURL_ALLOW_PRIVATE_HOSTS=true lets links point at localhost and private networks, e.g. to unfurl a
+// fixture server while testing locally. Never set it in production: anyone could make the function fetch internal URLs.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { normalizeUrl, unfurl, UnfurlError, type LinkPreview } from '../_shared/unfurl.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+const allowPrivateHosts = Deno.env.get('UNFURL_ALLOW_PRIVATE_HOSTS') === 'true';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  let url: string;
+  try {
+    const body = await req.json();
+    url = normalizeUrl(String(body?.url ?? ''));
+  } catch (error) {
+    return json({ error: error instanceof UnfurlError ? error.message : 'Expected a JSON body with a url' }, 400);
+  }
+
+  const { data: cached, error: cacheError } = await supabase
+    .from('link_previews')
+    .select('url, title, description, image_url, site_name')
+    .eq('url', url)
+    .maybeSingle();
+  if (cacheError) return json({ error: cacheError.message }, 500);
+  if (cached) return json(cached);
+
+  let preview: LinkPreview;
+  try {
+    preview = await unfurl(url, { allowPrivateHosts });
+  } catch (error) {
+    console.warn('Unfurl failed', url, (error as Error).message);
+    preview = { url, title: null, description: null, image_url: null, site_name: null };
+  }
+
+  const { error: upsertError } = await supabase.from('link_previews').upsert({ ...preview, fetched_at: new Date().toISOString() });
+  if (upsertError) console.error('Caching link preview failed', url, upsertError.message);
+
+  return json(preview);
+});
@@ -0,0 +1,6 @@
+-- Migration for keyset (cursor) pagination of the feed
+
+-- 1. Composite index matching the feed ordering (created_at DESC, id DESC)
+-- Supersedes idx_pings_created_at_desc for feed queries; ties on created_at are broken by id.
+CREATE INDEX IF NOT EXISTS idx_pings_created_at_id_desc
+ON public.pings USING btree (created_at DESC, id DESC);
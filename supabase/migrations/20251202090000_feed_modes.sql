@@ -0,0 +1,68 @@
+-- Migration for feed modes: Following (follows table) and ranked "For You" feed
+
+-- 1. Create the follows table used by followUser/unfollowUser (idempotent)
+-- follower_id defaults to auth.uid() so the client only sends followed_id.
+CREATE TABLE IF NOT EXISTS public.follows (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    follower_id uuid NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    followed_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now(),
+    UNIQUE (follower_id, followed_id) -- A user can only follow another user once
+);
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_follows_follower_id ON public.follows (follower_id);
+
+-- 2. RLS Policies for follows: everyone can read the social graph, users manage their own follows
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'follows' AND policyname = 'Follows are viewable by authenticated users.'
+    ) THEN
+        CREATE POLICY "Follows are viewable by authenticated users." ON public.follows FOR SELECT USING (auth.role() = 'authenticated');
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'follows' AND policyname = 'Users can follow/unfollow as themselves.'
+    ) THEN
+        CREATE POLICY "Users can follow/unfollow as themselves." ON public.follows FOR ALL USING (auth.uid() = follower_id) WITH CHECK (auth.uid() = follower_id);
+    END IF;
+END
+$$;
+
+-- 3. Ranking score as a computed field (selectable as `rank_score` through PostgREST)
+-- Engagement is log-scaled and recency is added as created_at epoch / 45000, so a ping needs
+-- ~10x the engagement to outrank one posted 12.5 hours later. The score does not depend on now(),
+-- which keeps keyset pagination over (rank_score, id) stable between page requests.
+CREATE OR REPLACE FUNCTION public.rank_score(p public.pings)
+RETURNS double precision
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT log(greatest(1,
+               (SELECT count(*) FROM public.likes l WHERE l.ping_id = p.id)
+             + (SELECT count(*) FROM public.comments c WHERE c.ping_id = p.id) * 2
+             + coalesce(p.views, 0) / 10.0
+           ))
+         + extract(epoch FROM p.created_at) / 45000;
+$$;
+
+-- 4. Ranked feed RPC: returns pings ordered by (rank_score, id) DESC, strictly after the cursor
+CREATE OR REPLACE FUNCTION public.get_ranked_feed(
+    _after_score double precision DEFAULT NULL,
+    _after_id uuid DEFAULT NULL,
+    _limit integer DEFAULT 20
+)
+RETURNS SETOF public.pings
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT p.*
+    FROM public.pings p
+    WHERE _after_score IS NULL
+       OR public.rank_score(p) < _after_score
+       OR (public.rank_score(p) = _after_score AND p.id < _after_id)
+    ORDER BY public.rank_score(p) DESC, p.id DESC
+    LIMIT _limit;
+$$;
@@ -0,0 +1,93 @@
+-- Migration for reposts (ping_interactions) and quote pings
+
+-- 1. Create the ping_interactions table (matches the PingInteraction interface)
+-- Likes still live in public.likes; REPOST is the only interaction written by the client today.
+CREATE TABLE IF NOT EXISTS public.ping_interactions (
+    ping_id uuid NOT NULL REFERENCES public.pings(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    interaction_type text NOT NULL CHECK (interaction_type IN ('LIKE', 'REPOST')),
+    created_at timestamp with time zone DEFAULT now(),
+    PRIMARY KEY (ping_id, user_id, interaction_type) -- A user can only repost a ping once
+);
+ALTER TABLE public.ping_interactions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_ping_interactions_user_created
+ON public.ping_interactions (user_id, created_at DESC);
+
+-- 2. RLS Policies for ping_interactions
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'ping_interactions' AND policyname = 'Authenticated users can read ping interactions.'
+    ) THEN
+        CREATE POLICY "Authenticated users can read ping interactions." ON public.ping_interactions FOR SELECT USING (auth.role() = 'authenticated');
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'ping_interactions' AND policyname = 'Users can manage their own ping interactions.'
+    ) THEN
+        CREATE POLICY "Users can manage their own ping interactions." ON public.ping_interactions FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+    END IF;
+END
+$$;
+
+-- 3. Quote pings reference the ping they embed
+ALTER TABLE public.pings
+ADD COLUMN IF NOT EXISTS quoted_ping_id uuid REFERENCES public.pings(id) ON DELETE SET NULL;
+
+-- 4. Following feed RPC: pings by the current user and the users they follow, plus pings those users
+-- reposted. Each ping appears once, at its most recent feed_at, with reposted_by set when the entry is a repost.
+-- Ordered by (feed_at, ping_id) DESC and paginated strictly after the given cursor.
+CREATE OR REPLACE FUNCTION public.get_following_feed(
+    _after_at timestamp with time zone DEFAULT NULL,
+    _after_id uuid DEFAULT NULL,
+    _limit integer DEFAULT 20
+)
+RETURNS TABLE (ping_id uuid, reposted_by uuid, feed_at timestamp with time zone)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    WITH authors AS (
+        SELECT auth.uid() AS user_id
+        UNION
+        SELECT f.followed_id FROM public.follows f WHERE f.follower_id = auth.uid()
+    ),
+    entries AS (
+        SELECT p.id AS ping_id, NULL::uuid AS reposted_by, p.created_at AS feed_at
+        FROM public.pings p
+        JOIN authors a ON a.user_id = p.user_id
+        UNION ALL
+        SELECT i.ping_id, i.user_id, i.created_at
+        FROM public.ping_interactions i
+        JOIN authors a ON a.user_id = i.user_id
+        WHERE i.interaction_type = 'REPOST'
+    ),
+    latest AS (
+        SELECT DISTINCT ON (e.ping_id) e.ping_id, e.reposted_by, e.feed_at
+        FROM entries e
+        ORDER BY e.ping_id, e.feed_at DESC
+    )
+    SELECT l.ping_id, l.reposted_by, l.feed_at
+    FROM latest l
+    WHERE _after_at IS NULL
+       OR l.feed_at < _after_at
+       OR (l.feed_at = _after_at AND l.ping_id < _after_id)
+    ORDER BY l.feed_at DESC, l.ping_id DESC
+    LIMIT _limit;
+$$;
+
+-- 5. Reposts count towards the ranked feed score alongside likes, comments and views
+CREATE OR REPLACE FUNCTION public.rank_score(p public.pings)
+RETURNS double precision
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT log(greatest(1,
+               (SELECT count(*) FROM public.likes l WHERE l.ping_id = p.id)
+             + (SELECT count(*) FROM public.comments c WHERE c.ping_id = p.id) * 2
+             + (SELECT count(*) FROM public.ping_interactions i WHERE i.ping_id = p.id AND i.interaction_type = 'REPOST') * 3
+             + coalesce(p.views, 0) / 10.0
+           ))
+         + extract(epoch FROM p.created_at) / 45000;
+$$;
@@ -0,0 +1,48 @@
+-- Migration for threaded comments (replies-to-replies) and comment likes
+
+-- 1. Replies reference their parent comment; top-level comments keep parent_comment_id NULL
+ALTER TABLE public.comments
+ADD COLUMN IF NOT EXISTS parent_comment_id uuid REFERENCES public.comments(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_comments_ping_id_created_at
+ON public.comments (ping_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_comments_parent_comment_id
+ON public.comments (parent_comment_id);
+
+-- 2. Allow authenticated users to read every comment (the existing FOR ALL policy only exposes their own)
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'comments' AND policyname = 'Authenticated users can read all comments.'
+    ) THEN
+        CREATE POLICY "Authenticated users can read all comments." ON public.comments FOR SELECT USING (auth.role() = 'authenticated');
+    END IF;
+END
+$$;
+
+-- 3. Create the comment_likes table (mirrors public.likes)
+CREATE TABLE IF NOT EXISTS public.comment_likes (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    comment_id uuid NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now(),
+    UNIQUE (comment_id, user_id) -- A user can only like a comment once
+);
+ALTER TABLE public.comment_likes ENABLE ROW LEVEL SECURITY;
+
+-- 4. RLS Policies for comment_likes
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'comment_likes' AND policyname = 'Authenticated users can read comment likes.'
+    ) THEN
+        CREATE POLICY "Authenticated users can read comment likes." ON public.comment_likes FOR SELECT USING (auth.role() = 'authenticated');
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'comment_likes' AND policyname = 'Users can like/unlike comments.'
+    ) THEN
+        CREATE POLICY "Users can like/unlike comments." ON public.comment_likes FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+    END IF;
+END
+$$;
@@ -0,0 +1,53 @@
+-- Migration for ping editing with a visible edit history
+
+-- 1. Track when a ping's content was last edited (NULL = never edited)
+ALTER TABLE public.pings
+ADD COLUMN IF NOT EXISTS edited_at timestamp with time zone;
+
+-- 2. Create the ping_revisions table: one row per prior version of a ping's content
+CREATE TABLE IF NOT EXISTS public.ping_revisions (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    ping_id uuid NOT NULL REFERENCES public.pings(id) ON DELETE CASCADE,
+    content text NOT NULL,
+    created_at timestamp with time zone NOT NULL, -- When this version was written
+    replaced_at timestamp with time zone DEFAULT now() -- When it was superseded by an edit
+);
+ALTER TABLE public.ping_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_ping_revisions_ping_id
+ON public.ping_revisions (ping_id, replaced_at DESC);
+
+-- 3. RLS Policy for ping_revisions: anyone signed in can read the history; rows are only written by the trigger
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'ping_revisions' AND policyname = 'Authenticated users can read ping revisions.'
+    ) THEN
+        CREATE POLICY "Authenticated users can read ping revisions." ON public.ping_revisions FOR SELECT USING (auth.role() = 'authenticated');
+    END IF;
+END
+$$;
+
+-- 4. Function to archive the previous content whenever a ping's content changes
+-- Runs as definer so the archive insert is not subject to ping_revisions RLS.
+CREATE OR REPLACE FUNCTION public.handle_ping_edit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO public.ping_revisions (ping_id, content, created_at)
+    VALUES (OLD.id, OLD.content, COALESCE(OLD.edited_at, OLD.created_at));
+    NEW.edited_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 5. Trigger to call handle_ping_edit on content updates (view count updates don't fire it)
+DROP TRIGGER IF EXISTS on_ping_content_edited ON public.pings;
+
+CREATE TRIGGER on_ping_content_edited
+BEFORE UPDATE OF content ON public.pings
+FOR EACH ROW EXECUTE PROCEDURE public.handle_ping_edit();
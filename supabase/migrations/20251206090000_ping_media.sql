@@ -0,0 +1,65 @@
+-- Migration for ping media attachments (up to 4 images or one short video per ping)
+
+-- 1. Create the ping_media table: one row per uploaded file, with its dimensions and mime type
+-- pings.image_url is kept for pings created before attachments existed.
+CREATE TABLE IF NOT EXISTS public.ping_media (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    ping_id uuid NOT NULL REFERENCES public.pings(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    storage_path text NOT NULL, -- Path inside the 'media' bucket
+    url text NOT NULL,
+    media_type text NOT NULL CHECK (media_type IN ('image', 'video')),
+    mime_type text NOT NULL,
+    width integer,
+    height integer,
+    duration_seconds real, -- Videos only
+    position smallint NOT NULL DEFAULT 0 CHECK (position BETWEEN 0 AND 3),
+    created_at timestamp with time zone DEFAULT now(),
+    UNIQUE (ping_id, position)
+);
+ALTER TABLE public.ping_media ENABLE ROW LEVEL SECURITY;
+
+-- 2. RLS Policies for ping_media: readable like pings, written only by the ping's author
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'ping_media' AND policyname = 'Authenticated users can read ping media.'
+    ) THEN
+        CREATE POLICY "Authenticated users can read ping media." ON public.ping_media FOR SELECT USING (auth.role() = 'authenticated');
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'ping_media' AND policyname = 'Users can attach media to their own pings.'
+    ) THEN
+        CREATE POLICY "Users can attach media to their own pings." ON public.ping_media FOR INSERT
+        WITH CHECK (auth.uid() = user_id AND EXISTS (SELECT 1 FROM public.pings WHERE id = ping_id AND user_id = auth.uid()));
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'ping_media' AND policyname = 'Users can delete their own ping media.'
+    ) THEN
+        CREATE POLICY "Users can delete their own ping media." ON public.ping_media FOR DELETE USING (auth.uid() = user_id);
+    END IF;
+END
+$$;
+
+-- 3. Enforce the attachment mix server-side: up to 4 images, or exactly one video with nothing else
+CREATE OR REPLACE FUNCTION public.check_ping_media_mix()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.ping_media
+    WHERE ping_id = NEW.ping_id AND (media_type = 'video' OR NEW.media_type = 'video')
+  ) THEN
+    RAISE EXCEPTION 'A ping can have up to 4 images or a single video.';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_ping_media_insert ON public.ping_media;
+
+CREATE TRIGGER on_ping_media_insert
+BEFORE INSERT ON public.ping_media
+FOR EACH ROW EXECUTE PROCEDURE public.check_ping_media_mix();
@@ -0,0 +1,9 @@
+-- Migration for blurhash placeholders generated on the client before images are uploaded
+
+-- 1. Placeholder for each image attachment (NULL for videos and pings uploaded before processing existed)
+ALTER TABLE public.ping_media
+ADD COLUMN IF NOT EXISTS blurhash text;
+
+-- 2. Placeholder for the profile picture
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS avatar_blurhash text;
@@ -0,0 +1,16 @@
+-- Migration for image descriptions (alt text) on ping attachments
+
+-- 1. Description written in the composer; NULL when the author didn't add one
+ALTER TABLE public.ping_media
+ADD COLUMN IF NOT EXISTS alt_text text;
+
+-- 2. Keep descriptions to a readable length (matches MAX_ALT_TEXT_LENGTH in src/lib/media.ts)
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'ping_media_alt_text_length'
+    ) THEN
+        ALTER TABLE public.ping_media
+        ADD CONSTRAINT ping_media_alt_text_length CHECK (char_length(alt_text) <= 1000);
+    END IF;
+END $$;
@@ -0,0 +1,104 @@
+-- Migration for full-text search over pings, profiles and hashtags
+
+-- 1. Search vectors, kept up to date by Postgres as generated columns.
+-- The 'simple' configuration doesn't stem, so prefix matching works as the user types in any language.
+ALTER TABLE public.pings
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content, ''))) STORED;
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(username, '')), 'A')
+ || setweight(to_tsvector('simple', coalesce(display_name, '')), 'A')
+ || setweight(to_tsvector('simple', coalesce(bio, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_pings_search_vector ON public.pings USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_profiles_search_vector ON public.profiles USING GIN (search_vector);
+
+-- 2. Turns raw input into a prefix query: "hello wor" -> 'hello':* & 'wor':*
+-- Punctuation (including the leading # or @ of hashtags and mentions) is dropped.
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT to_tsquery('simple', coalesce(string_agg(quote_literal(term) || ':*', ' & '), ''))
+    FROM regexp_split_to_table(lower(regexp_replace(coalesce(_query, ''), '[^[:alnum:]_[:space:]]', ' ', 'g')), '\s+') AS term
+    WHERE term <> '';
+$$;
+
+-- 3. Search RPC: one page of ranked results of the given type ('pings', 'users' or 'hashtags').
+-- Snippets wrap matched words in chr(2) ... chr(3) so the client can highlight them without rendering HTML.
+-- Runs as the caller, so the usual RLS policies apply to what can be found.
+CREATE OR REPLACE FUNCTION public.search(
+    _query text,
+    _type text,
+    _limit integer DEFAULT 20,
+    _offset integer DEFAULT 0
+)
+RETURNS TABLE (result_id text, rank real, snippet text)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    _tsquery tsquery := public.to_prefix_tsquery(_query);
+    _headline_options text := 'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+    IF numnode(_tsquery) = 0 THEN
+        RETURN;
+    END IF;
+
+    IF _type = 'pings' THEN
+        RETURN QUERY
+        WITH ranked AS (
+            SELECT p.id, p.content, p.created_at, ts_rank_cd(p.search_vector, _tsquery) AS score
+            FROM public.pings p
+            WHERE p.search_vector @@ _tsquery
+            ORDER BY score DESC, p.created_at DESC, p.id DESC
+            LIMIT _limit OFFSET _offset
+        )
+        SELECT r.id::text, r.score::real, ts_headline('simple', r.content, _tsquery, _headline_options)
+        FROM ranked r
+        ORDER BY r.score DESC, r.created_at DESC, r.id DESC;
+
+    ELSIF _type = 'users' THEN
+        RETURN QUERY
+        WITH ranked AS (
+            SELECT pr.id, pr.username, pr.display_name, pr.bio,
+                   -- An exact username match always comes first
+                   ts_rank(pr.search_vector, _tsquery)
+                 + CASE WHEN lower(pr.username) = lower(ltrim(trim(_query), '@')) THEN 1 ELSE 0 END AS score
+            FROM public.profiles pr
+            WHERE pr.search_vector @@ _tsquery
+            ORDER BY score DESC, pr.username
+            LIMIT _limit OFFSET _offset
+        )
+        SELECT r.id::text, r.score::real, ts_headline('simple', coalesce(nullif(r.bio, ''), r.display_name), _tsquery, _headline_options)
+        FROM ranked r
+        ORDER BY r.score DESC, r.username;
+
+    ELSIF _type = 'hashtags' THEN
+        -- Ranked by how many matching pings use the tag
+        RETURN QUERY
+        WITH tags AS (
+            SELECT lower(m[1]) AS tag, count(DISTINCT p.id) AS uses
+            FROM public.pings p
+            CROSS JOIN LATERAL regexp_matches(p.content, '#(\w+)', 'g') AS m
+            WHERE p.search_vector @@ _tsquery
+            GROUP BY lower(m[1])
+        )
+        SELECT t.tag, t.uses::real, ts_headline('simple', t.tag, _tsquery, _headline_options)
+        FROM tags t
+        WHERE to_tsvector('simple', t.tag) @@ _tsquery
+        ORDER BY t.uses DESC, t.tag
+        LIMIT _limit OFFSET _offset;
+
+    ELSE
+        RAISE EXCEPTION 'Unknown search type: %', _type;
+    END IF;
+END;
+$$;
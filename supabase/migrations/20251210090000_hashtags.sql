@@ -0,0 +1,190 @@
+-- Migration for hashtags extracted from ping content, with trending counts
+
+-- 1. Create the hashtags table: one row per distinct tag, stored lowercase without the '#'
+CREATE TABLE IF NOT EXISTS public.hashtags (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name text NOT NULL UNIQUE CHECK (name = lower(name) AND name <> ''),
+    created_at timestamp with time zone DEFAULT now()
+);
+ALTER TABLE public.hashtags ENABLE ROW LEVEL SECURITY;
+
+-- 2. Create the ping_hashtags join table. created_at is the ping's creation time,
+-- so editing an old ping doesn't make its tags trend again.
+CREATE TABLE IF NOT EXISTS public.ping_hashtags (
+    ping_id uuid NOT NULL REFERENCES public.pings(id) ON DELETE CASCADE,
+    hashtag_id uuid NOT NULL REFERENCES public.hashtags(id) ON DELETE CASCADE,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    PRIMARY KEY (ping_id, hashtag_id)
+);
+ALTER TABLE public.ping_hashtags ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_ping_hashtags_hashtag_created_at
+ON public.ping_hashtags (hashtag_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ping_hashtags_created_at
+ON public.ping_hashtags (created_at DESC);
+
+-- 3. RLS Policies: anyone signed in can read; rows are only written by the trigger below
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'hashtags' AND policyname = 'Authenticated users can read hashtags.'
+    ) THEN
+        CREATE POLICY "Authenticated users can read hashtags." ON public.hashtags FOR SELECT USING (auth.role() = 'authenticated');
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'ping_hashtags' AND policyname = 'Authenticated users can read ping hashtags.'
+    ) THEN
+        CREATE POLICY "Authenticated users can read ping hashtags." ON public.ping_hashtags FOR SELECT USING (auth.role() = 'authenticated');
+    END IF;
+END
+$$;
+
+-- 4. Extracts the distinct lowercase tags from ping content (same #\w+ pattern as ParsedText)
+CREATE OR REPLACE FUNCTION public.extract_hashtags(_content text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT coalesce(array_agg(DISTINCT lower(m[1])), '{}')
+    FROM regexp_matches(coalesce(_content, ''), '#(\w+)', 'g') AS m;
+$$;
+
+-- 5. Function to keep ping_hashtags in sync with a ping's content on insert and edit
+-- Runs as definer so the inserts are not subject to RLS.
+CREATE OR REPLACE FUNCTION public.sync_ping_hashtags()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _tags text[] := public.extract_hashtags(NEW.content);
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.hashtags (name)
+  SELECT unnest(_tags)
+  ON CONFLICT (name) DO NOTHING;
+
+  DELETE FROM public.ping_hashtags ph
+  USING public.hashtags h
+  WHERE ph.ping_id = NEW.id
+    AND h.id = ph.hashtag_id
+    AND NOT (h.name = ANY (_tags));
+
+  INSERT INTO public.ping_hashtags (ping_id, hashtag_id, created_at)
+  SELECT NEW.id, h.id, NEW.created_at
+  FROM public.hashtags h
+  WHERE h.name = ANY (_tags)
+  ON CONFLICT (ping_id, hashtag_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 6. Trigger to call sync_ping_hashtags after a ping is created or its content is edited
+DROP TRIGGER IF EXISTS on_ping_hashtags_changed ON public.pings;
+
+CREATE TRIGGER on_ping_hashtags_changed
+AFTER INSERT OR UPDATE OF content ON public.pings
+FOR EACH ROW EXECUTE PROCEDURE public.sync_ping_hashtags();
+
+-- 7. Backfill tags for existing pings
+INSERT INTO public.hashtags (name)
+SELECT DISTINCT unnest(public.extract_hashtags(p.content))
+FROM public.pings p
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.ping_hashtags (ping_id, hashtag_id, created_at)
+SELECT p.id, h.id, p.created_at
+FROM public.pings p
+CROSS JOIN LATERAL unnest(public.extract_hashtags(p.content)) AS tag(name)
+JOIN public.hashtags h ON h.name = tag.name
+ON CONFLICT (ping_id, hashtag_id) DO NOTHING;
+
+-- 8. Trending RPC: tags used in the last 7 days, ranked by use in the last 24 hours, then the last 7 days
+CREATE OR REPLACE FUNCTION public.get_trending_hashtags(_limit integer DEFAULT 5)
+RETURNS TABLE (name text, count_24h bigint, count_7d bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT h.name,
+           count(*) FILTER (WHERE ph.created_at > now() - interval '24 hours') AS count_24h,
+           count(*) AS count_7d
+    FROM public.ping_hashtags ph
+    JOIN public.hashtags h ON h.id = ph.hashtag_id
+    WHERE ph.created_at > now() - interval '7 days'
+    GROUP BY h.id, h.name
+    ORDER BY count_24h DESC, count_7d DESC, h.name
+    LIMIT _limit;
+$$;
+
+-- 9. Search hashtags through the hashtags table instead of scanning ping content
+CREATE OR REPLACE FUNCTION public.search(
+    _query text,
+    _type text,
+    _limit integer DEFAULT 20,
+    _offset integer DEFAULT 0
+)
+RETURNS TABLE (result_id text, rank real, snippet text)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    _tsquery tsquery := public.to_prefix_tsquery(_query);
+    _headline_options text := 'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+    IF numnode(_tsquery) = 0 THEN
+        RETURN;
+    END IF;
+
+    IF _type = 'pings' THEN
+        RETURN QUERY
+        WITH ranked AS (
+            SELECT p.id, p.content, p.created_at, ts_rank_cd(p.search_vector, _tsquery) AS score
+            FROM public.pings p
+            WHERE p.search_vector @@ _tsquery
+            ORDER BY score DESC, p.created_at DESC, p.id DESC
+            LIMIT _limit OFFSET _offset
+        )
+        SELECT r.id::text, r.score::real, ts_headline('simple', r.content, _tsquery, _headline_options)
+        FROM ranked r
+        ORDER BY r.score DESC, r.created_at DESC, r.id DESC;
+
+    ELSIF _type = 'users' THEN
+        RETURN QUERY
+        WITH ranked AS (
+            SELECT pr.id, pr.username, pr.display_name, pr.bio,
+                   -- An exact username match always comes first
+                   ts_rank(pr.search_vector, _tsquery)
+                 + CASE WHEN lower(pr.username) = lower(ltrim(trim(_query), '@')) THEN 1 ELSE 0 END AS score
+            FROM public.profiles pr
+            WHERE pr.search_vector @@ _tsquery
+            ORDER BY score DESC, pr.username
+            LIMIT _limit OFFSET _offset
+        )
+        SELECT r.id::text, r.score::real, ts_headline('simple', coalesce(nullif(r.bio, ''), r.display_name), _tsquery, _headline_options)
+        FROM ranked r
+        ORDER BY r.score DESC, r.username;
+
+    ELSIF _type = 'hashtags' THEN
+        -- Ranked by how many pings use the tag
+        RETURN QUERY
+        SELECT h.name, count(ph.ping_id)::real, ts_headline('simple', h.name, _tsquery, _headline_options)
+        FROM public.hashtags h
+        JOIN public.ping_hashtags ph ON ph.hashtag_id = h.id
+        WHERE to_tsvector('simple', h.name) @@ _tsquery
+        GROUP BY h.id, h.name
+        ORDER BY count(ph.ping_id) DESC, h.name
+        LIMIT _limit OFFSET _offset;
+
+    ELSE
+        RAISE EXCEPTION 'Unknown search type: %', _type;
+    END IF;
+END;
+$$;
@@ -0,0 +1,125 @@
+-- Migration for @mentions in pings and comments, resolved to profiles when the text is saved
+
+-- 1. Create the ping_mentions table: one row per mentioned user per ping (comment_id NULL) or comment
+CREATE TABLE IF NOT EXISTS public.ping_mentions (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    ping_id uuid NOT NULL REFERENCES public.pings(id) ON DELETE CASCADE,
+    comment_id uuid REFERENCES public.comments(id) ON DELETE CASCADE,
+    mentioned_user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now()
+);
+ALTER TABLE public.ping_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ping_mentions_ping_unique
+ON public.ping_mentions (ping_id, mentioned_user_id) WHERE comment_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ping_mentions_comment_unique
+ON public.ping_mentions (comment_id, mentioned_user_id) WHERE comment_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ping_mentions_mentioned_user
+ON public.ping_mentions (mentioned_user_id, created_at DESC);
+
+-- 2. RLS Policy for ping_mentions: anyone signed in can read; rows are only written by the trigger below
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'ping_mentions' AND policyname = 'Authenticated users can read ping mentions.'
+    ) THEN
+        CREATE POLICY "Authenticated users can read ping mentions." ON public.ping_mentions FOR SELECT USING (auth.role() = 'authenticated');
+    END IF;
+END
+$$;
+
+-- 3. Extracts the distinct lowercase usernames mentioned in a text (same @\w+ pattern as ParsedText)
+CREATE OR REPLACE FUNCTION public.extract_mentions(_content text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT coalesce(array_agg(DISTINCT lower(m[1])), '{}')
+    FROM regexp_matches(coalesce(_content, ''), '@(\w+)', 'g') AS m;
+$$;
+
+-- 4. Function to keep ping_mentions in sync with a ping's or comment's content on insert and edit.
+-- Only users mentioned for the first time get a 'mention' notification, and never the author themselves.
+-- Runs as definer so the inserts are not subject to RLS.
+CREATE OR REPLACE FUNCTION public.sync_ping_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _ping_id uuid;
+  _comment_id uuid;
+  _mentioned uuid[];
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'comments' THEN
+    _ping_id := NEW.ping_id;
+    _comment_id := NEW.id;
+  ELSE
+    _ping_id := NEW.id;
+    _comment_id := NULL;
+  END IF;
+
+  SELECT coalesce(array_agg(p.id), '{}') INTO _mentioned
+  FROM public.profiles p
+  WHERE lower(p.username) = ANY (public.extract_mentions(NEW.content));
+
+  DELETE FROM public.ping_mentions m
+  WHERE m.ping_id = _ping_id
+    AND m.comment_id IS NOT DISTINCT FROM _comment_id
+    AND NOT (m.mentioned_user_id = ANY (_mentioned));
+
+  WITH inserted AS (
+    INSERT INTO public.ping_mentions (ping_id, comment_id, mentioned_user_id)
+    SELECT _ping_id, _comment_id, unnest(_mentioned)
+    ON CONFLICT DO NOTHING
+    RETURNING mentioned_user_id
+  )
+  INSERT INTO public.notifications (user_id, type, content)
+  SELECT i.mentioned_user_id,
+         'mention',
+         jsonb_build_object(
+           'actor', jsonb_build_object('id', a.id, 'displayName', a.display_name, 'username', a.username),
+           'text', CASE WHEN _comment_id IS NULL THEN 'mentioned you in a ping' ELSE 'mentioned you in a comment' END,
+           'ping_id', _ping_id,
+           'comment_id', _comment_id
+         )
+  FROM inserted i
+  JOIN public.profiles a ON a.id = NEW.user_id
+  WHERE i.mentioned_user_id <> NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 5. Triggers to call sync_ping_mentions when pings and comments are created or edited
+DROP TRIGGER IF EXISTS on_ping_mentions_changed ON public.pings;
+
+CREATE TRIGGER on_ping_mentions_changed
+AFTER INSERT OR UPDATE OF content ON public.pings
+FOR EACH ROW EXECUTE PROCEDURE public.sync_ping_mentions();
+
+DROP TRIGGER IF EXISTS on_comment_mentions_changed ON public.comments;
+
+CREATE TRIGGER on_comment_mentions_changed
+AFTER INSERT OR UPDATE OF content ON public.comments
+FOR EACH ROW EXECUTE PROCEDURE public.sync_ping_mentions();
+
+-- 6. Backfill mentions for existing pings and comments (without notifying anyone)
+INSERT INTO public.ping_mentions (ping_id, comment_id, mentioned_user_id, created_at)
+SELECT pi.id, NULL, pr.id, pi.created_at
+FROM public.pings pi
+JOIN public.profiles pr ON lower(pr.username) = ANY (public.extract_mentions(pi.content))
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.ping_mentions (ping_id, comment_id, mentioned_user_id, created_at)
+SELECT c.ping_id, c.id, pr.id, c.created_at
+FROM public.comments c
+JOIN public.profiles pr ON lower(pr.username) = ANY (public.extract_mentions(c.content))
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,24 @@
+-- Migration for link preview cards: OpenGraph/Twitter-card metadata cached per URL by the 'unfurl' edge function
+
+-- 1. Create the link_previews table: one row per unfurled URL.
+-- Pages without usable metadata are cached too (title and image_url NULL) so they aren't fetched again.
+CREATE TABLE IF NOT EXISTS public.link_previews (
+    url text PRIMARY KEY,
+    title text,
+    description text,
+    image_url text,
+    site_name text,
+    fetched_at timestamp with time zone NOT NULL DEFAULT now()
+);
+ALTER TABLE public.link_previews ENABLE ROW LEVEL SECURITY;
+
+-- 2. RLS Policy for link_previews: anyone signed in can read; only the edge function (service role) writes
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'link_previews' AND policyname = 'Authenticated users can read link previews.'
+    ) THEN
+        CREATE POLICY "Authenticated users can read link previews." ON public.link_previews FOR SELECT USING (auth.role() = 'authenticated');
+    END IF;
+END
+$$;
@@ -0,0 +1,399 @@
+-- Migration for group chats: member roles, management RPCs and system messages in the message stream.
+-- Also brings chats/messages in line with the columns the client uses, and makes create_direct_chat the
+-- single RPC for 1:1 chats (create_personal_chat stays as a thin alias for older clients).
+
+-- 1. Chat columns used by ChatContext
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS chat_name text;
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS is_group_chat boolean NOT NULL DEFAULT false;
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- 2. Messages table. System messages ("Alice added Bob") have message_type 'system', are written only by the
+-- RPCs below and keep the actor and target in metadata; sender_id is the actor.
+CREATE TABLE IF NOT EXISTS public.messages (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chat_id uuid NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+    sender_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    content text NOT NULL,
+    is_read boolean NOT NULL DEFAULT false,
+    created_at timestamp with time zone DEFAULT now()
+);
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS message_type text NOT NULL DEFAULT 'text';
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS metadata jsonb;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'messages_message_type_check') THEN
+        ALTER TABLE public.messages ADD CONSTRAINT messages_message_type_check CHECK (message_type IN ('text', 'system'));
+    END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_messages_chat_created_at ON public.messages (chat_id, created_at DESC);
+
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS last_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL;
+
+-- 3. Participant columns: read position and role. Every chat with members has exactly one owner.
+ALTER TABLE public.chat_participants ADD COLUMN IF NOT EXISTS last_read_at timestamp with time zone;
+ALTER TABLE public.chat_participants ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'member';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chat_participants_role_check') THEN
+        ALTER TABLE public.chat_participants ADD CONSTRAINT chat_participants_role_check CHECK (role IN ('owner', 'admin', 'member'));
+    END IF;
+END
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chat_participants_one_owner
+ON public.chat_participants (chat_id) WHERE role = 'owner';
+
+-- 4. Membership helpers. SECURITY DEFINER so policies on chat_participants can use them without recursing.
+CREATE OR REPLACE FUNCTION public.chat_role(_chat_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT role FROM public.chat_participants WHERE chat_id = _chat_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_chat_member(_chat_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT public.chat_role(_chat_id) IS NOT NULL;
+$$;
+
+-- 5. RLS Policies: members see every participant and message of their chats and can only post text
+-- messages as themselves. Membership changes go through the RPCs below.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'chat_participants' AND policyname = 'Members can view the participants of their chats.'
+    ) THEN
+        CREATE POLICY "Members can view the participants of their chats." ON public.chat_participants FOR SELECT USING (public.is_chat_member(chat_id));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'messages' AND policyname = 'Members can view the messages of their chats.'
+    ) THEN
+        CREATE POLICY "Members can view the messages of their chats." ON public.messages FOR SELECT USING (public.is_chat_member(chat_id));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'messages' AND policyname = 'Members can send messages to their chats.'
+    ) THEN
+        CREATE POLICY "Members can send messages to their chats." ON public.messages FOR INSERT
+        WITH CHECK (sender_id = auth.uid() AND message_type = 'text' AND public.is_chat_member(chat_id));
+    END IF;
+END
+$$;
+
+-- The old FOR ALL policy let users insert themselves into any chat and promote themselves; keep only
+-- updating your own row (last_read_at), and stop role changes from that path in the trigger below.
+DROP POLICY IF EXISTS "Users can manage their own chat participation." ON public.chat_participants;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'chat_participants' AND policyname = 'Users can update their own chat participation.'
+    ) THEN
+        CREATE POLICY "Users can update their own chat participation." ON public.chat_participants FOR UPDATE
+        USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+    END IF;
+END
+$$;
+
+CREATE OR REPLACE FUNCTION public.protect_chat_participant_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Roles are only changed by the definer RPCs, which run as the table owner
+  IF NEW.role IS DISTINCT FROM OLD.role AND current_user = 'authenticated' THEN
+    RAISE EXCEPTION 'Chat roles can only be changed by the chat owner';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_chat_participant_role_changed ON public.chat_participants;
+CREATE TRIGGER on_chat_participant_role_changed
+BEFORE UPDATE OF role ON public.chat_participants
+FOR EACH ROW EXECUTE FUNCTION public.protect_chat_participant_role();
+
+-- 6. Keep chats.last_message_id pointing at the newest message (text or system)
+CREATE OR REPLACE FUNCTION public.handle_new_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chats SET last_message_id = NEW.id WHERE id = NEW.chat_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_message_created ON public.messages;
+CREATE TRIGGER on_message_created
+AFTER INSERT ON public.messages
+FOR EACH ROW EXECUTE FUNCTION public.handle_new_message();
+
+-- 7. Writes a system message. _event is one of created, renamed, added, removed, left, role_changed.
+CREATE OR REPLACE FUNCTION public.post_chat_system_message(_chat_id uuid, _event text, _content text, _target_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    INSERT INTO public.messages (chat_id, sender_id, content, message_type, metadata)
+    VALUES (_chat_id, auth.uid(), _content, 'system', jsonb_build_object('event', _event, 'actor_id', auth.uid(), 'target_id', _target_id));
+$$;
+
+-- Only the RPCs below may post system messages
+REVOKE EXECUTE ON FUNCTION public.post_chat_system_message(uuid, text, text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.chat_display_name(_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT coalesce(nullif(display_name, ''), username, 'Someone') FROM public.profiles WHERE id = _user_id;
+$$;
+
+-- 8. Returns the 1:1 chat between the current user and another user, creating it if needed
+CREATE OR REPLACE FUNCTION public.create_direct_chat(other_user uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _chat_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF other_user IS NULL OR other_user = auth.uid() THEN
+    RAISE EXCEPTION 'Choose someone else to chat with';
+  END IF;
+
+  SELECT c.id INTO _chat_id
+  FROM public.chats c
+  JOIN public.chat_participants me ON me.chat_id = c.id AND me.user_id = auth.uid()
+  JOIN public.chat_participants them ON them.chat_id = c.id AND them.user_id = other_user
+  WHERE NOT c.is_group_chat
+  LIMIT 1;
+
+  IF _chat_id IS NULL THEN
+    INSERT INTO public.chats (is_group_chat, created_by) VALUES (false, auth.uid()) RETURNING id INTO _chat_id;
+    -- Both sides of a direct chat are equal; the creator is recorded as owner only to satisfy the one-owner rule
+    INSERT INTO public.chat_participants (chat_id, user_id, role)
+    VALUES (_chat_id, auth.uid(), 'owner'), (_chat_id, other_user, 'member');
+  END IF;
+
+  RETURN _chat_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_personal_chat(p_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT public.create_direct_chat(p_user_id);
+$$;
+
+-- 9. Creates a group chat owned by the current user with the given members
+CREATE OR REPLACE FUNCTION public.create_group_chat(_name text, _member_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _chat_id uuid;
+  _members uuid[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF length(trim(coalesce(_name, ''))) = 0 OR length(trim(_name)) > 100 THEN
+    RAISE EXCEPTION 'Group names must be 1 to 100 characters';
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT p.id), '{}') INTO _members
+  FROM public.profiles p
+  WHERE p.id = ANY (_member_ids) AND p.id <> auth.uid();
+
+  IF cardinality(_members) = 0 THEN
+    RAISE EXCEPTION 'Add at least one other member';
+  END IF;
+
+  INSERT INTO public.chats (chat_name, is_group_chat, created_by) VALUES (trim(_name), true, auth.uid()) RETURNING id INTO _chat_id;
+  INSERT INTO public.chat_participants (chat_id, user_id, role) VALUES (_chat_id, auth.uid(), 'owner');
+  INSERT INTO public.chat_participants (chat_id, user_id, role) SELECT _chat_id, unnest(_members), 'member';
+
+  PERFORM public.post_chat_system_message(_chat_id, 'created', format('%s created the group "%s"', public.chat_display_name(auth.uid()), trim(_name)));
+
+  RETURN _chat_id;
+END;
+$$;
+
+-- 10. Renames a group chat (owner or admin)
+CREATE OR REPLACE FUNCTION public.rename_group_chat(_chat_id uuid, _name text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(public.chat_role(_chat_id), 'none') NOT IN ('owner', 'admin') OR NOT EXISTS (SELECT 1 FROM public.chats WHERE id = _chat_id AND is_group_chat) THEN
+    RAISE EXCEPTION 'Only group admins can rename this chat';
+  END IF;
+  IF length(trim(coalesce(_name, ''))) = 0 OR length(trim(_name)) > 100 THEN
+    RAISE EXCEPTION 'Group names must be 1 to 100 characters';
+  END IF;
+
+  UPDATE public.chats SET chat_name = trim(_name) WHERE id = _chat_id;
+  PERFORM public.post_chat_system_message(_chat_id, 'renamed', format('%s renamed the group to "%s"', public.chat_display_name(auth.uid()), trim(_name)));
+END;
+$$;
+
+-- 11. Adds members to a group chat (owner or admin); people already in the chat are skipped
+CREATE OR REPLACE FUNCTION public.add_chat_members(_chat_id uuid, _user_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _added uuid;
+BEGIN
+  IF coalesce(public.chat_role(_chat_id), 'none') NOT IN ('owner', 'admin') OR NOT EXISTS (SELECT 1 FROM public.chats WHERE id = _chat_id AND is_group_chat) THEN
+    RAISE EXCEPTION 'Only group admins can add members';
+  END IF;
+
+  FOR _added IN
+    INSERT INTO public.chat_participants (chat_id, user_id, role)
+    SELECT _chat_id, p.id, 'member'
+    FROM public.profiles p
+    WHERE p.id = ANY (_user_ids)
+    ON CONFLICT (chat_id, user_id) DO NOTHING
+    RETURNING user_id
+  LOOP
+    PERFORM public.post_chat_system_message(_chat_id, 'added', format('%s added %s', public.chat_display_name(auth.uid()), public.chat_display_name(_added)), _added);
+  END LOOP;
+END;
+$$;
+
+-- 12. Removes a member. Owners can remove anyone; admins can only remove plain members.
+CREATE OR REPLACE FUNCTION public.remove_chat_member(_chat_id uuid, _user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _my_role text := public.chat_role(_chat_id);
+  _their_role text;
+BEGIN
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Use leave_chat to leave a chat';
+  END IF;
+
+  SELECT role INTO _their_role FROM public.chat_participants WHERE chat_id = _chat_id AND user_id = _user_id;
+  IF _their_role IS NULL THEN
+    RAISE EXCEPTION 'That person is not in this chat';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.chats WHERE id = _chat_id AND is_group_chat)
+     OR _my_role IS NULL OR _my_role = 'member'
+     OR _their_role = 'owner'
+     OR (_my_role = 'admin' AND _their_role = 'admin') THEN
+    RAISE EXCEPTION 'You can''t remove this member';
+  END IF;
+
+  DELETE FROM public.chat_participants WHERE chat_id = _chat_id AND user_id = _user_id;
+  PERFORM public.post_chat_system_message(_chat_id, 'removed', format('%s removed %s', public.chat_display_name(auth.uid()), public.chat_display_name(_user_id)), _user_id);
+END;
+$$;
+
+-- 13. Makes a member an admin or demotes an admin (owner only)
+CREATE OR REPLACE FUNCTION public.set_chat_member_role(_chat_id uuid, _user_id uuid, _role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF public.chat_role(_chat_id) IS DISTINCT FROM 'owner' OR NOT EXISTS (SELECT 1 FROM public.chats WHERE id = _chat_id AND is_group_chat) THEN
+    RAISE EXCEPTION 'Only the group owner can change roles';
+  END IF;
+  IF _role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Unknown role: %', _role;
+  END IF;
+
+  UPDATE public.chat_participants SET role = _role
+  WHERE chat_id = _chat_id AND user_id = _user_id AND role <> 'owner' AND role <> _role;
+
+  IF FOUND THEN
+    PERFORM public.post_chat_system_message(
+      _chat_id,
+      'role_changed',
+      CASE WHEN _role = 'admin'
+        THEN format('%s made %s an admin', public.chat_display_name(auth.uid()), public.chat_display_name(_user_id))
+        ELSE format('%s removed %s as admin', public.chat_display_name(auth.uid()), public.chat_display_name(_user_id))
+      END,
+      _user_id
+    );
+  END IF;
+END;
+$$;
+
+-- 14. Leaves a group chat. An owner who leaves hands ownership to the longest-serving admin, or else the
+-- longest-serving member; the chat is deleted when its last member leaves.
+CREATE OR REPLACE FUNCTION public.leave_chat(_chat_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _my_role text := public.chat_role(_chat_id);
+  _successor uuid;
+BEGIN
+  IF _my_role IS NULL THEN
+    RAISE EXCEPTION 'You are not in this chat';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.chats WHERE id = _chat_id AND is_group_chat) THEN
+    RAISE EXCEPTION 'You can only leave group chats';
+  END IF;
+
+  DELETE FROM public.chat_participants WHERE chat_id = _chat_id AND user_id = auth.uid();
+
+  IF NOT EXISTS (SELECT 1 FROM public.chat_participants WHERE chat_id = _chat_id) THEN
+    DELETE FROM public.chats WHERE id = _chat_id;
+    RETURN;
+  END IF;
+
+  PERFORM public.post_chat_system_message(_chat_id, 'left', format('%s left the group', public.chat_display_name(auth.uid())));
+
+  IF _my_role = 'owner' THEN
+    SELECT user_id INTO _successor
+    FROM public.chat_participants
+    WHERE chat_id = _chat_id
+    ORDER BY (role = 'admin') DESC, joined_at ASC
+    LIMIT 1;
+
+    UPDATE public.chat_participants SET role = 'owner' WHERE chat_id = _chat_id AND user_id = _successor;
+    PERFORM public.post_chat_system_message(_chat_id, 'role_changed', format('%s is now the group owner', public.chat_display_name(_successor)), _successor);
+  END IF;
+END;
+$$;
+
+-- 15. Existing chats: the earliest participant of each chat becomes its owner
+UPDATE public.chat_participants cp
+SET role = 'owner'
+WHERE cp.id IN (
+    SELECT DISTINCT ON (chat_id) id
+    FROM public.chat_participants
+    ORDER BY chat_id, joined_at ASC, id
+)
+AND NOT EXISTS (SELECT 1 FROM public.chat_participants o WHERE o.chat_id = cp.chat_id AND o.role = 'owner');
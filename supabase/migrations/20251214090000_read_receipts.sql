@@ -0,0 +1,48 @@
+-- Migration for chat read receipts: per-participant delivery and read positions, stamped with server time.
+-- A message is delivered/read for a participant once their last_delivered_at/last_read_at reaches its created_at;
+-- the client derives sent/delivered/read ticks and "seen by" from these columns.
+
+-- 1. Delivery position (last_read_at already exists)
+ALTER TABLE public.chat_participants ADD COLUMN IF NOT EXISTS last_delivered_at timestamp with time zone;
+
+-- 2. Marks a chat as read (and therefore delivered) for the current user.
+-- Only touches the row when there is something new, so opening a chat doesn't broadcast a realtime update every time.
+CREATE OR REPLACE FUNCTION public.mark_chat_read(_chat_id uuid)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _read_at timestamp with time zone;
+BEGIN
+  UPDATE public.chat_participants cp
+  SET last_read_at = now(), last_delivered_at = now()
+  WHERE cp.chat_id = _chat_id
+    AND cp.user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.chat_id = cp.chat_id AND m.created_at > coalesce(cp.last_read_at, '-infinity')
+    );
+
+  SELECT last_read_at INTO _read_at FROM public.chat_participants WHERE chat_id = _chat_id AND user_id = auth.uid();
+  RETURN _read_at;
+END;
+$$;
+
+-- 3. Marks every chat with messages from others newer than the current user's delivery position as delivered.
+-- Called by the client whenever it loads the chat list or receives a message.
+CREATE OR REPLACE FUNCTION public.mark_chats_delivered()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    UPDATE public.chat_participants cp
+    SET last_delivered_at = now()
+    WHERE cp.user_id = auth.uid()
+      AND EXISTS (
+        SELECT 1 FROM public.messages m
+        WHERE m.chat_id = cp.chat_id
+          AND m.sender_id IS DISTINCT FROM auth.uid()
+          AND m.created_at > coalesce(cp.last_delivered_at, '-infinity')
+      );
+$$;
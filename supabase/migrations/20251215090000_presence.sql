@@ -0,0 +1,34 @@
+-- Migration for online presence: "last seen" times and a privacy switch.
+-- Live online/typing state travels over Realtime presence channels and isn't stored; only last_seen_at is.
+
+-- 1. Presence columns on profiles
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS last_seen_at timestamp with time zone;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS show_presence boolean NOT NULL DEFAULT true;
+
+-- 2. Hiding presence also clears the stored last-seen time, so it can't be read from the profile row
+CREATE OR REPLACE FUNCTION public.clear_hidden_last_seen()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.show_presence THEN
+    NEW.last_seen_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_profile_presence_changed ON public.profiles;
+CREATE TRIGGER on_profile_presence_changed
+BEFORE UPDATE OF show_presence, last_seen_at ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.clear_hidden_last_seen();
+
+-- 3. Heartbeat: records that the current user is active now (a no-op while presence is hidden, see the trigger)
+CREATE OR REPLACE FUNCTION public.touch_last_seen()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    UPDATE public.profiles SET last_seen_at = now() WHERE id = auth.uid() AND show_presence;
+$$;
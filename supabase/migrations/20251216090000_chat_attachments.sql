@@ -0,0 +1,127 @@
+-- Migration for chat message attachments: images, files and voice notes.
+-- Files live in the private 'chat-attachments' bucket under '<chat_id>/<user_id>/'; clients read them through
+-- short-lived signed URLs, which storage only issues to members of the chat.
+
+-- 1. Private bucket (25 MB per file)
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chat-attachments', 'chat-attachments', false, 26214400)
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Attachment rows, one per file, in display order
+CREATE TABLE IF NOT EXISTS public.message_attachments (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    chat_id uuid NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE, -- Copied from the message for RLS
+    user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    storage_path text NOT NULL, -- Path inside the 'chat-attachments' bucket
+    attachment_type text NOT NULL CHECK (attachment_type IN ('image', 'file', 'voice')),
+    file_name text NOT NULL,
+    mime_type text NOT NULL,
+    size_bytes bigint NOT NULL,
+    width integer, -- Images only
+    height integer, -- Images only
+    duration_seconds real, -- Voice notes only
+    blurhash text, -- Images only
+    position smallint NOT NULL DEFAULT 0 CHECK (position BETWEEN 0 AND 9),
+    created_at timestamp with time zone DEFAULT now(),
+    UNIQUE (message_id, position)
+);
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_message_attachments_message_id ON public.message_attachments (message_id);
+
+-- 3. Chat ID from an object path, or NULL when the path doesn't start with a chat ID folder
+CREATE OR REPLACE FUNCTION public.chat_attachment_chat_id(_name text)
+RETURNS uuid
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN split_part(_name, '/', 1) ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        THEN split_part(_name, '/', 1)::uuid
+    END;
+$$;
+
+-- 4. RLS Policies for message_attachments: members see them; senders attach files they uploaded to their own
+-- messages in the same chat
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'message_attachments' AND policyname = 'Members can view the attachments of their chats.'
+    ) THEN
+        CREATE POLICY "Members can view the attachments of their chats." ON public.message_attachments FOR SELECT USING (public.is_chat_member(chat_id));
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'message_attachments' AND policyname = 'Senders can attach their uploads to their own messages.'
+    ) THEN
+        CREATE POLICY "Senders can attach their uploads to their own messages." ON public.message_attachments FOR INSERT
+        WITH CHECK (
+            auth.uid() = user_id
+            AND storage_path LIKE chat_id::text || '/' || auth.uid()::text || '/%'
+            AND EXISTS (SELECT 1 FROM public.messages WHERE id = message_id AND chat_id = message_attachments.chat_id AND sender_id = auth.uid())
+        );
+    END IF;
+END
+$$;
+
+-- 5. Storage policies: members of the chat in the first path segment can read (and therefore sign) its files;
+-- uploads go into the uploader's own folder of a chat they belong to
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Chat members can read chat attachments.'
+    ) THEN
+        CREATE POLICY "Chat members can read chat attachments." ON storage.objects FOR SELECT
+        USING (bucket_id = 'chat-attachments' AND public.is_chat_member(public.chat_attachment_chat_id(name)));
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Chat members can upload chat attachments.'
+    ) THEN
+        CREATE POLICY "Chat members can upload chat attachments." ON storage.objects FOR INSERT
+        WITH CHECK (
+            bucket_id = 'chat-attachments'
+            AND split_part(name, '/', 2) = auth.uid()::text
+            AND public.is_chat_member(public.chat_attachment_chat_id(name))
+        );
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Users can delete their own chat attachments.'
+    ) THEN
+        CREATE POLICY "Users can delete their own chat attachments." ON storage.objects FOR DELETE
+        USING (bucket_id = 'chat-attachments' AND split_part(name, '/', 2) = auth.uid()::text);
+    END IF;
+END
+$$;
+
+-- 6. Sends a message and its attachments in one transaction, so realtime subscribers that refetch on the
+-- message insert always see its attachments. Runs as the caller: the insert policies above still apply.
+-- _attachments is a JSON array of objects with the message_attachments columns (without ids and chat/message keys).
+CREATE OR REPLACE FUNCTION public.send_chat_message(_chat_id uuid, _content text, _attachments jsonb DEFAULT '[]'::jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _message_id uuid;
+BEGIN
+  IF coalesce(btrim(_content), '') = '' AND jsonb_array_length(coalesce(_attachments, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A message needs text or an attachment.';
+  END IF;
+
+  INSERT INTO public.messages (chat_id, sender_id, content)
+  VALUES (_chat_id, auth.uid(), coalesce(_content, ''))
+  RETURNING id INTO _message_id;
+
+  INSERT INTO public.message_attachments (
+    message_id, chat_id, storage_path, attachment_type, file_name, mime_type, size_bytes,
+    width, height, duration_seconds, blurhash, position
+  )
+  SELECT
+    _message_id, _chat_id, a.item->>'storage_path', a.item->>'attachment_type', a.item->>'file_name',
+    a.item->>'mime_type', (a.item->>'size_bytes')::bigint, (a.item->>'width')::integer, (a.item->>'height')::integer,
+    (a.item->>'duration_seconds')::real, a.item->>'blurhash', (a.idx - 1)::smallint
+  FROM jsonb_array_elements(coalesce(_attachments, '[]'::jsonb)) WITH ORDINALITY AS a(item, idx);
+
+  RETURN _message_id;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Migration for paginated chat history
+
+-- 1. Composite index matching the message history ordering within a chat (created_at DESC, id DESC)
+-- Supersedes idx_messages_chat_created_at; ties on created_at are broken by id.
+CREATE INDEX IF NOT EXISTS idx_messages_chat_created_at_id_desc
+ON public.messages USING btree (chat_id, created_at DESC, id DESC);
+
+DROP INDEX IF EXISTS public.idx_messages_chat_created_at;
@@ -0,0 +1,177 @@
+-- Migration for chat message actions: edit, delete for me / for everyone, replies and emoji reactions.
+-- Edits and deletes for everyone go through RPCs that check the sender and the edit window; members
+-- have no direct UPDATE or DELETE access to messages.
+
+-- 1. Message columns. A message deleted for everyone keeps its row as a tombstone (deleted_at set, content cleared)
+-- so replies and the chat list still have something to point at.
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS edited_at timestamp with time zone;
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone;
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS reply_to_id uuid REFERENCES public.messages(id) ON DELETE SET NULL;
+
+-- 2. Messages a user deleted for themselves only
+CREATE TABLE IF NOT EXISTS public.hidden_messages (
+    message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now(),
+    PRIMARY KEY (message_id, user_id)
+);
+ALTER TABLE public.hidden_messages ENABLE ROW LEVEL SECURITY;
+
+-- 3. Reactions: one row per user and emoji. The primary key is everything a client needs to apply a
+-- realtime delete, since delete payloads only carry the key.
+CREATE TABLE IF NOT EXISTS public.message_reactions (
+    message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    emoji text NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+    chat_id uuid NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE, -- Copied from the message for RLS and realtime filters
+    created_at timestamp with time zone DEFAULT now(),
+    PRIMARY KEY (message_id, user_id, emoji)
+);
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_chat_id ON public.message_reactions (chat_id);
+
+-- 4. RLS Policies. Hidden messages drop out of every query the user makes (history, chat list, realtime).
+DROP POLICY IF EXISTS "Members can view the messages of their chats." ON public.messages;
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'messages' AND policyname = 'Members can view the messages of their chats they have not hidden.'
+    ) THEN
+        CREATE POLICY "Members can view the messages of their chats they have not hidden." ON public.messages FOR SELECT
+        USING (
+            public.is_chat_member(chat_id)
+            AND NOT EXISTS (SELECT 1 FROM public.hidden_messages h WHERE h.message_id = messages.id AND h.user_id = auth.uid())
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'hidden_messages' AND policyname = 'Users can manage the messages they hid.'
+    ) THEN
+        CREATE POLICY "Users can manage the messages they hid." ON public.hidden_messages FOR ALL
+        USING (auth.uid() = user_id)
+        WITH CHECK (auth.uid() = user_id AND EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id AND public.is_chat_member(m.chat_id)));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'message_reactions' AND policyname = 'Members can view the reactions in their chats.'
+    ) THEN
+        CREATE POLICY "Members can view the reactions in their chats." ON public.message_reactions FOR SELECT USING (public.is_chat_member(chat_id));
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'message_reactions' AND policyname = 'Members can react to messages in their chats.'
+    ) THEN
+        CREATE POLICY "Members can react to messages in their chats." ON public.message_reactions FOR INSERT
+        WITH CHECK (
+            auth.uid() = user_id
+            AND EXISTS (
+                SELECT 1 FROM public.messages m
+                WHERE m.id = message_id AND m.chat_id = message_reactions.chat_id AND m.deleted_at IS NULL AND m.message_type = 'text'
+            )
+        );
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'message_reactions' AND policyname = 'Users can remove their own reactions.'
+    ) THEN
+        CREATE POLICY "Users can remove their own reactions." ON public.message_reactions FOR DELETE USING (auth.uid() = user_id);
+    END IF;
+END
+$$;
+
+-- 5. Reactions change live in open conversations
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'message_reactions') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
+    END IF;
+END
+$$;
+
+-- 6. Edits: the sender can change the text of their own message for 15 minutes after sending it
+CREATE OR REPLACE FUNCTION public.edit_chat_message(_message_id uuid, _content text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _message public.messages;
+BEGIN
+  SELECT * INTO _message FROM public.messages WHERE id = _message_id;
+
+  IF _message.id IS NULL OR _message.sender_id IS DISTINCT FROM auth.uid() OR _message.message_type <> 'text' THEN
+    RAISE EXCEPTION 'You can only edit your own messages.';
+  END IF;
+  IF _message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be edited.';
+  END IF;
+  IF _message.created_at < now() - interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited for 15 minutes after sending.';
+  END IF;
+  IF coalesce(btrim(_content), '') = '' AND NOT EXISTS (SELECT 1 FROM public.message_attachments WHERE message_id = _message_id) THEN
+    RAISE EXCEPTION 'A message needs text or an attachment.';
+  END IF;
+
+  UPDATE public.messages SET content = _content, edited_at = now() WHERE id = _message_id;
+END;
+$$;
+
+-- 7. Delete for everyone: the sender replaces their message with a tombstone. Its attachments and reactions go
+-- with it; the attachment paths are returned so the client can remove the files from storage.
+CREATE OR REPLACE FUNCTION public.delete_chat_message(_message_id uuid)
+RETURNS SETOF text
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE id = _message_id AND sender_id = auth.uid() AND message_type = 'text' AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'You can only delete your own messages.';
+  END IF;
+
+  UPDATE public.messages SET content = '', deleted_at = now() WHERE id = _message_id;
+  DELETE FROM public.message_reactions WHERE message_id = _message_id;
+
+  RETURN QUERY
+    WITH removed AS (DELETE FROM public.message_attachments WHERE message_id = _message_id RETURNING storage_path)
+    SELECT storage_path FROM removed;
+END;
+$$;
+
+-- 8. Replies: send_chat_message gains the message being replied to, which must be in the same chat
+DROP FUNCTION IF EXISTS public.send_chat_message(uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.send_chat_message(_chat_id uuid, _content text, _attachments jsonb DEFAULT '[]'::jsonb, _reply_to_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _message_id uuid;
+BEGIN
+  IF coalesce(btrim(_content), '') = '' AND jsonb_array_length(coalesce(_attachments, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A message needs text or an attachment.';
+  END IF;
+  IF _reply_to_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.messages WHERE id = _reply_to_id AND chat_id = _chat_id) THEN
+    RAISE EXCEPTION 'You can only reply to messages in the same chat.';
+  END IF;
+
+  INSERT INTO public.messages (chat_id, sender_id, content, reply_to_id)
+  VALUES (_chat_id, auth.uid(), coalesce(_content, ''), _reply_to_id)
+  RETURNING id INTO _message_id;
+
+  INSERT INTO public.message_attachments (
+    message_id, chat_id, storage_path, attachment_type, file_name, mime_type, size_bytes,
+    width, height, duration_seconds, blurhash, position
+  )
+  SELECT
+    _message_id, _chat_id, a.item->>'storage_path', a.item->>'attachment_type', a.item->>'file_name',
+    a.item->>'mime_type', (a.item->>'size_bytes')::bigint, (a.item->>'width')::integer, (a.item->>'height')::integer,
+    (a.item->>'duration_seconds')::real, a.item->>'blurhash', (a.idx - 1)::smallint
+  FROM jsonb_array_elements(coalesce(_attachments, '[]'::jsonb)) WITH ORDINALITY AS a(item, idx);
+
+  RETURN _message_id;
+END;
+$$;
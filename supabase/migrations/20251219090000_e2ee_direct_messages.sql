@@ -0,0 +1,135 @@
+-- Migration for optional end-to-end encryption in 1:1 chats.
+-- Every device generates an ECDH key pair in the browser and publishes the public half here; private keys never
+-- leave the device. In an encrypted chat, message content is an envelope (see src/lib/e2ee.ts) that only the
+-- participants' devices can open, so the server only ever stores ciphertext.
+
+-- 1. Device public keys, listed on the owner's profile. Keys are never deleted: old messages stay readable as long
+-- as the device that received them still has its private key, and senders can always verify an old envelope.
+CREATE TABLE IF NOT EXISTS public.device_keys (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    public_key jsonb NOT NULL, -- ECDH P-256 public key as a JWK
+    created_at timestamp with time zone DEFAULT now()
+);
+ALTER TABLE public.device_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_device_keys_user_id ON public.device_keys (user_id);
+
+-- 2. Encryption flags. chats.is_encrypted is the chat's setting; messages.is_encrypted marks content as an envelope.
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS is_encrypted boolean NOT NULL DEFAULT false;
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS is_encrypted boolean NOT NULL DEFAULT false;
+
+-- 3. RLS Policies: public keys are public, and each device publishes its own
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'device_keys' AND policyname = 'Device keys are viewable by everyone.'
+    ) THEN
+        CREATE POLICY "Device keys are viewable by everyone." ON public.device_keys FOR SELECT USING (true);
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'device_keys' AND policyname = 'Users can publish their own device keys.'
+    ) THEN
+        CREATE POLICY "Users can publish their own device keys." ON public.device_keys FOR INSERT WITH CHECK (auth.uid() = user_id);
+    END IF;
+END
+$$;
+
+-- 4. Once a chat is encrypted, every text message sent to it must be too. Checked on the row rather than in
+-- send_chat_message so direct inserts can't downgrade the chat either.
+CREATE OR REPLACE FUNCTION public.enforce_chat_encryption()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.message_type = 'text' AND NOT NEW.is_encrypted
+     AND EXISTS (SELECT 1 FROM public.chats WHERE id = NEW.chat_id AND is_encrypted) THEN
+    RAISE EXCEPTION 'This chat is end-to-end encrypted; messages must be encrypted.';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_message_encryption_check ON public.messages;
+CREATE TRIGGER on_message_encryption_check
+BEFORE INSERT ON public.messages
+FOR EACH ROW EXECUTE FUNCTION public.enforce_chat_encryption();
+
+-- 5. Turns encryption on or off for a 1:1 chat. Either participant can change it; the change is announced with a
+-- system message so the other side always knows. Both people need a device key before it can be turned on.
+CREATE OR REPLACE FUNCTION public.set_chat_encryption(_chat_id uuid, _enabled boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_chat_member(_chat_id) OR NOT EXISTS (SELECT 1 FROM public.chats WHERE id = _chat_id AND NOT is_group_chat) THEN
+    RAISE EXCEPTION 'Encryption is only available in direct chats';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.chats WHERE id = _chat_id AND is_encrypted = _enabled) THEN
+    RETURN;
+  END IF;
+  IF _enabled AND EXISTS (
+    SELECT 1 FROM public.chat_participants p
+    WHERE p.chat_id = _chat_id AND NOT EXISTS (SELECT 1 FROM public.device_keys k WHERE k.user_id = p.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Both people need to open iPing on an up-to-date app before encryption can be turned on';
+  END IF;
+
+  UPDATE public.chats SET is_encrypted = _enabled WHERE id = _chat_id;
+  PERFORM public.post_chat_system_message(
+    _chat_id,
+    CASE WHEN _enabled THEN 'encryption_enabled' ELSE 'encryption_disabled' END,
+    format(
+      CASE WHEN _enabled THEN '%s turned on end-to-end encryption' ELSE '%s turned off end-to-end encryption' END,
+      public.chat_display_name(auth.uid())
+    )
+  );
+END;
+$$;
+
+-- 6. send_chat_message marks envelopes, and encrypted chats take text only: attachments are not encrypted
+DROP FUNCTION IF EXISTS public.send_chat_message(uuid, text, jsonb, uuid);
+
+CREATE OR REPLACE FUNCTION public.send_chat_message(
+  _chat_id uuid,
+  _content text,
+  _attachments jsonb DEFAULT '[]'::jsonb,
+  _reply_to_id uuid DEFAULT NULL,
+  _is_encrypted boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _message_id uuid;
+BEGIN
+  IF coalesce(btrim(_content), '') = '' AND jsonb_array_length(coalesce(_attachments, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A message needs text or an attachment.';
+  END IF;
+  IF _reply_to_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.messages WHERE id = _reply_to_id AND chat_id = _chat_id) THEN
+    RAISE EXCEPTION 'You can only reply to messages in the same chat.';
+  END IF;
+  IF _is_encrypted AND jsonb_array_length(coalesce(_attachments, '[]'::jsonb)) > 0 THEN
+    RAISE EXCEPTION 'Attachments cannot be sent in encrypted chats.';
+  END IF;
+
+  INSERT INTO public.messages (chat_id, sender_id, content, reply_to_id, is_encrypted)
+  VALUES (_chat_id, auth.uid(), coalesce(_content, ''), _reply_to_id, _is_encrypted)
+  RETURNING id INTO _message_id;
+
+  INSERT INTO public.message_attachments (
+    message_id, chat_id, storage_path, attachment_type, file_name, mime_type, size_bytes,
+    width, height, duration_seconds, blurhash, position
+  )
+  SELECT
+    _message_id, _chat_id, a.item->>'storage_path', a.item->>'attachment_type', a.item->>'file_name',
+    a.item->>'mime_type', (a.item->>'size_bytes')::bigint, (a.item->>'width')::integer, (a.item->>'height')::integer,
+    (a.item->>'duration_seconds')::real, a.item->>'blurhash', (a.idx - 1)::smallint
+  FROM jsonb_array_elements(coalesce(_attachments, '[]'::jsonb)) WITH ORDINALITY AS a(item, idx);
+
+  RETURN _message_id;
+END;
+$$;
@@ -0,0 +1,140 @@
+-- Migration that settles the notifications schema. Notifications keep their recipient in user_id and read state in
+-- is_read, and reference who caused them (actor_id) and what they are about (ping_id, comment_id, chat_id) with
+-- real foreign keys instead of the free-form content jsonb, so targets can be embedded and vanish with their rows.
+--
+-- Types and their targets:
+--   like     ping_id, plus comment_id for a liked comment
+--   repost   ping_id
+--   comment  ping_id and comment_id
+--   mention  ping_id, plus comment_id for a mention in a comment
+--   follow   no target; the actor is the new follower
+--   chat     chat_id
+
+-- 1. Actor and target columns
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS actor_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS ping_id uuid REFERENCES public.pings(id) ON DELETE CASCADE;
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS comment_id uuid REFERENCES public.comments(id) ON DELETE CASCADE;
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS chat_id uuid REFERENCES public.chats(id) ON DELETE CASCADE;
+
+UPDATE public.notifications SET is_read = false WHERE is_read IS NULL;
+ALTER TABLE public.notifications ALTER COLUMN is_read SET DEFAULT false;
+ALTER TABLE public.notifications ALTER COLUMN is_read SET NOT NULL;
+
+-- 2. Move existing rows off content jsonb (mention notifications store actor.id, ping_id and comment_id there),
+-- map the old type names and drop what can't be expressed in the new schema
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'notifications' AND column_name = 'content'
+    ) THEN
+        UPDATE public.notifications n
+        SET actor_id = coalesce(n.actor_id, (SELECT p.id FROM public.profiles p WHERE p.id::text = n.content->'actor'->>'id')),
+            ping_id = coalesce(n.ping_id, (SELECT p.id FROM public.pings p WHERE p.id::text = n.content->>'ping_id')),
+            comment_id = coalesce(n.comment_id, (SELECT c.id FROM public.comments c WHERE c.id::text = n.content->>'comment_id'))
+        WHERE n.content IS NOT NULL;
+
+        ALTER TABLE public.notifications DROP COLUMN content;
+    END IF;
+END
+$$;
+
+UPDATE public.notifications SET type = 'like' WHERE type = 'post_like';
+UPDATE public.notifications SET type = 'follow' WHERE type = 'friend_request';
+DELETE FROM public.notifications
+WHERE type NOT IN ('like', 'repost', 'comment', 'mention', 'follow', 'chat')
+   OR (type IN ('like', 'repost', 'mention') AND ping_id IS NULL)
+   OR (type = 'comment' AND (ping_id IS NULL OR comment_id IS NULL))
+   OR (type = 'chat' AND chat_id IS NULL);
+
+-- 3. Constraints: known types only, each with the targets it needs
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'notifications_type_check') THEN
+        ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+        CHECK (type IN ('like', 'repost', 'comment', 'mention', 'follow', 'chat'));
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'notifications_target_check') THEN
+        ALTER TABLE public.notifications ADD CONSTRAINT notifications_target_check
+        CHECK (
+            (type IN ('like', 'repost', 'mention') AND ping_id IS NOT NULL)
+            OR (type = 'comment' AND ping_id IS NOT NULL AND comment_id IS NOT NULL)
+            OR type = 'follow'
+            OR (type = 'chat' AND chat_id IS NOT NULL)
+        );
+    END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created_at ON public.notifications (user_id, created_at DESC);
+
+-- 4. New notifications show up live
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'notifications') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+    END IF;
+END
+$$;
+
+-- 5. Marks the current user's notifications as read: the given ones, or all of them when _notification_ids is NULL.
+-- Users have no direct UPDATE access, so read state is the only thing they can change.
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(_notification_ids uuid[] DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    UPDATE public.notifications
+    SET is_read = true
+    WHERE user_id = auth.uid()
+      AND NOT is_read
+      AND (_notification_ids IS NULL OR id = ANY (_notification_ids));
+$$;
+
+-- 6. Mention notifications in the new shape; otherwise unchanged from the ping mentions migration
+CREATE OR REPLACE FUNCTION public.sync_ping_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _ping_id uuid;
+  _comment_id uuid;
+  _mentioned uuid[];
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'comments' THEN
+    _ping_id := NEW.ping_id;
+    _comment_id := NEW.id;
+  ELSE
+    _ping_id := NEW.id;
+    _comment_id := NULL;
+  END IF;
+
+  SELECT coalesce(array_agg(p.id), '{}') INTO _mentioned
+  FROM public.profiles p
+  WHERE lower(p.username) = ANY (public.extract_mentions(NEW.content));
+
+  DELETE FROM public.ping_mentions m
+  WHERE m.ping_id = _ping_id
+    AND m.comment_id IS NOT DISTINCT FROM _comment_id
+    AND NOT (m.mentioned_user_id = ANY (_mentioned));
+
+  WITH inserted AS (
+    INSERT INTO public.ping_mentions (ping_id, comment_id, mentioned_user_id)
+    SELECT _ping_id, _comment_id, unnest(_mentioned)
+    ON CONFLICT DO NOTHING
+    RETURNING mentioned_user_id
+  )
+  INSERT INTO public.notifications (user_id, type, actor_id, ping_id, comment_id)
+  SELECT i.mentioned_user_id, 'mention', NEW.user_id, _ping_id, _comment_id
+  FROM inserted i
+  WHERE i.mentioned_user_id <> NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
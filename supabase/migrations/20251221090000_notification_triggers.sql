@@ -0,0 +1,234 @@
+-- Migration for notification triggers: likes, comment likes, reposts, comments, follows and mentions create
+-- notifications, and undoing the action (unlike, unfollow, un-repost, editing a mention away) removes them again.
+-- Deleted pings and comments take their notifications with them through the notifications foreign keys.
+
+-- 1. At most one notification per recipient, actor and source (chat notifications, one per message, excepted).
+-- Existing duplicates are dropped first, keeping the oldest.
+DELETE FROM public.notifications n
+USING public.notifications older
+WHERE n.type <> 'chat'
+  AND older.user_id = n.user_id AND older.type = n.type
+  AND older.actor_id IS NOT DISTINCT FROM n.actor_id
+  AND older.ping_id IS NOT DISTINCT FROM n.ping_id
+  AND older.comment_id IS NOT DISTINCT FROM n.comment_id
+  AND (older.created_at, older.id) < (n.created_at, n.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_unique_source ON public.notifications (
+    user_id,
+    type,
+    coalesce(actor_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    coalesce(ping_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    coalesce(comment_id, '00000000-0000-0000-0000-000000000000'::uuid)
+) WHERE type <> 'chat';
+
+-- 2. Creates a notification unless the recipient caused it themselves or already has it. Only the trigger
+-- functions below call it.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id uuid,
+  _type text,
+  _actor_id uuid,
+  _ping_id uuid DEFAULT NULL,
+  _comment_id uuid DEFAULT NULL,
+  _chat_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    INSERT INTO public.notifications (user_id, type, actor_id, ping_id, comment_id, chat_id)
+    SELECT _user_id, _type, _actor_id, _ping_id, _comment_id, _chat_id
+    WHERE _user_id IS NOT NULL AND _user_id IS DISTINCT FROM _actor_id
+    ON CONFLICT DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(uuid, text, uuid, uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 3. Likes on pings notify the ping's author
+CREATE OR REPLACE FUNCTION public.notify_on_like()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.create_notification((SELECT user_id FROM public.pings WHERE id = NEW.ping_id), 'like', NEW.user_id, NEW.ping_id);
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.notifications
+  WHERE type = 'like' AND actor_id = OLD.user_id AND ping_id = OLD.ping_id AND comment_id IS NULL;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_like_notify ON public.likes;
+CREATE TRIGGER on_like_notify
+AFTER INSERT OR DELETE ON public.likes
+FOR EACH ROW EXECUTE FUNCTION public.notify_on_like();
+
+-- 4. Likes on comments notify the comment's author
+CREATE OR REPLACE FUNCTION public.notify_on_comment_like()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _comment public.comments;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO _comment FROM public.comments WHERE id = NEW.comment_id;
+    PERFORM public.create_notification(_comment.user_id, 'like', NEW.user_id, _comment.ping_id, _comment.id);
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.notifications
+  WHERE type = 'like' AND actor_id = OLD.user_id AND comment_id = OLD.comment_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_like_notify ON public.comment_likes;
+CREATE TRIGGER on_comment_like_notify
+AFTER INSERT OR DELETE ON public.comment_likes
+FOR EACH ROW EXECUTE FUNCTION public.notify_on_comment_like();
+
+-- 5. Reposts notify the ping's author
+CREATE OR REPLACE FUNCTION public.notify_on_repost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.interaction_type = 'REPOST' THEN
+      PERFORM public.create_notification((SELECT user_id FROM public.pings WHERE id = NEW.ping_id), 'repost', NEW.user_id, NEW.ping_id);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.interaction_type = 'REPOST' THEN
+    DELETE FROM public.notifications WHERE type = 'repost' AND actor_id = OLD.user_id AND ping_id = OLD.ping_id;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_repost_notify ON public.ping_interactions;
+CREATE TRIGGER on_repost_notify
+AFTER INSERT OR DELETE ON public.ping_interactions
+FOR EACH ROW EXECUTE FUNCTION public.notify_on_repost();
+
+-- 6. Comments notify the ping's author; deleting the comment removes the notification through comment_id
+CREATE OR REPLACE FUNCTION public.notify_on_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_notification((SELECT user_id FROM public.pings WHERE id = NEW.ping_id), 'comment', NEW.user_id, NEW.ping_id, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_notify ON public.comments;
+CREATE TRIGGER on_comment_notify
+AFTER INSERT ON public.comments
+FOR EACH ROW EXECUTE FUNCTION public.notify_on_comment();
+
+-- 7. Follows notify the followed user
+CREATE OR REPLACE FUNCTION public.notify_on_follow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.create_notification(NEW.followed_id, 'follow', NEW.follower_id);
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.notifications WHERE type = 'follow' AND user_id = OLD.followed_id AND actor_id = OLD.follower_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_follow_notify ON public.follows;
+CREATE TRIGGER on_follow_notify
+AFTER INSERT OR DELETE ON public.follows
+FOR EACH ROW EXECUTE FUNCTION public.notify_on_follow();
+
+-- 8. Mentions notify the mentioned user, following ping_mentions as sync_ping_mentions keeps it up to date with
+-- edits. A ping's author mentioned in a comment on it already gets the comment notification.
+CREATE OR REPLACE FUNCTION public.notify_on_mention()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _author_id uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.comment_id IS NOT NULL THEN
+      SELECT user_id INTO _author_id FROM public.comments WHERE id = NEW.comment_id;
+      IF EXISTS (SELECT 1 FROM public.pings WHERE id = NEW.ping_id AND user_id = NEW.mentioned_user_id) THEN
+        RETURN NEW;
+      END IF;
+    ELSE
+      SELECT user_id INTO _author_id FROM public.pings WHERE id = NEW.ping_id;
+    END IF;
+
+    PERFORM public.create_notification(NEW.mentioned_user_id, 'mention', _author_id, NEW.ping_id, NEW.comment_id);
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.notifications
+  WHERE type = 'mention' AND user_id = OLD.mentioned_user_id AND ping_id = OLD.ping_id
+    AND comment_id IS NOT DISTINCT FROM OLD.comment_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_mention_notify ON public.ping_mentions;
+CREATE TRIGGER on_mention_notify
+AFTER INSERT OR DELETE ON public.ping_mentions
+FOR EACH ROW EXECUTE FUNCTION public.notify_on_mention();
+
+-- 9. sync_ping_mentions goes back to only keeping ping_mentions in sync; the trigger above does the notifying
+CREATE OR REPLACE FUNCTION public.sync_ping_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _ping_id uuid;
+  _comment_id uuid;
+  _mentioned uuid[];
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'comments' THEN
+    _ping_id := NEW.ping_id;
+    _comment_id := NEW.id;
+  ELSE
+    _ping_id := NEW.id;
+    _comment_id := NULL;
+  END IF;
+
+  SELECT coalesce(array_agg(p.id), '{}') INTO _mentioned
+  FROM public.profiles p
+  WHERE lower(p.username) = ANY (public.extract_mentions(NEW.content));
+
+  DELETE FROM public.ping_mentions m
+  WHERE m.ping_id = _ping_id
+    AND m.comment_id IS NOT DISTINCT FROM _comment_id
+    AND NOT (m.mentioned_user_id = ANY (_mentioned));
+
+  INSERT INTO public.ping_mentions (ping_id, comment_id, mentioned_user_id)
+  SELECT _ping_id, _comment_id, unnest(_mentioned)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,72 @@
+-- Migration for notification preferences: users can turn off notification types, only hear from people they
+-- follow, and mute single ping threads. create_notification checks all of it, so notifications a user doesn't
+-- want are never created rather than filtered out on the client.
+
+-- 1. One row of preferences per user; no row means everything is on
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+    user_id uuid PRIMARY KEY DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    disabled_types text[] NOT NULL DEFAULT '{}',
+    only_following boolean NOT NULL DEFAULT false,
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT notification_preferences_types_check
+        CHECK (disabled_types <@ ARRAY['like', 'repost', 'comment', 'mention', 'follow', 'chat'])
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- 2. Pings whose thread a user muted: likes, reposts, comments and mentions on them stop notifying that user
+CREATE TABLE IF NOT EXISTS public.muted_pings (
+    user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    ping_id uuid NOT NULL REFERENCES public.pings(id) ON DELETE CASCADE,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (user_id, ping_id)
+);
+
+ALTER TABLE public.muted_pings ENABLE ROW LEVEL SECURITY;
+
+-- 3. Both are private to their owner
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'notification_preferences' AND policyname = 'Users can manage their own notification preferences.') THEN
+        CREATE POLICY "Users can manage their own notification preferences." ON public.notification_preferences
+        FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'muted_pings' AND policyname = 'Users can manage their own muted pings.') THEN
+        CREATE POLICY "Users can manage their own muted pings." ON public.muted_pings
+        FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+    END IF;
+END
+$$;
+
+-- 4. Same as before, but also skips notifications the recipient turned off, from actors they don't follow when
+-- they asked for that, and about pings they muted
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id uuid,
+  _type text,
+  _actor_id uuid,
+  _ping_id uuid DEFAULT NULL,
+  _comment_id uuid DEFAULT NULL,
+  _chat_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    INSERT INTO public.notifications (user_id, type, actor_id, ping_id, comment_id, chat_id)
+    SELECT _user_id, _type, _actor_id, _ping_id, _comment_id, _chat_id
+    WHERE _user_id IS NOT NULL AND _user_id IS DISTINCT FROM _actor_id
+      AND NOT EXISTS (
+          SELECT 1 FROM public.notification_preferences p
+          WHERE p.user_id = _user_id
+            AND (
+                _type = ANY (p.disabled_types)
+                OR (p.only_following AND NOT EXISTS (
+                    SELECT 1 FROM public.follows f WHERE f.follower_id = _user_id AND f.followed_id = _actor_id
+                ))
+            )
+      )
+      AND NOT EXISTS (SELECT 1 FROM public.muted_pings m WHERE m.user_id = _user_id AND m.ping_id = _ping_id)
+    ON CONFLICT DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(uuid, text, uuid, uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,179 @@
+-- Migration for Web Push: every browser that allows notifications stores its push subscription here, and new
+-- notifications and chat messages ask the 'send-push' edge function to deliver them. The service worker only shows
+-- a push when none of the app's windows on that device is visible, so open tabs keep their in-app updates.
+--
+-- Delivery is switched on by two Vault secrets (nothing is sent without them):
+--   push_sender_url     the function's URL, e.g. https://<project>.supabase.co/functions/v1/send-push
+--   push_sender_secret  shared with the function as PUSH_WEBHOOK_SECRET
+-- For local testing, point push_sender_url at `supabase functions serve` and see supabase/functions/send-push.
+
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- 1. One subscription per browser; the endpoint identifies it
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    endpoint text NOT NULL UNIQUE,
+    p256dh text NOT NULL, -- The browser's public key, base64url
+    auth text NOT NULL, -- The browser's authentication secret, base64url
+    user_agent text,
+    created_at timestamp with time zone DEFAULT now()
+);
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON public.push_subscriptions (user_id);
+
+-- 2. RLS Policies: users see and remove their own devices; saving goes through save_push_subscription
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'push_subscriptions' AND policyname = 'Users can view their own push subscriptions.'
+    ) THEN
+        CREATE POLICY "Users can view their own push subscriptions." ON public.push_subscriptions FOR SELECT USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE tablename = 'push_subscriptions' AND policyname = 'Users can remove their own push subscriptions.'
+    ) THEN
+        CREATE POLICY "Users can remove their own push subscriptions." ON public.push_subscriptions FOR DELETE USING (auth.uid() = user_id);
+    END IF;
+END
+$$;
+
+-- 3. Saves this browser's subscription for the current user. A browser keeps its endpoint across sign-ins, so the
+-- row moves to whoever signed in last instead of pushing the previous user's notifications to them.
+CREATE OR REPLACE FUNCTION public.save_push_subscription(_endpoint text, _p256dh text, _auth text, _user_agent text DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+    VALUES (auth.uid(), _endpoint, _p256dh, _auth, _user_agent)
+    ON CONFLICT (endpoint) DO UPDATE
+    SET user_id = excluded.user_id, p256dh = excluded.p256dh, auth = excluded.auth, user_agent = excluded.user_agent;
+$$;
+
+-- 4. The preference checks from create_notification, shared with pushes for chat messages (which aren't stored
+-- as notifications)
+CREATE OR REPLACE FUNCTION public.wants_notification(_user_id uuid, _type text, _actor_id uuid, _ping_id uuid DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT _user_id IS NOT NULL AND _user_id IS DISTINCT FROM _actor_id
+      AND NOT EXISTS (
+          SELECT 1 FROM public.notification_preferences p
+          WHERE p.user_id = _user_id
+            AND (
+                _type = ANY (p.disabled_types)
+                OR (p.only_following AND NOT EXISTS (
+                    SELECT 1 FROM public.follows f WHERE f.follower_id = _user_id AND f.followed_id = _actor_id
+                ))
+            )
+      )
+      AND NOT EXISTS (SELECT 1 FROM public.muted_pings m WHERE m.user_id = _user_id AND m.ping_id = _ping_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wants_notification(uuid, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id uuid,
+  _type text,
+  _actor_id uuid,
+  _ping_id uuid DEFAULT NULL,
+  _comment_id uuid DEFAULT NULL,
+  _chat_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    INSERT INTO public.notifications (user_id, type, actor_id, ping_id, comment_id, chat_id)
+    SELECT _user_id, _type, _actor_id, _ping_id, _comment_id, _chat_id
+    WHERE public.wants_notification(_user_id, _type, _actor_id, _ping_id)
+    ON CONFLICT DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(uuid, text, uuid, uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 5. Asks the sender to push a notification or message to those of the given users who have a subscription.
+-- pg_net sends the request after the transaction commits, and failures only warn: a push must never stop the
+-- notification or message itself.
+CREATE OR REPLACE FUNCTION public.request_push(_kind text, _id uuid, _user_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _recipients uuid[];
+  _url text;
+  _secret text;
+BEGIN
+  SELECT array_agg(DISTINCT s.user_id) INTO _recipients
+  FROM public.push_subscriptions s
+  WHERE s.user_id = ANY (_user_ids);
+  IF _recipients IS NULL THEN
+    RETURN;
+  END IF;
+
+  BEGIN
+    SELECT decrypted_secret INTO _url FROM vault.decrypted_secrets WHERE name = 'push_sender_url';
+    SELECT decrypted_secret INTO _secret FROM vault.decrypted_secrets WHERE name = 'push_sender_secret';
+    IF _url IS NULL OR _secret IS NULL THEN
+      RETURN;
+    END IF;
+
+    PERFORM net.http_post(
+      url := _url,
+      body := jsonb_build_object('kind', _kind, 'id', _id, 'user_ids', to_jsonb(_recipients)),
+      headers := jsonb_build_object('Content-Type', 'application/json', 'x-push-secret', _secret)
+    );
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'request_push failed: %', SQLERRM;
+  END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_push(text, uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+
+-- 6. New notifications are pushed to their recipient; preferences were applied when they were created
+CREATE OR REPLACE FUNCTION public.push_new_notification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.request_push('notification', NEW.id, ARRAY[NEW.user_id]);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_notification_push ON public.notifications;
+CREATE TRIGGER on_notification_push
+AFTER INSERT ON public.notifications
+FOR EACH ROW EXECUTE FUNCTION public.push_new_notification();
+
+-- 7. New chat messages are pushed to the other participants who want message notifications. System messages
+-- ("Alice added Bob") aren't.
+CREATE OR REPLACE FUNCTION public.push_new_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.message_type <> 'text' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.request_push('message', NEW.id, ARRAY(
+    SELECT cp.user_id FROM public.chat_participants cp
+    WHERE cp.chat_id = NEW.chat_id AND public.wants_notification(cp.user_id, 'chat', NEW.sender_id)
+  ));
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_message_push ON public.messages;
+CREATE TRIGGER on_message_push
+AFTER INSERT ON public.messages
+FOR EACH ROW EXECUTE FUNCTION public.push_new_message();
@@ -0,0 +1,126 @@
+-- Migration for the email digest: users who opt in get a daily or weekly email summing up their unread
+-- notifications and chats. An hourly cron job calls the 'send-digest' edge function, which claims the digests
+-- that are due, renders them and sends them over SMTP.
+--
+-- Like Web Push, the job needs two Vault secrets and does nothing without them:
+--   digest_sender_url     the function's URL, e.g. https://<project>.supabase.co/functions/v1/send-digest
+--   digest_sender_secret  shared with the function as DIGEST_WEBHOOK_SECRET
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- 1. The digest setting, next to the other notification preferences, and when the last digest went out
+ALTER TABLE public.notification_preferences ADD COLUMN IF NOT EXISTS email_digest text NOT NULL DEFAULT 'off';
+ALTER TABLE public.notification_preferences ADD COLUMN IF NOT EXISTS digest_sent_at timestamp with time zone;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'notification_preferences_email_digest_check') THEN
+        ALTER TABLE public.notification_preferences ADD CONSTRAINT notification_preferences_email_digest_check
+        CHECK (email_digest IN ('off', 'daily', 'weekly'));
+    END IF;
+END
+$$;
+
+-- 2. Claims up to _limit digests that are due, stamping them as sent so an overlapping run can't send them twice.
+-- A digest covers everything since the previous one, or one period back for the first. The hour of slack keeps
+-- a daily digest from slipping by a run every day.
+CREATE OR REPLACE FUNCTION public.claim_email_digests(_limit integer DEFAULT 100)
+RETURNS TABLE (user_id uuid, email text, display_name text, frequency text, since timestamp with time zone)
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    WITH due AS (
+        SELECT p.user_id, p.email_digest,
+               coalesce(p.digest_sent_at, now() - CASE p.email_digest WHEN 'daily' THEN interval '1 day' ELSE interval '7 days' END) AS since
+        FROM public.notification_preferences p
+        WHERE p.email_digest <> 'off'
+          AND (
+              p.digest_sent_at IS NULL
+              OR p.digest_sent_at <= now() - CASE p.email_digest WHEN 'daily' THEN interval '23 hours' ELSE interval '6 days 23 hours' END
+          )
+        ORDER BY p.digest_sent_at NULLS FIRST
+        LIMIT _limit
+        FOR UPDATE SKIP LOCKED
+    ), claimed AS (
+        UPDATE public.notification_preferences p
+        SET digest_sent_at = now()
+        FROM due
+        WHERE p.user_id = due.user_id
+        RETURNING p.user_id
+    )
+    SELECT due.user_id, u.email::text, pr.display_name, due.email_digest, due.since
+    FROM due
+    JOIN claimed USING (user_id)
+    JOIN auth.users u ON u.id = due.user_id
+    JOIN public.profiles pr ON pr.id = due.user_id
+    WHERE u.email IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_digests(integer) FROM PUBLIC, anon, authenticated;
+
+-- 3. A user's chats with messages from others that arrived since _since and are still unread, going by
+-- chat_participants.last_read_at. Direct chats are named after the other participant. Message content is left
+-- out on purpose: the digest only says who wrote and how much.
+CREATE OR REPLACE FUNCTION public.digest_unread_chats(_user_id uuid, _since timestamp with time zone)
+RETURNS TABLE (chat_id uuid, chat_name text, is_group_chat boolean, unread_count bigint, last_message_at timestamp with time zone)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT c.id,
+           CASE WHEN c.is_group_chat THEN c.chat_name ELSE (
+               SELECT pr.display_name
+               FROM public.chat_participants other
+               JOIN public.profiles pr ON pr.id = other.user_id
+               WHERE other.chat_id = c.id AND other.user_id <> _user_id
+               LIMIT 1
+           ) END,
+           c.is_group_chat,
+           count(m.id),
+           max(m.created_at)
+    FROM public.chat_participants cp
+    JOIN public.chats c ON c.id = cp.chat_id
+    JOIN public.messages m ON m.chat_id = cp.chat_id
+    WHERE cp.user_id = _user_id
+      AND m.message_type = 'text'
+      AND m.deleted_at IS NULL
+      AND m.sender_id IS DISTINCT FROM _user_id
+      AND m.created_at > coalesce(cp.last_read_at, '-infinity')
+    GROUP BY c.id
+    HAVING max(m.created_at) > _since
+    ORDER BY max(m.created_at) DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.digest_unread_chats(uuid, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+
+-- 4. Asks the sender to work through the due digests; failures only warn, the next run picks them up
+CREATE OR REPLACE FUNCTION public.request_email_digests()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _url text;
+  _secret text;
+BEGIN
+  SELECT decrypted_secret INTO _url FROM vault.decrypted_secrets WHERE name = 'digest_sender_url';
+  SELECT decrypted_secret INTO _secret FROM vault.decrypted_secrets WHERE name = 'digest_sender_secret';
+  IF _url IS NULL OR _secret IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := _url,
+    body := '{}'::jsonb,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'x-digest-secret', _secret),
+    timeout_milliseconds := 60000
+  );
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'request_email_digests failed: %', SQLERRM;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_email_digests() FROM PUBLIC, anon, authenticated;
+
+-- 5. Hourly; each run only sends the digests that are due. Scheduling under the same name replaces the job.
+SELECT cron.schedule('email-digest', '0 * * * *', 'SELECT public.request_email_digests()');
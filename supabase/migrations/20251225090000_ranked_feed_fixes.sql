@@ -0,0 +1,46 @@
+-- Migration fixing the ranked "For You" feed.
+-- rank_score counted likes, comments and reposts under the caller's RLS, and the likes policy only shows users
+-- their own likes, so every viewer saw pings ranked by their own engagement. And get_ranked_feed scored every
+-- ping ever posted on every page request.
+
+-- 1. Engagement counts see every row. Only counts leave the function, never the rows themselves.
+CREATE OR REPLACE FUNCTION public.rank_score(p public.pings)
+RETURNS double precision
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public, pg_temp
+AS $$
+    SELECT log(greatest(1,
+               (SELECT count(*) FROM public.likes l WHERE l.ping_id = p.id)
+             + (SELECT count(*) FROM public.comments c WHERE c.ping_id = p.id) * 2
+             + (SELECT count(*) FROM public.ping_interactions i WHERE i.ping_id = p.id AND i.interaction_type = 'REPOST') * 3
+             + coalesce(p.views, 0) / 10.0
+           ))
+         + extract(epoch FROM p.created_at) / 45000;
+$$;
+
+-- 2. Only pings from the last 7 days are ranked; idx_pings_created_at_id_desc narrows the scan to them, so the
+-- work per page grows with recent activity instead of the whole table. Older pings stay in the 'latest' feed.
+-- Scores move as engagement comes in, so a ping can cross the cursor between two page requests: it may then be
+-- skipped or show up twice, and the client drops repeats when appending a page.
+CREATE OR REPLACE FUNCTION public.get_ranked_feed(
+    _after_score double precision DEFAULT NULL,
+    _after_id uuid DEFAULT NULL,
+    _limit integer DEFAULT 20
+)
+RETURNS SETOF public.pings
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT p.*
+    FROM public.pings p
+    WHERE p.created_at > now() - interval '7 days'
+      AND (
+          _after_score IS NULL
+          OR public.rank_score(p) < _after_score
+          OR (public.rank_score(p) = _after_score AND p.id < _after_id)
+      )
+    ORDER BY public.rank_score(p) DESC, p.id DESC
+    LIMIT _limit;
+$$;
@@ -0,0 +1,13 @@
+-- Migration publishing ping_media to Realtime.
+-- The home feed listens for ping_media inserts to show attachments of pings that arrive live, but the table was
+-- never added to the publication, so those events were never sent.
+
+-- 1. Enable Realtime for attachments
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'ping_media') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.ping_media;
+    END IF;
+END
+$$;
@@ -0,0 +1,39 @@
+-- Migration making chat typing indicators private to the chat's members.
+-- The typing channel was a public Realtime channel: anyone who knew a chat's id could join it, see who is typing
+-- and show up as typing themselves. The app now joins it as a private channel, and Realtime Authorization (RLS on
+-- realtime.messages) only lets the chat's members in.
+
+-- 1. Whether the current user may use a typing channel, 'typing:<chat id>'
+CREATE OR REPLACE FUNCTION public.can_use_typing_channel(_topic text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN _topic ~ '^typing:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+            THEN public.is_chat_member(substring(_topic FROM 8)::uuid)
+        ELSE false
+    END;
+$$;
+
+-- 2. Members can see and send presence on the typing channels of their chats
+DO $$
+BEGIN
+    IF to_regclass('realtime.messages') IS NOT NULL THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_policies WHERE schemaname = 'realtime' AND tablename = 'messages' AND policyname = 'Members can see who is typing in their chats.'
+        ) THEN
+            CREATE POLICY "Members can see who is typing in their chats." ON realtime.messages FOR SELECT TO authenticated
+            USING (realtime.messages.extension = 'presence' AND public.can_use_typing_channel(realtime.topic()));
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_policies WHERE schemaname = 'realtime' AND tablename = 'messages' AND policyname = 'Members can type in their chats.'
+        ) THEN
+            CREATE POLICY "Members can type in their chats." ON realtime.messages FOR INSERT TO authenticated
+            WITH CHECK (realtime.messages.extension = 'presence' AND public.can_use_typing_channel(realtime.topic()));
+        END IF;
+    END IF;
+END
+$$;
@@ -0,0 +1,47 @@
+-- Migration closing the plaintext gap in message edits.
+-- enforce_chat_encryption only checks new messages, and edit_chat_message stored whatever content it was given,
+-- so an edit could put plaintext into an encrypted chat: either as the new content of an encrypted message, or by
+-- editing a message that was sent before encryption was turned on.
+
+-- 1. Edits say whether their content is an envelope, like send_chat_message. Both the message and the edit must
+-- match the chat's current setting, so plaintext messages can't be edited once the chat is encrypted.
+DROP FUNCTION IF EXISTS public.edit_chat_message(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.edit_chat_message(_message_id uuid, _content text, _is_encrypted boolean DEFAULT false)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _message public.messages;
+  _chat_encrypted boolean;
+BEGIN
+  SELECT * INTO _message FROM public.messages WHERE id = _message_id;
+
+  IF _message.id IS NULL OR _message.sender_id IS DISTINCT FROM auth.uid() OR _message.message_type <> 'text' THEN
+    RAISE EXCEPTION 'You can only edit your own messages.';
+  END IF;
+  IF _message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be edited.';
+  END IF;
+  IF _message.created_at < now() - interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited for 15 minutes after sending.';
+  END IF;
+  IF coalesce(btrim(_content), '') = '' AND NOT EXISTS (SELECT 1 FROM public.message_attachments WHERE message_id = _message_id) THEN
+    RAISE EXCEPTION 'A message needs text or an attachment.';
+  END IF;
+
+  SELECT is_encrypted INTO _chat_encrypted FROM public.chats WHERE id = _message.chat_id;
+  IF _message.is_encrypted <> _chat_encrypted THEN
+    RAISE EXCEPTION 'Messages sent before encryption was turned % cannot be edited.', CASE WHEN _chat_encrypted THEN 'on' ELSE 'off' END;
+  END IF;
+  IF _chat_encrypted AND NOT _is_encrypted THEN
+    RAISE EXCEPTION 'This chat is end-to-end encrypted; messages must be encrypted.';
+  END IF;
+  IF _is_encrypted AND NOT _chat_encrypted THEN
+    RAISE EXCEPTION 'This chat is no longer end-to-end encrypted.';
+  END IF;
+
+  UPDATE public.messages SET content = _content, edited_at = now() WHERE id = _message_id;
+END;
+$$;
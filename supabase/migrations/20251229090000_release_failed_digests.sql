@@ -0,0 +1,63 @@
+-- Migration: a digest that fails to send is handed back instead of being skipped until the next period.
+-- claim_email_digests still stamps digest_sent_at up front so overlapping runs can't send twice, but it now also
+-- returns the stamp it replaced, and the 'send-digest' function restores that stamp when sending fails. The
+-- digest is then due again and the next hourly run retries it.
+
+-- 1. Same claim as before, plus the previous stamp and the new one. The return type changes, so drop it first.
+DROP FUNCTION IF EXISTS public.claim_email_digests(integer);
+
+CREATE FUNCTION public.claim_email_digests(_limit integer DEFAULT 100)
+RETURNS TABLE (
+    user_id uuid,
+    email text,
+    display_name text,
+    frequency text,
+    since timestamp with time zone,
+    previous_sent_at timestamp with time zone,
+    claimed_at timestamp with time zone
+)
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    WITH due AS (
+        SELECT p.user_id, p.email_digest, p.digest_sent_at AS previous_sent_at,
+               coalesce(p.digest_sent_at, now() - CASE p.email_digest WHEN 'daily' THEN interval '1 day' ELSE interval '7 days' END) AS since
+        FROM public.notification_preferences p
+        WHERE p.email_digest <> 'off'
+          AND (
+              p.digest_sent_at IS NULL
+              OR p.digest_sent_at <= now() - CASE p.email_digest WHEN 'daily' THEN interval '23 hours' ELSE interval '6 days 23 hours' END
+          )
+        ORDER BY p.digest_sent_at NULLS FIRST
+        LIMIT _limit
+        FOR UPDATE SKIP LOCKED
+    ), claimed AS (
+        UPDATE public.notification_preferences p
+        SET digest_sent_at = now()
+        FROM due
+        WHERE p.user_id = due.user_id
+        RETURNING p.user_id, p.digest_sent_at
+    )
+    SELECT due.user_id, u.email::text, pr.display_name, due.email_digest, due.since, due.previous_sent_at, claimed.digest_sent_at
+    FROM due
+    JOIN claimed USING (user_id)
+    JOIN auth.users u ON u.id = due.user_id
+    JOIN public.profiles pr ON pr.id = due.user_id
+    WHERE u.email IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_digests(integer) FROM PUBLIC, anon, authenticated;
+
+-- 2. Undoes a claim whose digest could not be sent. Only while the stamp is still the one the claim set, so a
+-- release can't overwrite a later successful run.
+CREATE OR REPLACE FUNCTION public.release_email_digest(_user_id uuid, _claimed_at timestamp with time zone, _previous_sent_at timestamp with time zone)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+    UPDATE public.notification_preferences
+    SET digest_sent_at = _previous_sent_at
+    WHERE user_id = _user_id AND digest_sent_at = _claimed_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_email_digest(uuid, timestamp with time zone, timestamp with time zone) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,10 @@
+-- Migration closing direct updates of chat_participants.
+-- The "update your own row" policy let a user change chat_id on their row and so move themselves into any chat,
+-- which is_chat_member then trusted for messages and attachments. Nothing needs the policy: read and delivery
+-- positions are written by mark_chat_read and mark_chats_delivered, roles and membership by the chat RPCs, all
+-- SECURITY DEFINER.
+
+-- 1. Drop the policy, and the privilege as well so a future policy can't bring the hole back by accident
+DROP POLICY IF EXISTS "Users can update their own chat participation." ON public.chat_participants;
+
+REVOKE UPDATE ON public.chat_participants FROM anon, authenticated;
@@ -0,0 +1,25 @@
+-- Migration making online presence private to signed-in users.
+-- 'presence:online' was a public Realtime channel, so anyone with the anon key could join it, list who is online
+-- and track any user id as online. The app now joins it as a private channel like the typing channels, and
+-- Realtime Authorization (RLS on realtime.messages) only lets authenticated users see or track presence there.
+
+-- 1. Signed-in users can see who is online and show themselves
+DO $$
+BEGIN
+    IF to_regclass('realtime.messages') IS NOT NULL THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_policies WHERE schemaname = 'realtime' AND tablename = 'messages' AND policyname = 'Signed-in users can see who is online.'
+        ) THEN
+            CREATE POLICY "Signed-in users can see who is online." ON realtime.messages FOR SELECT TO authenticated
+            USING (realtime.messages.extension = 'presence' AND realtime.topic() = 'presence:online');
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_policies WHERE schemaname = 'realtime' AND tablename = 'messages' AND policyname = 'Signed-in users can show they are online.'
+        ) THEN
+            CREATE POLICY "Signed-in users can show they are online." ON realtime.messages FOR INSERT TO authenticated
+            WITH CHECK (realtime.messages.extension = 'presence' AND realtime.topic() = 'presence:online' AND auth.uid() IS NOT NULL);
+        END IF;
+    END IF;
+END
+$$;
@@ -0,0 +1,134 @@
+-- Migration making hashtags and mentions mean the same thing in the database as in the app.
+-- In Postgres regular expressions \w also matches non-ASCII letters, while the app's /\w/ is ASCII only, so
+-- '#café' was stored as the tag 'café' but shown as a link to '#caf'. Tags and usernames are now read with an
+-- explicit ASCII class on both sides.
+
+-- 1. Extracts the distinct lowercase tags from ping content (same #[A-Za-z0-9_]+ pattern as src/lib/markdown.ts)
+CREATE OR REPLACE FUNCTION public.extract_hashtags(_content text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT coalesce(array_agg(DISTINCT lower(m[1])), '{}')
+    FROM regexp_matches(coalesce(_content, ''), '#([A-Za-z0-9_]+)', 'g') AS m;
+$$;
+
+-- 2. Extracts the distinct lowercase usernames mentioned in a text (same @[A-Za-z0-9_]+ pattern as src/lib/markdown.ts)
+CREATE OR REPLACE FUNCTION public.extract_mentions(_content text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT coalesce(array_agg(DISTINCT lower(m[1])), '{}')
+    FROM regexp_matches(coalesce(_content, ''), '@([A-Za-z0-9_]+)', 'g') AS m;
+$$;
+
+-- 3. Re-tag the pings whose tags ran into non-ASCII letters. Dropping those tags removes their ping_hashtags rows.
+DELETE FROM public.hashtags WHERE name !~ '^[a-z0-9_]+$';
+
+INSERT INTO public.hashtags (name)
+SELECT DISTINCT unnest(public.extract_hashtags(p.content))
+FROM public.pings p
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.ping_hashtags (ping_id, hashtag_id, created_at)
+SELECT p.id, h.id, p.created_at
+FROM public.pings p
+CROSS JOIN LATERAL unnest(public.extract_hashtags(p.content)) AS tag(name)
+JOIN public.hashtags h ON h.name = tag.name
+ON CONFLICT (ping_id, hashtag_id) DO NOTHING;
+
+-- 4. Re-resolve mentions: '@anaé' used to look for the user 'anaé' and now mentions 'ana'. Mentions that no
+-- longer match are dropped and new ones added without notifying anyone, like the original backfill.
+DELETE FROM public.ping_mentions m
+USING public.profiles pr
+WHERE pr.id = m.mentioned_user_id
+  AND NOT (lower(pr.username) = ANY (public.extract_mentions(CASE
+      WHEN m.comment_id IS NULL THEN (SELECT p.content FROM public.pings p WHERE p.id = m.ping_id)
+      ELSE (SELECT c.content FROM public.comments c WHERE c.id = m.comment_id)
+  END)));
+
+INSERT INTO public.ping_mentions (ping_id, comment_id, mentioned_user_id, created_at)
+SELECT pi.id, NULL, pr.id, pi.created_at
+FROM public.pings pi
+JOIN public.profiles pr ON lower(pr.username) = ANY (public.extract_mentions(pi.content))
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.ping_mentions (ping_id, comment_id, mentioned_user_id, created_at)
+SELECT c.ping_id, c.id, pr.id, c.created_at
+FROM public.comments c
+JOIN public.profiles pr ON lower(pr.username) = ANY (public.extract_mentions(c.content))
+ON CONFLICT DO NOTHING;
+
+-- 5. Hashtag search counts the tags extract_hashtags finds, instead of its own copy of the pattern
+CREATE OR REPLACE FUNCTION public.search(
+    _query text,
+    _type text,
+    _limit integer DEFAULT 20,
+    _offset integer DEFAULT 0
+)
+RETURNS TABLE (result_id text, rank real, snippet text)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    _tsquery tsquery := public.to_prefix_tsquery(_query);
+    _headline_options text := 'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+    IF numnode(_tsquery) = 0 THEN
+        RETURN;
+    END IF;
+
+    IF _type = 'pings' THEN
+        RETURN QUERY
+        WITH ranked AS (
+            SELECT p.id, p.content, p.created_at, ts_rank_cd(p.search_vector, _tsquery) AS score
+            FROM public.pings p
+            WHERE p.search_vector @@ _tsquery
+            ORDER BY score DESC, p.created_at DESC, p.id DESC
+            LIMIT _limit OFFSET _offset
+        )
+        SELECT r.id::text, r.score::real, ts_headline('simple', r.content, _tsquery, _headline_options)
+        FROM ranked r
+        ORDER BY r.score DESC, r.created_at DESC, r.id DESC;
+
+    ELSIF _type = 'users' THEN
+        RETURN QUERY
+        WITH ranked AS (
+            SELECT pr.id, pr.username, pr.display_name, pr.bio,
+                   -- An exact username match always comes first
+                   ts_rank(pr.search_vector, _tsquery)
+                 + CASE WHEN lower(pr.username) = lower(ltrim(trim(_query), '@')) THEN 1 ELSE 0 END AS score
+            FROM public.profiles pr
+            WHERE pr.search_vector @@ _tsquery
+            ORDER BY score DESC, pr.username
+            LIMIT _limit OFFSET _offset
+        )
+        SELECT r.id::text, r.score::real, ts_headline('simple', coalesce(nullif(r.bio, ''), r.display_name), _tsquery, _headline_options)
+        FROM ranked r
+        ORDER BY r.score DESC, r.username;
+
+    ELSIF _type = 'hashtags' THEN
+        -- Ranked by how many matching pings use the tag
+        RETURN QUERY
+        WITH tags AS (
+            SELECT m.tag, count(*) AS uses
+            FROM public.pings p
+            CROSS JOIN LATERAL unnest(public.extract_hashtags(p.content)) AS m(tag)
+            WHERE p.search_vector @@ _tsquery
+            GROUP BY m.tag
+        )
+        SELECT t.tag, t.uses::real, ts_headline('simple', t.tag, _tsquery, _headline_options)
+        FROM tags t
+        WHERE to_tsvector('simple', t.tag) @@ _tsquery
+        ORDER BY t.uses DESC, t.tag
+        LIMIT _limit OFFSET _offset;
+
+    ELSE
+        RAISE EXCEPTION 'Unknown search type: %', _type;
+    END IF;
+END;
+$$;
@@ -0,0 +1,108 @@
+-- Tests for the notification triggers (see the notification triggers migration): every action creates exactly one
+-- notification for the right person, self-actions create none, and undoing an action removes its notification.
+-- Run with `supabase test db`; everything happens in one transaction that is rolled back.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(22);
+
+-- Ana acts on Bob's ping; profiles are created by the on_auth_user_created trigger
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+    ('a0000000-0000-0000-0000-00000000000a', 'ana@example.test', '{"username": "ana_test", "display_name": "Ana"}'),
+    ('b0000000-0000-0000-0000-00000000000b', 'bob@example.test', '{"username": "bob_test", "display_name": "Bob"}');
+
+INSERT INTO public.pings (id, user_id, content) VALUES
+    ('c0000000-0000-0000-0000-00000000000c', 'b0000000-0000-0000-0000-00000000000b', 'Bob''s ping');
+
+-- Notifications of one type for a user, optionally only those of one actor
+CREATE FUNCTION pg_temp.notification_count(_user_id uuid, _type text, _actor_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE sql
+AS $$
+    SELECT count(*)::integer FROM public.notifications
+    WHERE user_id = _user_id AND type = _type AND (_actor_id IS NULL OR actor_id = _actor_id);
+$$;
+
+-- Likes
+INSERT INTO public.likes (ping_id, user_id) VALUES ('c0000000-0000-0000-0000-00000000000c', 'a0000000-0000-0000-0000-00000000000a');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'like'), 1, 'a like notifies the ping''s author once');
+
+INSERT INTO public.likes (ping_id, user_id) VALUES ('c0000000-0000-0000-0000-00000000000c', 'b0000000-0000-0000-0000-00000000000b');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'like'), 1, 'liking your own ping notifies no one');
+
+SELECT public.create_notification(
+    'b0000000-0000-0000-0000-00000000000b', 'like', 'a0000000-0000-0000-0000-00000000000a', 'c0000000-0000-0000-0000-00000000000c'
+);
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'like'), 1, 'a repeated like notification is dropped');
+
+DELETE FROM public.likes WHERE user_id = 'a0000000-0000-0000-0000-00000000000a';
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'like'), 0, 'unliking removes the notification');
+
+INSERT INTO public.likes (ping_id, user_id) VALUES ('c0000000-0000-0000-0000-00000000000c', 'a0000000-0000-0000-0000-00000000000a');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'like'), 1, 'liking again notifies once again');
+
+-- Reposts
+INSERT INTO public.ping_interactions (ping_id, user_id, interaction_type) VALUES
+    ('c0000000-0000-0000-0000-00000000000c', 'a0000000-0000-0000-0000-00000000000a', 'REPOST'),
+    ('c0000000-0000-0000-0000-00000000000c', 'b0000000-0000-0000-0000-00000000000b', 'REPOST');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'repost'), 1, 'a repost notifies the ping''s author once, a self-repost not at all');
+
+INSERT INTO public.ping_interactions (ping_id, user_id, interaction_type) VALUES
+    ('c0000000-0000-0000-0000-00000000000c', 'a0000000-0000-0000-0000-00000000000a', 'LIKE');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'repost'), 1, 'other interactions are not reposts');
+
+DELETE FROM public.ping_interactions WHERE user_id = 'a0000000-0000-0000-0000-00000000000a' AND interaction_type = 'REPOST';
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'repost'), 0, 'un-reposting removes the notification');
+
+-- Comments and comment likes
+INSERT INTO public.comments (id, ping_id, user_id, content) VALUES
+    ('d0000000-0000-0000-0000-00000000000d', 'c0000000-0000-0000-0000-00000000000c', 'a0000000-0000-0000-0000-00000000000a', 'Nice one'),
+    ('e0000000-0000-0000-0000-00000000000e', 'c0000000-0000-0000-0000-00000000000c', 'b0000000-0000-0000-0000-00000000000b', 'Thanks');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'comment'), 1, 'a comment notifies the ping''s author once, a self-comment not at all');
+
+INSERT INTO public.comment_likes (comment_id, user_id) VALUES
+    ('d0000000-0000-0000-0000-00000000000d', 'b0000000-0000-0000-0000-00000000000b'),
+    ('e0000000-0000-0000-0000-00000000000e', 'b0000000-0000-0000-0000-00000000000b');
+SELECT is(pg_temp.notification_count('a0000000-0000-0000-0000-00000000000a', 'like'), 1, 'a comment like notifies the comment''s author once');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'like', 'b0000000-0000-0000-0000-00000000000b'), 0, 'liking your own comment notifies no one');
+
+DELETE FROM public.comment_likes WHERE comment_id = 'd0000000-0000-0000-0000-00000000000d';
+SELECT is(pg_temp.notification_count('a0000000-0000-0000-0000-00000000000a', 'like'), 0, 'unliking a comment removes the notification');
+
+DELETE FROM public.comments WHERE id = 'd0000000-0000-0000-0000-00000000000d';
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'comment'), 0, 'deleting a comment removes its notification');
+
+-- Follows
+INSERT INTO public.follows (follower_id, followed_id) VALUES ('a0000000-0000-0000-0000-00000000000a', 'b0000000-0000-0000-0000-00000000000b');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'follow'), 1, 'a follow notifies the followed user once');
+
+DELETE FROM public.follows WHERE follower_id = 'a0000000-0000-0000-0000-00000000000a';
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'follow'), 0, 'unfollowing removes the notification');
+
+-- Mentions, kept in sync with edits by sync_ping_mentions
+INSERT INTO public.pings (id, user_id, content) VALUES
+    ('f0000000-0000-0000-0000-00000000000f', 'a0000000-0000-0000-0000-00000000000a', 'Hi @bob_test and @BOB_TEST'),
+    ('f1000000-0000-0000-0000-0000000000f1', 'b0000000-0000-0000-0000-00000000000b', 'Note to self @bob_test');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'mention'), 1, 'a mention notifies the mentioned user once, a self-mention not at all');
+
+UPDATE public.pings SET content = 'Hi @bob_test, edited' WHERE id = 'f0000000-0000-0000-0000-00000000000f';
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'mention'), 1, 'an edit that keeps the mention keeps its notification');
+
+UPDATE public.pings SET content = 'Hi everyone' WHERE id = 'f0000000-0000-0000-0000-00000000000f';
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'mention'), 0, 'editing the mention away removes the notification');
+
+INSERT INTO public.comments (id, ping_id, user_id, content) VALUES
+    ('d1000000-0000-0000-0000-0000000000d1', 'c0000000-0000-0000-0000-00000000000c', 'a0000000-0000-0000-0000-00000000000a', '@bob_test look');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'comment'), 1, 'a comment mentioning the ping''s author notifies them of the comment');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'mention'), 0, '...and not of the mention as well');
+
+INSERT INTO public.comments (id, ping_id, user_id, content) VALUES
+    ('d2000000-0000-0000-0000-0000000000d2', 'f0000000-0000-0000-0000-00000000000f', 'a0000000-0000-0000-0000-00000000000a', 'Also @bob_test');
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'mention'), 1, 'a mention in a comment notifies the mentioned user once');
+
+UPDATE public.comments SET content = 'Also nobody' WHERE id = 'd2000000-0000-0000-0000-0000000000d2';
+SELECT is(pg_temp.notification_count('b0000000-0000-0000-0000-00000000000b', 'mention'), 0, 'editing the mention out of a comment removes the notification');
+
+SELECT * FROM finish();
+ROLLBACK;